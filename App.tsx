@@ -1,31 +1,63 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Toaster, toast } from 'react-hot-toast';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import { FileSystemProvider, useFileSystem } from './contexts/FileSystemContext';
 import { AdminDashboard } from './components/AdminDashboard';
 import { DriveView } from './components/DriveView';
 import { TransferManager } from './components/TransferManager';
+import { AccountSettings, ChangePasswordForm } from './components/AccountSettings';
+import { TwoFactorSettings } from './components/TwoFactorSettings';
+import { TrashView } from './components/TrashView';
+import { ConflictDialog } from './components/ConflictDialog';
+import { TagList } from './components/TagList';
+import { FilePreview } from './components/FilePreview';
 import { Icon } from './components/Icon';
 import { UserRole, FileNode } from './types';
 import { formatBytes } from './utils/format';
+import { API_BASE_URL } from './constants';
 
 const LoginScreen = () => {
-  const { login } = useAuth();
+  const { login, verifyTwoFactor } = useAuth();
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
+  // Set after a correct password when the account has 2FA enabled
+  const [challenge, setChallenge] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
 
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (await login(email, password)) {
+    const result = await login(email, password);
+    if (result.success) {
       setError('');
+    } else if (result.twoFactorChallenge) {
+      setError('');
+      setChallenge(result.twoFactorChallenge);
     } else {
-      const msg = 'Email atau password belum terdaftar';
+      const msg = result.error || 'Email atau password belum terdaftar';
       setError(msg);
       toast.error(msg);
     }
   };
 
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = await verifyTwoFactor(challenge!, code);
+    if (!result.success) {
+      setError(result.error || 'Invalid verification code');
+      setCode('');
+    }
+  };
+
+  const backToPassword = () => {
+    setChallenge(null);
+    setCode('');
+    setPassword('');
+    setUseRecoveryCode(false);
+    setError('');
+  };
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-100 p-4">
       <div className="bg-white p-8 rounded-xl shadow-lg w-full max-w-md">
@@ -33,33 +65,223 @@ const LoginScreen = () => {
           <Icon name="cloud" />
         </div>
         <h1 className="text-2xl font-bold text-center mb-1 text-gray-800">FluxLocal Storage</h1>
-        <p className="text-center text-gray-500 mb-8 text-sm">Sign in to your account</p>
+        <p className="text-center text-gray-500 mb-8 text-sm">
+          {challenge
+            ? (useRecoveryCode ? 'Enter one of your recovery codes' : 'Enter the code from your authenticator app')
+            : 'Sign in to your account'}
+        </p>
 
         {error && <div className="bg-red-50 text-red-600 p-3 rounded mb-4 text-sm text-center">{error}</div>}
 
-        <form onSubmit={handleLogin} className="space-y-4">
-          <div>
-            <label className="block text-sm font-medium text-gray-700">Email Address</label>
-            <input
-              type="email"
-              value={email}
-              onChange={e => setEmail(e.target.value)}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm border p-2 focus:border-brand-500 focus:ring-brand-500"
-            />
-          </div>
-          <div>
-            <label className="block text-sm font-medium text-gray-700">Password</label>
-            <input
-              type="password"
-              value={password}
-              onChange={e => setPassword(e.target.value)}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm border p-2 focus:border-brand-500 focus:ring-brand-500"
-            />
-          </div>
-          <button type="submit" className="w-full bg-brand-600 text-white py-2 rounded-md hover:bg-brand-700 transition">
-            Sign In
+        {challenge ? (
+          <form onSubmit={handleVerify} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">
+                {useRecoveryCode ? 'Recovery Code' : 'Verification Code'}
+              </label>
+              <input
+                type="text"
+                value={code}
+                onChange={e => setCode(e.target.value)}
+                inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                autoComplete="one-time-code"
+                placeholder={useRecoveryCode ? 'xxxx-xxxx-xxxx' : '123456'}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm border p-2 focus:border-brand-500 focus:ring-brand-500 tracking-widest text-center"
+                autoFocus
+              />
+            </div>
+            <button type="submit" className="w-full bg-brand-600 text-white py-2 rounded-md hover:bg-brand-700 transition">
+              Verify
+            </button>
+            <div className="flex justify-between text-sm">
+              <button type="button" onClick={backToPassword} className="text-gray-500 hover:text-gray-700">
+                Back
+              </button>
+              <button
+                type="button"
+                onClick={() => { setUseRecoveryCode(!useRecoveryCode); setCode(''); setError(''); }}
+                className="text-brand-600 hover:text-brand-700"
+              >
+                {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+              </button>
+            </div>
+          </form>
+        ) : (
+          <form onSubmit={handleLogin} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Email Address</label>
+              <input
+                type="email"
+                value={email}
+                onChange={e => setEmail(e.target.value)}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm border p-2 focus:border-brand-500 focus:ring-brand-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Password</label>
+              <input
+                type="password"
+                value={password}
+                onChange={e => setPassword(e.target.value)}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm border p-2 focus:border-brand-500 focus:ring-brand-500"
+              />
+            </div>
+            <button type="submit" className="w-full bg-brand-600 text-white py-2 rounded-md hover:bg-brand-700 transition">
+              Sign In
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const ResetPasswordScreen: React.FC<{ token: string, onDone: () => void }> = ({ token, onDone }) => {
+  const [email, setEmail] = useState<string | null>(null);
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isValid, setIsValid] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    fetch(`${API_BASE_URL}/api/password-reset/verify`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token })
+    })
+      .then(async response => {
+        const data = await response.json();
+        if (response.ok) {
+          setEmail(data.email);
+          setIsValid(true);
+        } else {
+          setError(data.error);
+          setIsValid(false);
+        }
+      })
+      .catch(() => {
+        setError('Network error');
+        setIsValid(false);
+      });
+  }, [token]);
+
+  const handleReset = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newPassword !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/password-reset/confirm`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, newPassword })
+      });
+      const data = await response.json();
+      if (response.ok) {
+        toast.success('Password updated. You can now sign in.');
+        onDone();
+      } else {
+        setError(data.error || 'Failed to reset password');
+      }
+    } catch (error) {
+      setError('Network error');
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-100 p-4">
+      <div className="bg-white p-8 rounded-xl shadow-lg w-full max-w-md">
+        <div className="flex justify-center mb-6 text-brand-600 text-5xl">
+          <Icon name="key" />
+        </div>
+        <h1 className="text-2xl font-bold text-center mb-1 text-gray-800">Reset Password</h1>
+        <p className="text-center text-gray-500 mb-8 text-sm">{email || 'Choose a new password'}</p>
+
+        {error && <div className="bg-red-50 text-red-600 p-3 rounded mb-4 text-sm text-center">{error}</div>}
+
+        {isValid ? (
+          <form onSubmit={handleReset} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700">New Password</label>
+              <input
+                type="password"
+                value={newPassword}
+                onChange={e => setNewPassword(e.target.value)}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm border p-2 focus:border-brand-500 focus:ring-brand-500"
+              />
+              <p className="text-xs text-gray-400 mt-1">At least 8 characters, with letters and numbers.</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700">Confirm Password</label>
+              <input
+                type="password"
+                value={confirmPassword}
+                onChange={e => setConfirmPassword(e.target.value)}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm border p-2 focus:border-brand-500 focus:ring-brand-500"
+              />
+            </div>
+            <button type="submit" className="w-full bg-brand-600 text-white py-2 rounded-md hover:bg-brand-700 transition">
+              Set New Password
+            </button>
+          </form>
+        ) : isValid === false ? (
+          <button onClick={onDone} className="w-full bg-brand-600 text-white py-2 rounded-md hover:bg-brand-700 transition">
+            Back to Sign In
           </button>
-        </form>
+        ) : (
+          <div className="flex justify-center text-brand-500 text-2xl">
+            <Icon name="spinner" className="animate-spin" />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Shown instead of the app while the password predates the strength rules; the server refuses
+// everything else until it is changed
+const PasswordChangeScreen = () => {
+  const { user, logout } = useAuth();
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-100 p-4">
+      <div className="bg-white p-8 rounded-xl shadow-lg w-full max-w-lg">
+        <div className="flex justify-center mb-6 text-brand-600 text-5xl">
+          <Icon name="key" />
+        </div>
+        <h1 className="text-2xl font-bold text-center mb-1 text-gray-800">Choose a new password</h1>
+        <p className="text-center text-gray-500 mb-8 text-sm">
+          The password of {user?.email} does not meet the current password rules.
+        </p>
+        <ChangePasswordForm />
+        <button onClick={logout} className="mt-8 text-xs text-red-500 hover:text-red-700 flex items-center gap-2">
+          <Icon name="sign-out-alt" /> Sign Out
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// Shown instead of the app while the admin 2FA policy blocks every other API call
+const TwoFactorSetupScreen = () => {
+  const { user, logout } = useAuth();
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-100 p-4">
+      <div className="bg-white p-8 rounded-xl shadow-lg w-full max-w-lg">
+        <div className="flex justify-center mb-6 text-brand-600 text-5xl">
+          <Icon name="shield-alt" />
+        </div>
+        <h1 className="text-2xl font-bold text-center mb-1 text-gray-800">Secure your account</h1>
+        <p className="text-center text-gray-500 mb-8 text-sm">
+          {user?.email} must set up two-factor authentication before continuing.
+        </p>
+        <TwoFactorSettings />
+        <button onClick={logout} className="mt-8 text-xs text-red-500 hover:text-red-700 flex items-center gap-2">
+          <Icon name="sign-out-alt" /> Sign Out
+        </button>
       </div>
     </div>
   );
@@ -67,15 +289,21 @@ const LoginScreen = () => {
 
 const MainLayout = () => {
   const { user, logout } = useAuth();
-  const { usedStorage } = useFileSystem();
-  const [view, setView] = useState<'drive' | 'admin' | 'shared'>('drive');
+  const { usedStorage, activeTagId, setActiveTagId } = useFileSystem();
+  const [view, setView] = useState<'drive' | 'admin' | 'shared' | 'starred' | 'recent' | 'trash' | 'account'>('drive');
   const [selectedFile, setSelectedFile] = useState<FileNode | null>(null);
+  const [previewFiles, setPreviewFiles] = useState<FileNode[]>([]); // The list it was opened from
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
 
   const storagePercent = user ? Math.min(100, (usedStorage / user.storageLimitBytes) * 100) : 0;
 
   const toggleSidebar = () => setIsSidebarOpen(!isSidebarOpen);
 
+  const openPreview = (file: FileNode, files: FileNode[]) => {
+    setSelectedFile(file);
+    setPreviewFiles(files);
+  };
+
   return (
     <div className="flex h-screen bg-white overflow-hidden">
       {/* Mobile Overlay Backdrop */}
@@ -101,9 +329,9 @@ const MainLayout = () => {
           </button>
         </div>
 
-        <nav className="flex-1 px-4 space-y-2">
+        <nav className="flex-1 px-4 space-y-2 overflow-y-auto">
           <button
-            onClick={() => { setView('drive'); setIsSidebarOpen(false); }}
+            onClick={() => { setView('drive'); setActiveTagId(null); setIsSidebarOpen(false); }}
             className={`w-full flex items-center gap-3 px-4 py-2 rounded-md text-sm font-medium transition ${view === 'drive' ? 'bg-brand-100 text-brand-800' : 'text-gray-600 hover:bg-gray-100'}`}
           >
             <Icon name="hdd" /> My Drive
@@ -114,6 +342,24 @@ const MainLayout = () => {
           >
             <Icon name="share-alt" /> Shared with me
           </button>
+          <button
+            onClick={() => { setView('starred'); setIsSidebarOpen(false); }}
+            className={`w-full flex items-center gap-3 px-4 py-2 rounded-md text-sm font-medium transition ${view === 'starred' ? 'bg-brand-100 text-brand-800' : 'text-gray-600 hover:bg-gray-100'}`}
+          >
+            <Icon name="star" /> Starred
+          </button>
+          <button
+            onClick={() => { setView('recent'); setIsSidebarOpen(false); }}
+            className={`w-full flex items-center gap-3 px-4 py-2 rounded-md text-sm font-medium transition ${view === 'recent' ? 'bg-brand-100 text-brand-800' : 'text-gray-600 hover:bg-gray-100'}`}
+          >
+            <Icon name="clock" /> Recent
+          </button>
+          <button
+            onClick={() => { setView('trash'); setIsSidebarOpen(false); }}
+            className={`w-full flex items-center gap-3 px-4 py-2 rounded-md text-sm font-medium transition ${view === 'trash' ? 'bg-brand-100 text-brand-800' : 'text-gray-600 hover:bg-gray-100'}`}
+          >
+            <Icon name="trash" /> Trash
+          </button>
           {user?.role === UserRole.ADMIN && (
             <button
               onClick={() => { setView('admin'); setIsSidebarOpen(false); }}
@@ -122,6 +368,10 @@ const MainLayout = () => {
               <Icon name="users-cog" /> Admin Panel
             </button>
           )}
+          <TagList
+            selectedTagId={view === 'drive' ? activeTagId : null}
+            onSelect={tagId => { setView('drive'); setActiveTagId(tagId); setIsSidebarOpen(false); }}
+          />
         </nav>
 
         <div className="p-6 border-t border-gray-200">
@@ -144,6 +394,12 @@ const MainLayout = () => {
               <p className="text-xs text-gray-500 truncate capitalize">{user?.role}</p>
             </div>
           </div>
+          <button
+            onClick={() => { setView('account'); setIsSidebarOpen(false); }}
+            className={`w-full text-xs text-left flex items-center gap-2 mb-2 ${view === 'account' ? 'text-brand-700' : 'text-gray-500 hover:text-gray-700'}`}
+          >
+            <Icon name="user-cog" /> Account Settings
+          </button>
           <button onClick={logout} className="w-full text-xs text-red-500 hover:text-red-700 text-left flex items-center gap-2">
             <Icon name="sign-out-alt" /> Sign Out
           </button>
@@ -161,13 +417,13 @@ const MainLayout = () => {
               <Icon name="bars" className="text-lg" />
             </button>
             <div className="text-lg font-semibold text-gray-700 truncate">
-              {view === 'drive' ? 'My Drive' : view === 'shared' ? 'Shared with me' : 'Admin Dashboard'}
+              {view === 'drive' ? 'My Drive' : view === 'shared' ? 'Shared with me' : view === 'starred' ? 'Starred' : view === 'recent' ? 'Recent' : view === 'trash' ? 'Trash' : view === 'account' ? 'Account Settings' : 'Admin Dashboard'}
             </div>
           </div>
-          {view === 'drive' && (
+          {(view === 'drive' || view === 'shared' || view === 'starred' || view === 'recent') && (
             <div className="hidden sm:block text-sm text-gray-400 italic">
               <Icon name="info-circle" className="mr-1" />
-              Select a file to view AI insights
+              Double-click a file to preview it
             </div>
           )}
         </header>
@@ -175,16 +431,31 @@ const MainLayout = () => {
         <main className="flex-1 overflow-auto bg-white flex relative w-full">
           <div className="flex-1 overflow-auto h-full w-full">
             {view === 'drive' ? (
-              <DriveView onSelectFile={setSelectedFile} mode="my-drive" />
+              <DriveView onSelectFile={openPreview} mode="my-drive" onSwitchView={setView} />
             ) : view === 'shared' ? (
-              <DriveView onSelectFile={() => { }} mode="shared" />
+              <DriveView onSelectFile={openPreview} mode="shared" onSwitchView={setView} />
+            ) : view === 'starred' || view === 'recent' ? (
+              <DriveView key={view} onSelectFile={openPreview} mode={view} onSwitchView={setView} />
+            ) : view === 'trash' ? (
+              <TrashView />
+            ) : view === 'account' ? (
+              <AccountSettings />
             ) : (
               <AdminDashboard />
             )}
           </div>
           {/* Transfer Manager Overlay */}
           <TransferManager />
+          <ConflictDialog />
         </main>
+        {selectedFile && (
+          <FilePreview
+            file={selectedFile}
+            files={previewFiles}
+            onNavigate={setSelectedFile}
+            onClose={() => setSelectedFile(null)}
+          />
+        )}
       </div>
     </div>
   );
@@ -200,10 +471,35 @@ const App = () => {
 };
 
 const AppContent = () => {
-  const { user } = useAuth();
+  const { user, isRestoring } = useAuth();
+  const [resetToken, setResetToken] = useState(() => new URLSearchParams(window.location.search).get('reset'));
+
+  if (resetToken) {
+    return (
+      <ResetPasswordScreen
+        token={resetToken}
+        onDone={() => {
+          window.history.replaceState(null, '', window.location.pathname);
+          setResetToken(null);
+        }}
+      />
+    );
+  }
+
+  if (isRestoring) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-100 text-brand-600 text-4xl">
+        <Icon name="spinner" className="animate-spin" />
+      </div>
+    );
+  }
 
   if (!user) return <LoginScreen />;
 
+  if (user.mustChangePassword) return <PasswordChangeScreen />;
+
+  if (user.twoFactorSetupRequired) return <TwoFactorSetupScreen />;
+
   return (
     <FileSystemProvider>
       <MainLayout />
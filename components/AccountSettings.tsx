@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { toast } from 'react-hot-toast';
+import { Icon } from './Icon';
+import { SessionsView } from './SessionsView';
+import { TwoFactorSettings } from './TwoFactorSettings';
+import { ApiTokensView } from './ApiTokensView';
+import { useAuth } from '../contexts/AuthContext';
+
+export const ChangePasswordForm: React.FC = () => {
+  const { changePassword } = useAuth();
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newPassword !== confirmPassword) {
+      setError('New passwords do not match');
+      return;
+    }
+
+    setIsSaving(true);
+    const result = await changePassword(currentPassword, newPassword);
+    setIsSaving(false);
+
+    if (result.success) {
+      setError('');
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+      toast.success('Password changed. Other devices have been signed out.');
+    } else {
+      setError(result.error || 'Failed to change password');
+    }
+  };
+
+  return (
+    <section>
+      <h3 className="text-lg font-semibold text-gray-800 flex items-center gap-2 mb-4">
+        <Icon name="key" /> Change Password
+      </h3>
+      {error && <div className="bg-red-50 text-red-600 p-3 rounded mb-4 text-sm">{error}</div>}
+      <form onSubmit={handleSubmit} className="space-y-4 max-w-md">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Current Password</label>
+          <input
+            type="password"
+            value={currentPassword}
+            onChange={e => setCurrentPassword(e.target.value)}
+            className="w-full rounded-md border border-gray-300 p-2 text-sm focus:ring-brand-500 focus:border-brand-500"
+            required
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">New Password</label>
+          <input
+            type="password"
+            value={newPassword}
+            onChange={e => setNewPassword(e.target.value)}
+            className="w-full rounded-md border border-gray-300 p-2 text-sm focus:ring-brand-500 focus:border-brand-500"
+            required
+          />
+          <p className="text-xs text-gray-400 mt-1">At least 8 characters, with letters and numbers.</p>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Confirm New Password</label>
+          <input
+            type="password"
+            value={confirmPassword}
+            onChange={e => setConfirmPassword(e.target.value)}
+            className="w-full rounded-md border border-gray-300 p-2 text-sm focus:ring-brand-500 focus:border-brand-500"
+            required
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={isSaving}
+          className={`bg-brand-600 text-white px-4 py-2 rounded-md hover:bg-brand-700 transition ${isSaving ? 'opacity-50 cursor-not-allowed' : ''}`}
+        >
+          Change Password
+        </button>
+      </form>
+    </section>
+  );
+};
+
+export const AccountSettings: React.FC = () => {
+  const { user } = useAuth();
+
+  return (
+    <div className="p-4 md:p-6 bg-white pb-20 md:pb-6 space-y-10">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+          <Icon name="user-cog" /> Account Settings
+        </h2>
+        <p className="text-sm text-gray-500 mt-1">{user?.email}</p>
+      </div>
+
+      {user?.authProvider && user.authProvider !== 'local' ? (
+        <section>
+          <h3 className="text-lg font-semibold text-gray-800 flex items-center gap-2 mb-1">
+            <Icon name="key" /> Password
+          </h3>
+          <p className="text-sm text-gray-500">Your password is managed by your organization's directory.</p>
+        </section>
+      ) : (
+        <ChangePasswordForm />
+      )}
+      <TwoFactorSettings />
+      <SessionsView />
+      <ApiTokensView />
+    </div>
+  );
+};
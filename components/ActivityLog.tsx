@@ -0,0 +1,255 @@
+import React, { useState, useEffect } from 'react';
+import { toast } from 'react-hot-toast';
+import { AuditEvent } from '../types';
+import { formatDateTime } from '../utils/format';
+import { Icon } from './Icon';
+import { API_BASE_URL } from '../constants';
+import { useAuth } from '../contexts/AuthContext';
+
+const PAGE_SIZE = 50;
+
+const ACTION_LABELS: Record<string, string> = {
+  'file.upload': 'Upload',
+  'folder.create': 'Create folder',
+  'file.rename': 'Rename',
+  'file.delete': 'Move to trash',
+  'file.restore': 'Restore',
+  'file.purge': 'Delete permanently',
+  'file.version_restore': 'Restore version',
+  'file.move': 'Move',
+  'file.copy': 'Copy',
+  'file.share': 'Share',
+  'share.clear': 'Clear shared items',
+  'share.save': 'Save shared item',
+  'file.download': 'Download file',
+  'folder.download': 'Download folder',
+  'user.create': 'Create user',
+  'user.update': 'Update user',
+  'user.delete': 'Delete user',
+  'user.password_reset': 'Send password reset',
+  'user.sessions_revoke': 'Revoke sessions',
+  'user.unlock': 'Unlock account',
+  'user.2fa_reset': 'Reset 2FA',
+  'user.provision': 'Directory sign-in (new user)',
+  'user.directory_link': 'Link to directory',
+  'settings.update': 'Update settings',
+  'search.rebuild': 'Rebuild search index'
+};
+
+const actionColor = (action: string) => {
+  if (action.endsWith('.delete') || action === 'file.purge' || action === 'share.clear') return 'bg-red-100 text-red-800';
+  if (action.startsWith('user.') || action.startsWith('settings.')) return 'bg-purple-100 text-purple-800';
+  if (action.endsWith('download')) return 'bg-blue-100 text-blue-800';
+  return 'bg-gray-100 text-gray-800';
+};
+
+// Date inputs give "YYYY-MM-DD"; the range covers whole local days
+const dayStart = (value: string) => value ? new Date(`${value}T00:00:00`).getTime() : undefined;
+const dayEnd = (value: string) => value ? new Date(`${value}T23:59:59.999`).getTime() : undefined;
+
+export const ActivityLog: React.FC = () => {
+  const { authFetch } = useAuth();
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const [action, setAction] = useState('');
+  const [query, setQuery] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+
+  const buildParams = () => {
+    const params = new URLSearchParams();
+    if (action) params.set('action', action);
+    if (query.trim()) params.set('q', query.trim());
+    const from = dayStart(fromDate);
+    const to = dayEnd(toDate);
+    if (from) params.set('from', String(from));
+    if (to) params.set('to', String(to));
+    return params;
+  };
+
+  const fetchEvents = async (targetPage: number) => {
+    setIsLoading(true);
+    try {
+      const params = buildParams();
+      params.set('page', String(targetPage));
+      params.set('pageSize', String(PAGE_SIZE));
+
+      const response = await authFetch(`${API_BASE_URL}/api/admin/audit?${params.toString()}`);
+      if (response.ok) {
+        const data = await response.json();
+        setEvents(data.events);
+        setTotal(data.total);
+        setPage(data.page);
+      } else {
+        toast.error('Failed to load activity');
+      }
+    } catch (error) {
+      console.error('Error fetching activity', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Back to the first page whenever a filter changes; debounced so typing in the search box is one request
+  useEffect(() => {
+    const timer = setTimeout(() => fetchEvents(1), 300);
+    return () => clearTimeout(timer);
+  }, [action, query, fromDate, toDate]);
+
+  const exportCsv = async () => {
+    try {
+      const response = await authFetch(`${API_BASE_URL}/api/admin/audit/export?${buildParams().toString()}`);
+      if (!response.ok) {
+        toast.error('Failed to export activity');
+        return;
+      }
+
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `activity-${new Date().toISOString().slice(0, 10)}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error exporting activity', error);
+    }
+  };
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  const renderDetails = (event: AuditEvent) => {
+    if (event.oldPath && event.newPath && event.oldPath !== event.newPath) {
+      return <span>{event.oldPath} <Icon name="arrow-right" className="mx-1 text-gray-400" /> {event.newPath}</span>;
+    }
+    const pathText = event.newPath || event.oldPath;
+    const extra = event.details?.sharedWith
+      ? `with ${event.details.sharedWith.join(', ')}`
+      : event.details && event.action.startsWith('user.update')
+        ? Object.keys(event.details).join(', ')
+        : '';
+    return (
+      <span>
+        {pathText || event.targetName || '—'}
+        {extra && <span className="text-gray-400 ml-1">{extra}</span>}
+      </span>
+    );
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-3 items-end mb-4">
+        <div className="flex-1 min-w-[180px]">
+          <label className="block text-xs font-medium text-gray-500 mb-1">Search</label>
+          <input
+            type="text"
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder="User, file name or path"
+            className="w-full rounded-md border border-gray-300 p-2 text-sm focus:ring-brand-500 focus:border-brand-500"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">Action</label>
+          <select
+            value={action}
+            onChange={e => setAction(e.target.value)}
+            className="rounded-md border border-gray-300 p-2 text-sm focus:ring-brand-500 focus:border-brand-500"
+          >
+            <option value="">All actions</option>
+            {Object.entries(ACTION_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">From</label>
+          <input
+            type="date"
+            value={fromDate}
+            onChange={e => setFromDate(e.target.value)}
+            className="rounded-md border border-gray-300 p-2 text-sm focus:ring-brand-500 focus:border-brand-500"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 mb-1">To</label>
+          <input
+            type="date"
+            value={toDate}
+            onChange={e => setToDate(e.target.value)}
+            className="rounded-md border border-gray-300 p-2 text-sm focus:ring-brand-500 focus:border-brand-500"
+          />
+        </div>
+        <button
+          onClick={exportCsv}
+          className="bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-md hover:bg-gray-50 transition flex items-center gap-2 text-sm shadow-sm"
+        >
+          <Icon name="file-csv" /> Export CSV
+        </button>
+      </div>
+
+      <div className="overflow-x-auto border rounded-lg border-gray-200">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Time</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">User</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Action</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Target</th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider hidden md:table-cell">IP</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {isLoading ? (
+              <tr>
+                <td colSpan={5} className="py-12 text-center">
+                  <Icon name="spinner" className="animate-spin text-2xl text-brand-500" />
+                </td>
+              </tr>
+            ) : events.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="py-12 text-center text-sm text-gray-400 italic">No activity found</td>
+              </tr>
+            ) : events.map(event => (
+              <tr key={event.id} className="hover:bg-gray-50 text-sm">
+                <td className="px-4 py-3 whitespace-nowrap text-gray-500">{formatDateTime(event.createdAt)}</td>
+                <td className="px-4 py-3 whitespace-nowrap text-gray-900">{event.actorEmail || 'System'}</td>
+                <td className="px-4 py-3 whitespace-nowrap">
+                  <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${actionColor(event.action)}`}>
+                    {ACTION_LABELS[event.action] || event.action}
+                  </span>
+                </td>
+                <td className="px-4 py-3 text-gray-700 break-all">{renderDetails(event)}</td>
+                <td className="px-4 py-3 whitespace-nowrap text-gray-400 font-mono text-xs hidden md:table-cell">{event.ipAddress}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex justify-between items-center mt-4 text-sm text-gray-500">
+        <span>{total} event(s)</span>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => fetchEvents(page - 1)}
+            disabled={page <= 1 || isLoading}
+            className="px-3 py-1 rounded border border-gray-300 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Icon name="chevron-left" />
+          </button>
+          <span>Page {page} of {totalPages}</span>
+          <button
+            onClick={() => fetchEvents(page + 1)}
+            disabled={page >= totalPages || isLoading}
+            className="px-3 py-1 rounded border border-gray-300 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Icon name="chevron-right" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
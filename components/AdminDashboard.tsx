@@ -1,26 +1,42 @@
 import React, { useState, useEffect } from 'react';
-import { User, UserRole } from '../types';
-import { formatBytes } from '../utils/format';
+import { toast } from 'react-hot-toast';
+import { User, UserRole, UserSession, StorageMode, BlobStoreStats } from '../types';
+import { formatBytes, formatDateTime, formatUserAgent } from '../utils/format';
 import { Icon } from './Icon';
 import { API_BASE_URL } from '../constants';
+import { useAuth } from '../contexts/AuthContext';
+import { ActivityLog } from './ActivityLog';
 
 export const AdminDashboard: React.FC = () => {
+  const { user: currentUser, authFetch } = useAuth();
   const [users, setUsers] = useState<User[]>([]);
 
   // Modal States
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [editingUser, setEditingUser] = useState<User | null>(null);
+  const [sessionsUser, setSessionsUser] = useState<User | null>(null);
+  const [userSessions, setUserSessions] = useState<UserSession[]>([]);
+  const [requireAdminTwoFactor, setRequireAdminTwoFactor] = useState(false);
+  const [trashRetentionDays, setTrashRetentionDays] = useState(30);
+  const [savedTrashRetentionDays, setSavedTrashRetentionDays] = useState(30);
+  const [trashCountsTowardQuota, setTrashCountsTowardQuota] = useState(false);
+  const [storageMode, setStorageMode] = useState<StorageMode>('files');
+  const [blobStore, setBlobStore] = useState<BlobStoreStats | null>(null);
+  const [directoryProviders, setDirectoryProviders] = useState<string[]>([]);
+  const [tab, setTab] = useState<'users' | 'activity'>('users');
 
   // Form States (Add/Edit)
   const [formUsername, setFormUsername] = useState('');
   const [formEmail, setFormEmail] = useState('');
   const [formPassword, setFormPassword] = useState('');
   const [formQuotaMB, setFormQuotaMB] = useState(100);
+  const [formVersionLimit, setFormVersionLimit] = useState(10);
+  const [formRole, setFormRole] = useState<UserRole>(UserRole.USER);
 
   const fetchUsers = async () => {
     try {
-      const response = await fetch(`${API_BASE_URL}/api/users`);
+      const response = await authFetch(`${API_BASE_URL}/api/users`);
       if (response.ok) {
         const data = await response.json();
         setUsers(data);
@@ -30,8 +46,27 @@ export const AdminDashboard: React.FC = () => {
     }
   };
 
+  const fetchSettings = async () => {
+    try {
+      const response = await authFetch(`${API_BASE_URL}/api/admin/settings`);
+      if (response.ok) {
+        const data = await response.json();
+        setRequireAdminTwoFactor(data.requireAdminTwoFactor);
+        setTrashRetentionDays(data.trashRetentionDays);
+        setSavedTrashRetentionDays(data.trashRetentionDays);
+        setTrashCountsTowardQuota(data.trashCountsTowardQuota);
+        setStorageMode(data.storageMode);
+        setBlobStore(data.blobStore);
+        setDirectoryProviders(data.directoryProviders);
+      }
+    } catch (error) {
+      console.error('Error fetching settings', error);
+    }
+  };
+
   useEffect(() => {
     fetchUsers();
+    fetchSettings();
   }, []);
 
   const resetForm = () => {
@@ -39,6 +74,7 @@ export const AdminDashboard: React.FC = () => {
     setFormEmail('');
     setFormPassword('');
     setFormQuotaMB(100);
+    setFormRole(UserRole.USER);
   };
 
   const openAddModal = () => {
@@ -50,8 +86,9 @@ export const AdminDashboard: React.FC = () => {
     setEditingUser(user);
     setFormUsername(user.username);
     setFormEmail(user.email);
-    setFormPassword(''); // Don't show existing password
     setFormQuotaMB(user.storageLimitBytes / (1024 * 1024));
+    setFormVersionLimit(user.versionLimit ?? 10);
+    setFormRole(user.role);
     setIsEditModalOpen(true);
   };
 
@@ -60,17 +97,22 @@ export const AdminDashboard: React.FC = () => {
     if (!formUsername || !formEmail || !formPassword) return;
 
     try {
-      await fetch(`${API_BASE_URL}/api/users`, {
+      const response = await authFetch(`${API_BASE_URL}/api/users`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           username: formUsername,
           email: formEmail,
           password: formPassword,
-          role: UserRole.USER,
+          role: formRole,
           storageLimitBytes: formQuotaMB * 1024 * 1024
         })
       });
+      if (!response.ok) {
+        const data = await response.json();
+        toast.error(data.error || 'Failed to create user');
+        return;
+      }
       fetchUsers();
       setIsAddModalOpen(false);
       resetForm();
@@ -86,16 +128,22 @@ export const AdminDashboard: React.FC = () => {
     const newLimitBytes = formQuotaMB * 1024 * 1024;
 
     try {
-      await fetch(`${API_BASE_URL}/api/users/${editingUser.id}`, {
+      const response = await authFetch(`${API_BASE_URL}/api/users/${editingUser.id}`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           username: formUsername,
           email: formEmail,
           storageLimitBytes: newLimitBytes,
-          password: formPassword || undefined
+          versionLimit: formVersionLimit,
+          role: formRole
         })
       });
+      if (!response.ok) {
+        const data = await response.json();
+        toast.error(data.error || 'Failed to update user');
+        return;
+      }
       fetchUsers();
       setIsEditModalOpen(false);
       setEditingUser(null);
@@ -107,15 +155,202 @@ export const AdminDashboard: React.FC = () => {
   const deleteUser = async (id: string) => {
     if (!confirm('Are you sure?')) return;
     try {
-      await fetch(`${API_BASE_URL}/api/users/${id}`, {
+      const response = await authFetch(`${API_BASE_URL}/api/users/${id}`, {
         method: 'DELETE'
       });
+      if (!response.ok) {
+        const data = await response.json();
+        toast.error(data.error || 'Failed to delete user');
+        return;
+      }
       fetchUsers();
     } catch (error) {
       console.error('Error deleting user', error);
     }
   };
 
+  const sendPasswordReset = async (user: User) => {
+    if (!confirm(`Send a password reset link to ${user.email}?`)) return;
+    try {
+      const response = await authFetch(`${API_BASE_URL}/api/users/${user.id}/password-reset`, {
+        method: 'POST'
+      });
+      if (!response.ok) {
+        toast.error('Failed to send reset link');
+        return;
+      }
+      toast.success(`Reset link sent to ${user.email}`);
+    } catch (error) {
+      console.error('Error sending reset link', error);
+    }
+  };
+
+  const toggleAdminTwoFactor = async () => {
+    const required = !requireAdminTwoFactor;
+    if (required && !confirm('Require two-factor authentication for all admins? Admins without it must set it up before they can continue.')) return;
+    try {
+      const response = await authFetch(`${API_BASE_URL}/api/admin/settings`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ requireAdminTwoFactor: required })
+      });
+      if (!response.ok) {
+        toast.error('Failed to update security policy');
+        return;
+      }
+      setRequireAdminTwoFactor(required);
+      toast.success(required ? 'Two-factor authentication is now required for admins' : 'Admin two-factor requirement removed');
+    } catch (error) {
+      console.error('Error updating settings', error);
+    }
+  };
+
+  const updateTrashSettings = async (changes: { trashRetentionDays?: number; trashCountsTowardQuota?: boolean }) => {
+    try {
+      const response = await authFetch(`${API_BASE_URL}/api/admin/settings`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes)
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to update trash settings');
+        fetchSettings();
+        return;
+      }
+      setTrashRetentionDays(data.trashRetentionDays);
+      setSavedTrashRetentionDays(data.trashRetentionDays);
+      setTrashCountsTowardQuota(data.trashCountsTowardQuota);
+      toast.success('Trash settings saved');
+      fetchUsers();
+    } catch (error) {
+      console.error('Error updating settings', error);
+    }
+  };
+
+  const updateStorageMode = async (mode: StorageMode) => {
+    try {
+      const response = await authFetch(`${API_BASE_URL}/api/admin/settings`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ storageMode: mode })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        toast.error(data.error || 'Failed to update storage mode');
+        return;
+      }
+      setStorageMode(data.storageMode);
+      setBlobStore(data.blobStore);
+      toast.success(mode === 'blobs' ? 'New uploads are now deduplicated' : 'New uploads are stored as plain files');
+    } catch (error) {
+      console.error('Error updating settings', error);
+    }
+  };
+
+  const unlockUser = async (user: User) => {
+    try {
+      const response = await authFetch(`${API_BASE_URL}/api/users/${user.id}/lockout`, {
+        method: 'DELETE'
+      });
+      if (!response.ok) {
+        toast.error('Failed to unlock user');
+        return;
+      }
+      toast.success(`${user.email} can sign in again`);
+      fetchUsers();
+    } catch (error) {
+      console.error('Error unlocking user', error);
+    }
+  };
+
+  const resetTwoFactor = async (user: User) => {
+    if (!confirm(`Turn off two-factor authentication for ${user.email}? Use this when they lost their authenticator and recovery codes.`)) return;
+    try {
+      const response = await authFetch(`${API_BASE_URL}/api/users/${user.id}/2fa`, {
+        method: 'DELETE'
+      });
+      if (!response.ok) {
+        toast.error('Failed to reset two-factor authentication');
+        return;
+      }
+      toast.success(`Two-factor authentication reset for ${user.email}`);
+      fetchUsers();
+    } catch (error) {
+      console.error('Error resetting 2FA', error);
+    }
+  };
+
+  const linkToDirectory = async (user: User, provider: string) => {
+    if (!confirm(`Let ${user.email} sign in with their ${provider.toUpperCase()} password instead of their local one? The account is linked on their next directory sign-in.`)) return;
+    try {
+      const response = await authFetch(`${API_BASE_URL}/api/users/${user.id}/directory-link`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ provider })
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        toast.error(data.error || 'Failed to link the account');
+        return;
+      }
+      toast.success(`${user.email} now signs in through ${provider.toUpperCase()}`);
+      fetchUsers();
+    } catch (error) {
+      console.error('Error linking account', error);
+    }
+  };
+
+  const fetchUserSessions = async (userId: string) => {
+    try {
+      const response = await authFetch(`${API_BASE_URL}/api/users/${userId}/sessions`);
+      if (response.ok) {
+        setUserSessions(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching sessions', error);
+    }
+  };
+
+  const openSessionsModal = (user: User) => {
+    setSessionsUser(user);
+    setUserSessions([]);
+    fetchUserSessions(user.id);
+  };
+
+  const revokeUserSession = async (sessionId: string) => {
+    if (!sessionsUser) return;
+    try {
+      const response = await authFetch(`${API_BASE_URL}/api/users/${sessionsUser.id}/sessions/${sessionId}`, {
+        method: 'DELETE'
+      });
+      if (!response.ok) {
+        toast.error('Failed to revoke session');
+        return;
+      }
+      fetchUserSessions(sessionsUser.id);
+    } catch (error) {
+      console.error('Error revoking session', error);
+    }
+  };
+
+  const revokeAllUserSessions = async () => {
+    if (!sessionsUser || !confirm(`Sign ${sessionsUser.username} out of all devices?`)) return;
+    try {
+      const response = await authFetch(`${API_BASE_URL}/api/users/${sessionsUser.id}/sessions`, {
+        method: 'DELETE'
+      });
+      if (!response.ok) {
+        toast.error('Failed to revoke sessions');
+        return;
+      }
+      toast.success('All sessions revoked');
+      fetchUserSessions(sessionsUser.id);
+    } catch (error) {
+      console.error('Error revoking sessions', error);
+    }
+  };
+
   // Calculated stats
   const totalUsers = users.length;
   const totalUsedStorage = users.reduce((acc, u) => acc + (u.usedStorageBytes || 0), 0);
@@ -124,93 +359,248 @@ export const AdminDashboard: React.FC = () => {
 
   return (
     <div className="p-4 md:p-6 bg-white rounded-lg shadow-sm pb-20 md:pb-6 relative">
-      <div className="flex justify-between items-center mb-6">
-        <h2 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
-          <Icon name="user-shield" /> User Management
-        </h2>
+      <div className="flex gap-6 border-b border-gray-200 mb-6 text-sm font-medium">
         <button
-          onClick={openAddModal}
-          className="bg-brand-600 text-white px-4 py-2 rounded-md hover:bg-brand-700 transition flex items-center gap-2 shadow-sm"
+          onClick={() => setTab('users')}
+          className={`pb-3 -mb-px border-b-2 transition ${tab === 'users' ? 'border-brand-600 text-brand-700' : 'border-transparent text-gray-500 hover:text-gray-700'}`}
         >
-          <Icon name="plus" /> Add User
+          <Icon name="users" className="mr-2" />Users
+        </button>
+        <button
+          onClick={() => setTab('activity')}
+          className={`pb-3 -mb-px border-b-2 transition ${tab === 'activity' ? 'border-brand-600 text-brand-700' : 'border-transparent text-gray-500 hover:text-gray-700'}`}
+        >
+          <Icon name="history" className="mr-2" />Activity
         </button>
       </div>
 
-      {/* Stats Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
-        <div className="bg-white p-4 rounded-lg border border-gray-200 shadow-sm flex items-center justify-between">
-          <div>
-            <p className="text-sm text-gray-500 font-medium">Total Users</p>
-            <p className="text-2xl font-bold text-gray-800">{totalUsers}</p>
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+          {tab === 'activity' ? <><Icon name="history" /> Activity Log</> : <><Icon name="user-shield" /> User Management</>}
+        </h2>
+        {tab === 'users' && (
+          <button
+            onClick={openAddModal}
+            className="bg-brand-600 text-white px-4 py-2 rounded-md hover:bg-brand-700 transition flex items-center gap-2 shadow-sm"
+          >
+            <Icon name="plus" /> Add User
+          </button>
+        )}
+      </div>
+
+      {tab === 'activity' ? (
+        <ActivityLog />
+      ) : (
+        <>
+        {/* Stats Cards */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+          <div className="bg-white p-4 rounded-lg border border-gray-200 shadow-sm flex items-center justify-between">
+            <div>
+              <p className="text-sm text-gray-500 font-medium">Total Users</p>
+              <p className="text-2xl font-bold text-gray-800">{totalUsers}</p>
+            </div>
+            <div className="p-3 rounded-full bg-blue-50 text-blue-600">
+              <Icon name="users" />
+            </div>
+          </div>
+          <div className="bg-white p-4 rounded-lg border border-gray-200 shadow-sm flex items-center justify-between">
+            <div>
+              <p className="text-sm text-gray-500 font-medium">Total Storage Used</p>
+              <p className="text-2xl font-bold text-gray-800">{formatBytes(totalUsedStorage)}</p>
+              <p className="text-xs text-gray-400">of {formatBytes(totalAllocatedStorage)} allocated</p>
+            </div>
+            <div className="p-3 rounded-full bg-green-50 text-green-600">
+              <Icon name="server" />
+            </div>
+          </div>
+          <div className="bg-white p-4 rounded-lg border border-gray-200 shadow-sm flex items-center justify-between">
+            <div>
+              <p className="text-sm text-gray-500 font-medium">Global Quota Usage</p>
+              <p className="text-2xl font-bold text-gray-800">{usagePercentage.toFixed(1)}%</p>
+              <div className="w-full max-w-[100px] h-1.5 bg-gray-100 rounded-full mt-2 overflow-hidden">
+                <div className="h-full bg-brand-500 rounded-full" style={{ width: `${Math.min(usagePercentage, 100)}%` }}></div>
+              </div>
+            </div>
+            <div className="p-3 rounded-full bg-purple-50 text-purple-600">
+              <Icon name="chart-pie" />
+            </div>
           </div>
-          <div className="p-3 rounded-full bg-blue-50 text-blue-600">
-            <Icon name="users" />
+        </div>
+
+        {/* Security Policy */}
+        <div className="bg-white p-4 rounded-lg border border-gray-200 shadow-sm flex items-center justify-between mb-6 gap-4">
+          <div>
+            <p className="text-sm font-medium text-gray-800 flex items-center gap-2">
+              <Icon name="shield-alt" /> Require two-factor authentication for admins
+            </p>
+            <p className="text-xs text-gray-500 mt-1">Admins without an authenticator app are asked to set one up at their next request.</p>
           </div>
+          <button
+            onClick={toggleAdminTwoFactor}
+            className={`relative inline-flex h-6 w-11 flex-shrink-0 rounded-full transition ${requireAdminTwoFactor ? 'bg-brand-600' : 'bg-gray-300'}`}
+            title={requireAdminTwoFactor ? 'Disable requirement' : 'Enable requirement'}
+          >
+            <span className={`inline-block h-5 w-5 mt-0.5 rounded-full bg-white shadow transform transition ${requireAdminTwoFactor ? 'translate-x-5' : 'translate-x-0.5'}`} />
+          </button>
         </div>
-        <div className="bg-white p-4 rounded-lg border border-gray-200 shadow-sm flex items-center justify-between">
+
+        {/* Trash Policy */}
+        <div className="bg-white p-4 rounded-lg border border-gray-200 shadow-sm flex flex-wrap items-center justify-between mb-6 gap-4">
           <div>
-            <p className="text-sm text-gray-500 font-medium">Total Storage Used</p>
-            <p className="text-2xl font-bold text-gray-800">{formatBytes(totalUsedStorage)}</p>
-            <p className="text-xs text-gray-400">of {formatBytes(totalAllocatedStorage)} allocated</p>
+            <p className="text-sm font-medium text-gray-800 flex items-center gap-2">
+              <Icon name="trash" /> Trash
+            </p>
+            <p className="text-xs text-gray-500 mt-1">Deleted items are purged automatically after the retention period (0 keeps them until the user empties the trash).</p>
           </div>
-          <div className="p-3 rounded-full bg-green-50 text-green-600">
-            <Icon name="server" />
+          <div className="flex items-center gap-6">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              Keep for
+              <input
+                type="number"
+                min={0}
+                max={3650}
+                value={trashRetentionDays}
+                onChange={e => setTrashRetentionDays(Number(e.target.value))}
+                onBlur={() => trashRetentionDays !== savedTrashRetentionDays && updateTrashSettings({ trashRetentionDays })}
+                className="w-20 rounded-md border border-gray-300 p-1 text-sm focus:ring-brand-500 focus:border-brand-500"
+              />
+              days
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              Counts toward quota
+              <button
+                onClick={() => updateTrashSettings({ trashCountsTowardQuota: !trashCountsTowardQuota })}
+                className={`relative inline-flex h-6 w-11 flex-shrink-0 rounded-full transition ${trashCountsTowardQuota ? 'bg-brand-600' : 'bg-gray-300'}`}
+                title={trashCountsTowardQuota ? 'Stop counting the trash' : 'Count the trash toward quota'}
+              >
+                <span className={`inline-block h-5 w-5 mt-0.5 rounded-full bg-white shadow transform transition ${trashCountsTowardQuota ? 'translate-x-5' : 'translate-x-0.5'}`} />
+              </button>
+            </label>
           </div>
         </div>
-        <div className="bg-white p-4 rounded-lg border border-gray-200 shadow-sm flex items-center justify-between">
+
+        {/* Storage Mode */}
+        <div className="bg-white p-4 rounded-lg border border-gray-200 shadow-sm flex flex-wrap items-center justify-between mb-6 gap-4">
           <div>
-            <p className="text-sm text-gray-500 font-medium">Global Quota Usage</p>
-            <p className="text-2xl font-bold text-gray-800">{usagePercentage.toFixed(1)}%</p>
-            <div className="w-full max-w-[100px] h-1.5 bg-gray-100 rounded-full mt-2 overflow-hidden">
-              <div className="h-full bg-brand-500 rounded-full" style={{ width: `${Math.min(usagePercentage, 100)}%` }}></div>
-            </div>
-          </div>
-          <div className="p-3 rounded-full bg-purple-50 text-purple-600">
-            <Icon name="chart-pie" />
+            <p className="text-sm font-medium text-gray-800 flex items-center gap-2">
+              <Icon name="database" /> Deduplicated storage
+            </p>
+            <p className="text-xs text-gray-500 mt-1">
+              Stores each distinct file content once, so copies and saves from shared files take no extra disk space. Applies to new uploads and copies; quotas still count every file.
+            </p>
+            {blobStore && blobStore.blobCount > 0 && (
+              <p className="text-xs text-gray-500 mt-1">
+                {blobStore.blobCount} stored contents use {formatBytes(blobStore.storedBytes)} for {formatBytes(blobStore.logicalBytes)} of files.
+              </p>
+            )}
           </div>
+          <button
+            onClick={() => updateStorageMode(storageMode === 'blobs' ? 'files' : 'blobs')}
+            className={`relative inline-flex h-6 w-11 flex-shrink-0 rounded-full transition ${storageMode === 'blobs' ? 'bg-brand-600' : 'bg-gray-300'}`}
+            title={storageMode === 'blobs' ? 'Store new uploads as plain files' : 'Deduplicate new uploads'}
+          >
+            <span className={`inline-block h-5 w-5 mt-0.5 rounded-full bg-white shadow transform transition ${storageMode === 'blobs' ? 'translate-x-5' : 'translate-x-0.5'}`} />
+          </button>
         </div>
-      </div>
 
-      {/* User List */}
-      <div className="overflow-x-auto border rounded-lg border-gray-200">
-        <table className="min-w-full divide-y divide-gray-200">
-          <thead className="bg-gray-50">
-            <tr>
-              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider hidden lg:table-cell">ID</th>
-              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">User</th>
-              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider hidden sm:table-cell">Role</th>
-              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Quota</th>
-              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
-            </tr>
-          </thead>
-          <tbody className="bg-white divide-y divide-gray-200">
-            {users.map(u => {
-              return (
-                <tr key={u.id} className="hover:bg-gray-50">
-                  <td className="px-6 py-4 whitespace-nowrap text-xs text-gray-400 font-mono hidden lg:table-cell max-w-[120px] truncate" title={u.id}>
-                    {u.id}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <div className="flex flex-col">
-                      <span className="text-sm font-medium text-gray-900">{u.username}</span>
-                      <span className="text-xs text-gray-500">{u.email}</span>
-                      {/* Show ID on smaller screens where the ID column is hidden */}
-                      <span className="text-[10px] text-gray-400 font-mono mt-0.5 lg:hidden select-all">{u.id}</span>
-                    </div>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 hidden sm:table-cell">
-                    <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${u.role === UserRole.ADMIN ? 'bg-purple-100 text-purple-800' : 'bg-green-100 text-green-800'}`}>
-                      {u.role}
-                    </span>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 font-mono">
-                    <span className="font-semibold text-gray-700">{formatBytes(u.usedStorageBytes || 0)}</span>
-                    <span className="text-gray-400 mx-1">/</span>
-                    {formatBytes(u.storageLimitBytes)}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                    {u.role !== UserRole.ADMIN && (
+        {/* User List */}
+        <div className="overflow-x-auto border rounded-lg border-gray-200">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider hidden lg:table-cell">ID</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">User</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider hidden sm:table-cell">Role</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Quota</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {users.map(u => {
+                return (
+                  <tr key={u.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4 whitespace-nowrap text-xs text-gray-400 font-mono hidden lg:table-cell max-w-[120px] truncate" title={u.id}>
+                      {u.id}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="flex flex-col">
+                        <span className="text-sm font-medium text-gray-900">{u.username}</span>
+                        <span className="text-xs text-gray-500">{u.email}</span>
+                        {/* Show ID on smaller screens where the ID column is hidden */}
+                        <span className="text-[10px] text-gray-400 font-mono mt-0.5 lg:hidden select-all">{u.id}</span>
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 hidden sm:table-cell">
+                      <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${u.role === UserRole.ADMIN ? 'bg-purple-100 text-purple-800' : 'bg-green-100 text-green-800'}`}>
+                        {u.role}
+                      </span>
+                      {u.authProvider && u.authProvider !== 'local' && (
+                        <span className="ml-2 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-blue-100 text-blue-800 uppercase" title="Signs in through the directory">
+                          {u.authProvider}
+                        </span>
+                      )}
+                      {u.twoFactorEnabled && (
+                        <span className="ml-2 text-green-600" title="Two-factor authentication enabled">
+                          <Icon name="shield-alt" />
+                        </span>
+                      )}
+                      {u.lockedUntil && (
+                        <span className="ml-2 text-red-600" title={`Locked after failed sign-ins until ${formatDateTime(u.lockedUntil)}`}>
+                          <Icon name="lock" />
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 font-mono">
+                      <span className="font-semibold text-gray-700">{formatBytes(u.usedStorageBytes || 0)}</span>
+                      <span className="text-gray-400 mx-1">/</span>
+                      {formatBytes(u.storageLimitBytes)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                       <div className="flex justify-end gap-2">
+                        {u.lockedUntil && (
+                          <button
+                            onClick={() => unlockUser(u)}
+                            className="text-red-600 hover:text-red-900 bg-red-50 p-2 rounded hover:bg-red-100 transition"
+                            title="Unlock Account"
+                          >
+                            <Icon name="unlock" />
+                          </button>
+                        )}
+                        {(!u.authProvider || u.authProvider === 'local') && (
+                          <button
+                            onClick={() => sendPasswordReset(u)}
+                            className="text-gray-600 hover:text-gray-900 bg-gray-50 p-2 rounded hover:bg-gray-100 transition"
+                            title="Send Password Reset Link"
+                          >
+                            <Icon name="key" />
+                          </button>
+                        )}
+                        {(!u.authProvider || u.authProvider === 'local') && directoryProviders.map(provider => (
+                          <button
+                            key={provider}
+                            onClick={() => linkToDirectory(u, provider)}
+                            className="text-gray-600 hover:text-gray-900 bg-gray-50 p-2 rounded hover:bg-gray-100 transition"
+                            title={`Sign In Through ${provider.toUpperCase()}`}
+                          >
+                            <Icon name="address-book" />
+                          </button>
+                        ))}
+                        <button
+                          onClick={() => openSessionsModal(u)}
+                          className="text-gray-600 hover:text-gray-900 bg-gray-50 p-2 rounded hover:bg-gray-100 transition"
+                          title="Sessions"
+                        >
+                          <Icon name="laptop" />
+                        </button>
+                        {u.twoFactorEnabled && (
+                          <button
+                            onClick={() => resetTwoFactor(u)}
+                            className="text-gray-600 hover:text-gray-900 bg-gray-50 p-2 rounded hover:bg-gray-100 transition"
+                            title="Reset Two-Factor Authentication"
+                          >
+                            <Icon name="user-lock" />
+                          </button>
+                        )}
                         <button
                           onClick={() => openEditModal(u)}
                           className="text-brand-600 hover:text-brand-900 bg-brand-50 p-2 rounded hover:bg-brand-100 transition"
@@ -218,25 +608,25 @@ export const AdminDashboard: React.FC = () => {
                         >
                           <Icon name="edit" />
                         </button>
-                        <button
-                          onClick={() => deleteUser(u.id)}
-                          className="text-red-600 hover:text-red-900 bg-red-50 p-2 rounded hover:bg-red-100 transition"
-                          title="Delete User"
-                        >
-                          <Icon name="trash" />
-                        </button>
+                        {u.id !== currentUser?.id && (
+                          <button
+                            onClick={() => deleteUser(u.id)}
+                            className="text-red-600 hover:text-red-900 bg-red-50 p-2 rounded hover:bg-red-100 transition"
+                            title="Delete User"
+                          >
+                            <Icon name="trash" />
+                          </button>
+                        )}
                       </div>
-                    )}
-                    {u.role === UserRole.ADMIN && (
-                      <span className="text-xs text-gray-400 italic">System Admin</span>
-                    )}
-                  </td>
-                </tr>
-              );
-            })}
-          </tbody>
-        </table>
-      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+        </>
+      )}
 
       {/* --- ADD USER MODAL --- */}
       {isAddModalOpen && (
@@ -278,6 +668,7 @@ export const AdminDashboard: React.FC = () => {
                   className="w-full rounded-md border border-gray-300 p-2 text-sm focus:ring-brand-500 focus:border-brand-500"
                   required
                 />
+                <p className="text-xs text-gray-400 mt-1">At least 8 characters, with letters and numbers.</p>
               </div>
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">Storage Quota (MB)</label>
@@ -289,6 +680,17 @@ export const AdminDashboard: React.FC = () => {
                   min="1"
                 />
               </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Role</label>
+                <select
+                  value={formRole}
+                  onChange={e => setFormRole(e.target.value as UserRole)}
+                  className="w-full rounded-md border border-gray-300 p-2 text-sm focus:ring-brand-500 focus:border-brand-500"
+                >
+                  <option value={UserRole.USER}>User</option>
+                  <option value={UserRole.ADMIN}>Admin</option>
+                </select>
+              </div>
               <button type="submit" className="w-full bg-brand-600 text-white py-2 rounded-md hover:bg-brand-700 transition">
                 Create User
               </button>
@@ -329,24 +731,37 @@ export const AdminDashboard: React.FC = () => {
                 />
               </div>
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">New Password (optional)</label>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Storage Quota (MB)</label>
                 <input
-                  type="password"
-                  value={formPassword}
-                  onChange={e => setFormPassword(e.target.value)}
-                  placeholder="Leave blank to keep current"
+                  type="number"
+                  value={formQuotaMB}
+                  onChange={e => setFormQuotaMB(Number(e.target.value))}
                   className="w-full rounded-md border border-gray-300 p-2 text-sm focus:ring-brand-500 focus:border-brand-500"
+                  min="1"
                 />
               </div>
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Storage Quota (MB)</label>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Versions kept per file</label>
                 <input
                   type="number"
-                  value={formQuotaMB}
-                  onChange={e => setFormQuotaMB(Number(e.target.value))}
+                  value={formVersionLimit}
+                  onChange={e => setFormVersionLimit(Number(e.target.value))}
                   className="w-full rounded-md border border-gray-300 p-2 text-sm focus:ring-brand-500 focus:border-brand-500"
-                  min="1"
+                  min="0"
+                  max="100"
                 />
+                <p className="text-xs text-gray-400 mt-1">Older contents of re-uploaded files; 0 keeps none.</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Role</label>
+                <select
+                  value={formRole}
+                  onChange={e => setFormRole(e.target.value as UserRole)}
+                  className="w-full rounded-md border border-gray-300 p-2 text-sm focus:ring-brand-500 focus:border-brand-500"
+                >
+                  <option value={UserRole.USER}>User</option>
+                  <option value={UserRole.ADMIN}>Admin</option>
+                </select>
               </div>
               <button type="submit" className="w-full bg-brand-600 text-white py-2 rounded-md hover:bg-brand-700 transition">
                 Update User
@@ -355,6 +770,58 @@ export const AdminDashboard: React.FC = () => {
           </div>
         </div>
       )}
+
+      {/* --- SESSIONS MODAL --- */}
+      {sessionsUser && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 backdrop-blur-sm p-4 animate-fade-in">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-lg overflow-hidden animate-scale-in">
+            <div className="bg-brand-50 p-4 border-b border-brand-100 flex justify-between items-center">
+              <h3 className="font-bold text-brand-800">Sessions of {sessionsUser.username}</h3>
+              <button onClick={() => setSessionsUser(null)} className="text-gray-400 hover:text-gray-600">
+                <Icon name="times" />
+              </button>
+            </div>
+            <div className="p-6 space-y-4">
+              {userSessions.length === 0 ? (
+                <p className="text-sm text-gray-500 text-center">No active sessions</p>
+              ) : (
+                <div className="border rounded-lg border-gray-200 divide-y divide-gray-200 max-h-80 overflow-y-auto">
+                  {userSessions.map(s => (
+                    <div key={s.id} className="p-3 flex items-center gap-3">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-gray-900">
+                          {formatUserAgent(s.userAgent)}
+                          {s.current && <span className="ml-2 text-xs text-green-700">(you)</span>}
+                        </p>
+                        <p className="text-xs text-gray-500 truncate">
+                          {s.ipAddress || 'Unknown IP'} • Last active {formatDateTime(s.lastSeenAt)}
+                        </p>
+                      </div>
+                      {!s.current && (
+                        <button
+                          onClick={() => revokeUserSession(s.id)}
+                          className="text-red-600 hover:text-red-900 bg-red-50 p-2 rounded hover:bg-red-100 transition"
+                          title="Revoke Session"
+                        >
+                          <Icon name="sign-out-alt" />
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+              {userSessions.some(s => !s.current) && (
+                <button
+                  onClick={revokeAllUserSessions}
+                  className="w-full bg-red-600 text-white py-2 rounded-md hover:bg-red-700 transition"
+                >
+                  Revoke All Sessions
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
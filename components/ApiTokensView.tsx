@@ -0,0 +1,186 @@
+import React, { useState, useEffect } from 'react';
+import { toast } from 'react-hot-toast';
+import { ApiToken, ApiTokenScope } from '../types';
+import { formatDateTime } from '../utils/format';
+import { Icon } from './Icon';
+import { API_BASE_URL } from '../constants';
+import { useAuth } from '../contexts/AuthContext';
+
+const SCOPE_LABELS: Record<ApiTokenScope, string> = {
+  read: 'Read-only',
+  upload: 'Upload-only',
+  full: 'Full access'
+};
+
+const SCOPE_DESCRIPTIONS: Record<ApiTokenScope, string> = {
+  read: 'List and download files',
+  upload: 'Upload files and create folders',
+  full: 'Everything except account security settings'
+};
+
+export const ApiTokensView: React.FC = () => {
+  const { authFetch } = useAuth();
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [name, setName] = useState('');
+  const [scope, setScope] = useState<ApiTokenScope>('read');
+  const [createdToken, setCreatedToken] = useState<ApiToken | null>(null);
+
+  const fetchTokens = async () => {
+    try {
+      const response = await authFetch(`${API_BASE_URL}/api/tokens`);
+      if (response.ok) {
+        setTokens(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching tokens', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTokens();
+  }, []);
+
+  const createToken = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const response = await authFetch(`${API_BASE_URL}/api/tokens`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, scope })
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setCreatedToken(data);
+        setName('');
+        setScope('read');
+        fetchTokens();
+      } else {
+        toast.error(data.error || 'Failed to create token');
+      }
+    } catch (error) {
+      console.error('Error creating token', error);
+    }
+  };
+
+  const revokeToken = async (token: ApiToken) => {
+    if (!confirm(`Revoke token "${token.name}"? Scripts using it will stop working.`)) return;
+    try {
+      const response = await authFetch(`${API_BASE_URL}/api/tokens/${token.id}`, { method: 'DELETE' });
+      if (response.ok) {
+        toast.success('Token revoked');
+        if (createdToken?.id === token.id) setCreatedToken(null);
+        fetchTokens();
+      } else {
+        toast.error('Failed to revoke token');
+      }
+    } catch (error) {
+      console.error('Error revoking token', error);
+    }
+  };
+
+  const copyToken = async () => {
+    if (!createdToken?.token) return;
+    try {
+      await navigator.clipboard.writeText(createdToken.token);
+      toast.success('Token copied');
+    } catch (error) {
+      toast.error('Copy failed, select the token and copy it manually');
+    }
+  };
+
+  return (
+    <section>
+      <h3 className="text-lg font-semibold text-gray-800 flex items-center gap-2 mb-1">
+        <Icon name="code" /> Personal Access Tokens
+      </h3>
+      <p className="text-sm text-gray-500 mb-4">
+        Use tokens in scripts with an <code className="font-mono text-xs">Authorization: Bearer &lt;token&gt;</code> header.
+      </p>
+
+      {createdToken?.token && (
+        <div className="bg-green-50 border border-green-200 p-3 rounded mb-4 text-sm space-y-2">
+          <p className="text-green-800">
+            Token <strong>{createdToken.name}</strong> created. Copy it now, it will not be shown again.
+          </p>
+          <div className="flex gap-2">
+            <code className="flex-1 bg-white border border-green-200 rounded px-2 py-1 font-mono text-xs break-all select-all">{createdToken.token}</code>
+            <button onClick={copyToken} className="text-green-700 hover:text-green-900 px-2" title="Copy">
+              <Icon name="copy" />
+            </button>
+            <button onClick={() => setCreatedToken(null)} className="text-gray-500 hover:text-gray-700 px-2" title="Dismiss">
+              <Icon name="times" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      <form onSubmit={createToken} className="flex flex-wrap gap-3 items-end mb-4">
+        <div className="flex-1 min-w-[200px]">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+          <input
+            type="text"
+            value={name}
+            onChange={e => setName(e.target.value)}
+            placeholder="e.g. Nightly backup script"
+            maxLength={100}
+            className="w-full rounded-md border border-gray-300 p-2 text-sm focus:ring-brand-500 focus:border-brand-500"
+            required
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Scope</label>
+          <select
+            value={scope}
+            onChange={e => setScope(e.target.value as ApiTokenScope)}
+            className="rounded-md border border-gray-300 p-2 text-sm focus:ring-brand-500 focus:border-brand-500"
+          >
+            {(Object.keys(SCOPE_LABELS) as ApiTokenScope[]).map(s => (
+              <option key={s} value={s}>{SCOPE_LABELS[s]}</option>
+            ))}
+          </select>
+        </div>
+        <button type="submit" className="bg-brand-600 text-white px-4 py-2 rounded-md hover:bg-brand-700 transition text-sm">
+          Create Token
+        </button>
+        <p className="w-full text-xs text-gray-400 -mt-1">{SCOPE_DESCRIPTIONS[scope]}</p>
+      </form>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12 text-gray-400">
+          <Icon name="spinner" className="animate-spin text-2xl text-brand-500" />
+        </div>
+      ) : tokens.length === 0 ? (
+        <p className="text-sm text-gray-400 italic">No tokens yet.</p>
+      ) : (
+        <div className="border rounded-lg border-gray-200 divide-y divide-gray-200">
+          {tokens.map(t => (
+            <div key={t.id} className="p-4 flex items-center gap-4">
+              <div className="p-3 rounded-full bg-gray-50 text-gray-500">
+                <Icon name="key" />
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-gray-900 flex items-center gap-2">
+                  <span className="truncate">{t.name}</span>
+                  <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-gray-100 text-gray-700">{SCOPE_LABELS[t.scope]}</span>
+                </p>
+                <p className="text-xs text-gray-500 truncate">
+                  Created {formatDateTime(t.createdAt)} • {t.lastUsedAt ? `Last used ${formatDateTime(t.lastUsedAt)}` : 'Never used'}
+                </p>
+              </div>
+              <button
+                onClick={() => revokeToken(t)}
+                className="text-red-600 hover:text-red-900 bg-red-50 p-2 rounded hover:bg-red-100 transition text-sm"
+                title="Revoke token"
+              >
+                <Icon name="trash" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+};
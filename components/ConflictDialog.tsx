@@ -0,0 +1,102 @@
+import React, { useState, useEffect } from 'react';
+import { ConflictPolicy } from '../types';
+import { Icon } from './Icon';
+import { useFileSystem } from '../contexts/FileSystemContext';
+
+// Asks what to do with an item whose name is already taken in the target folder. Shown by the
+// file system context while an upload, paste or save-from-shared waits for the answer.
+export const ConflictDialog: React.FC = () => {
+  const { pendingConflict, resolveConflict } = useFileSystem();
+  const [applyToAll, setApplyToAll] = useState(false);
+
+  useEffect(() => {
+    if (!pendingConflict) setApplyToAll(false);
+  }, [pendingConflict]);
+
+  if (!pendingConflict) return null;
+
+  const { conflict, remaining, isUpload } = pendingConflict;
+  const bothFolders = conflict.type === 'folder' && conflict.existingType === 'folder';
+  const choose = (policy: ConflictPolicy | null) => resolveConflict(policy, applyToAll);
+
+  const options: { policy: ConflictPolicy, label: string, description: string, icon: string }[] = [
+    ...(bothFolders ? [{
+      policy: 'merge' as const,
+      label: 'Merge',
+      description: 'Combine both folders; files with the same name are replaced',
+      icon: 'object-group'
+    }] : []),
+    {
+      policy: 'replace',
+      label: 'Replace',
+      description: isUpload && conflict.type === 'file' && conflict.existingType === 'file'
+        ? 'Upload as the new content; the current one is kept as a version'
+        : `Move the existing ${conflict.existingType} to the trash`,
+      icon: 'exchange-alt'
+    },
+    {
+      policy: 'keep-both',
+      label: 'Keep both',
+      description: 'Add a number to the new name',
+      icon: 'clone'
+    },
+    {
+      policy: 'skip',
+      label: 'Skip',
+      description: `Leave this ${conflict.type} out`,
+      icon: 'forward'
+    }
+  ];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md p-6 animate-scale-in">
+        <div className="flex justify-between items-center mb-1">
+          <h2 className="text-xl font-bold text-gray-800">Name already in use</h2>
+          <button onClick={() => choose(null)} className="text-gray-500 hover:text-gray-700" title="Cancel">
+            <Icon name="times" />
+          </button>
+        </div>
+        <p className="text-sm text-gray-500 mb-4 break-words">
+          This folder already contains a {conflict.existingType} named <span className="font-medium text-gray-800">"{conflict.name}"</span>.
+        </p>
+
+        <div className="space-y-2">
+          {options.map(option => (
+            <button
+              key={option.policy}
+              onClick={() => choose(option.policy)}
+              className="w-full flex items-center gap-3 p-3 border border-gray-200 rounded-lg text-left hover:bg-brand-50 hover:border-brand-300 transition"
+            >
+              <Icon name={option.icon} className="text-brand-600 w-5" />
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900">{option.label}</p>
+                <p className="text-xs text-gray-500">{option.description}</p>
+              </div>
+            </button>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between mt-4">
+          {remaining > 0 ? (
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={applyToAll}
+                onChange={e => setApplyToAll(e.target.checked)}
+                className="rounded border-gray-300 text-brand-600"
+              />
+              Apply to the other {remaining} conflict{remaining === 1 ? '' : 's'}
+            </label>
+          ) : <span />}
+          <button
+            onClick={() => choose(null)}
+            className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -2,28 +2,48 @@ import React, { useRef, useState, useMemo, useEffect } from 'react';
 import { toast } from 'react-hot-toast';
 import { useFileSystem } from '../contexts/FileSystemContext';
 import { useAuth } from '../contexts/AuthContext';
-import { FileNode } from '../types';
+import { FileNode, SearchFilters, SearchResult, QuickAccessItem, ListingSort } from '../types';
 import { Icon } from './Icon';
-import { formatDate, formatBytes } from '../utils/format';
+import { formatDate, formatBytes, formatItemCount } from '../utils/format';
 import { ShareModal } from './ShareModal';
+import { VersionsModal } from './VersionsModal';
+import { SearchBar, countActiveFilters } from './SearchBar';
+import { SearchResults } from './SearchResults';
+import { TagChip, NodeTags } from './TagChip';
+import { TagsModal } from './TagsModal';
+import { Thumbnail, hasThumbnail } from './Thumbnail';
 
-import { scanDroppedItems } from '../utils/file';
+import { scanDroppedItems, sortNodes } from '../utils/file';
 
 interface DriveViewProps {
-    onSelectFile: (file: FileNode) => void;
-    mode?: 'my-drive' | 'shared';
+    onSelectFile: (file: FileNode, files: FileNode[]) => void; // Opens the preview; files is the list to step through
+    mode?: 'my-drive' | 'shared' | 'starred' | 'recent';
+    onSwitchView?: (view: 'drive' | 'shared') => void; // For search results and quick-access folders that live in another view
 }
 
-export const DriveView: React.FC<DriveViewProps> = ({ onSelectFile, mode = 'my-drive' }) => {
+const RECENT_ACTION_LABELS = { open: 'Opened', upload: 'Uploaded', edit: 'Edited' };
+
+const SORT_LABELS: Record<ListingSort, string> = { name: 'Name', size: 'Size', createdAt: 'Date', type: 'Type' };
+
+export const DriveView: React.FC<DriveViewProps> = ({ onSelectFile, mode = 'my-drive', onSwitchView }) => {
     const { user } = useAuth();
     const {
-        files, currentFolderId, breadcrumbs,
+        folderItems, hasMoreItems, loadMoreItems, isLoadingFolder, listingSort, setListingSort, taggedItems,
+        currentFolderId, breadcrumbs,
         navigate, uploadFile, uploadFiles, uploadFolder, uploadWithStructure, createFolder, deleteNode, refreshFiles,
         clipboard, copyItems, cutItems, pasteItems,
-        sharedFiles, saveSharedFiles, clearSharedFiles, downloadFile, browseFolder,
-        transfers, cancelTransfer, renameNode
+        sharedFiles, saveSharedFiles, clearSharedFiles, downloadFile,
+        transfers, cancelTransfer, renameNode,
+        tags, activeTagId, setActiveTagId,
+        starredItems, recentItems, fetchStarred, fetchRecent, setStarred, recordOpen
     } = useFileSystem();
 
+    // Starred and Recent mix own nodes with shared ones and have no folders to browse
+    const isQuickAccess = mode === 'starred' || mode === 'recent';
+    const isOwn = (node: FileNode) => mode === 'my-drive' || (isQuickAccess && !(node as QuickAccessItem).sharedBy);
+    // Folders (own or inside a share) are paged by the server; the rest is one list
+    const isPaged = (mode === 'my-drive' && !activeTagId) || (mode === 'shared' && !!currentFolderId);
+
     const [dragActive, setDragActive] = useState(false);
     const [showNewFolderInput, setShowNewFolderInput] = useState(false);
     const [newFolderName, setNewFolderName] = useState('');
@@ -35,43 +55,42 @@ export const DriveView: React.FC<DriveViewProps> = ({ onSelectFile, mode = 'my-d
     // Selection State
     const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
 
-    // Sorting State
-    const [sortKey, setSortKey] = useState<'name' | 'size' | 'createdAt'>('name');
-    const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
-
     // Share Modal State
     const [isShareModalOpen, setIsShareModalOpen] = useState(false);
+    const [versionsFile, setVersionsFile] = useState<FileNode | null>(null);
+    const [taggingIds, setTaggingIds] = useState<string[] | null>(null);
 
     // Loading State
     const [isSaving, setIsSaving] = useState(false);
 
+    // Search State
+    const [searchQuery, setSearchQuery] = useState('');
+    const [searchFilters, setSearchFilters] = useState<SearchFilters>({});
+    const isSearching = searchQuery.trim() !== '' || countActiveFilters(searchFilters) > 0;
+
     const fileInputRef = useRef<HTMLInputElement>(null);
     const folderInputRef = useRef<HTMLInputElement>(null);
+    const loadMoreRef = useRef<HTMLDivElement>(null);
 
-    // Cache for shared folder navigation
-    const [cachedSharedFiles, setCachedSharedFiles] = useState<FileNode[]>([]);
-    const [isLoadingShared, setIsLoadingShared] = useState(false);
+    // The next page is loaded when the end of the list scrolls into view
+    useEffect(() => {
+        const sentinel = loadMoreRef.current;
+        if (!sentinel || !isPaged || !hasMoreItems) return;
+        const observer = new IntersectionObserver(entries => {
+            if (entries.some(entry => entry.isIntersecting)) loadMoreItems();
+        }, { rootMargin: '200px' });
+        observer.observe(sentinel);
+        return () => observer.disconnect();
+    }, [isPaged, hasMoreItems, folderItems]);
 
-    // Fetch shared folder content on navigation
     useEffect(() => {
-        if (mode === 'shared' && currentFolderId) {
-            setIsLoadingShared(true);
-            browseFolder(currentFolderId).then(children => {
-                setCachedSharedFiles(prev => {
-                    const others = prev.filter(f => f.parentId !== currentFolderId);
-                    return [...others, ...children];
-                });
-            }).finally(() => setIsLoadingShared(false));
-        } else if (mode === 'shared' && !currentFolderId) {
-            setCachedSharedFiles([]);
-            setIsLoadingShared(false);
-        }
-    }, [currentFolderId, mode]);
+        refreshQuickAccess();
+    }, [mode]);
 
     // Clear selection on folder navigation
     useEffect(() => {
         setSelectedIds(new Set());
-    }, [currentFolderId, mode]);
+    }, [currentFolderId, mode, activeTagId]);
 
     // Close dropdown when clicking outside
     useEffect(() => {
@@ -84,37 +103,23 @@ export const DriveView: React.FC<DriveViewProps> = ({ onSelectFile, mode = 'my-d
 
     // Filter and Sort files
     const currentItems = useMemo(() => {
-        let list: FileNode[] = [];
-
-        if (mode === 'shared') {
-            if (currentFolderId) {
-                // Inside a shared folder
-                list = cachedSharedFiles.filter(f => f.parentId === currentFolderId);
-            } else {
-                // Root shared view
-                list = sharedFiles;
-            }
-        } else {
-            // My Drive Mode
-            if (currentFolderId) {
-                list = files.filter(f => f.parentId === currentFolderId);
-            } else {
-                list = files.filter(f => !f.parentId); // Root
-            }
+        if (mode === 'recent') {
+            // Already newest first
+            return recentItems;
+        } else if (isPaged) {
+            // Own folders and folders inside a share, in the server's order
+            return folderItems;
+        } else if (mode === 'starred') {
+            return sortNodes(starredItems, listingSort);
+        } else if (mode === 'shared') {
+            // Root shared view
+            return sortNodes(sharedFiles, listingSort);
         }
+        // Everything with the tag, from every folder
+        return sortNodes(taggedItems.filter(f => f.tags?.includes(activeTagId!)), listingSort);
+    }, [folderItems, taggedItems, sharedFiles, starredItems, recentItems, isPaged, listingSort, mode, activeTagId]);
 
-        return list.sort((a, b) => {
-            let aValue = a[sortKey];
-            let bValue = b[sortKey];
-            if (sortKey === 'name') {
-                aValue = (aValue as string).toLowerCase();
-                bValue = (bValue as string).toLowerCase();
-            }
-            if (aValue < bValue) return sortDirection === 'asc' ? -1 : 1;
-            if (aValue > bValue) return sortDirection === 'asc' ? 1 : -1;
-            return 0;
-        });
-    }, [files, sharedFiles, cachedSharedFiles, currentFolderId, sortKey, sortDirection, mode]);
+    const activeTag = mode === 'my-drive' && activeTagId ? tags.find(t => t.id === activeTagId) : undefined;
 
     // Selection Logic
     const handleSelectAll = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -138,12 +143,19 @@ export const DriveView: React.FC<DriveViewProps> = ({ onSelectFile, mode = 'my-d
         setActiveMenuId(null); // Close menu if open
     };
 
+    // Renames and deletions only refresh My Drive by themselves
+    const refreshQuickAccess = () => {
+        if (mode === 'starred') fetchStarred();
+        if (mode === 'recent') fetchRecent();
+    };
+
     const handleRename = async (id: string, currentName: string) => {
         const newName = prompt('Enter new name:', currentName);
         if (newName && newName !== currentName) {
             const success = await renameNode(id, newName);
             if (success) {
                 toast.success('Renamed successfully');
+                refreshQuickAccess();
             }
         }
     };
@@ -189,6 +201,53 @@ export const DriveView: React.FC<DriveViewProps> = ({ onSelectFile, mode = 'my-d
         }
     };
 
+    // Stars everything selected unless all of it already is
+    const handleStarSelected = async () => {
+        const items = currentItems.filter(f => selectedIds.has(f.id));
+        const starred = !items.every(f => f.starred);
+        if (await setStarred(items.map(f => f.id), starred)) {
+            toast.success(starred ? 'Added to Starred' : 'Removed from Starred');
+        } else {
+            toast.error('Failed to update stars');
+        }
+    };
+
+    const toggleStar = async (node: FileNode) => {
+        if (!await setStarred([node.id], !node.starred)) toast.error('Failed to update stars');
+    };
+
+    // Folders of the Starred and Recent views open in the view they belong to
+    const openNode = (node: FileNode) => {
+        const sharedBy = isQuickAccess ? (node as QuickAccessItem).sharedBy : null;
+        if (node.type === 'folder') {
+            if (isQuickAccess) onSwitchView?.(sharedBy ? 'shared' : 'drive');
+            navigate(node.id);
+        } else {
+            onSelectFile(node, currentItems);
+            if (mode !== 'shared' && !sharedBy) recordOpen(node.id);
+        }
+    };
+
+    // Folders add what they hold, when the server sent it
+    const formatNodeSize = (node: FileNode) => {
+        if (node.type === 'folder' && node.fileCount !== undefined && node.folderCount !== undefined) {
+            return `${formatBytes(node.size)} • ${formatItemCount(node.fileCount, node.folderCount)}`;
+        }
+        return formatBytes(node.size);
+    };
+
+    // Grid subtitle; Recent shows what happened last instead
+    const describeNode = (node: FileNode) => {
+        const item = node as QuickAccessItem;
+        if (mode === 'recent' && item.lastAction && item.lastActionAt) {
+            return `${RECENT_ACTION_LABELS[item.lastAction]} ${formatDate(item.lastActionAt)}`;
+        }
+        if ((mode === 'shared' || isQuickAccess) && item.sharedBy) {
+            return `Shared by ${item.sharedBy.username} • ${formatBytes(node.size)}`;
+        }
+        return formatNodeSize(node);
+    };
+
     const handleClearShared = async () => {
         if (confirm('Are you sure you want to clear all shared files? This will remove them from your list.')) {
             await clearSharedFiles();
@@ -197,12 +256,42 @@ export const DriveView: React.FC<DriveViewProps> = ({ onSelectFile, mode = 'my-d
     };
 
 
-    const handleHeaderSort = (key: 'name' | 'size' | 'createdAt') => {
-        if (sortKey === key) {
-            setSortDirection(prev => prev === 'asc' ? 'desc' : 'asc');
+    // People whose items show up in "Shared with me", for the owner search filter
+    const searchOwners = useMemo(() => {
+        const owners = new Map<string, string>();
+        sharedFiles.forEach(item => owners.set(item.ownerId, item.sharedBy.username));
+        return Array.from(owners, ([id, username]) => ({ id, username }));
+    }, [sharedFiles]);
+
+    const clearSearch = () => {
+        setSearchQuery('');
+        setSearchFilters({});
+    };
+
+    // Shows a folder from the search results, in the other view when it belongs there
+    const showSearchFolder = (result: SearchResult, folderId: string | null) => {
+        const targetMode = result.sharedBy ? 'shared' : 'my-drive';
+        clearSearch();
+        if (targetMode !== mode) {
+            onSwitchView?.(targetMode === 'shared' ? 'shared' : 'drive');
+        }
+        navigate(folderId);
+    };
+
+    const openSearchResult = (result: SearchResult, results: SearchResult[]) => {
+        if (result.type === 'folder') {
+            showSearchFolder(result, result.id);
+        } else {
+            onSelectFile(result, results);
+            if (!result.sharedBy) recordOpen(result.id);
+        }
+    };
+
+    const handleHeaderSort = (key: ListingSort) => {
+        if (listingSort.key === key) {
+            setListingSort({ key, direction: listingSort.direction === 'asc' ? 'desc' : 'asc' });
         } else {
-            setSortKey(key);
-            setSortDirection('asc');
+            setListingSort({ key, direction: 'asc' });
         }
     };
 
@@ -265,19 +354,20 @@ export const DriveView: React.FC<DriveViewProps> = ({ onSelectFile, mode = 'my-d
     };
 
     const handleDelete = async (id: string) => {
-        if (confirm('Are you sure you want to delete this item?')) {
+        if (confirm('Move this item to the trash?')) {
             await deleteNode(id);
-            toast.success('Item deleted');
+            refreshQuickAccess();
+            toast.success('Moved to trash');
         }
     };
 
     const handleDeleteSelected = async () => {
-        if (confirm(`Delete ${selectedIds.size} items?`)) {
+        if (confirm(`Move ${selectedIds.size} items to the trash?`)) {
             for (const id of selectedIds) {
                 await deleteNode(id);
             }
             setSelectedIds(new Set());
-            toast.success('Items deleted');
+            toast.success('Items moved to trash');
         }
     };
 
@@ -297,10 +387,17 @@ export const DriveView: React.FC<DriveViewProps> = ({ onSelectFile, mode = 'my-d
                         onClick={() => navigate(null)}
                         className={`hover:text-brand-600 flex items-center ${!currentFolderId ? 'font-bold text-gray-900' : ''}`}
                     >
-                        <Icon name={mode === 'shared' ? "share-alt" : "hdd"} className="mr-2" />
-                        {mode === 'shared' ? 'Shared with me' : 'Drive'}
+                        <Icon name={mode === 'shared' ? "share-alt" : mode === 'starred' ? "star" : mode === 'recent' ? "clock" : "hdd"} className="mr-2" />
+                        {mode === 'shared' ? 'Shared with me' : mode === 'starred' ? 'Starred' : mode === 'recent' ? 'Recent' : 'Drive'}
                     </button>
-                    {mode !== 'shared' && breadcrumbs.map((node, index) => (
+                    {activeTag && (
+                        <div className="flex items-center whitespace-nowrap">
+                            <span className="mx-2 text-gray-400">/</span>
+                            <Icon name="tag" className="mr-2 text-gray-400" />
+                            <TagChip tag={activeTag} onRemove={() => setActiveTagId(null)} />
+                        </div>
+                    )}
+                    {(mode === 'my-drive' || mode === 'shared') && !activeTag && breadcrumbs.map((node, index) => (
                         <div key={node.id} className="flex items-center whitespace-nowrap">
                             <span className="mx-2 text-gray-400">/</span>
                             <button
@@ -314,6 +411,14 @@ export const DriveView: React.FC<DriveViewProps> = ({ onSelectFile, mode = 'my-d
                 </div>
 
                 <div className="flex items-center gap-2">
+                    <SearchBar
+                        query={searchQuery}
+                        filters={searchFilters}
+                        onQueryChange={setSearchQuery}
+                        onFiltersChange={setSearchFilters}
+                        owners={searchOwners}
+                    />
+
                     {selectedIds.size > 0 && (
                         <div className="mr-4 flex items-center gap-2 animate-fade-in">
                             <span className="text-sm text-gray-500 font-medium">{selectedIds.size} selected</span>
@@ -333,6 +438,20 @@ export const DriveView: React.FC<DriveViewProps> = ({ onSelectFile, mode = 'my-d
                                     >
                                         <Icon name="download" />
                                     </button>
+                                    <button
+                                        onClick={handleStarSelected}
+                                        className="p-2 text-gray-600 hover:bg-gray-100 rounded-md transition"
+                                        title="Star Selected"
+                                    >
+                                        <Icon name="star" />
+                                    </button>
+                                    <button
+                                        onClick={() => setTaggingIds(Array.from(selectedIds))}
+                                        className="p-2 text-gray-600 hover:bg-gray-100 rounded-md transition"
+                                        title="Tag Selected"
+                                    >
+                                        <Icon name="tags" />
+                                    </button>
                                     <button
                                         onClick={() => { copyItems(selectedIds); toast.success('Copied to clipboard'); setSelectedIds(new Set()); }}
                                         className="p-2 text-gray-600 hover:bg-gray-100 rounded-md transition"
@@ -355,6 +474,23 @@ export const DriveView: React.FC<DriveViewProps> = ({ onSelectFile, mode = 'my-d
                                         <Icon name="trash" />
                                     </button>
                                 </>
+                            ) : isQuickAccess ? (
+                                <>
+                                    <button
+                                        onClick={handleDownload}
+                                        className="p-2 text-gray-600 hover:bg-gray-100 rounded-md transition"
+                                        title="Download Selected"
+                                    >
+                                        <Icon name="download" />
+                                    </button>
+                                    <button
+                                        onClick={handleStarSelected}
+                                        className="p-2 text-gray-600 hover:bg-gray-100 rounded-md transition"
+                                        title="Star Selected"
+                                    >
+                                        <Icon name="star" />
+                                    </button>
+                                </>
                             ) : (
                                 <>
                                     <button
@@ -364,6 +500,13 @@ export const DriveView: React.FC<DriveViewProps> = ({ onSelectFile, mode = 'my-d
                                     >
                                         <Icon name="download" />
                                     </button>
+                                    <button
+                                        onClick={handleStarSelected}
+                                        className="p-2 text-gray-600 hover:bg-gray-100 rounded-md transition"
+                                        title="Star Selected"
+                                    >
+                                        <Icon name="star" />
+                                    </button>
                                     <button
                                         onClick={handleSaveToDrive}
                                         disabled={isSaving}
@@ -379,7 +522,7 @@ export const DriveView: React.FC<DriveViewProps> = ({ onSelectFile, mode = 'my-d
 
                     {mode === 'my-drive' && clipboard.items.size > 0 && (
                         <button
-                            onClick={async () => { await pasteItems(); toast.success('Items pasted'); }}
+                            onClick={async () => { if (await pasteItems()) toast.success('Items pasted'); }}
                             className="flex items-center gap-2 px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition font-medium text-sm shadow-sm"
                             title={`Paste ${clipboard.items.size} items`}
                         >
@@ -404,6 +547,28 @@ export const DriveView: React.FC<DriveViewProps> = ({ onSelectFile, mode = 'my-d
                         <Icon name="sync-alt" />
                     </button>
 
+                    {mode !== 'recent' && (
+                        <div className="flex items-center bg-gray-100 rounded-lg p-1">
+                            <select
+                                value={listingSort.key}
+                                onChange={e => setListingSort({ key: e.target.value as ListingSort, direction: listingSort.direction })}
+                                className="bg-transparent text-sm text-gray-600 pl-2 py-1 focus:outline-none cursor-pointer"
+                                title="Sort by"
+                            >
+                                {(Object.keys(SORT_LABELS) as ListingSort[]).map(key => (
+                                    <option key={key} value={key}>{SORT_LABELS[key]}</option>
+                                ))}
+                            </select>
+                            <button
+                                onClick={() => setListingSort({ key: listingSort.key, direction: listingSort.direction === 'asc' ? 'desc' : 'asc' })}
+                                className="p-2 rounded-md text-gray-500 hover:text-gray-700 transition"
+                                title={listingSort.direction === 'asc' ? 'Ascending' : 'Descending'}
+                            >
+                                <Icon name={listingSort.direction === 'asc' ? 'arrow-up-short-wide' : 'arrow-down-wide-short'} />
+                            </button>
+                        </div>
+                    )}
+
                     <div className="flex bg-gray-100 rounded-lg p-1">
                         <button
                             onClick={() => setViewMode('grid')}
@@ -485,16 +650,30 @@ export const DriveView: React.FC<DriveViewProps> = ({ onSelectFile, mode = 'my-d
 
             {/* File List / Grid */}
             <div className="flex-1 overflow-y-auto p-4" onClick={() => { setSelectedIds(new Set()); setActiveMenuId(null); }}>
-                {isLoadingShared ? (
+                {isSearching ? (
+                    <SearchResults
+                        query={searchQuery.trim()}
+                        filters={mode === 'shared' ? { ...searchFilters, sharedWithMe: true } : searchFilters}
+                        onOpen={openSearchResult}
+                        onOpenFolder={result => showSearchFolder(result, result.folderId)}
+                    />
+                ) : isPaged && isLoadingFolder && currentItems.length === 0 ? (
                     <div className="h-full flex flex-col items-center justify-center text-gray-400">
                         <Icon name="spinner" className="text-4xl mb-4 animate-spin text-brand-500" />
                         <p className="text-sm">Loading folder contents...</p>
                     </div>
                 ) : currentItems.length === 0 ? (
                     <div className="h-full flex flex-col items-center justify-center text-gray-400">
-                        <Icon name="folder-open" className="text-6xl mb-4 text-gray-200" />
-                        <p className="text-lg font-medium">This folder is empty</p>
-                        <p className="text-sm">Drag and drop files here or click Upload</p>
+                        <Icon name={activeTag ? 'tag' : mode === 'starred' ? 'star' : mode === 'recent' ? 'clock' : 'folder-open'} className="text-6xl mb-4 text-gray-200" />
+                        <p className="text-lg font-medium">
+                            {activeTag ? 'Nothing has this tag yet' : mode === 'starred' ? 'Nothing is starred yet' : mode === 'recent' ? 'No recent activity' : 'This folder is empty'}
+                        </p>
+                        <p className="text-sm">
+                            {activeTag ? 'Add it from the Tags option of a file or folder'
+                                : mode === 'starred' ? 'Star files and folders to find them here quickly'
+                                : mode === 'recent' ? 'Files you open, upload or edit show up here'
+                                : 'Drag and drop files here or click Upload'}
+                        </p>
                     </div>
                 ) : viewMode === 'grid' ? (
                     <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-4">
@@ -502,26 +681,31 @@ export const DriveView: React.FC<DriveViewProps> = ({ onSelectFile, mode = 'my-d
                             <div
                                 key={node.id}
                                 onClick={(e) => toggleSelection(e, node.id)}
-                                onDoubleClick={() => node.type === 'folder' ? navigate(node.id) : onSelectFile(node)}
+                                onDoubleClick={() => openNode(node)}
                                 className={`
                             group relative p-4 rounded-xl border transition cursor-pointer flex flex-col items-center text-center hover:shadow-md
                             ${selectedIds.has(node.id) ? 'bg-brand-50 border-brand-300 ring-1 ring-brand-300' : 'bg-white border-gray-200 hover:border-brand-200'}
                         `}
                             >
-                                <div className="text-4xl mb-3 transition-transform group-hover:scale-110">
-                                    {node.type === 'folder' ? (
-                                        <Icon name="folder" className="text-yellow-400" />
-                                    ) : (
-                                        <Icon name="file-alt" className="text-gray-400" />
-                                    )}
-                                </div>
+                                {hasThumbnail(node) ? (
+                                    <Thumbnail
+                                        node={node}
+                                        className="w-full h-24 mb-3 rounded-lg overflow-hidden bg-gray-50 flex items-center justify-center"
+                                        fallback={<Icon name="file-image" className="text-4xl text-gray-400" />}
+                                    />
+                                ) : (
+                                    <div className="text-4xl mb-3 transition-transform group-hover:scale-110">
+                                        {node.type === 'folder' ? (
+                                            <Icon name="folder" className="text-yellow-400" />
+                                        ) : (
+                                            <Icon name="file-alt" className="text-gray-400" />
+                                        )}
+                                    </div>
+                                )}
+                                {node.starred && <Icon name="star" className="absolute top-2 left-2 text-xs text-yellow-400" />}
                                 <p className="text-sm font-medium text-gray-700 truncate w-full mb-1">{node.name}</p>
-                                <p className="text-xs text-gray-400">
-                                    {mode === 'shared' && 'sharedBy' in node
-                                        ? `Shared by ${(node as any).sharedBy.username} • ${node.type === 'folder' ? '-' : formatBytes(node.size)}`
-                                        : node.type === 'folder' ? formatDate(node.createdAt) : formatBytes(node.size)
-                                    }
-                                </p>
+                                {isOwn(node) && <NodeTags tagIds={node.tags} tags={tags} className="justify-center mb-1 w-full" />}
+                                <p className="text-xs text-gray-400">{describeNode(node)}</p>
 
                                 {/* Context Menu Trigger */}
                                 <button
@@ -534,20 +718,31 @@ export const DriveView: React.FC<DriveViewProps> = ({ onSelectFile, mode = 'my-d
                                 {/* Context Menu */}
                                 {activeMenuId === node.id && (
                                     <div className="absolute top-8 right-2 w-40 bg-white rounded-lg shadow-xl border border-gray-100 z-10 overflow-hidden text-left animate-fade-in">
-                                        {mode === 'my-drive' ? (
+                                        {isOwn(node) ? (
                                             <>
-                                                <button onClick={(e) => { e.stopPropagation(); node.type === 'folder' ? navigate(node.id) : onSelectFile(node); setActiveMenuId(null); }} className="w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2">
+                                                <button onClick={(e) => { e.stopPropagation(); openNode(node); setActiveMenuId(null); }} className="w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2">
                                                     <Icon name="eye" className="text-gray-400" /> Open
                                                 </button>
+                                                <button onClick={(e) => { e.stopPropagation(); toggleStar(node); setActiveMenuId(null); }} className="w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2">
+                                                    <Icon name="star" className="text-gray-400" /> {node.starred ? 'Unstar' : 'Star'}
+                                                </button>
                                                 <button onClick={(e) => { e.stopPropagation(); setIsShareModalOpen(true); setSelectedIds(new Set([node.id])); setActiveMenuId(null); }} className="w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2">
                                                     <Icon name="share-alt" className="text-gray-400" /> Share
                                                 </button>
                                                 <button onClick={(e) => { e.stopPropagation(); handleRename(node.id, node.name); setActiveMenuId(null); }} className="w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2">
                                                     <Icon name="edit" className="text-gray-400" /> Rename
                                                 </button>
+                                                <button onClick={(e) => { e.stopPropagation(); setTaggingIds([node.id]); setActiveMenuId(null); }} className="w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2">
+                                                    <Icon name="tags" className="text-gray-400" /> Tags
+                                                </button>
                                                 <button onClick={(e) => { e.stopPropagation(); downloadFile(node.id, node.name, node.type === 'folder'); setActiveMenuId(null); }} className="w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2">
                                                     <Icon name="download" className="text-gray-400" /> Download
                                                 </button>
+                                                {node.type === 'file' && (
+                                                    <button onClick={(e) => { e.stopPropagation(); setVersionsFile(node); setActiveMenuId(null); }} className="w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2">
+                                                        <Icon name="history" className="text-gray-400" /> Versions
+                                                    </button>
+                                                )}
                                                 <button onClick={(e) => { e.stopPropagation(); copyItems(new Set([node.id])); toast.success('Copied to clipboard'); setActiveMenuId(null); }} className="w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2">
                                                     <Icon name="copy" className="text-gray-400" /> Copy
                                                 </button>
@@ -560,15 +755,20 @@ export const DriveView: React.FC<DriveViewProps> = ({ onSelectFile, mode = 'my-d
                                             </>
                                         ) : (
                                             <>
-                                                <button onClick={(e) => { e.stopPropagation(); node.type === 'folder' ? navigate(node.id) : onSelectFile(node); setActiveMenuId(null); }} className="w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2">
+                                                <button onClick={(e) => { e.stopPropagation(); openNode(node); setActiveMenuId(null); }} className="w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2">
                                                     <Icon name="eye" className="text-gray-400" /> Open
                                                 </button>
+                                                <button onClick={(e) => { e.stopPropagation(); toggleStar(node); setActiveMenuId(null); }} className="w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2">
+                                                    <Icon name="star" className="text-gray-400" /> {node.starred ? 'Unstar' : 'Star'}
+                                                </button>
                                                 <button onClick={(e) => { e.stopPropagation(); downloadFile(node.id, node.name, node.type === 'folder'); setActiveMenuId(null); }} className="w-full px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2">
                                                     <Icon name="download" className="text-gray-400" /> Download
                                                 </button>
-                                                <button onClick={(e) => { e.stopPropagation(); saveSharedFiles([node.id]); toast.success('Saved to My Drive'); setActiveMenuId(null); }} className="w-full px-4 py-2 text-sm text-brand-600 hover:bg-brand-50 flex items-center gap-2">
-                                                    <Icon name="cloud-download-alt" className="text-brand-400" /> Save to Drive
-                                                </button>
+                                                {mode === 'shared' && (
+                                                    <button onClick={(e) => { e.stopPropagation(); saveSharedFiles([node.id]); toast.success('Saved to My Drive'); setActiveMenuId(null); }} className="w-full px-4 py-2 text-sm text-brand-600 hover:bg-brand-50 flex items-center gap-2">
+                                                        <Icon name="cloud-download-alt" className="text-brand-400" /> Save to Drive
+                                                    </button>
+                                                )}
                                             </>
                                         )}
                                     </div>
@@ -596,7 +796,7 @@ export const DriveView: React.FC<DriveViewProps> = ({ onSelectFile, mode = 'my-d
                                 <div
                                     key={node.id}
                                     onClick={(e) => toggleSelection(e, node.id)}
-                                    onDoubleClick={() => node.type === 'folder' ? navigate(node.id) : onSelectFile(node)}
+                                    onDoubleClick={() => openNode(node)}
                                     className={`grid grid-cols-12 gap-4 p-3 items-center hover:bg-gray-50 transition cursor-pointer ${selectedIds.has(node.id) ? 'bg-brand-50' : ''}`}
                                 >
                                     <div className="col-span-6 flex items-center min-w-0">
@@ -611,29 +811,63 @@ export const DriveView: React.FC<DriveViewProps> = ({ onSelectFile, mode = 'my-d
                                             <Icon name={node.type === 'folder' ? 'folder' : 'file-alt'} className={node.type === 'folder' ? 'text-yellow-400' : ''} />
                                         </div>
                                         <span className="text-sm font-medium text-gray-700 truncate">{node.name}</span>
+                                        {node.starred && <Icon name="star" className="ml-2 text-xs text-yellow-400" />}
+                                        {isOwn(node) && <NodeTags tagIds={node.tags} tags={tags} className="ml-2 flex-nowrap overflow-hidden" />}
+                                    </div>
+                                    <div className="col-span-3 text-sm text-gray-500 truncate">{formatNodeSize(node)}</div>
+                                    <div className="col-span-2 text-sm text-gray-500 truncate">
+                                        {mode === 'recent' ? describeNode(node) : formatDate(node.createdAt)}
                                     </div>
-                                    <div className="col-span-3 text-sm text-gray-500">{node.type === 'folder' ? '-' : formatBytes(node.size)}</div>
-                                    <div className="col-span-2 text-sm text-gray-500 truncate">{formatDate(node.createdAt)}</div>
                                     <div className="col-span-1 flex justify-end">
                                         <button
-                                            onClick={(e) => { e.stopPropagation(); handleDelete(node.id); }}
-                                            className="text-gray-400 hover:text-red-500 p-1"
+                                            onClick={(e) => { e.stopPropagation(); toggleStar(node); }}
+                                            className={`p-1 ${node.starred ? 'text-yellow-400 hover:text-yellow-500' : 'text-gray-400 hover:text-yellow-400'}`}
+                                            title={node.starred ? 'Unstar' : 'Star'}
                                         >
-                                            <Icon name="trash" />
-                                        </button>
-                                        <button
-                                            onClick={(e) => { e.stopPropagation(); handleRename(node.id, node.name); }}
-                                            className="text-gray-400 hover:text-blue-500 p-1"
-                                            title="Rename"
-                                        >
-                                            <Icon name="edit" />
+                                            <Icon name="star" />
                                         </button>
+                                        {(!isQuickAccess || isOwn(node)) && (
+                                            <>
+                                                <button
+                                                    onClick={(e) => { e.stopPropagation(); handleDelete(node.id); }}
+                                                    className="text-gray-400 hover:text-red-500 p-1"
+                                                >
+                                                    <Icon name="trash" />
+                                                </button>
+                                                <button
+                                                    onClick={(e) => { e.stopPropagation(); handleRename(node.id, node.name); }}
+                                                    className="text-gray-400 hover:text-blue-500 p-1"
+                                                    title="Rename"
+                                                >
+                                                    <Icon name="edit" />
+                                                </button>
+                                            </>
+                                        )}
+                                        {isOwn(node) && node.type === 'file' && (
+                                            <button
+                                                onClick={(e) => { e.stopPropagation(); setVersionsFile(node); }}
+                                                className="text-gray-400 hover:text-brand-600 p-1"
+                                                title="Versions"
+                                            >
+                                                <Icon name="history" />
+                                            </button>
+                                        )}
                                     </div>
                                 </div>
                             ))}
                         </div>
                     </div>
                 )}
+                {!isSearching && isPaged && hasMoreItems && (
+                    <div ref={loadMoreRef} className="flex justify-center py-4">
+                        <button
+                            onClick={(e) => { e.stopPropagation(); loadMoreItems(); }}
+                            className="px-4 py-2 text-sm text-gray-500 hover:text-brand-600 hover:bg-gray-100 rounded-md transition"
+                        >
+                            Load more
+                        </button>
+                    </div>
+                )}
             </div>
             {/* Share Modal */}
             <ShareModal
@@ -641,6 +875,8 @@ export const DriveView: React.FC<DriveViewProps> = ({ onSelectFile, mode = 'my-d
                 onClose={() => setIsShareModalOpen(false)}
                 selectedFileIds={selectedIds}
             />
+            <VersionsModal file={versionsFile} onClose={() => setVersionsFile(null)} />
+            <TagsModal fileIds={taggingIds} onClose={() => setTaggingIds(null)} />
         </div>
     );
 };
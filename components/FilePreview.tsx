@@ -0,0 +1,309 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import hljs from 'highlight.js/lib/common';
+import { marked } from 'marked';
+import DOMPurify from 'dompurify';
+import 'highlight.js/styles/github.css';
+import { FileNode, DownloadLink } from '../types';
+import { Icon } from './Icon';
+import { API_BASE_URL } from '../constants';
+import { useAuth } from '../contexts/AuthContext';
+import { useFileSystem } from '../contexts/FileSystemContext';
+import { formatBytes, formatDateTime } from '../utils/format';
+import { getPreviewKind, getCodeLanguage, MAX_TEXT_PREVIEW_BYTES, PreviewKind } from '../utils/preview';
+
+interface FilePreviewProps {
+  file: FileNode;
+  files: FileNode[]; // The list the file was opened from, for next and previous
+  onNavigate: (file: FileNode) => void;
+  onClose: () => void;
+}
+
+// Larger text is shown without highlighting, which would hold up the page
+const MAX_HIGHLIGHT_BYTES = 256 * 1024;
+
+const ZOOM_STEPS = [0.25, 0.5, 0.75, 1, 1.5, 2, 3, 4];
+
+// Links in rendered markdown open in a new tab, outside the app
+DOMPurify.addHook('afterSanitizeAttributes', node => {
+  if (node.tagName === 'A' && node.getAttribute('href')) {
+    node.setAttribute('target', '_blank');
+    node.setAttribute('rel', 'noopener noreferrer');
+  }
+});
+
+const KIND_ICONS: Record<PreviewKind, string> = {
+  image: 'file-image', pdf: 'file-pdf', audio: 'file-audio', video: 'file-video',
+  markdown: 'file-lines', code: 'file-code', text: 'file-lines', none: 'file'
+};
+
+// Name, type, size and date, for files without a preview and previews that failed
+const MetadataCard: React.FC<{ file: FileNode; message: string }> = ({ file, message }) => {
+  const { downloadFile } = useFileSystem();
+  return (
+    <div className="bg-white rounded-lg shadow-xl w-full max-w-sm p-6 text-center">
+      <Icon name={KIND_ICONS[getPreviewKind(file)]} className="text-5xl text-gray-300 mb-4" />
+      <p className="text-sm font-medium text-gray-900 break-all">{file.name}</p>
+      <p className="text-xs text-gray-400 mt-1 mb-4">{message}</p>
+      <dl className="text-xs text-left divide-y divide-gray-100 border-t border-b border-gray-100 mb-4">
+        <div className="flex justify-between gap-4 py-2">
+          <dt className="text-gray-500">Type</dt>
+          <dd className="text-gray-800 truncate">{file.mimeType || 'Unknown'}</dd>
+        </div>
+        <div className="flex justify-between gap-4 py-2">
+          <dt className="text-gray-500">Size</dt>
+          <dd className="text-gray-800">{formatBytes(file.size)}</dd>
+        </div>
+        <div className="flex justify-between gap-4 py-2">
+          <dt className="text-gray-500">Added</dt>
+          <dd className="text-gray-800">{formatDateTime(file.createdAt)}</dd>
+        </div>
+      </dl>
+      <button
+        onClick={() => downloadFile(file.id, file.name)}
+        className="w-full bg-brand-600 text-white py-2 rounded-md hover:bg-brand-700 transition text-sm"
+      >
+        <Icon name="download" className="mr-2" /> Download
+      </button>
+    </div>
+  );
+};
+
+// Image at fit-to-screen size, or zoomed with the buttons, + and - keys, or a click
+const ImagePreview: React.FC<{ src: string; name: string; onError: () => void }> = ({ src, name, onError }) => {
+  const [zoom, setZoom] = useState<number | null>(null); // null fits the image to the panel
+  const [naturalWidth, setNaturalWidth] = useState(0);
+  const imageRef = useRef<HTMLImageElement>(null);
+
+  // The zoom the fitted image is shown at, to step on from
+  const currentZoom = () => zoom ?? (naturalWidth && imageRef.current ? imageRef.current.clientWidth / naturalWidth : 1);
+  const zoomIn = () => setZoom(ZOOM_STEPS.find(step => step > currentZoom() + 0.01) ?? ZOOM_STEPS[ZOOM_STEPS.length - 1]);
+  const zoomOut = () => setZoom([...ZOOM_STEPS].reverse().find(step => step < currentZoom() - 0.01) ?? ZOOM_STEPS[0]);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if ((e.target as HTMLElement).closest('input, textarea, select')) return;
+      if (e.key === '+'|| e.key === '=') zoomIn();
+      else if (e.key === '-') zoomOut();
+      else if (e.key === '0') setZoom(null);
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  });
+
+  return (
+    <div className="relative w-full h-full">
+      <div className={`w-full h-full overflow-auto flex ${zoom === null ? 'items-center justify-center' : ''}`}>
+        <img
+          ref={imageRef}
+          src={src}
+          alt={name}
+          onLoad={e => setNaturalWidth(e.currentTarget.naturalWidth)}
+          onError={onError}
+          onClick={() => setZoom(zoom === null ? 1 : null)}
+          style={zoom === null ? undefined : { width: naturalWidth * zoom, maxWidth: 'none' }}
+          className={zoom === null ? 'max-w-full max-h-full object-contain cursor-zoom-in' : 'm-auto cursor-zoom-out'}
+          draggable={false}
+        />
+      </div>
+      <div className="absolute bottom-4 left-1/2 -translate-x-1/2 flex items-center gap-1 bg-black bg-opacity-60 text-white rounded-full px-2 py-1 text-sm">
+        <button onClick={zoomOut} className="p-2 hover:text-brand-100" title="Zoom out (-)"><Icon name="magnifying-glass-minus" /></button>
+        <button onClick={() => setZoom(null)} className="px-2 min-w-[4rem] hover:text-brand-100" title="Fit to screen (0)">
+          {zoom === null ? 'Fit' : `${Math.round(zoom * 100)}%`}
+        </button>
+        <button onClick={zoomIn} className="p-2 hover:text-brand-100" title="Zoom in (+)"><Icon name="magnifying-glass-plus" /></button>
+      </div>
+    </div>
+  );
+};
+
+// Markdown as sanitized HTML, with the code blocks highlighted
+const MarkdownPreview: React.FC<{ text: string }> = ({ text }) => {
+  const ref = useRef<HTMLDivElement>(null);
+  const html = useMemo(() => DOMPurify.sanitize(marked.parse(text, { async: false })), [text]);
+
+  useEffect(() => {
+    ref.current?.querySelectorAll<HTMLElement>('pre code').forEach(block => hljs.highlightElement(block));
+  }, [html]);
+
+  return (
+    <div
+      ref={ref}
+      className="prose prose-sm max-w-none prose-pre:bg-gray-50 prose-pre:text-gray-800"
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+};
+
+const CodePreview: React.FC<{ text: string; language: string | null }> = ({ text, language }) => {
+  const html = useMemo(() => {
+    if (text.length > MAX_HIGHLIGHT_BYTES) return null;
+    try {
+      return language ? hljs.highlight(text, { language, ignoreIllegals: true }).value : null;
+    } catch {
+      return null; // A language highlight.js does not know
+    }
+  }, [text, language]);
+
+  return (
+    <pre className="hljs text-xs leading-5 p-4 rounded-lg overflow-auto whitespace-pre">
+      {html === null ? <code>{text}</code> : <code dangerouslySetInnerHTML={{ __html: html }} />}
+    </pre>
+  );
+};
+
+// The content of one file. Text is fetched (up to MAX_TEXT_PREVIEW_BYTES) and shown here; images,
+// PDFs and media load from a signed stream link, so the browser can show, seek and cache them itself.
+const PreviewContent: React.FC<{ file: FileNode }> = ({ file }) => {
+  const { authFetch } = useAuth();
+  const { getDownloadLink } = useFileSystem();
+  const kind = getPreviewKind(file);
+  const isText = kind === 'text' || kind === 'code' || kind === 'markdown';
+  const [link, setLink] = useState<DownloadLink | null>(null);
+  const [text, setText] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadLink = async () => {
+    const newLink = await getDownloadLink(file.id);
+    if (newLink?.streamUrl) setLink(newLink);
+    else setError('Preview could not be loaded');
+  };
+
+  useEffect(() => {
+    if (kind === 'none') return;
+    if (!isText) {
+      loadLink();
+      return;
+    }
+
+    let cancelled = false;
+    authFetch(`${API_BASE_URL}/api/stream/${file.id}`, {
+      headers: { Range: `bytes=0-${MAX_TEXT_PREVIEW_BYTES - 1}` }
+    })
+      .then(async response => {
+        if (!response.ok) throw new Error(`Status ${response.status}`);
+        const content = new TextDecoder().decode(await response.arrayBuffer());
+        if (!cancelled) setText(content);
+      })
+      .catch(error => {
+        console.error('Preview error:', error);
+        if (!cancelled) setError('Preview could not be loaded');
+      });
+    return () => { cancelled = true; };
+  }, [file.id]);
+
+  // Players ask for more ranges while they play; once the link has expired, get a new one
+  const handleMediaError = () => {
+    if (link && Date.now() >= link.expiresAt) {
+      loadLink();
+    } else {
+      setError('This file cannot be shown in the browser');
+    }
+  };
+
+  if (kind === 'none') return <MetadataCard file={file} message="No preview available for this file type" />;
+  if (error) return <MetadataCard file={file} message={error} />;
+
+  if (isText) {
+    if (text === null) return <Icon name="spinner" className="animate-spin text-3xl text-white" />;
+    return (
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl h-full overflow-auto p-6">
+        {file.size > MAX_TEXT_PREVIEW_BYTES && (
+          <p className="text-xs text-gray-500 bg-yellow-50 border border-yellow-200 rounded p-2 mb-4">
+            Showing the first {formatBytes(MAX_TEXT_PREVIEW_BYTES)} of {formatBytes(file.size)}. Download the file to see all of it.
+          </p>
+        )}
+        {kind === 'markdown' ? (
+          <MarkdownPreview text={text} />
+        ) : kind === 'code' ? (
+          <CodePreview text={text} language={getCodeLanguage(file)} />
+        ) : (
+          <pre className="text-sm text-gray-800 whitespace-pre-wrap break-words font-mono">{text}</pre>
+        )}
+      </div>
+    );
+  }
+
+  if (!link) return <Icon name="spinner" className="animate-spin text-3xl text-white" />;
+
+  switch (kind) {
+    case 'image':
+      return <ImagePreview src={link.streamUrl!} name={file.name} onError={handleMediaError} />;
+    case 'pdf':
+      return <iframe src={link.streamUrl} title={file.name} className="w-full max-w-5xl h-full bg-white rounded-lg shadow-xl" />;
+    case 'audio':
+      return (
+        <div className="bg-white rounded-lg shadow-xl w-full max-w-md p-6 text-center">
+          <Icon name="file-audio" className="text-5xl text-brand-500 mb-4" />
+          <p className="text-sm font-medium text-gray-900 break-all mb-4">{file.name}</p>
+          <audio src={link.streamUrl} controls autoPlay onError={handleMediaError} className="w-full" />
+        </div>
+      );
+    default:
+      return <video src={link.streamUrl} controls autoPlay onError={handleMediaError} className="max-w-full max-h-full rounded-lg shadow-xl bg-black" />;
+  }
+};
+
+// Full-screen preview of a file, with next and previous through the other files of its list
+// (arrow keys) and Escape to close
+export const FilePreview: React.FC<FilePreviewProps> = ({ file, files, onNavigate, onClose }) => {
+  const { downloadFile } = useFileSystem();
+  const siblings = useMemo(() => files.filter(node => node.type === 'file'), [files]);
+  const index = siblings.findIndex(node => node.id === file.id);
+  const previous = index > 0 ? siblings[index - 1] : null;
+  const next = index >= 0 && index < siblings.length - 1 ? siblings[index + 1] : null;
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      // Keys in form fields and players stay with them
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, select, audio, video')) return;
+      if (e.key === 'Escape') onClose();
+      else if (e.key === 'ArrowLeft' && previous) onNavigate(previous);
+      else if (e.key === 'ArrowRight' && next) onNavigate(next);
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [previous, next, onNavigate, onClose]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-80 z-40 flex flex-col">
+      <div className="h-14 flex items-center gap-3 px-4 text-white flex-shrink-0">
+        <Icon name={KIND_ICONS[getPreviewKind(file)]} className="text-gray-300" />
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium truncate">{file.name}</p>
+          <p className="text-xs text-gray-400">
+            {formatBytes(file.size)}{index >= 0 && siblings.length > 1 && ` • ${index + 1} of ${siblings.length}`}
+          </p>
+        </div>
+        <button onClick={() => downloadFile(file.id, file.name)} className="p-2 rounded hover:bg-white hover:bg-opacity-10" title="Download">
+          <Icon name="download" />
+        </button>
+        <button onClick={onClose} className="p-2 rounded hover:bg-white hover:bg-opacity-10" title="Close (Esc)">
+          <Icon name="times" className="text-lg" />
+        </button>
+      </div>
+
+      <div className="flex-1 min-h-0 relative flex items-center justify-center px-4 pb-4 md:px-16">
+        <PreviewContent key={file.id} file={file} />
+        {previous && (
+          <button
+            onClick={() => onNavigate(previous)}
+            className="absolute left-2 top-1/2 -translate-y-1/2 w-10 h-10 rounded-full bg-black bg-opacity-50 text-white hover:bg-opacity-80"
+            title={`Previous: ${previous.name}`}
+          >
+            <Icon name="chevron-left" />
+          </button>
+        )}
+        {next && (
+          <button
+            onClick={() => onNavigate(next)}
+            className="absolute right-2 top-1/2 -translate-y-1/2 w-10 h-10 rounded-full bg-black bg-opacity-50 text-white hover:bg-opacity-80"
+            title={`Next: ${next.name}`}
+          >
+            <Icon name="chevron-right" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { SearchFilters } from '../types';
+import { Icon } from './Icon';
+
+interface SearchBarProps {
+  query: string;
+  filters: SearchFilters;
+  onQueryChange: (query: string) => void;
+  onFiltersChange: (filters: SearchFilters) => void;
+  owners: { id: string; username: string }[]; // People who shared something with us
+}
+
+const KINDS = [
+  { value: '', label: 'Any kind' },
+  { value: 'text', label: 'Text' },
+  { value: 'image', label: 'Images' },
+  { value: 'video', label: 'Videos' },
+  { value: 'audio', label: 'Audio' },
+  { value: 'application/pdf', label: 'PDFs' }
+];
+
+const MB = 1024 * 1024;
+
+// Filters that are set, for the badge on the filter button
+export const countActiveFilters = (filters: SearchFilters) =>
+  Object.values(filters).filter(value => value !== undefined && value !== '' && value !== false).length;
+
+const toDateInput = (timestamp?: number) => timestamp ? new Date(timestamp).toISOString().slice(0, 10) : '';
+
+export const SearchBar: React.FC<SearchBarProps> = ({ query, filters, onQueryChange, onFiltersChange, owners }) => {
+  const [showFilters, setShowFilters] = useState(false);
+  const activeCount = countActiveFilters(filters);
+
+  const update = (changes: Partial<SearchFilters>) => onFiltersChange({ ...filters, ...changes });
+  const toMb = (bytes?: number) => bytes === undefined ? '' : String(bytes / MB);
+  const fromMb = (value: string) => value === '' ? undefined : Math.round(parseFloat(value) * MB);
+  // Date inputs give the start of the day; "to" includes the whole day
+  const fromDate = (value: string, endOfDay: boolean) => value ? new Date(value).getTime() + (endOfDay ? 24 * 60 * 60 * 1000 - 1 : 0) : undefined;
+
+  return (
+    <div className="relative flex items-center gap-1" onClick={e => e.stopPropagation()}>
+      <div className="relative">
+        <Icon name="search" className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 text-sm" />
+        <input
+          type="search"
+          value={query}
+          onChange={e => onQueryChange(e.target.value)}
+          onKeyDown={e => { if (e.key === 'Escape') onQueryChange(''); }}
+          placeholder="Search names, paths and text"
+          className="w-56 md:w-72 pl-9 pr-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-brand-500 focus:border-brand-500"
+        />
+      </div>
+      <button
+        onClick={() => setShowFilters(!showFilters)}
+        className={`relative p-2 rounded-md transition ${activeCount > 0 || showFilters ? 'text-brand-600 bg-brand-50' : 'text-gray-500 hover:bg-gray-100'}`}
+        title="Search filters"
+      >
+        <Icon name="sliders-h" />
+        {activeCount > 0 && (
+          <span className="absolute -top-1 -right-1 bg-brand-600 text-white text-[10px] rounded-full w-4 h-4 flex items-center justify-center">
+            {activeCount}
+          </span>
+        )}
+      </button>
+
+      {showFilters && (
+        <div className="absolute top-11 right-0 w-80 bg-white rounded-lg shadow-xl border border-gray-100 z-20 p-4 space-y-3 text-sm animate-fade-in">
+          <div className="grid grid-cols-2 gap-2">
+            <select
+              value={filters.type || ''}
+              onChange={e => update({ type: (e.target.value || undefined) as SearchFilters['type'] })}
+              className="p-2 border border-gray-300 rounded-md"
+            >
+              <option value="">Files & folders</option>
+              <option value="file">Files</option>
+              <option value="folder">Folders</option>
+            </select>
+            <select
+              value={filters.mime || ''}
+              onChange={e => update({ mime: e.target.value || undefined })}
+              className="p-2 border border-gray-300 rounded-md"
+            >
+              {KINDS.map(kind => <option key={kind.value} value={kind.value}>{kind.label}</option>)}
+            </select>
+          </div>
+
+          <div>
+            <p className="text-xs font-medium text-gray-500 mb-1">Size (MB)</p>
+            <div className="grid grid-cols-2 gap-2">
+              <input type="number" min="0" step="any" placeholder="Min" value={toMb(filters.minSize)}
+                onChange={e => update({ minSize: fromMb(e.target.value) })} className="p-2 border border-gray-300 rounded-md" />
+              <input type="number" min="0" step="any" placeholder="Max" value={toMb(filters.maxSize)}
+                onChange={e => update({ maxSize: fromMb(e.target.value) })} className="p-2 border border-gray-300 rounded-md" />
+            </div>
+          </div>
+
+          <div>
+            <p className="text-xs font-medium text-gray-500 mb-1">Modified</p>
+            <div className="grid grid-cols-2 gap-2">
+              <input type="date" value={toDateInput(filters.from)}
+                onChange={e => update({ from: fromDate(e.target.value, false) })} className="p-2 border border-gray-300 rounded-md" />
+              <input type="date" value={toDateInput(filters.to)}
+                onChange={e => update({ to: fromDate(e.target.value, true) })} className="p-2 border border-gray-300 rounded-md" />
+            </div>
+          </div>
+
+          <select
+            value={filters.owner || ''}
+            onChange={e => update({ owner: e.target.value || undefined })}
+            className="w-full p-2 border border-gray-300 rounded-md"
+          >
+            <option value="">Owned by anyone</option>
+            <option value="me">Owned by me</option>
+            {owners.map(owner => <option key={owner.id} value={owner.id}>Owned by {owner.username}</option>)}
+          </select>
+
+          <label className="flex items-center gap-2 text-gray-700">
+            <input
+              type="checkbox"
+              checked={!!filters.sharedWithMe}
+              onChange={e => update({ sharedWithMe: e.target.checked || undefined })}
+              className="rounded border-gray-300 text-brand-600"
+            />
+            Shared with me only
+          </label>
+
+          <div className="flex justify-end pt-1">
+            <button
+              onClick={() => onFiltersChange({})}
+              disabled={activeCount === 0}
+              className="text-xs text-gray-500 hover:text-gray-800 disabled:opacity-40"
+            >
+              Clear filters
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
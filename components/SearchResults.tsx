@@ -0,0 +1,132 @@
+import React, { useState, useEffect } from 'react';
+import { SearchFilters, SearchResult } from '../types';
+import { Icon } from './Icon';
+import { formatBytes, formatDate } from '../utils/format';
+import { useFileSystem } from '../contexts/FileSystemContext';
+
+interface SearchResultsProps {
+  query: string;
+  filters: SearchFilters;
+  onOpen: (result: SearchResult, results: SearchResult[]) => void; // results: the list shown, for the preview
+  onOpenFolder: (result: SearchResult) => void;
+}
+
+const SEARCH_DELAY_MS = 300;
+
+// The server wraps matched words in \u0002 ... \u0003
+const Highlighted: React.FC<{ text: string }> = ({ text }) => {
+  const [first, ...rest] = text.split('\u0002');
+  return (
+    <>
+      {first}
+      {rest.map((part, index) => {
+        const [match, after = ''] = part.split('\u0003');
+        return (
+          <React.Fragment key={index}>
+            <mark className="bg-yellow-200 text-gray-900 rounded-sm px-0.5">{match}</mark>
+            {after}
+          </React.Fragment>
+        );
+      })}
+    </>
+  );
+};
+
+export const SearchResults: React.FC<SearchResultsProps> = ({ query, filters, onOpen, onOpenFolder }) => {
+  const { searchFiles } = useFileSystem();
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Waits for a pause in typing; an answer to an older query is dropped
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    const timer = setTimeout(async () => {
+      const data = await searchFiles(query, filters);
+      if (cancelled) return;
+      setResults(data?.results || []);
+      setHasMore(!!data?.hasMore);
+      setIsLoading(false);
+    }, SEARCH_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, JSON.stringify(filters)]);
+
+  const loadMore = async () => {
+    setIsLoading(true);
+    const data = await searchFiles(query, filters, results.length);
+    if (data) {
+      setResults(prev => [...prev, ...data.results]);
+      setHasMore(data.hasMore);
+    }
+    setIsLoading(false);
+  };
+
+  if (isLoading && results.length === 0) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center text-gray-400">
+        <Icon name="spinner" className="text-4xl mb-4 animate-spin text-brand-500" />
+        <p className="text-sm">Searching...</p>
+      </div>
+    );
+  }
+
+  if (results.length === 0) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center text-gray-400">
+        <Icon name="search" className="text-6xl mb-4 text-gray-200" />
+        <p className="text-lg font-medium">No matches</p>
+        <p className="text-sm">Try other words or fewer filters</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 overflow-hidden" onClick={e => e.stopPropagation()}>
+      <div className="divide-y divide-gray-100">
+        {results.map(result => (
+          <div key={result.id} className="group flex items-start gap-3 p-3 hover:bg-gray-50 transition">
+            <div className="mt-0.5 text-lg text-gray-400">
+              <Icon name={result.type === 'folder' ? 'folder' : 'file-alt'} className={result.type === 'folder' ? 'text-yellow-400' : ''} />
+            </div>
+            <div className="min-w-0 flex-1">
+              <button onClick={() => onOpen(result, results)} className="text-sm font-medium text-gray-800 hover:text-brand-600 text-left break-all">
+                <Highlighted text={result.highlights.name} />
+              </button>
+              <p className="text-xs text-gray-500 truncate" title={result.path}>
+                <Highlighted text={result.highlights.path} />
+              </p>
+              {result.highlights.snippet && (
+                <p className="text-xs text-gray-600 mt-1 line-clamp-2 whitespace-pre-line">
+                  <Highlighted text={result.highlights.snippet} />
+                </p>
+              )}
+              <p className="text-xs text-gray-400 mt-1">
+                {result.type === 'file' ? `${formatBytes(result.size)} • ` : ''}
+                {formatDate(result.modifiedAt)}
+                {result.sharedBy && ` • Shared by ${result.sharedBy.username}`}
+              </p>
+            </div>
+            <button
+              onClick={() => onOpenFolder(result)}
+              className="flex-shrink-0 flex items-center gap-1 px-2 py-1 text-xs text-gray-500 hover:text-brand-600 hover:bg-brand-50 rounded-md transition"
+              title="Open containing folder"
+            >
+              <Icon name="folder-open" /> Open folder
+            </button>
+          </div>
+        ))}
+      </div>
+      {hasMore && (
+        <div className="p-3 text-center border-t border-gray-100">
+          <button onClick={loadMore} disabled={isLoading} className="text-sm text-brand-600 hover:text-brand-700 disabled:opacity-50">
+            {isLoading ? 'Loading...' : 'Show more results'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
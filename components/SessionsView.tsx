@@ -0,0 +1,116 @@
+import React, { useState, useEffect } from 'react';
+import { toast } from 'react-hot-toast';
+import { UserSession } from '../types';
+import { formatDateTime, formatUserAgent } from '../utils/format';
+import { Icon } from './Icon';
+import { API_BASE_URL } from '../constants';
+import { useAuth } from '../contexts/AuthContext';
+
+export const SessionsView: React.FC = () => {
+  const { authFetch } = useAuth();
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchSessions = async () => {
+    try {
+      const response = await authFetch(`${API_BASE_URL}/api/sessions`);
+      if (response.ok) {
+        setSessions(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching sessions', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchSessions();
+  }, []);
+
+  const revokeSession = async (id: string) => {
+    try {
+      const response = await authFetch(`${API_BASE_URL}/api/sessions/${id}`, { method: 'DELETE' });
+      if (response.ok) {
+        toast.success('Device signed out');
+        fetchSessions();
+      } else {
+        toast.error('Failed to sign out device');
+      }
+    } catch (error) {
+      console.error('Error revoking session', error);
+    }
+  };
+
+  const revokeOthers = async () => {
+    if (!confirm('Sign out all other devices?')) return;
+    try {
+      const response = await authFetch(`${API_BASE_URL}/api/sessions/revoke-others`, { method: 'POST' });
+      if (response.ok) {
+        const data = await response.json();
+        toast.success(`Signed out ${data.revoked} other device(s)`);
+        fetchSessions();
+      } else {
+        toast.error('Failed to sign out other devices');
+      }
+    } catch (error) {
+      console.error('Error revoking sessions', error);
+    }
+  };
+
+  const otherSessions = sessions.filter(s => !s.current);
+
+  return (
+    <section>
+      <div className="flex justify-between items-center mb-4 flex-wrap gap-3">
+        <h3 className="text-lg font-semibold text-gray-800 flex items-center gap-2">
+          <Icon name="laptop" /> Active Sessions
+        </h3>
+        {otherSessions.length > 0 && (
+          <button
+            onClick={revokeOthers}
+            className="bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-md hover:bg-gray-50 transition flex items-center gap-2 text-sm shadow-sm"
+          >
+            <Icon name="sign-out-alt" /> Sign out other devices
+          </button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12 text-gray-400">
+          <Icon name="spinner" className="animate-spin text-2xl text-brand-500" />
+        </div>
+      ) : (
+        <div className="border rounded-lg border-gray-200 divide-y divide-gray-200">
+          {sessions.map(s => (
+            <div key={s.id} className="p-4 flex items-center gap-4">
+              <div className="p-3 rounded-full bg-gray-50 text-gray-500">
+                <Icon name={/Android|iPhone|iPad/.test(s.userAgent || '') ? 'mobile-alt' : 'desktop'} />
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-gray-900 flex items-center gap-2">
+                  {formatUserAgent(s.userAgent)}
+                  {s.current && (
+                    <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">This device</span>
+                  )}
+                </p>
+                <p className="text-xs text-gray-500 truncate">
+                  {s.ipAddress || 'Unknown IP'} • Signed in {formatDateTime(s.createdAt)} • Last active {formatDateTime(s.lastSeenAt)}
+                </p>
+              </div>
+              {!s.current && (
+                <button
+                  onClick={() => revokeSession(s.id)}
+                  className="text-red-600 hover:text-red-900 bg-red-50 p-2 rounded hover:bg-red-100 transition text-sm"
+                  title="Sign out this device"
+                >
+                  <Icon name="sign-out-alt" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,47 @@
+import React from 'react';
+import { Tag, TagColor } from '../types';
+import { Icon } from './Icon';
+
+export const TAG_COLORS: TagColor[] = ['gray', 'red', 'orange', 'yellow', 'green', 'teal', 'blue', 'indigo', 'purple', 'pink'];
+
+// Chip background/text and the solid dot for each tag color
+export const TAG_COLOR_CLASSES: Record<TagColor, { chip: string, dot: string }> = {
+  gray: { chip: 'bg-gray-100 text-gray-700', dot: 'bg-gray-400' },
+  red: { chip: 'bg-red-100 text-red-700', dot: 'bg-red-500' },
+  orange: { chip: 'bg-orange-100 text-orange-700', dot: 'bg-orange-500' },
+  yellow: { chip: 'bg-yellow-100 text-yellow-800', dot: 'bg-yellow-400' },
+  green: { chip: 'bg-green-100 text-green-700', dot: 'bg-green-500' },
+  teal: { chip: 'bg-teal-100 text-teal-700', dot: 'bg-teal-500' },
+  blue: { chip: 'bg-blue-100 text-blue-700', dot: 'bg-blue-500' },
+  indigo: { chip: 'bg-indigo-100 text-indigo-700', dot: 'bg-indigo-500' },
+  purple: { chip: 'bg-purple-100 text-purple-700', dot: 'bg-purple-500' },
+  pink: { chip: 'bg-pink-100 text-pink-700', dot: 'bg-pink-500' }
+};
+
+interface TagChipProps {
+  tag: Tag;
+  onRemove?: () => void;
+}
+
+export const TagChip: React.FC<TagChipProps> = ({ tag, onRemove }) => (
+  <span className={`inline-flex items-center gap-1 max-w-full px-2 py-0.5 rounded-full text-[11px] font-medium ${TAG_COLOR_CLASSES[tag.color]?.chip || TAG_COLOR_CLASSES.gray.chip}`}>
+    <span className="truncate">{tag.name}</span>
+    {onRemove && (
+      <button onClick={e => { e.stopPropagation(); onRemove(); }} className="opacity-60 hover:opacity-100" title="Clear">
+        <Icon name="times" />
+      </button>
+    )}
+  </span>
+);
+
+// The chips of a node's tags, in the order of the tag list
+export const NodeTags: React.FC<{ tagIds?: string[], tags: Tag[], className?: string }> = ({ tagIds, tags, className = '' }) => {
+  if (!tagIds || tagIds.length === 0) return null;
+  const nodeTags = tags.filter(tag => tagIds.includes(tag.id));
+  if (nodeTags.length === 0) return null;
+  return (
+    <div className={`flex flex-wrap gap-1 min-w-0 ${className}`}>
+      {nodeTags.map(tag => <TagChip key={tag.id} tag={tag} />)}
+    </div>
+  );
+};
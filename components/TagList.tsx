@@ -0,0 +1,66 @@
+import React from 'react';
+import { Tag } from '../types';
+import { Icon } from './Icon';
+import { TAG_COLORS, TAG_COLOR_CLASSES } from './TagChip';
+import { useFileSystem } from '../contexts/FileSystemContext';
+
+interface TagListProps {
+  selectedTagId: string | null; // Highlighted while the drive is filtered by it
+  onSelect: (tagId: string) => void;
+}
+
+// The sidebar's tag section. Clicking the colored dot moves on to the next color.
+export const TagList: React.FC<TagListProps> = ({ selectedTagId, onSelect }) => {
+  const { tags, createTag, updateTag, deleteTag } = useFileSystem();
+
+  const handleCreate = async () => {
+    const name = prompt('Name of the new tag:');
+    if (name && name.trim()) await createTag(name.trim(), 'gray');
+  };
+
+  const handleRename = async (tag: Tag) => {
+    const name = prompt('Rename tag:', tag.name);
+    if (name && name.trim() && name.trim() !== tag.name) await updateTag(tag.id, { name: name.trim() });
+  };
+
+  const handleDelete = async (tag: Tag) => {
+    if (confirm(`Delete the tag "${tag.name}"? It is removed from every file and folder.`)) await deleteTag(tag.id);
+  };
+
+  const nextColor = (tag: Tag) => TAG_COLORS[(TAG_COLORS.indexOf(tag.color) + 1) % TAG_COLORS.length];
+
+  return (
+    <div className="pt-4">
+      <div className="flex items-center justify-between px-4 mb-1">
+        <span className="text-xs font-semibold text-gray-400 uppercase tracking-wider">Tags</span>
+        <button onClick={handleCreate} className="text-gray-400 hover:text-brand-600 text-xs" title="New tag">
+          <Icon name="plus" />
+        </button>
+      </div>
+      {tags.length === 0 && <p className="px-4 text-xs text-gray-400">No tags yet</p>}
+      {tags.map(tag => (
+        <div
+          key={tag.id}
+          onClick={() => onSelect(tag.id)}
+          className={`group flex items-center gap-3 px-4 py-1.5 rounded-md text-sm cursor-pointer transition ${selectedTagId === tag.id ? 'bg-brand-100 text-brand-800' : 'text-gray-600 hover:bg-gray-100'}`}
+        >
+          <button
+            onClick={e => { e.stopPropagation(); updateTag(tag.id, { color: nextColor(tag) }); }}
+            className={`w-2.5 h-2.5 rounded-full flex-shrink-0 ${TAG_COLOR_CLASSES[tag.color]?.dot || TAG_COLOR_CLASSES.gray.dot}`}
+            title="Change color"
+          />
+          <span className="flex-1 truncate">{tag.name}</span>
+          <span className="text-xs text-gray-400 group-hover:hidden">{tag.itemCount ?? 0}</span>
+          <div className="hidden group-hover:flex items-center gap-1 text-xs text-gray-400">
+            <button onClick={e => { e.stopPropagation(); handleRename(tag); }} className="hover:text-gray-700" title="Rename">
+              <Icon name="edit" />
+            </button>
+            <button onClick={e => { e.stopPropagation(); handleDelete(tag); }} className="hover:text-red-600" title="Delete">
+              <Icon name="trash" />
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,110 @@
+import React, { useState, useEffect } from 'react';
+import { TagColor } from '../types';
+import { Icon } from './Icon';
+import { TagChip, TAG_COLORS, TAG_COLOR_CLASSES } from './TagChip';
+import { useFileSystem } from '../contexts/FileSystemContext';
+
+interface TagsModalProps {
+  fileIds: string[] | null; // Nodes being tagged; null keeps the modal closed
+  onClose: () => void;
+}
+
+// Puts tags on (or takes them off) one or more nodes; new tags can be created on the way
+export const TagsModal: React.FC<TagsModalProps> = ({ fileIds, onClose }) => {
+  const { files, tags, createTag, updateNodeTags } = useFileSystem();
+  const [newName, setNewName] = useState('');
+  const [newColor, setNewColor] = useState<TagColor>('blue');
+
+  useEffect(() => {
+    if (!fileIds) {
+      setNewName('');
+      setNewColor('blue');
+    }
+  }, [fileIds]);
+
+  if (!fileIds) return null;
+
+  const nodes = files.filter(f => fileIds.includes(f.id));
+  const countWith = (tagId: string) => nodes.filter(node => node.tags?.includes(tagId)).length;
+
+  // A tag on some but not all of the nodes is added to the rest first
+  const toggle = (tagId: string) => {
+    if (countWith(tagId) === nodes.length) {
+      updateNodeTags(fileIds, [], [tagId]);
+    } else {
+      updateNodeTags(fileIds, [tagId], []);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    const tag = await createTag(newName.trim(), newColor);
+    if (tag) {
+      await updateNodeTags(fileIds, [tag.id], []);
+      setNewName('');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md p-6 animate-scale-in" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-1">
+          <h2 className="text-xl font-bold text-gray-800">Tags</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <Icon name="times" />
+          </button>
+        </div>
+        <p className="text-sm text-gray-500 mb-4 truncate">
+          {nodes.length === 1 ? nodes[0].name : `${nodes.length} items`}
+        </p>
+
+        <div className="max-h-64 overflow-y-auto space-y-1 mb-4">
+          {tags.length === 0 && <p className="text-sm text-gray-400">No tags yet. Create one below.</p>}
+          {tags.map(tag => {
+            const count = countWith(tag.id);
+            return (
+              <label key={tag.id} className="flex items-center gap-3 p-2 rounded-md hover:bg-gray-50 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={count > 0 && count === nodes.length}
+                  ref={el => { if (el) el.indeterminate = count > 0 && count < nodes.length; }}
+                  onChange={() => toggle(tag.id)}
+                  className="rounded border-gray-300 text-brand-600"
+                />
+                <TagChip tag={tag} />
+              </label>
+            );
+          })}
+        </div>
+
+        <form onSubmit={handleCreate} className="border-t border-gray-100 pt-4">
+          <div className="flex items-center gap-2 mb-2">
+            <input
+              type="text"
+              value={newName}
+              onChange={e => setNewName(e.target.value)}
+              maxLength={50}
+              placeholder="New tag"
+              className="flex-1 p-2 border border-gray-300 rounded-md text-sm focus:ring-brand-500 focus:border-brand-500"
+            />
+            <button type="submit" disabled={!newName.trim()} className="px-3 py-2 bg-brand-600 text-white rounded-md text-sm disabled:opacity-50">
+              Add
+            </button>
+          </div>
+          <div className="flex gap-1.5">
+            {TAG_COLORS.map(color => (
+              <button
+                key={color}
+                type="button"
+                onClick={() => setNewColor(color)}
+                className={`w-5 h-5 rounded-full ${TAG_COLOR_CLASSES[color].dot} ${newColor === color ? 'ring-2 ring-offset-1 ring-gray-400' : ''}`}
+                title={color}
+              />
+            ))}
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
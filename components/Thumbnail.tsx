@@ -0,0 +1,62 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FileNode } from '../types';
+import { API_BASE_URL } from '../constants';
+import { useAuth } from '../contexts/AuthContext';
+
+// Image types the server makes thumbnails of
+const THUMBNAIL_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
+export const hasThumbnail = (node: FileNode) => node.type === 'file' && THUMBNAIL_TYPES.includes(node.mimeType || '');
+
+interface ThumbnailProps {
+  node: FileNode;
+  size?: 'small' | 'medium';
+  className?: string;
+  fallback: React.ReactNode; // Shown until the thumbnail is loaded, and when there is none
+}
+
+// Loads the thumbnail once the element scrolls into view, and again when the file changes
+export const Thumbnail: React.FC<ThumbnailProps> = ({ node, size = 'small', className = '', fallback }) => {
+  const { authFetch } = useAuth();
+  const ref = useRef<HTMLDivElement>(null);
+  const [isVisible, setIsVisible] = useState(false);
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || isVisible) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) setIsVisible(true);
+    }, { rootMargin: '200px' });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [isVisible]);
+
+  useEffect(() => {
+    if (!isVisible || !hasThumbnail(node)) return;
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    authFetch(`${API_BASE_URL}/api/files/${node.id}/thumbnail?size=${size}`)
+      .then(response => response.ok ? response.blob() : null)
+      .then(blob => {
+        if (cancelled) return;
+        objectUrl = blob ? URL.createObjectURL(blob) : null;
+        setUrl(objectUrl);
+      })
+      .catch(() => {
+        if (!cancelled) setUrl(null);
+      });
+    return () => {
+      cancelled = true;
+      setUrl(null);
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+    // A changed size or date means new content or a new name, and so a new thumbnail
+  }, [isVisible, node.id, node.mimeType, node.size, node.createdAt, size]);
+
+  return (
+    <div ref={ref} className={className}>
+      {url ? <img src={url} alt="" className="w-full h-full object-cover" draggable={false} /> : fallback}
+    </div>
+  );
+};
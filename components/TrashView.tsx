@@ -0,0 +1,154 @@
+import React, { useState, useEffect } from 'react';
+import { toast } from 'react-hot-toast';
+import { TrashItem } from '../types';
+import { formatBytes, formatDate, formatDateTime } from '../utils/format';
+import { Icon } from './Icon';
+import { API_BASE_URL } from '../constants';
+import { useAuth } from '../contexts/AuthContext';
+import { useFileSystem } from '../contexts/FileSystemContext';
+
+export const TrashView: React.FC = () => {
+  const { authFetch } = useAuth();
+  const { refreshFiles } = useFileSystem();
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [totalSize, setTotalSize] = useState(0);
+  const [retentionDays, setRetentionDays] = useState(30);
+  const [countsTowardQuota, setCountsTowardQuota] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchTrash = async () => {
+    try {
+      const response = await authFetch(`${API_BASE_URL}/api/trash`);
+      if (response.ok) {
+        const data = await response.json();
+        setItems(data.items);
+        setTotalSize(data.totalSize);
+        setRetentionDays(data.retentionDays);
+        setCountsTowardQuota(data.countsTowardQuota);
+      }
+    } catch (error) {
+      console.error('Error fetching trash', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTrash();
+  }, []);
+
+  const restoreItem = async (item: TrashItem) => {
+    try {
+      const response = await authFetch(`${API_BASE_URL}/api/trash/${item.id}/restore`, { method: 'POST' });
+      const data = await response.json();
+      if (response.ok) {
+        toast.success(`Restored to ${data.path}`);
+        fetchTrash();
+        refreshFiles();
+      } else {
+        toast.error(data.error || 'Failed to restore item');
+      }
+    } catch (error) {
+      console.error('Error restoring item', error);
+    }
+  };
+
+  const purgeItem = async (item: TrashItem) => {
+    if (!confirm(`Delete "${item.name}" permanently? This cannot be undone.`)) return;
+    try {
+      const response = await authFetch(`${API_BASE_URL}/api/trash/${item.id}`, { method: 'DELETE' });
+      if (response.ok) {
+        toast.success('Deleted permanently');
+        fetchTrash();
+      } else {
+        toast.error('Failed to delete item');
+      }
+    } catch (error) {
+      console.error('Error deleting trash item', error);
+    }
+  };
+
+  const emptyTrash = async () => {
+    if (!confirm(`Permanently delete all ${items.length} items in the trash? This cannot be undone.`)) return;
+    try {
+      const response = await authFetch(`${API_BASE_URL}/api/trash`, { method: 'DELETE' });
+      if (response.ok) {
+        toast.success('Trash emptied');
+        fetchTrash();
+      } else {
+        toast.error('Failed to empty trash');
+      }
+    } catch (error) {
+      console.error('Error emptying trash', error);
+    }
+  };
+
+  return (
+    <div className="p-4 md:p-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <p className="text-sm text-gray-500">
+          {retentionDays > 0
+            ? `Items are deleted permanently ${retentionDays} days after they were moved to the trash.`
+            : 'Items stay in the trash until you delete them.'}
+          {' '}
+          {countsTowardQuota
+            ? `The trash uses ${formatBytes(totalSize)} of your storage.`
+            : 'The trash does not count toward your storage.'}
+        </p>
+        <button
+          onClick={emptyTrash}
+          disabled={items.length === 0}
+          className="bg-red-600 text-white px-4 py-2 rounded-md hover:bg-red-700 transition text-sm disabled:opacity-50 flex items-center gap-2"
+        >
+          <Icon name="trash" /> Empty Trash
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12 text-gray-400">
+          <Icon name="spinner" className="animate-spin text-2xl text-brand-500" />
+        </div>
+      ) : items.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-16 text-gray-400">
+          <Icon name="trash" className="text-4xl mb-3" />
+          <p className="text-sm">The trash is empty.</p>
+        </div>
+      ) : (
+        <div className="border rounded-lg border-gray-200 divide-y divide-gray-200">
+          {items.map(item => (
+            <div key={item.id} className="p-4 flex items-center gap-4">
+              <div className="p-3 rounded-full bg-gray-50 text-gray-500">
+                <Icon name={item.type === 'folder' ? 'folder' : 'file'} />
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-gray-900 truncate">{item.name}</p>
+                <p className="text-xs text-gray-500 truncate" title={item.originalPath}>
+                  {item.originalPath} • {formatBytes(item.size)}
+                  {item.type === 'folder' && ` • ${item.itemCount - 1} items`}
+                </p>
+                <p className="text-xs text-gray-400 truncate">
+                  Deleted {formatDateTime(item.deletedAt)}
+                  {item.purgeAt && ` • Deleted permanently on ${formatDate(item.purgeAt)}`}
+                </p>
+              </div>
+              <button
+                onClick={() => restoreItem(item)}
+                className="text-brand-600 hover:text-brand-900 bg-brand-50 p-2 rounded hover:bg-brand-100 transition text-sm"
+                title="Restore"
+              >
+                <Icon name="undo" />
+              </button>
+              <button
+                onClick={() => purgeItem(item)}
+                className="text-red-600 hover:text-red-900 bg-red-50 p-2 rounded hover:bg-red-100 transition text-sm"
+                title="Delete permanently"
+              >
+                <Icon name="times" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,299 @@
+import React, { useState, useEffect } from 'react';
+import { toast } from 'react-hot-toast';
+import { Icon } from './Icon';
+import { API_BASE_URL } from '../constants';
+import { useAuth } from '../contexts/AuthContext';
+import { formatDateTime } from '../utils/format';
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: number | null;
+  recoveryCodesRemaining: number;
+  required: boolean;
+}
+
+interface SetupData {
+  secret: string;
+  otpauthUri: string;
+  qrCodeDataUrl: string;
+}
+
+const RecoveryCodesPanel: React.FC<{ codes: string[], onDone: () => void }> = ({ codes, onDone }) => {
+  const download = () => {
+    const blob = new Blob([codes.join('\n') + '\n'], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'fluxlocal-recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-4 max-w-md">
+      <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 p-3 rounded text-sm">
+        Save these recovery codes somewhere safe. Each code signs you in once if you lose your authenticator.
+        They will not be shown again.
+      </div>
+      <div className="grid grid-cols-2 gap-2 font-mono text-sm bg-gray-50 border border-gray-200 rounded p-4">
+        {codes.map(code => <span key={code}>{code}</span>)}
+      </div>
+      <div className="flex gap-3">
+        <button
+          onClick={download}
+          className="bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-md hover:bg-gray-50 transition flex items-center gap-2 text-sm shadow-sm"
+        >
+          <Icon name="download" /> Download
+        </button>
+        <button onClick={onDone} className="bg-brand-600 text-white px-4 py-2 rounded-md hover:bg-brand-700 transition text-sm">
+          I have saved these codes
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export const TwoFactorSettings: React.FC = () => {
+  const { authFetch, refreshUser } = useAuth();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [setup, setSetup] = useState<SetupData | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [isDisabling, setIsDisabling] = useState(false);
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+
+  const fetchStatus = async () => {
+    try {
+      const response = await authFetch(`${API_BASE_URL}/api/me/2fa`);
+      if (response.ok) {
+        setStatus(await response.json());
+      }
+    } catch (error) {
+      console.error('Error fetching 2FA status', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchStatus();
+  }, []);
+
+  const startSetup = async () => {
+    setError('');
+    try {
+      const response = await authFetch(`${API_BASE_URL}/api/me/2fa/setup`, { method: 'POST' });
+      const data = await response.json();
+      if (response.ok) {
+        setSetup(data);
+      } else {
+        toast.error(data.error || 'Failed to start setup');
+      }
+    } catch (error) {
+      console.error('Error starting 2FA setup', error);
+    }
+  };
+
+  const confirmSetup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const response = await authFetch(`${API_BASE_URL}/api/me/2fa/enable`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code })
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setSetup(null);
+        setCode('');
+        setError('');
+        setRecoveryCodes(data.recoveryCodes);
+        toast.success('Two-factor authentication enabled');
+      } else {
+        setError(data.error || 'Invalid verification code');
+      }
+    } catch (error) {
+      console.error('Error enabling 2FA', error);
+    }
+  };
+
+  const regenerateCodes = async () => {
+    if (!confirm('Generate new recovery codes? Your old codes will stop working.')) return;
+    try {
+      const response = await authFetch(`${API_BASE_URL}/api/me/2fa/recovery-codes`, { method: 'POST' });
+      const data = await response.json();
+      if (response.ok) {
+        setRecoveryCodes(data.recoveryCodes);
+      } else {
+        toast.error(data.error || 'Failed to generate recovery codes');
+      }
+    } catch (error) {
+      console.error('Error generating recovery codes', error);
+    }
+  };
+
+  const disable = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const response = await authFetch(`${API_BASE_URL}/api/me/2fa/disable`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ password })
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setIsDisabling(false);
+        setPassword('');
+        setError('');
+        toast.success('Two-factor authentication disabled');
+        fetchStatus();
+      } else {
+        setError(data.error || 'Failed to disable two-factor authentication');
+      }
+    } catch (error) {
+      console.error('Error disabling 2FA', error);
+    }
+  };
+
+  // Codes are shown once; the user status is reloaded afterwards so a setup requirement is lifted
+  const finishRecoveryCodes = () => {
+    setRecoveryCodes(null);
+    fetchStatus();
+    refreshUser();
+  };
+
+  const renderBody = () => {
+    if (!status) {
+      return (
+        <div className="flex items-center justify-center py-12 text-gray-400">
+          <Icon name="spinner" className="animate-spin text-2xl text-brand-500" />
+        </div>
+      );
+    }
+
+    if (recoveryCodes) {
+      return <RecoveryCodesPanel codes={recoveryCodes} onDone={finishRecoveryCodes} />;
+    }
+
+    if (setup) {
+      return (
+        <form onSubmit={confirmSetup} className="space-y-4 max-w-md">
+          <p className="text-sm text-gray-600">
+            Scan this QR code with an authenticator app (for example Google Authenticator, Aegis or 1Password),
+            then enter the 6-digit code it shows.
+          </p>
+          <img src={setup.qrCodeDataUrl} alt="Authenticator QR code" className="w-48 h-48 border border-gray-200 rounded" />
+          <div className="text-xs text-gray-500">
+            Can't scan? Enter this key manually:
+            <code className="block mt-1 font-mono text-sm text-gray-800 break-all select-all">{setup.secret}</code>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Verification Code</label>
+            <input
+              type="text"
+              value={code}
+              onChange={e => setCode(e.target.value)}
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              placeholder="123456"
+              className="w-full rounded-md border border-gray-300 p-2 text-sm tracking-widest focus:ring-brand-500 focus:border-brand-500"
+              required
+            />
+          </div>
+          <div className="flex gap-3">
+            <button type="submit" className="bg-brand-600 text-white px-4 py-2 rounded-md hover:bg-brand-700 transition">
+              Enable
+            </button>
+            <button
+              type="button"
+              onClick={() => { setSetup(null); setCode(''); setError(''); }}
+              className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-md"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      );
+    }
+
+    if (!status.enabled) {
+      return (
+        <div className="space-y-4 max-w-md">
+          {status.required && (
+            <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 p-3 rounded text-sm flex items-center gap-2">
+              <Icon name="exclamation-triangle" />
+              Two-factor authentication is required for admin accounts.
+            </div>
+          )}
+          <p className="text-sm text-gray-600">
+            Protect your account with a one-time code from an authenticator app in addition to your password.
+          </p>
+          <button onClick={startSetup} className="bg-brand-600 text-white px-4 py-2 rounded-md hover:bg-brand-700 transition">
+            Set up two-factor authentication
+          </button>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-4 max-w-md">
+        <p className="text-sm text-gray-600 flex items-center gap-2">
+          <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">Enabled</span>
+          {status.enabledAt && <span>since {formatDateTime(status.enabledAt)}</span>}
+        </p>
+        <p className="text-sm text-gray-600">
+          {status.recoveryCodesRemaining} recovery code(s) remaining.
+        </p>
+        <div className="flex gap-3 flex-wrap">
+          <button
+            onClick={regenerateCodes}
+            className="bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-md hover:bg-gray-50 transition text-sm shadow-sm"
+          >
+            Generate new recovery codes
+          </button>
+          {!status.required && !isDisabling && (
+            <button
+              onClick={() => setIsDisabling(true)}
+              className="text-red-600 bg-red-50 px-4 py-2 rounded-md hover:bg-red-100 transition text-sm"
+            >
+              Disable
+            </button>
+          )}
+        </div>
+        {isDisabling && (
+          <form onSubmit={disable} className="space-y-3">
+            <label className="block text-sm font-medium text-gray-700">Confirm with your password</label>
+            <input
+              type="password"
+              value={password}
+              onChange={e => setPassword(e.target.value)}
+              className="w-full rounded-md border border-gray-300 p-2 text-sm focus:ring-brand-500 focus:border-brand-500"
+              required
+            />
+            <div className="flex gap-3">
+              <button type="submit" className="bg-red-600 text-white px-4 py-2 rounded-md hover:bg-red-700 transition text-sm">
+                Disable two-factor authentication
+              </button>
+              <button
+                type="button"
+                onClick={() => { setIsDisabling(false); setPassword(''); setError(''); }}
+                className="px-4 py-2 text-gray-600 hover:bg-gray-100 rounded-md text-sm"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <section>
+      <h3 className="text-lg font-semibold text-gray-800 flex items-center gap-2 mb-4">
+        <Icon name="shield-alt" /> Two-Factor Authentication
+      </h3>
+      {error && <div className="bg-red-50 text-red-600 p-3 rounded mb-4 text-sm max-w-md">{error}</div>}
+      {renderBody()}
+    </section>
+  );
+};
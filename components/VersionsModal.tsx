@@ -0,0 +1,149 @@
+import React, { useState, useEffect } from 'react';
+import { toast } from 'react-hot-toast';
+import { FileNode, FileVersion } from '../types';
+import { formatBytes, formatDateTime } from '../utils/format';
+import { Icon } from './Icon';
+import { API_BASE_URL } from '../constants';
+import { useAuth } from '../contexts/AuthContext';
+import { useFileSystem } from '../contexts/FileSystemContext';
+
+interface VersionsModalProps {
+  file: FileNode | null;
+  onClose: () => void;
+}
+
+interface CurrentVersion {
+  size: number;
+  uploadedAt: number;
+  uploadedBy: string | null;
+}
+
+export const VersionsModal: React.FC<VersionsModalProps> = ({ file, onClose }) => {
+  const { authFetch } = useAuth();
+  const { refreshFiles, getDownloadLink } = useFileSystem();
+  const [current, setCurrent] = useState<CurrentVersion | null>(null);
+  const [versions, setVersions] = useState<FileVersion[]>([]);
+  const [limit, setLimit] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const fetchVersions = async () => {
+    if (!file) return;
+    try {
+      const response = await authFetch(`${API_BASE_URL}/api/files/${file.id}/versions`);
+      if (response.ok) {
+        const data = await response.json();
+        setCurrent(data.current);
+        setVersions(data.versions);
+        setLimit(data.limit);
+      }
+    } catch (error) {
+      console.error('Error fetching versions', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setIsLoading(true);
+    setVersions([]);
+    setCurrent(null);
+    fetchVersions();
+  }, [file?.id]);
+
+  if (!file) return null;
+
+  const downloadVersion = async (version: FileVersion) => {
+    const link = await getDownloadLink(file.id, version.id);
+    if (!link) return;
+    const a = document.createElement('a');
+    a.href = link.url;
+    a.download = file.name;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+  };
+
+  const restore = async (version: FileVersion) => {
+    if (!confirm(`Restore the version from ${formatDateTime(version.uploadedAt)}? The current content is kept as a version.`)) return;
+    setRestoringId(version.id);
+    try {
+      const response = await authFetch(`${API_BASE_URL}/api/files/${file.id}/versions/${version.id}/restore`, { method: 'POST' });
+      const data = await response.json();
+      if (response.ok) {
+        toast.success('Version restored');
+        fetchVersions();
+        refreshFiles();
+      } else {
+        toast.error(data.error || 'Failed to restore version');
+      }
+    } catch (error) {
+      console.error('Error restoring version', error);
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg p-6 animate-scale-in">
+        <div className="flex justify-between items-center mb-1">
+          <h2 className="text-xl font-bold text-gray-800 truncate">Versions of {file.name}</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <Icon name="times" />
+          </button>
+        </div>
+        <p className="text-xs text-gray-500 mb-4">
+          Uploading a file with the same name keeps the previous content here.
+          {limit > 0 ? ` Up to ${limit} earlier versions are kept.` : ' Versioning is turned off for your account.'}
+        </p>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12 text-gray-400">
+            <Icon name="spinner" className="animate-spin text-2xl text-brand-500" />
+          </div>
+        ) : (
+          <div className="border rounded-lg border-gray-200 divide-y divide-gray-200 max-h-96 overflow-y-auto">
+            {current && (
+              <div className="p-3 flex items-center gap-3 bg-brand-50">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-gray-900">Current version</p>
+                  <p className="text-xs text-gray-500 truncate">
+                    {formatDateTime(current.uploadedAt)} • {formatBytes(current.size)}{current.uploadedBy && ` • ${current.uploadedBy}`}
+                  </p>
+                </div>
+              </div>
+            )}
+            {versions.length === 0 ? (
+              <p className="p-3 text-sm text-gray-400 italic">No earlier versions.</p>
+            ) : versions.map(v => (
+              <div key={v.id} className="p-3 flex items-center gap-3">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-gray-900">{formatDateTime(v.uploadedAt)}</p>
+                  <p className="text-xs text-gray-500 truncate">
+                    {formatBytes(v.size)}{v.uploadedBy && ` • ${v.uploadedBy}`}
+                  </p>
+                </div>
+                <button
+                  onClick={() => downloadVersion(v)}
+                  className="text-gray-600 hover:text-gray-900 bg-gray-50 p-2 rounded hover:bg-gray-100 transition text-sm"
+                  title="Download this version"
+                >
+                  <Icon name="download" />
+                </button>
+                <button
+                  onClick={() => restore(v)}
+                  disabled={restoringId !== null}
+                  className="text-brand-600 hover:text-brand-900 bg-brand-50 p-2 rounded hover:bg-brand-100 transition text-sm disabled:opacity-50"
+                  title="Restore as current version"
+                >
+                  {restoringId === v.id ? <Icon name="spinner" className="animate-spin" /> : <Icon name="undo" />}
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,19 +1,87 @@
-import React, { createContext, useContext, useState, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { User } from '../types';
-import { API_BASE_URL } from '../constants';
+import { API_BASE_URL, CURRENT_USER_KEY } from '../constants';
 
 interface AuthContextType {
   user: User | null;
-  login: (email: string, password?: string) => Promise<boolean>;
+  token: string | null;
+  isRestoring: boolean;
+  login: (email: string, password?: string) => Promise<LoginResult>;
+  verifyTwoFactor: (challenge: string, code: string) => Promise<{ success: boolean, error?: string }>;
+  refreshUser: () => Promise<void>;
   logout: () => void;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<{ success: boolean, error?: string }>;
+  authFetch: (input: string, init?: RequestInit) => Promise<Response>;
+}
+
+// A password login either signs in directly or asks for a second factor
+export interface LoginResult {
+  success: boolean;
+  twoFactorChallenge?: string;
+  error?: string; // Lockout / backoff reason from the server
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
+  const [token, setToken] = useState<string | null>(null);
+  const [isRestoring, setIsRestoring] = useState(true);
+
+  const clearSession = () => {
+    localStorage.removeItem(CURRENT_USER_KEY);
+    setUser(null);
+    setToken(null);
+  };
+
+  // Restore the stored session on page load; the server decides whether it is still valid
+  useEffect(() => {
+    const restore = async () => {
+      const stored = localStorage.getItem(CURRENT_USER_KEY);
+      if (!stored) return;
+
+      try {
+        const { token: storedToken } = JSON.parse(stored);
+        const response = await fetch(`${API_BASE_URL}/api/me`, {
+          headers: { 'Authorization': `Bearer ${storedToken}` }
+        });
+
+        if (response.ok) {
+          const data = await response.json();
+          setToken(storedToken);
+          setUser(data.user);
+        } else if (response.status === 401) {
+          localStorage.removeItem(CURRENT_USER_KEY);
+        }
+      } catch (error) {
+        console.error('Session restore error:', error);
+      }
+    };
+
+    restore().finally(() => setIsRestoring(false));
+  }, []);
+
+  // fetch() with the session token attached; drops the session when the server rejects it
+  const authFetch = async (input: string, init: RequestInit = {}): Promise<Response> => {
+    const headers = new Headers(init.headers);
+    if (token) {
+      headers.set('Authorization', `Bearer ${token}`);
+    }
+
+    const response = await fetch(input, { ...init, headers });
+    if (response.status === 401 && token) {
+      clearSession();
+    }
+    return response;
+  };
+
+  const startSession = (data: { token: string, user: User }) => {
+    localStorage.setItem(CURRENT_USER_KEY, JSON.stringify({ token: data.token }));
+    setToken(data.token);
+    setUser(data.user);
+  };
 
-  const login = async (email: string, password?: string): Promise<boolean> => {
+  const login = async (email: string, password?: string): Promise<LoginResult> => {
     try {
       const response = await fetch(`${API_BASE_URL}/api/login`, {
         method: 'POST',
@@ -23,22 +91,88 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
       if (response.ok) {
         const data = await response.json();
-        setUser(data.user);
-        return true;
+        if (data.twoFactorRequired) {
+          return { success: false, twoFactorChallenge: data.challenge };
+        }
+        startSession(data);
+        return { success: true };
       }
-      return false;
+      if (response.status === 429) {
+        const data = await response.json();
+        return { success: false, error: data.error };
+      }
+      return { success: false };
     } catch (error) {
       console.error('Login error:', error);
-      return false;
+      return { success: false };
+    }
+  };
+
+  const verifyTwoFactor = async (challenge: string, code: string) => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/login/2fa`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ challenge, code })
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        startSession(data);
+        return { success: true };
+      }
+      return { success: false, error: data.error };
+    } catch (error) {
+      console.error('2FA login error:', error);
+      return { success: false, error: 'Network error' };
+    }
+  };
+
+  // Reload the current user, e.g. after enabling 2FA lifts the setup requirement
+  const refreshUser = async () => {
+    try {
+      const response = await authFetch(`${API_BASE_URL}/api/me`);
+      if (response.ok) {
+        const data = await response.json();
+        setUser(prev => prev ? data.user : prev);
+      }
+    } catch (error) {
+      console.error('Refresh user error:', error);
+    }
+  };
+
+  const changePassword = async (currentPassword: string, newPassword: string) => {
+    try {
+      const response = await authFetch(`${API_BASE_URL}/api/me/password`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ currentPassword, newPassword })
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setUser(prev => prev ? { ...prev, mustChangePassword: false } : prev);
+        return { success: true };
+      }
+      return { success: false, error: data.error };
+    } catch (error) {
+      console.error('Change password error:', error);
+      return { success: false, error: 'Network error' };
     }
   };
 
   const logout = () => {
-    setUser(null);
+    if (token) {
+      // Revoke server-side; the local session is dropped regardless of the outcome
+      authFetch(`${API_BASE_URL}/api/logout`, { method: 'POST' }).catch(error => {
+        console.error('Logout error:', error);
+      });
+    }
+    clearSession();
   };
 
   return (
-    <AuthContext.Provider value={{ user, login, logout }}>
+    <AuthContext.Provider value={{ user, token, isRestoring, login, verifyTwoFactor, refreshUser, logout, changePassword, authFetch }}>
       {children}
     </AuthContext.Provider>
   );
@@ -1,19 +1,46 @@
 ﻿import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { toast } from 'react-hot-toast';
-import { FileNode, TransferItem, SharedItem } from '../types';
+import { FileNode, TransferItem, SharedItem, ConflictPolicy, NameConflict, SearchFilters, SearchResult, Tag, TagColor, QuickAccessItem, ListingSortState, FolderPathEntry, DriveChange, DownloadLink } from '../types';
 import { useAuth } from './AuthContext';
 import { formatBytes } from '../utils/format';
+import { compareNodes } from '../utils/file';
 import { API_BASE_URL } from '../constants';
 
 interface Clipboard {
     items: Set<string>;
+    nodes: FileNode[]; // Kept with the ids: the folder they came from may no longer be loaded at paste time
     operation: 'copy' | 'cut' | null;
 }
 
+// The loaded part of a folder's children, in the current listing order
+interface FolderListing {
+    items: FileNode[];
+    nextCursor: string | null; // null once everything is loaded
+}
+
+const PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 500;
+
+const folderKey = (folderId: string | null) => folderId || 'root';
+
+// A name conflict waiting for the user to pick a policy in the ConflictDialog
+export interface PendingConflict {
+    conflict: NameConflict;
+    remaining: number; // Conflicts after this one, for "apply to all"
+    isUpload: boolean; // Only uploads keep a replaced file's content as a version
+}
+
 interface FileSystemContextType {
-    files: FileNode[];
+    files: FileNode[]; // Every node loaded so far, from cached folders and the tag view
+    folderItems: FileNode[]; // Loaded children of the current folder
+    hasMoreItems: boolean;
+    loadMoreItems: () => Promise<void>;
+    isLoadingFolder: boolean;
+    listingSort: ListingSortState;
+    setListingSort: (sort: ListingSortState) => void;
+    taggedItems: FileNode[]; // Everything with the active tag, from every folder
     currentFolderId: string | null;
-    breadcrumbs: FileNode[];
+    breadcrumbs: FolderPathEntry[];
     usedStorage: number;
     transfers: TransferItem[];
     clipboard: Clipboard;
@@ -21,77 +48,215 @@ interface FileSystemContextType {
     navigate: (folderId: string | null) => void;
     createFolder: (name: string) => Promise<void>;
     uploadFile: (file: File) => Promise<void>;
-    uploadFiles: (items: { file: File, parentId?: string }[]) => Promise<void>;
+    uploadFiles: (items: { file: File, parentId?: string, onConflict?: ConflictPolicy }[]) => Promise<void>;
     uploadFolder: (files: FileList) => Promise<void>;
     uploadWithStructure: (items: { file: File, path: string }[]) => Promise<void>;
     deleteNode: (id: string) => Promise<void>;
     renameNode: (id: string, newName: string) => Promise<boolean>;
     copyItems: (ids: Set<string>) => void;
     cutItems: (ids: Set<string>) => void;
-    pasteItems: () => Promise<void>;
+    pasteItems: () => Promise<boolean>;
     refreshFiles: () => void;
     shareFiles: (fileIds: string[], userIds: string[]) => Promise<boolean>;
     saveSharedFiles: (fileIds: string[]) => Promise<boolean>;
     clearSharedFiles: () => Promise<void>;
     downloadFile: (fileId: string, fileName: string, isFolder?: boolean) => Promise<void>;
-    browseFolder: (folderId: string) => Promise<FileNode[]>;
+    getDownloadLink: (fileId: string, versionId?: string) => Promise<DownloadLink | null>;
     cancelTransfer: (id: string) => void;
     clearCompletedTransfers: () => void;
     searchUsers: (query: string) => Promise<any[]>;
+    searchFiles: (query: string, filters: SearchFilters, offset?: number) => Promise<{ results: SearchResult[], hasMore: boolean } | null>;
     fetchSharedFiles: () => Promise<void>;
+    pendingConflict: PendingConflict | null;
+    resolveConflict: (policy: ConflictPolicy | null, applyToAll: boolean) => void;
+    tags: Tag[];
+    activeTagId: string | null; // The drive lists only nodes with this tag, from every folder
+    setActiveTagId: (tagId: string | null) => void;
+    createTag: (name: string, color: TagColor) => Promise<Tag | null>;
+    updateTag: (tagId: string, changes: { name?: string, color?: TagColor }) => Promise<boolean>;
+    deleteTag: (tagId: string) => Promise<boolean>;
+    updateNodeTags: (fileIds: string[], add: string[], remove: string[]) => Promise<boolean>;
+    starredItems: QuickAccessItem[];
+    recentItems: QuickAccessItem[];
+    fetchStarred: () => Promise<void>;
+    fetchRecent: () => Promise<void>;
+    setStarred: (fileIds: string[], starred: boolean) => Promise<boolean>;
+    recordOpen: (fileId: string) => void;
 }
 
 const FileSystemContext = createContext<FileSystemContextType | undefined>(undefined);
 
 export const FileSystemProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-    const { user } = useAuth();
-    const [files, setFiles] = useState<FileNode[]>([]);
+    const { user, token, authFetch } = useAuth();
+    const [listings, setListings] = useState<Record<string, FolderListing>>({});
+    const [loadingFolderKey, setLoadingFolderKey] = useState<string | null>(null);
+    const [listingSort, setListingSortState] = useState<ListingSortState>({ key: 'name', direction: 'asc' });
+    const [breadcrumbs, setBreadcrumbs] = useState<FolderPathEntry[]>([]);
+    const [taggedItems, setTaggedItems] = useState<FileNode[]>([]);
+    const [usedStorage, setUsedStorage] = useState(0);
     const [sharedFiles, setSharedFiles] = useState<SharedItem[]>([]);
     const [currentFolderId, setCurrentFolderId] = useState<string | null>(null);
     const [transfers, setTransfers] = useState<TransferItem[]>([]);
-    const [clipboard, setClipboard] = useState<Clipboard>({ items: new Set(), operation: null });
+    const [clipboard, setClipboard] = useState<Clipboard>({ items: new Set(), nodes: [], operation: null });
+    const [pendingConflict, setPendingConflict] = useState<PendingConflict | null>(null);
+    const [tags, setTags] = useState<Tag[]>([]);
+    const [activeTagId, setActiveTagId] = useState<string | null>(null);
+    const [starredItems, setStarredItems] = useState<QuickAccessItem[]>([]);
+    const [recentItems, setRecentItems] = useState<QuickAccessItem[]>([]);
+    const conflictResolverRef = React.useRef<((choice: { policy: ConflictPolicy | null, applyToAll: boolean }) => void) | null>(null);
+
+    // Latest values for callbacks that outlive a render (pushed changes, finished uploads)
+    const currentFolderIdRef = React.useRef(currentFolderId);
+    currentFolderIdRef.current = currentFolderId;
+    const breadcrumbsRef = React.useRef(breadcrumbs);
+    breadcrumbsRef.current = breadcrumbs;
+    const listingsRef = React.useRef(listings);
+    listingsRef.current = listings;
+    const listingSortRef = React.useRef(listingSort);
+    listingSortRef.current = listingSort;
+    const activeTagIdRef = React.useRef(activeTagId);
+    activeTagIdRef.current = activeTagId;
+    // Bumped whenever cached listings are dropped, so that pages requested before are ignored
+    const listingGenerationRef = React.useRef(0);
+    const loadingMoreRef = React.useRef(false);
+
+    // Loads a page of a folder's children. Without a cursor the folder starts over with `limit` items.
+    const fetchFolderPage = async (folderId: string | null, cursor: string | null = null, limit = PAGE_SIZE) => {
+        if (!user) return;
+        const key = folderKey(folderId);
+        const generation = listingGenerationRef.current;
+        const params = new URLSearchParams({ sort: listingSortRef.current.key, order: listingSortRef.current.direction, limit: String(limit) });
+        if (cursor) params.set('cursor', cursor);
+        try {
+            const response = await authFetch(`${API_BASE_URL}/api/folders/${key}/children?${params}`);
+            if (!response.ok || generation !== listingGenerationRef.current) return;
+            const data = await response.json();
+            setListings(prev => ({
+                ...prev,
+                [key]: { items: cursor ? [...(prev[key]?.items || []), ...data.items] : data.items, nextCursor: data.nextCursor }
+            }));
+        } catch (error) {
+            console.error('Error fetching folder:', error);
+        }
+    };
 
-    // Track last sync time to avoid redundant refreshes
-    const lastSyncTimeRef = React.useRef<number>(Date.now());
+    const fetchBreadcrumbs = async (folderId: string | null) => {
+        if (!user) return;
+        if (!folderId) {
+            setBreadcrumbs([]);
+            return;
+        }
+        try {
+            const response = await authFetch(`${API_BASE_URL}/api/folders/${folderId}/path`);
+            if (response.ok && currentFolderIdRef.current === folderId) {
+                const data = await response.json();
+                setBreadcrumbs(data.path);
+            }
+        } catch (error) {
+            console.error('Error fetching folder path:', error);
+        }
+    };
+
+    const fetchTaggedItems = async (tagId: string) => {
+        if (!user) return;
+        try {
+            const response = await authFetch(`${API_BASE_URL}/api/files?tag=${encodeURIComponent(tagId)}`);
+            if (response.ok && activeTagIdRef.current === tagId) {
+                setTaggedItems(await response.json());
+            }
+        } catch (error) {
+            console.error('Error fetching tagged files:', error);
+        }
+    };
 
-    const fetchFiles = async () => {
+    const fetchStorage = async () => {
         if (!user) return;
         try {
-            const response = await fetch(`${API_BASE_URL}/api/files?userId=${user.id}&t=${Date.now()}`);
+            const response = await authFetch(`${API_BASE_URL}/api/storage`);
             if (response.ok) {
                 const data = await response.json();
-                setFiles(data);
-                lastSyncTimeRef.current = Date.now();
+                setUsedStorage(data.usedSpace);
             }
         } catch (error) {
-            console.error('Error fetching files:', error);
+            console.error('Error fetching storage usage:', error);
         }
     };
 
-    // Polling for file system changes (Real-time sync)
+    // After a change: every cached folder is dropped and the current one loaded again, as far as it
+    // was scrolled, together with the tag view, the breadcrumbs and the storage meter
+    const reloadListings = async () => {
+        if (!user) return;
+        listingGenerationRef.current++;
+        const folderId = currentFolderIdRef.current;
+        const key = folderKey(folderId);
+        const loaded = listingsRef.current[key]?.items.length || 0;
+        setListings(prev => prev[key] ? { [key]: prev[key] } : {});
+        fetchBreadcrumbs(folderId);
+        fetchStorage();
+        if (activeTagIdRef.current) fetchTaggedItems(activeTagIdRef.current);
+        await fetchFolderPage(folderId, null, Math.min(MAX_PAGE_SIZE, Math.max(PAGE_SIZE, loaded)));
+    };
+
+    // Folders are loaded when first shown and then served from the cache until something changes
     useEffect(() => {
         if (!user) return;
+        const key = folderKey(currentFolderId);
+        if (!listingsRef.current[key]) {
+            setLoadingFolderKey(key);
+            fetchFolderPage(currentFolderId).finally(() => setLoadingFolderKey(current => current === key ? null : current));
+        }
+        fetchBreadcrumbs(currentFolderId);
+    }, [user, currentFolderId, listingSort]);
 
-        const checkUpdates = async () => {
-            try {
-                const response = await fetch(`${API_BASE_URL}/api/system/status`);
-                if (response.ok) {
-                    const data = await response.json();
-                    // If server has newer changes than our last sync
-                    if (data.lastChange > lastSyncTimeRef.current) {
-                        console.log('Detected file system change, refreshing...');
-                        await fetchFiles();
-                    }
-                }
-            } catch (e) {
-                // Ignore polling errors
-            }
-        };
+    useEffect(() => {
+        if (activeTagId) {
+            fetchTaggedItems(activeTagId);
+        } else {
+            setTaggedItems([]);
+        }
+    }, [user, activeTagId]);
 
-        // Check every 2 seconds
-        const intervalId = setInterval(checkUpdates, 2000);
-        return () => clearInterval(intervalId);
-    }, [user]);
+    const loadMoreItems = async () => {
+        const listing = listings[folderKey(currentFolderId)];
+        if (!listing?.nextCursor || loadingMoreRef.current) return;
+        loadingMoreRef.current = true;
+        try {
+            await fetchFolderPage(currentFolderId, listing.nextCursor);
+        } finally {
+            loadingMoreRef.current = false;
+        }
+    };
+
+    // A new order means new pages from the start
+    const setListingSort = (sort: ListingSortState) => {
+        listingGenerationRef.current++;
+        setListings({});
+        setListingSortState(sort);
+    };
+
+    const folderItems = listings[folderKey(currentFolderId)]?.items || [];
+    const hasMoreItems = !!listings[folderKey(currentFolderId)]?.nextCursor;
+    const isLoadingFolder = loadingFolderKey === folderKey(currentFolderId);
+
+    const files = React.useMemo(() => {
+        const byId = new Map<string, FileNode>();
+        (Object.values(listings) as FolderListing[]).forEach(listing => listing.items.forEach(f => byId.set(f.id, f)));
+        [...taggedItems, ...starredItems, ...recentItems].forEach(f => byId.set(f.id, f));
+        return Array.from(byId.values());
+    }, [listings, taggedItems, starredItems, recentItems]);
+
+    // Applies a change to every loaded copy of the given nodes
+    const updateLoadedNodes = (fileIds: string[], change: (node: FileNode) => FileNode) => {
+        const apply = <T extends FileNode>(list: T[]) => list.map(f => fileIds.includes(f.id) ? change(f) as T : f);
+        setListings(prev => {
+            const next: Record<string, FolderListing> = {};
+            for (const key of Object.keys(prev)) next[key] = { ...prev[key], items: apply(prev[key].items) };
+            return next;
+        });
+        setTaggedItems(apply);
+        setStarredItems(apply);
+        setRecentItems(apply);
+    };
 
     // Use a ref to access latest transfers in async callbacks
     const transfersRef = React.useRef(transfers);
@@ -173,11 +338,10 @@ export const FileSystemProvider: React.FC<{ children: ReactNode }> = ({ children
             }
 
             try {
-                const response = await fetch(`${API_BASE_URL}/api/upload/complete`, {
+                const response = await authFetch(`${API_BASE_URL}/api/upload/complete`, {
                     method: 'POST',
                     headers: {
-                        'Content-Type': 'application/json',
-                        'x-user-id': user.id
+                        'Content-Type': 'application/json'
                     },
                     body: JSON.stringify({
                         uploadId,
@@ -185,26 +349,19 @@ export const FileSystemProvider: React.FC<{ children: ReactNode }> = ({ children
                         parentId: transfer.parentId || currentFolderId || 'root',
                         totalChunks,
                         mimeType: file.type,
-                        size: file.size
+                        size: file.size,
+                        onConflict: transfer.onConflict
                     })
                 });
 
                 if (response.ok) {
                     const newFile = await response.json();
-
-                    // Update file list locally first for responsiveness
-                    setFiles(prev => {
-                        // Check if file already exists to avoid duplicates in UI list
-                        const exists = prev.some(f => f.id === newFile.id);
-                        if (exists) return prev.map(f => f.id === newFile.id ? newFile : f);
-                        return [...prev, newFile];
-                    });
+                    if (newFile.skipped) {
+                        updateTransfer(transferId, { status: 'completed', progress: 100, loaded: file.size });
+                        return;
+                    }
 
                     updateTransfer(transferId, { status: 'completed', progress: 100, loaded: file.size });
-
-                    // Force a refresh from server to ensure everything is synced and accurate
-                    // This fixes the "must refresh manually" issue
-                    refreshFiles();
                 } else if (response.status === 413) {
                     // Quota exceeded
                     const errorData = await response.json();
@@ -250,9 +407,8 @@ export const FileSystemProvider: React.FC<{ children: ReactNode }> = ({ children
             const controller = new AbortController();
             const timeoutId = setTimeout(() => controller.abort(), 300000); // 5 minutes timeout per chunk
 
-            const response = await fetch(`${API_BASE_URL}/api/upload/chunk`, {
+            const response = await authFetch(`${API_BASE_URL}/api/upload/chunk`, {
                 method: 'POST',
-                headers: { 'x-user-id': user.id },
                 body: formData,
                 signal: controller.signal
             });
@@ -302,11 +458,10 @@ export const FileSystemProvider: React.FC<{ children: ReactNode }> = ({ children
         if (!user) return { canUpload: false, message: 'User not logged in' };
 
         try {
-            const response = await fetch(`${API_BASE_URL}/api/check-quota`, {
+            const response = await authFetch(`${API_BASE_URL}/api/check-quota`, {
                 method: 'POST',
                 headers: {
-                    'Content-Type': 'application/json',
-                    'x-user-id': user.id
+                    'Content-Type': 'application/json'
                 },
                 body: JSON.stringify({ fileSize })
             });
@@ -330,6 +485,89 @@ export const FileSystemProvider: React.FC<{ children: ReactNode }> = ({ children
         }
     };
 
+    // Items of a planned upload, copy or save whose names are already taken in the target folder
+    const checkConflicts = async (targetFolderId: string, items: { name: string, type: 'file' | 'folder' }[]): Promise<NameConflict[]> => {
+        if (items.length === 0) return [];
+        try {
+            const response = await authFetch(`${API_BASE_URL}/api/files/conflicts`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({ targetFolderId, items })
+            });
+            if (response.ok) {
+                const data = await response.json();
+                return data.conflicts;
+            }
+        } catch (error) {
+            console.error('Conflict check error:', error);
+        }
+        // The server still resolves anything missed here with its default policy
+        return [];
+    };
+
+    // Asks for a policy per conflict through the ConflictDialog. Resolves to the chosen policy by
+    // name, or null when the user cancelled the whole operation.
+    const askConflictPolicies = async (conflicts: NameConflict[], isUpload: boolean): Promise<Map<string, ConflictPolicy> | null> => {
+        const policies = new Map<string, ConflictPolicy>();
+        let applyToAll: ConflictPolicy | null = null;
+
+        for (let i = 0; i < conflicts.length; i++) {
+            const conflict = conflicts[i];
+            if (applyToAll) {
+                policies.set(conflict.name, applyToAll);
+                continue;
+            }
+            const choice = await new Promise<{ policy: ConflictPolicy | null, applyToAll: boolean }>(resolve => {
+                conflictResolverRef.current = resolve;
+                setPendingConflict({ conflict, remaining: conflicts.length - i - 1, isUpload });
+            });
+            if (!choice.policy) return null;
+            policies.set(conflict.name, choice.policy);
+            if (choice.applyToAll) applyToAll = choice.policy;
+        }
+        return policies;
+    };
+
+    const resolveConflict = (policy: ConflictPolicy | null, applyToAll: boolean) => {
+        const resolve = conflictResolverRef.current;
+        conflictResolverRef.current = null;
+        setPendingConflict(null);
+        resolve?.({ policy, applyToAll });
+    };
+
+    // Runs a copy, move or save once per chosen policy; items that are skipped are left out entirely
+    const transferNodes = async (endpoint: string, nodes: FileNode[], targetFolderId: string, conflictFree: FileNode[] = []): Promise<boolean | null> => {
+        const conflicts = await checkConflicts(targetFolderId, nodes.map(n => ({ name: n.name, type: n.type })));
+        const policies = await askConflictPolicies(conflicts, false);
+        if (!policies) return null;
+
+        const groups = new Map<ConflictPolicy | undefined, string[]>();
+        for (const node of [...nodes, ...conflictFree]) {
+            const policy = policies.get(node.name);
+            if (policy === 'skip') continue;
+            groups.set(policy, [...(groups.get(policy) || []), node.id]);
+        }
+
+        let ok = true;
+        for (const [onConflict, fileIds] of groups) {
+            const response = await authFetch(`${API_BASE_URL}${endpoint}`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({ fileIds, targetFolderId, onConflict })
+            });
+            if (!response.ok) {
+                const data = await response.json().catch(() => ({}));
+                toast.error(data.error || 'Some items could not be transferred');
+                ok = false;
+            }
+        }
+        return ok;
+    };
+
     const uploadFile = async (file: File, parentFolderId?: string) => {
         if (!user) return;
 
@@ -367,9 +605,30 @@ export const FileSystemProvider: React.FC<{ children: ReactNode }> = ({ children
     };
 
 
-    const uploadFiles = async (items: { file: File, parentId?: string }[]) => {
+    const uploadFiles = async (items: { file: File, parentId?: string, onConflict?: ConflictPolicy }[]) => {
         if (!user || items.length === 0) return;
 
+        // Ask about files that would land on an existing name, once per target folder
+        const unresolved = new Map<string, typeof items>();
+        for (const item of items) {
+            if (item.onConflict) continue;
+            const target = item.parentId || currentFolderId || 'root';
+            unresolved.set(target, [...(unresolved.get(target) || []), item]);
+        }
+        const skipped = new Set<typeof items[number]>();
+        for (const [target, group] of unresolved) {
+            const conflicts = await checkConflicts(target, group.map(item => ({ name: item.file.name, type: 'file' as const })));
+            const policies = await askConflictPolicies(conflicts, true);
+            if (!policies) return;
+            for (const item of group) {
+                const policy = policies.get(item.file.name);
+                if (policy === 'skip') skipped.add(item);
+                else if (policy) item.onConflict = policy;
+            }
+        }
+        items = items.filter(item => !skipped.has(item));
+        if (items.length === 0) return;
+
         // Calculate total size of all files
         const totalSize = items.reduce((sum, item) => sum + item.file.size, 0);
 
@@ -383,7 +642,7 @@ export const FileSystemProvider: React.FC<{ children: ReactNode }> = ({ children
         const newTransfers: TransferItem[] = [];
         const transferIds: string[] = [];
 
-        items.forEach(({ file, parentId }) => {
+        items.forEach(({ file, parentId, onConflict }) => {
             const transferId = Math.random().toString(36).substring(7);
             const uploadId = Math.random().toString(36).substring(7);
             const totalChunks = Math.ceil(file.size / CHUNK_SIZE);
@@ -400,7 +659,8 @@ export const FileSystemProvider: React.FC<{ children: ReactNode }> = ({ children
                 uploadId,
                 chunkIndex: 0,
                 totalChunks,
-                parentId: parentId || currentFolderId || 'root'
+                parentId: parentId || currentFolderId || 'root',
+                onConflict
             });
 
             transferStatusRef.current.set(transferId, 'pending');
@@ -431,17 +691,42 @@ export const FileSystemProvider: React.FC<{ children: ReactNode }> = ({ children
         }));
     };
 
+    // Signed, short-lived link for the browser to open directly, so the session token stays out of
+    // the address bar, history and server logs
+    const getDownloadLink = async (fileId: string, versionId?: string): Promise<DownloadLink | null> => {
+        if (!user) return null;
+        try {
+            const response = await authFetch(`${API_BASE_URL}/api/files/${fileId}/download-link`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ versionId })
+            });
+            const data = await response.json();
+            if (!response.ok) {
+                toast.error(data.error || 'Download failed');
+                return null;
+            }
+            return {
+                url: `${API_BASE_URL}${data.url}`,
+                streamUrl: data.streamUrl && `${API_BASE_URL}${data.streamUrl}`,
+                expiresAt: data.expiresAt
+            };
+        } catch (error) {
+            console.error('Download link error:', error);
+            return null;
+        }
+    };
+
     const downloadFile = async (fileId: string, fileName: string, isFolder: boolean = false) => {
         if (!user) return;
 
         try {
             // Direct browser download - no in-app notification
-            const url = isFolder
-                ? `${API_BASE_URL}/api/download-folder/${fileId}?userId=${user.id}`
-                : `${API_BASE_URL}/api/download/${fileId}?userId=${user.id}`;
+            const link = await getDownloadLink(fileId);
+            if (!link) return;
 
             const a = document.createElement('a');
-            a.href = url;
+            a.href = link.url;
             a.download = isFolder ? `${fileName}.zip` : fileName;
             document.body.appendChild(a);
             a.click();
@@ -453,88 +738,238 @@ export const FileSystemProvider: React.FC<{ children: ReactNode }> = ({ children
 
 
 
-    const browseFolder = async (folderId: string): Promise<FileNode[]> => {
-        if (!user) return [];
+    const fetchSharedFiles = async () => {
+        if (!user) return;
         try {
-            const response = await fetch(`${API_BASE_URL}/api/browse/${folderId}`, {
-                headers: { 'x-user-id': user.id }
-            });
+            const response = await authFetch(`${API_BASE_URL}/api/shared`);
             if (response.ok) {
-                return await response.json();
+                const data = await response.json();
+                setSharedFiles(data);
             }
         } catch (error) {
-            console.error('Error browsing folder:', error);
+            console.error('Error fetching shared files:', error);
         }
-        return [];
     };
 
-    const fetchSharedFiles = async () => {
+    const fetchTags = async () => {
         if (!user) return;
         try {
-            const response = await fetch(`${API_BASE_URL}/api/shared`, {
-                headers: { 'x-user-id': user.id }
-            });
+            const response = await authFetch(`${API_BASE_URL}/api/tags`);
             if (response.ok) {
                 const data = await response.json();
-                setSharedFiles(data);
+                setTags(data.tags);
             }
         } catch (error) {
-            console.error('Error fetching shared files:', error);
+            console.error('Error fetching tags:', error);
+        }
+    };
+
+    const fetchStarred = async () => {
+        if (!user) return;
+        try {
+            const response = await authFetch(`${API_BASE_URL}/api/starred`);
+            if (response.ok) {
+                setStarredItems(await response.json());
+            }
+        } catch (error) {
+            console.error('Error fetching starred items:', error);
+        }
+    };
+
+    const fetchRecent = async () => {
+        if (!user) return;
+        try {
+            const response = await authFetch(`${API_BASE_URL}/api/recent`);
+            if (response.ok) {
+                setRecentItems(await response.json());
+            }
+        } catch (error) {
+            console.error('Error fetching recent items:', error);
         }
     };
 
     useEffect(() => {
-        fetchFiles();
+        fetchStorage();
         fetchSharedFiles();
+        fetchTags();
     }, [user]);
 
     const refreshFiles = () => {
-        fetchFiles();
+        reloadListings();
         fetchSharedFiles();
+        fetchTags();
+        fetchStarred();
+        fetchRecent();
     }
 
     const navigate = (folderId: string | null) => {
         setCurrentFolderId(folderId);
+        setActiveTagId(null);
     };
 
-    const breadcrumbs = React.useMemo(() => {
-        const path: FileNode[] = [];
-        let currId = currentFolderId;
-        while (currId) {
-            const node = files.find(f => f.id === currId);
-            if (node) {
-                path.unshift(node);
-                currId = node.parentId;
-            } else {
-                break;
+    // Puts a node at its place among a folder's loaded children. When it sorts after them and more
+    // pages remain, it is left for the page it belongs to.
+    const placeInListing = (listing: FolderListing, node: FileNode): FolderListing => {
+        const items = listing.items.filter(f => f.id !== node.id);
+        const index = items.findIndex(f => compareNodes(node, f, listingSortRef.current) < 0);
+        if (index === -1) {
+            return { ...listing, items: listing.nextCursor ? items : [...items, node] };
+        }
+        return { ...listing, items: [...items.slice(0, index), node, ...items.slice(index)] };
+    };
+
+    // Storage and tag counts follow a burst of changes with one request each
+    const countsTimerRef = React.useRef<ReturnType<typeof setTimeout> | null>(null);
+    const scheduleCountsRefresh = () => {
+        if (countsTimerRef.current) clearTimeout(countsTimerRef.current);
+        countsTimerRef.current = setTimeout(() => {
+            countsTimerRef.current = null;
+            fetchStorage();
+            fetchTags();
+        }, 1000);
+    };
+
+    // Applies a change pushed by the server to everything loaded, instead of loading it again
+    const applyChange = (change: DriveChange) => {
+        if (!user) return;
+        const { type, nodeId, node } = change;
+
+        if (type === 'shared' || type === 'unshared') {
+            fetchSharedFiles();
+            return;
+        }
+
+        const totals = new Map(change.folders.map(folder => [folder.id, folder]));
+        const refresh = <T extends FileNode>(f: T): T => {
+            const folder = totals.get(f.id);
+            const current = node && f.id === node.id ? { ...f, ...node } : f;
+            return folder ? { ...current, size: folder.size, fileCount: folder.fileCount, folderCount: folder.folderCount } : current;
+        };
+        const apply = <T extends FileNode>(list: T[]) =>
+            (type === 'deleted' ? list.filter(f => f.id !== nodeId) : list).map(refresh);
+
+        // The folder the node now sits in. The parent of a node shared with us is not ours, even when
+        // it is the owner's root.
+        const targetKey = node && (change.folderId || node.ownerId === user.id) ? folderKey(change.folderId) : null;
+        const changedKey = type === 'changed' ? folderKey(change.folderId) : null;
+        const currentKey = folderKey(currentFolderIdRef.current);
+
+        setListings(prev => {
+            const next: Record<string, FolderListing> = {};
+            for (const key of Object.keys(prev)) {
+                if (type === 'deleted' && key === nodeId) continue;
+                if (key === changedKey && key !== currentKey) continue; // Loaded again when opened
+                let items = apply(prev[key].items);
+                if (node && key !== targetKey) items = items.filter(f => f.id !== node.id);
+                next[key] = key === targetKey ? placeInListing({ ...prev[key], items }, refresh(node!)) : { ...prev[key], items };
+            }
+            return next;
+        });
+        setSharedFiles(apply);
+        setStarredItems(apply);
+        setRecentItems(apply);
+
+        const tagId = activeTagIdRef.current;
+        if (tagId && type === 'changed') {
+            fetchTaggedItems(tagId);
+        } else if (tagId) {
+            setTaggedItems(prev => {
+                const items = apply(prev);
+                if (!node) return items;
+                if (node.ownerId !== user.id || !node.tags?.includes(tagId)) return items.filter(f => f.id !== node.id);
+                return items.some(f => f.id === node.id) ? items : [...items, node];
+            });
+        }
+
+        if (changedKey && changedKey === currentKey) {
+            const loaded = listingsRef.current[changedKey]?.items.length || 0;
+            fetchFolderPage(change.folderId, null, Math.min(MAX_PAGE_SIZE, Math.max(PAGE_SIZE, loaded)));
+        }
+
+        // The open folder, or one above it, was renamed, moved or deleted
+        const crumbs = breadcrumbsRef.current;
+        const crumbIndex = crumbs.findIndex(crumb => crumb.id === nodeId);
+        if (crumbIndex !== -1) {
+            if (type === 'deleted') {
+                navigate(crumbIndex > 0 ? crumbs[crumbIndex - 1].id : null);
+            } else if (type === 'renamed' || type === 'moved') {
+                fetchBreadcrumbs(currentFolderIdRef.current);
             }
         }
-        return path;
-    }, [files, currentFolderId]);
 
-    const usedStorage = React.useMemo(() => {
-        if (!user) return 0;
-        return files.filter(f => f.ownerId === user.id).reduce((acc, curr) => acc + curr.size, 0);
-    }, [files, user]);
+        scheduleCountsRefresh();
+    };
+
+    // Changes come over Server-Sent Events. The id of the last event seen is sent when connecting
+    // again, so that nothing is missed; the server asks for a full reload when it cannot replay.
+    const eventHandlersRef = React.useRef({ applyChange, refreshFiles });
+    eventHandlersRef.current = { applyChange, refreshFiles };
+    const lastEventIdRef = React.useRef<string | null>(null);
+
+    // EventSource cannot send the session token, so each connection opens with a short-lived ticket.
+    // The browser's own reconnects would reuse an expired one, so errors reconnect from here.
+    useEffect(() => {
+        if (!user || !token) return;
+        let source: EventSource | null = null;
+        let retryTimer: ReturnType<typeof setTimeout> | null = null;
+        let closed = false;
+
+        const retry = () => {
+            source?.close();
+            source = null;
+            if (!closed) retryTimer = setTimeout(connect, 5000);
+        };
 
-    const createFolder = async (name: string, parentFolderId?: string, skipRefresh = false): Promise<string | null> => {
+        const connect = async () => {
+            let ticket: string;
+            try {
+                const response = await authFetch(`${API_BASE_URL}/api/events/ticket`, { method: 'POST' });
+                if (!response.ok) return retry();
+                ticket = (await response.json()).ticket;
+            } catch (error) {
+                return retry();
+            }
+            if (closed) return;
+
+            const params = new URLSearchParams({ ticket });
+            if (lastEventIdRef.current) params.set('lastEventId', lastEventIdRef.current);
+            source = new EventSource(`${API_BASE_URL}/api/events?${params}`);
+            const track = (event: MessageEvent) => {
+                if (event.lastEventId) lastEventIdRef.current = event.lastEventId;
+            };
+            source.addEventListener('ready', track);
+            source.addEventListener('change', (event: MessageEvent) => {
+                track(event);
+                eventHandlersRef.current.applyChange(JSON.parse(event.data));
+            });
+            source.addEventListener('resync', () => eventHandlersRef.current.refreshFiles());
+            source.onerror = retry;
+        };
+
+        connect();
+        return () => {
+            closed = true;
+            if (retryTimer) clearTimeout(retryTimer);
+            source?.close();
+        };
+    }, [user, token]);
+
+    const createFolder = async (name: string, parentFolderId?: string, onConflict?: ConflictPolicy): Promise<string | null> => {
         if (!user) return null;
         try {
-            const response = await fetch(`${API_BASE_URL}/api/folder`, {
+            const response = await authFetch(`${API_BASE_URL}/api/folder`, {
                 method: 'POST',
                 headers: {
-                    'Content-Type': 'application/json',
-                    'x-user-id': user.id
+                    'Content-Type': 'application/json'
                 },
                 body: JSON.stringify({
-                    userId: user.id,
                     parentId: parentFolderId || currentFolderId || 'root',
-                    name
+                    name,
+                    onConflict
                 })
             });
             if (response.ok) {
                 const data = await response.json();
-                if (!skipRefresh) fetchFiles();
                 return data.id;
             }
         } catch (error) {
@@ -565,7 +1000,20 @@ export const FileSystemProvider: React.FC<{ children: ReactNode }> = ({ children
 
         if (!confirmed) return;
 
-        const quotaCheck = await checkQuota(totalSize);
+        // Conflicts are resolved for the entries dropped into the current folder; below a folder that
+        // is merged, files with the same name are replaced
+        const topEntries = new Map<string, 'file' | 'folder'>();
+        for (const item of items) {
+            const [top, ...rest] = item.path.split('/');
+            topEntries.set(top, rest.length > 0 ? 'folder' : 'file');
+        }
+        const conflicts = await checkConflicts(currentFolderId || 'root', Array.from(topEntries, ([name, type]) => ({ name, type })));
+        const policies = await askConflictPolicies(conflicts, true);
+        if (!policies) return;
+        items = items.filter(item => policies.get(item.path.split('/')[0]) !== 'skip');
+        if (items.length === 0) return;
+
+        const quotaCheck = await checkQuota(items.reduce((sum, item) => sum + item.file.size, 0));
         if (!quotaCheck.canUpload) {
             toast.error(`Cannot upload:\n\n` + quotaCheck.message, { duration: 5000 });
             return;
@@ -593,8 +1041,8 @@ export const FileSystemProvider: React.FC<{ children: ReactNode }> = ({ children
 
             if (!parentId) return null; // Parent creation failed
 
-            // Use silent creation to avoid refresh storm
-            const newFolderId = await createFolder(folderName, parentId === 'root' ? undefined : parentId, true);
+            const onConflict = parentPath === '' ? policies.get(folderName) : undefined;
+            const newFolderId = await createFolder(folderName, parentId === 'root' ? undefined : parentId, onConflict);
 
             if (newFolderId) {
                 folderCache.set(fullPath, newFolderId);
@@ -603,7 +1051,7 @@ export const FileSystemProvider: React.FC<{ children: ReactNode }> = ({ children
             return null;
         };
 
-        const uploadQueue: { file: File, parentId?: string }[] = [];
+        const uploadQueue: { file: File, parentId?: string, onConflict?: ConflictPolicy }[] = [];
 
         for (const item of items) {
             const pathParts = item.path.split('/');
@@ -620,12 +1068,13 @@ export const FileSystemProvider: React.FC<{ children: ReactNode }> = ({ children
                 }
             }
 
-            uploadQueue.push({ file: item.file, parentId: targetFolderId || undefined });
+            uploadQueue.push({
+                file: item.file,
+                parentId: targetFolderId || undefined,
+                onConflict: pathParts.length > 0 ? 'replace' : policies.get(item.file.name) || 'replace'
+            });
         }
 
-        // Refresh once after structure is created
-        refreshFiles();
-
         await uploadFiles(uploadQueue);
     };
 
@@ -641,15 +1090,9 @@ export const FileSystemProvider: React.FC<{ children: ReactNode }> = ({ children
     const deleteNode = async (id: string) => {
         if (!user) return;
         try {
-            const response = await fetch(`${API_BASE_URL}/api/files/${id}`, {
-                method: 'DELETE',
-                headers: {
-                    'x-user-id': user.id
-                }
+            await authFetch(`${API_BASE_URL}/api/files/${id}`, {
+                method: 'DELETE'
             });
-            if (response.ok) {
-                fetchFiles();
-            }
         } catch (error) {
             console.error('Delete error:', error);
         }
@@ -658,17 +1101,15 @@ export const FileSystemProvider: React.FC<{ children: ReactNode }> = ({ children
     const renameNode = async (id: string, newName: string): Promise<boolean> => {
         if (!user) return false;
         try {
-            const response = await fetch(`${API_BASE_URL}/api/files/${id}/rename`, {
+            const response = await authFetch(`${API_BASE_URL}/api/files/${id}/rename`, {
                 method: 'PUT',
                 headers: {
-                    'Content-Type': 'application/json',
-                    'x-user-id': user.id
+                    'Content-Type': 'application/json'
                 },
                 body: JSON.stringify({ name: newName })
             });
 
             if (response.ok) {
-                fetchFiles();
                 return true;
             } else {
                 const data = await response.json();
@@ -681,51 +1122,48 @@ export const FileSystemProvider: React.FC<{ children: ReactNode }> = ({ children
     };
 
     const copyItems = (ids: Set<string>) => {
-        setClipboard({ items: ids, operation: 'copy' });
+        setClipboard({ items: ids, nodes: files.filter(f => ids.has(f.id)), operation: 'copy' });
     };
 
     const cutItems = (ids: Set<string>) => {
-        setClipboard({ items: ids, operation: 'cut' });
+        setClipboard({ items: ids, nodes: files.filter(f => ids.has(f.id)), operation: 'cut' });
     };
 
-    const pasteItems = async () => {
-        if (!user || clipboard.items.size === 0 || !clipboard.operation) return;
+    const pasteItems = async (): Promise<boolean> => {
+        if (!user || clipboard.items.size === 0 || !clipboard.operation) return false;
 
         const endpoint = clipboard.operation === 'copy' ? '/api/files/copy' : '/api/files/move';
+        const nodes = clipboard.nodes;
+        // Items already in this folder only clash with themselves: a copy is always kept next to them
+        const inPlace = nodes.filter(n => n.parentId === currentFolderId);
 
         try {
-            const response = await fetch(`${API_BASE_URL}${endpoint}`, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'x-user-id': user.id
-                },
-                body: JSON.stringify({
-                    fileIds: Array.from(clipboard.items),
-                    targetFolderId: currentFolderId || 'root'
-                })
-            });
-
-            if (response.ok) {
-                fetchFiles();
-                // Clear clipboard after cut, keep after copy
-                if (clipboard.operation === 'cut') {
-                    setClipboard({ items: new Set(), operation: null });
-                }
+            const result = await transferNodes(
+                endpoint,
+                nodes.filter(n => !inPlace.includes(n)),
+                currentFolderId || 'root',
+                inPlace
+            );
+            if (result === null) return false;
+
+            // Clear clipboard after cut, keep after copy
+            if (result && clipboard.operation === 'cut') {
+                setClipboard({ items: new Set(), nodes: [], operation: null });
             }
+            return result;
         } catch (error) {
             console.error('Paste error:', error);
         }
+        return false;
     };
 
     const shareFiles = async (fileIds: string[], userIds: string[]): Promise<boolean> => {
         if (!user) return false;
         try {
-            const response = await fetch(`${API_BASE_URL}/api/share`, {
+            const response = await authFetch(`${API_BASE_URL}/api/share`, {
                 method: 'POST',
                 headers: {
-                    'Content-Type': 'application/json',
-                    'x-user-id': user.id
+                    'Content-Type': 'application/json'
                 },
                 body: JSON.stringify({ fileIds, userIds })
             });
@@ -740,21 +1178,10 @@ export const FileSystemProvider: React.FC<{ children: ReactNode }> = ({ children
         if (!user) return false;
         // Simulate loading if needed or handled by UI
         try {
-            const response = await fetch(`${API_BASE_URL}/api/shared/save`, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'x-user-id': user.id
-                },
-                body: JSON.stringify({
-                    fileIds,
-                    targetFolderId: 'root' // Always save to root of My Drive to ensure visibility
-                })
-            });
-            if (response.ok) {
-                fetchFiles(); // Refresh my files to see the saved ones
-                return true;
-            }
+            const nodes = sharedFiles.filter(f => fileIds.includes(f.id));
+            // Always save to root of My Drive to ensure visibility
+            const result = await transferNodes('/api/shared/save', nodes, 'root');
+            if (result) return true;
         } catch (error) {
             console.error('Save shared error:', error);
         }
@@ -764,9 +1191,8 @@ export const FileSystemProvider: React.FC<{ children: ReactNode }> = ({ children
     const clearSharedFiles = async () => {
         if (!user) return;
         try {
-            await fetch(`${API_BASE_URL}/api/shared`, {
-                method: 'DELETE',
-                headers: { 'x-user-id': user.id }
+            await authFetch(`${API_BASE_URL}/api/shared`, {
+                method: 'DELETE'
             });
             setSharedFiles([]);
         } catch (error) {
@@ -779,9 +1205,7 @@ export const FileSystemProvider: React.FC<{ children: ReactNode }> = ({ children
     const searchUsers = async (query: string) => {
         if (!user) return [];
         try {
-            const response = await fetch(`${API_BASE_URL}/api/users/search?q=${encodeURIComponent(query)}`, {
-                headers: { 'x-user-id': user.id }
-            });
+            const response = await authFetch(`${API_BASE_URL}/api/users/search?q=${encodeURIComponent(query)}`);
             if (response.ok) {
                 return await response.json();
             }
@@ -791,9 +1215,115 @@ export const FileSystemProvider: React.FC<{ children: ReactNode }> = ({ children
         return [];
     };
 
+    // Sends a tag request; errors are shown as toasts. Returns the response body, or null on failure.
+    const sendTagRequest = async (url: string, method: string, body?: any) => {
+        try {
+            const response = await authFetch(`${API_BASE_URL}${url}`, {
+                method,
+                headers: { 'Content-Type': 'application/json' },
+                body: body ? JSON.stringify(body) : undefined
+            });
+            const data = await response.json().catch(() => ({}));
+            if (response.ok) return data;
+            toast.error(data.error || 'Failed to update tags');
+        } catch (error) {
+            console.error('Tag error:', error);
+        }
+        return null;
+    };
+
+    const createTag = async (name: string, color: TagColor): Promise<Tag | null> => {
+        if (!user) return null;
+        const tag = await sendTagRequest('/api/tags', 'POST', { name, color });
+        if (tag) fetchTags();
+        return tag;
+    };
+
+    const updateTag = async (tagId: string, changes: { name?: string, color?: TagColor }) => {
+        if (!user) return false;
+        const result = await sendTagRequest(`/api/tags/${tagId}`, 'PUT', changes);
+        if (result) fetchTags();
+        return !!result;
+    };
+
+    const deleteTag = async (tagId: string) => {
+        if (!user) return false;
+        const result = await sendTagRequest(`/api/tags/${tagId}`, 'DELETE');
+        if (result) {
+            if (activeTagId === tagId) setActiveTagId(null);
+            fetchTags();
+            reloadListings();
+        }
+        return !!result;
+    };
+
+    const updateNodeTags = async (fileIds: string[], add: string[], remove: string[]) => {
+        if (!user) return false;
+        const result = await sendTagRequest('/api/files/tags', 'POST', { fileIds, add, remove });
+        if (result) {
+            updateLoadedNodes(fileIds, f => ({ ...f, tags: [...(f.tags || []).filter(id => !remove.includes(id)), ...add.filter(id => !f.tags?.includes(id))] }));
+            fetchTags(); // Item counts
+        }
+        return !!result;
+    };
+
+    const setStarred = async (fileIds: string[], starred: boolean) => {
+        if (!user) return false;
+        try {
+            const response = await authFetch(`${API_BASE_URL}/api/starred`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ fileIds, starred })
+            });
+            if (!response.ok) return false;
+            const mark = <T extends FileNode>(list: T[]) => list.map(f => fileIds.includes(f.id) ? { ...f, starred } : f);
+            updateLoadedNodes(fileIds, f => ({ ...f, starred }));
+            setSharedFiles(mark);
+            fetchStarred();
+            return true;
+        } catch (error) {
+            console.error('Star error:', error);
+            return false;
+        }
+    };
+
+    // Tells the server a file was opened in the app, for the Recent view
+    const recordOpen = (fileId: string) => {
+        if (!user) return;
+        authFetch(`${API_BASE_URL}/api/files/${fileId}/open`, { method: 'POST' })
+            .catch(error => console.error('Record open error:', error));
+    };
+
+    // Own files and everything shared with us; null when the search failed
+    const searchFiles = async (query: string, filters: SearchFilters, offset = 0) => {
+        if (!user) return null;
+        const params = new URLSearchParams({ q: query, offset: String(offset) });
+        Object.entries(filters).forEach(([key, value]) => {
+            if (value !== undefined && value !== '' && value !== false) params.set(key, String(value));
+        });
+        try {
+            const response = await authFetch(`${API_BASE_URL}/api/search?${params}`);
+            if (response.ok) {
+                return await response.json();
+            }
+            const data = await response.json().catch(() => ({}));
+            toast.error(data.error || 'Search failed');
+        } catch (error) {
+            console.error('Search error:', error);
+        }
+        return null;
+    };
+
     return (
         <FileSystemContext.Provider value={{
             files,
+            folderItems,
+            hasMoreItems,
+            loadMoreItems,
+            isLoadingFolder,
+            listingSort,
+            setListingSort,
+            taggedItems,
             currentFolderId,
             breadcrumbs,
             usedStorage,
@@ -807,7 +1337,7 @@ export const FileSystemProvider: React.FC<{ children: ReactNode }> = ({ children
             uploadFolder,
             uploadWithStructure,
             downloadFile,
-            browseFolder,
+            getDownloadLink,
             deleteNode,
             renameNode,
             copyItems,
@@ -821,7 +1351,23 @@ export const FileSystemProvider: React.FC<{ children: ReactNode }> = ({ children
             cancelTransfer,
             clearCompletedTransfers,
             searchUsers,
-            fetchSharedFiles
+            searchFiles,
+            fetchSharedFiles,
+            pendingConflict,
+            resolveConflict,
+            tags,
+            activeTagId,
+            setActiveTagId,
+            createTag,
+            updateTag,
+            deleteTag,
+            updateNodeTags,
+            starredItems,
+            recentItems,
+            fetchStarred,
+            fetchRecent,
+            setStarred,
+            recordOpen
         }}>
             {children}
         </FileSystemContext.Provider>
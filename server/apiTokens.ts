@@ -0,0 +1,112 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { getDb } from './db';
+
+// Personal access tokens for scripts. The prefix tells them apart from session tokens.
+export const API_TOKEN_PREFIX = 'flx_';
+
+export type ApiTokenScope = 'read' | 'upload' | 'full';
+export const API_TOKEN_SCOPES: ApiTokenScope[] = ['read', 'upload', 'full'];
+
+// last_used_at is only written when it is older than this, to avoid a DB write per request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+// Routes an upload-only token may call: quota check, chunked and direct uploads,
+// and folder creation so a directory tree can be uploaded
+const UPLOAD_ROUTES = [
+    'POST /api/check-quota',
+    'POST /api/files/conflicts',
+    'POST /api/upload',
+    'POST /api/upload/chunk',
+    'POST /api/upload/complete',
+    'POST /api/folder'
+];
+
+// Account security stays behind an interactive login, whatever the token scope
+const TOKEN_FORBIDDEN_PREFIXES = ['/api/me/', '/api/tokens', '/api/sessions'];
+
+// Express matches routes whatever their case and with or without a trailing slash, so paths are
+// compared the same way; otherwise /API/tokens would reach the route /api/tokens unchecked
+const normalizeRoutePath = (path: string) => path.toLowerCase().replace(/\/+$/, '');
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+export function isApiToken(token: string) {
+    return token.startsWith(API_TOKEN_PREFIX);
+}
+
+export async function createApiToken(userId: string, name: string, scope: ApiTokenScope) {
+    const db = await getDb();
+    const token = API_TOKEN_PREFIX + crypto.randomBytes(32).toString('base64url');
+    const id = uuidv4();
+    const now = Date.now();
+
+    await db.run(
+        'INSERT INTO api_tokens (id, user_id, name, token_hash, scope, created_at) VALUES (?, ?, ?, ?, ?, ?)',
+        id, userId, name, hashToken(token), scope, now
+    );
+
+    return { token, id, createdAt: now };
+}
+
+export async function listApiTokens(userId: string) {
+    const db = await getDb();
+    return db.all(
+        'SELECT * FROM api_tokens WHERE user_id = ? AND revoked_at IS NULL ORDER BY created_at DESC',
+        userId
+    );
+}
+
+// Returns false when the token does not exist or belongs to someone else
+export async function revokeApiToken(userId: string, tokenId: string) {
+    const db = await getDb();
+    const result = await db.run(
+        'UPDATE api_tokens SET revoked_at = ? WHERE id = ? AND user_id = ? AND revoked_at IS NULL',
+        Date.now(), tokenId, userId
+    );
+    return !!result.changes;
+}
+
+// Map an api_tokens row to the API shape (the hash never leaves the server)
+export function mapApiToken(row: any) {
+    return {
+        id: row.id,
+        name: row.name,
+        scope: row.scope,
+        createdAt: row.created_at,
+        lastUsedAt: row.last_used_at
+    };
+}
+
+// Resolve a personal access token to its user row (without password); null if unknown or revoked
+export async function resolveApiToken(token: string) {
+    const db = await getDb();
+    const row = await db.get('SELECT * FROM api_tokens WHERE token_hash = ? AND revoked_at IS NULL', hashToken(token));
+    if (!row) return null;
+
+    const user = await db.get('SELECT id, username, email, role, storage_limit, auth_provider, must_change_password FROM users WHERE id = ?', row.user_id);
+    if (!user) return null;
+
+    const now = Date.now();
+    if (!row.last_used_at || now - row.last_used_at > LAST_USED_RESOLUTION_MS) {
+        await db.run('UPDATE api_tokens SET last_used_at = ? WHERE id = ?', now, row.id);
+    }
+
+    return { user, apiToken: row };
+}
+
+export function isAllowedForScope(scope: ApiTokenScope, method: string, path: string) {
+    const routePath = normalizeRoutePath(path);
+    if (TOKEN_FORBIDDEN_PREFIXES.some(prefix => routePath.startsWith(prefix))) return false;
+
+    switch (scope) {
+        case 'full':
+            return true;
+        case 'read':
+            return method === 'GET' || method === 'HEAD';
+        case 'upload':
+            return UPLOAD_ROUTES.includes(`${method} ${routePath}`);
+        default:
+            return false;
+    }
+}
@@ -0,0 +1,159 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getDb } from './db';
+
+// Every file mutation, download and admin action writes one row to audit_events.
+// Actor email and target name are copied into the row so events stay readable after deletes.
+export type AuditAction =
+    | 'file.upload' | 'folder.create' | 'file.rename' | 'file.delete' | 'file.move' | 'file.copy'
+    | 'file.share' | 'share.clear' | 'share.save' | 'file.download' | 'folder.download' | 'file.restore' | 'file.purge'
+    | 'file.version_restore'
+    | 'user.create' | 'user.update' | 'user.delete' | 'user.password_reset' | 'user.sessions_revoke'
+    | 'user.unlock' | 'user.2fa_reset' | 'user.provision' | 'user.directory_link' | 'settings.update' | 'search.rebuild';
+
+export interface AuditEntry {
+    action: AuditAction;
+    targetType?: 'file' | 'folder' | 'user' | 'session' | 'settings';
+    targetId?: string | null;
+    targetName?: string | null;
+    oldPath?: string | null;
+    newPath?: string | null;
+    details?: Record<string, any>;
+}
+
+export interface AuditFilters {
+    action?: string;
+    actorId?: string;
+    q?: string;
+    from?: number;
+    to?: number;
+}
+
+// Export is capped so one request cannot build an unbounded CSV in memory
+export const AUDIT_EXPORT_LIMIT = 50000;
+
+// Recording never fails the request that triggered it; problems are logged instead
+export async function recordAudit(req: any, entry: AuditEntry) {
+    try {
+        const db = await getDb();
+        await db.run(
+            `INSERT INTO audit_events
+             (id, created_at, actor_id, actor_email, action, target_type, target_id, target_name, old_path, new_path, ip_address, details)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            uuidv4(),
+            Date.now(),
+            req.user?.id || null,
+            req.user?.email || null,
+            entry.action,
+            entry.targetType || null,
+            entry.targetId || null,
+            entry.targetName || null,
+            entry.oldPath || null,
+            entry.newPath || null,
+            req.ip || null,
+            entry.details ? JSON.stringify(entry.details) : null
+        );
+    } catch (error) {
+        console.error('Audit log error:', error);
+    }
+}
+
+// Path of a node as users see it in the drive ("/Projects/report.pdf"), independent of disk layout
+export async function getNodePath(db: any, nodeId: string | null): Promise<string> {
+    const names: string[] = [];
+    const visited = new Set<string>();
+    let current = nodeId;
+
+    while (current && current !== 'root' && !visited.has(current)) {
+        visited.add(current);
+        const node = await db.get('SELECT name, parent_id FROM files WHERE id = ?', current);
+        if (!node) break;
+        names.unshift(node.name);
+        current = node.parent_id;
+    }
+    return '/' + names.join('/');
+}
+
+function buildWhere(filters: AuditFilters) {
+    const clauses: string[] = [];
+    const params: any[] = [];
+
+    if (filters.action) {
+        clauses.push('action = ?');
+        params.push(filters.action);
+    }
+    if (filters.actorId) {
+        clauses.push('actor_id = ?');
+        params.push(filters.actorId);
+    }
+    if (filters.q) {
+        clauses.push('(actor_email LIKE ? OR target_name LIKE ? OR old_path LIKE ? OR new_path LIKE ?)');
+        const like = `%${filters.q}%`;
+        params.push(like, like, like, like);
+    }
+    if (filters.from) {
+        clauses.push('created_at >= ?');
+        params.push(filters.from);
+    }
+    if (filters.to) {
+        clauses.push('created_at <= ?');
+        params.push(filters.to);
+    }
+
+    return { where: clauses.length ? `WHERE ${clauses.join(' AND ')}` : '', params };
+}
+
+// Newest first
+export async function queryAuditEvents(filters: AuditFilters, limit: number, offset = 0) {
+    const db = await getDb();
+    const { where, params } = buildWhere(filters);
+
+    const total = await db.get(`SELECT COUNT(*) as count FROM audit_events ${where}`, ...params);
+    const rows = await db.all(
+        `SELECT * FROM audit_events ${where} ORDER BY created_at DESC LIMIT ? OFFSET ?`,
+        ...params, limit, offset
+    );
+    return { rows, total: total.count as number };
+}
+
+// Map an audit_events row to the API shape
+export function mapAuditEvent(row: any) {
+    return {
+        id: row.id,
+        createdAt: row.created_at,
+        actorId: row.actor_id,
+        actorEmail: row.actor_email,
+        action: row.action,
+        targetType: row.target_type,
+        targetId: row.target_id,
+        targetName: row.target_name,
+        oldPath: row.old_path,
+        newPath: row.new_path,
+        ipAddress: row.ip_address,
+        details: row.details ? JSON.parse(row.details) : null
+    };
+}
+
+const csvCell = (value: any) => {
+    if (value === null || value === undefined) return '';
+    // Names starting with =, +, - or @ (or a tab or carriage return before one) would run as formulas
+    // when the file is opened in a spreadsheet
+    const text = /^[=+\-@\t\r]/.test(String(value)) ? `'${value}` : String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function auditEventsToCsv(rows: any[]) {
+    const header = ['time', 'actor', 'action', 'target_type', 'target', 'old_path', 'new_path', 'ip', 'details'];
+    const lines = rows.map(row => [
+        new Date(row.created_at).toISOString(),
+        row.actor_email,
+        row.action,
+        row.target_type,
+        row.target_name,
+        row.old_path,
+        row.new_path,
+        row.ip_address,
+        row.details
+    ].map(csvCell).join(','));
+
+    return [header.join(','), ...lines].join('\r\n') + '\r\n';
+}
@@ -0,0 +1,297 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { getDb, getSetting, setSetting } from './db';
+import { isApiToken, resolveApiToken, isAllowedForScope } from './apiTokens';
+
+// Sessions last 30 days; after that the client has to sign in again
+export const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+// last_seen_at is only written when it is older than this, to avoid a DB write per request
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000;
+
+// Routes reachable without a session token
+const PUBLIC_ROUTES = new Set([
+    'POST /api/login',
+    'POST /api/login/2fa',
+    'POST /api/password-reset/verify',
+    'POST /api/password-reset/confirm'
+]);
+
+// Routes a user can still use while their password has to be changed
+const PASSWORD_CHANGE_ALLOWED_ROUTES = new Set([
+    'GET /api/me',
+    'POST /api/me/password',
+    'POST /api/logout'
+]);
+
+// EventSource cannot send headers, so the browser connects to /api/events with a ticket (?ticket=)
+// instead: signed, bound to the user and session, and only good for opening the stream for a minute.
+// Session tokens never go in addresses, where they would end up in logs and history.
+export const EVENTS_TICKET_TTL_MS = 60 * 1000;
+const EVENTS_ROUTE = '/api/events';
+
+// Download links are signed URLs for one file or folder that browsers can open directly (anchors,
+// media elements). They expire quickly and stop working when the session that asked for them ends.
+export const DOWNLOAD_LINK_TTL_MS = 10 * 60 * 1000;
+
+// The routes a download link opens, with the node id they serve
+const DOWNLOAD_LINK_ROUTE = /^\/api\/(?:download|download-folder|download-version|stream)\/([^/]+)/;
+
+let secretPromise: Promise<Buffer> | null = null;
+
+// Signing key: FLUXLOCAL_SECRET if set, otherwise generated once and kept in the settings table
+// so issued tokens survive a server restart.
+function getSecret(): Promise<Buffer> {
+    if (!secretPromise) {
+        secretPromise = (async () => {
+            if (process.env.FLUXLOCAL_SECRET) {
+                return Buffer.from(process.env.FLUXLOCAL_SECRET);
+            }
+
+            const stored = await getSetting('session_secret');
+            if (stored) {
+                return Buffer.from(stored, 'hex');
+            }
+
+            const secret = crypto.randomBytes(32);
+            await setSetting('session_secret', secret.toString('hex'));
+            return secret;
+        })();
+    }
+    return secretPromise;
+}
+
+// Token format: base64url(JSON payload) + "." + base64url(HMAC-SHA256 of the payload part)
+export async function signPayload(payload: Record<string, any>): Promise<string> {
+    const secret = await getSecret();
+    const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    const signature = crypto.createHmac('sha256', secret).update(body).digest('base64url');
+    return `${body}.${signature}`;
+}
+
+export async function verifySignedPayload(token: string): Promise<Record<string, any> | null> {
+    if (!token || typeof token !== 'string') return null;
+
+    const [body, signature] = token.split('.');
+    if (!body || !signature) return null;
+
+    const secret = await getSecret();
+    const expected = crypto.createHmac('sha256', secret).update(body).digest();
+    const actual = Buffer.from(signature, 'base64url');
+
+    if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+        return null;
+    }
+
+    try {
+        const payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+        if (typeof payload.exp !== 'number' || payload.exp < Date.now()) return null;
+        return payload;
+    } catch (e) {
+        return null;
+    }
+}
+
+export async function createSession(userId: string, client: { userAgent?: string, ip?: string } = {}) {
+    const db = await getDb();
+    const sessionId = uuidv4();
+    const now = Date.now();
+    const expiresAt = now + SESSION_TTL_MS;
+
+    await db.run(
+        `INSERT INTO sessions (id, user_id, created_at, expires_at, user_agent, ip_address, last_seen_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        sessionId, userId, now, expiresAt, client.userAgent || null, client.ip || null, now
+    );
+
+    const token = await signPayload({ sid: sessionId, sub: userId, exp: expiresAt });
+    return { token, sessionId, expiresAt };
+}
+
+export async function revokeSession(sessionId: string) {
+    const db = await getDb();
+    await db.run('UPDATE sessions SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL', Date.now(), sessionId);
+}
+
+// Revoke every active session of a user, optionally keeping one (the caller's own)
+export async function revokeUserSessions(userId: string, exceptSessionId?: string) {
+    const db = await getDb();
+    const result = await db.run(
+        'UPDATE sessions SET revoked_at = ? WHERE user_id = ? AND revoked_at IS NULL AND id IS NOT ?',
+        Date.now(), userId, exceptSessionId || null
+    );
+    return result.changes || 0;
+}
+
+export async function listActiveSessions(userId: string) {
+    const db = await getDb();
+    return db.all(
+        `SELECT * FROM sessions
+         WHERE user_id = ? AND revoked_at IS NULL AND expires_at > ?
+         ORDER BY last_seen_at DESC`,
+        userId, Date.now()
+    );
+}
+
+// Map a sessions row to the API shape
+export function mapSession(session: any, currentSessionId?: string) {
+    return {
+        id: session.id,
+        userAgent: session.user_agent,
+        ipAddress: session.ip_address,
+        createdAt: session.created_at,
+        lastSeenAt: session.last_seen_at || session.created_at,
+        expiresAt: session.expires_at,
+        current: session.id === currentSessionId
+    };
+}
+
+// Resolve a session token to its user row (without password); null if invalid, expired or revoked
+export async function resolveSessionToken(token: string) {
+    const payload = await verifySignedPayload(token);
+    if (!payload || payload.purpose || !payload.sid || !payload.sub) return null;
+
+    const db = await getDb();
+    const session = await db.get('SELECT * FROM sessions WHERE id = ? AND user_id = ?', payload.sid, payload.sub);
+    if (!session || session.revoked_at || session.expires_at < Date.now()) return null;
+
+    const user = await db.get('SELECT id, username, email, role, storage_limit, auth_provider, must_change_password FROM users WHERE id = ?', session.user_id);
+    if (!user) return null;
+
+    const now = Date.now();
+    if (!session.last_seen_at || now - session.last_seen_at > LAST_SEEN_RESOLUTION_MS) {
+        await db.run('UPDATE sessions SET last_seen_at = ? WHERE id = ?', now, session.id);
+    }
+
+    return { user, session };
+}
+
+// Signature for the download link of a node, bound to the user and their session (if any)
+export async function createDownloadSignature(userId: string, sessionId: string | undefined, nodeId: string) {
+    const expiresAt = Date.now() + DOWNLOAD_LINK_TTL_MS;
+    const signature = await signPayload({ purpose: 'download', sub: userId, sid: sessionId, node: nodeId, exp: expiresAt });
+    return { signature, expiresAt };
+}
+
+// Ticket for opening the event stream, bound to the user and their session (if any)
+export async function createEventsTicket(userId: string, sessionId: string | undefined) {
+    const expiresAt = Date.now() + EVENTS_TICKET_TTL_MS;
+    const ticket = await signPayload({ purpose: 'events', sub: userId, sid: sessionId, exp: expiresAt });
+    return { ticket, expiresAt };
+}
+
+// The user a signed link or ticket was made for, while the session behind it lasts
+async function resolveSignedUser(payload: Record<string, any>) {
+    const db = await getDb();
+    if (payload.sid) {
+        const session = await db.get('SELECT revoked_at, expires_at FROM sessions WHERE id = ? AND user_id = ?', payload.sid, payload.sub);
+        if (!session || session.revoked_at || session.expires_at < Date.now()) return null;
+    }
+    return await db.get('SELECT id, username, email, role, storage_limit, auth_provider, must_change_password FROM users WHERE id = ?', payload.sub) || null;
+}
+
+// The user a download link was made for, if it is valid for this path; null otherwise
+async function resolveDownloadSignature(signature: string, path: string) {
+    const match = DOWNLOAD_LINK_ROUTE.exec(path);
+    if (!match) return null;
+    const payload = await verifySignedPayload(signature);
+    if (!payload || payload.purpose !== 'download' || !payload.sub || payload.node !== decodeURIComponent(match[1])) return null;
+    return resolveSignedUser(payload);
+}
+
+async function resolveEventsTicket(ticket: string) {
+    const payload = await verifySignedPayload(ticket);
+    if (!payload || payload.purpose !== 'events' || !payload.sub) return null;
+    const user = await resolveSignedUser(payload);
+    return user ? { user, sessionId: payload.sid as string | undefined } : null;
+}
+
+// Lets the request through unless the user still has to replace a password from before the strength rules
+function continueUnlessPasswordChangeRequired(req: any, res: any, next: any) {
+    if (req.user.must_change_password && !PASSWORD_CHANGE_ALLOWED_ROUTES.has(`${req.method} ${req.path}`)) {
+        return res.status(403).json({ error: 'Password change required' });
+    }
+    next();
+}
+
+function extractToken(req: any): string | null {
+    const header = req.headers['authorization'] as string | undefined;
+    if (header && header.startsWith('Bearer ')) {
+        return header.slice('Bearer '.length).trim();
+    }
+    return null;
+}
+
+// Express middleware: every /api route except PUBLIC_ROUTES needs a valid session token or
+// personal access token, for downloads a download link (?sig=), or for the event stream a ticket
+// (?ticket=). Sets req.user (users row without password) and either req.sessionId, req.apiToken or
+// req.downloadLink. Users flagged with must_change_password only get through to the routes that let
+// them change it.
+export async function authenticate(req: any, res: any, next: any) {
+    if (req.method === 'OPTIONS' || PUBLIC_ROUTES.has(`${req.method} ${req.path}`)) {
+        return next();
+    }
+
+    if ((req.method === 'GET' || req.method === 'HEAD') && typeof req.query.sig === 'string') {
+        try {
+            const user = await resolveDownloadSignature(req.query.sig, req.path);
+            if (!user) {
+                return res.status(401).json({ error: 'Download link invalid or expired' });
+            }
+            req.user = user;
+            req.downloadLink = true;
+            return continueUnlessPasswordChangeRequired(req, res, next);
+        } catch (error) {
+            console.error('Auth error:', error);
+            return res.status(500).json({ error: 'Authentication failed' });
+        }
+    }
+
+    if (req.method === 'GET' && req.path === EVENTS_ROUTE && typeof req.query.ticket === 'string') {
+        try {
+            const resolved = await resolveEventsTicket(req.query.ticket);
+            if (!resolved) {
+                return res.status(401).json({ error: 'Events ticket invalid or expired' });
+            }
+            req.user = resolved.user;
+            req.sessionId = resolved.sessionId;
+            return continueUnlessPasswordChangeRequired(req, res, next);
+        } catch (error) {
+            console.error('Auth error:', error);
+            return res.status(500).json({ error: 'Authentication failed' });
+        }
+    }
+
+    const token = extractToken(req);
+    if (!token) {
+        return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    try {
+        if (isApiToken(token)) {
+            const resolvedToken = await resolveApiToken(token);
+            if (!resolvedToken) {
+                return res.status(401).json({ error: 'API token invalid or revoked' });
+            }
+            if (!isAllowedForScope(resolvedToken.apiToken.scope, req.method, req.path)) {
+                return res.status(403).json({ error: 'Forbidden', message: `API token scope '${resolvedToken.apiToken.scope}' does not allow this request` });
+            }
+
+            req.user = resolvedToken.user;
+            req.apiToken = resolvedToken.apiToken;
+            return continueUnlessPasswordChangeRequired(req, res, next);
+        }
+
+        const resolved = await resolveSessionToken(token);
+        if (!resolved) {
+            return res.status(401).json({ error: 'Session expired or invalid' });
+        }
+
+        req.user = resolved.user;
+        req.sessionId = resolved.session.id;
+        continueUnlessPasswordChangeRequired(req, res, next);
+    } catch (error) {
+        console.error('Auth error:', error);
+        res.status(500).json({ error: 'Authentication failed' });
+    }
+}
@@ -0,0 +1,174 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import bcrypt from 'bcryptjs';
+import { v4 as uuidv4 } from 'uuid';
+import { getDb } from './db';
+import { Role, isLastAdmin } from './permissions';
+import { createLdapProvider, getLdapConfig } from './ldapProvider';
+
+// Account as reported by an external directory; turned into a users row on first sign-in
+export interface ExternalIdentity {
+    externalId: string;
+    email: string;
+    username: string;
+    role: Role;
+    storageLimit: number;
+}
+
+export type ProviderResult =
+    | { kind: 'user'; user: any }
+    | { kind: 'identity'; identity: ExternalIdentity };
+
+// A way to check a login/password pair. Returning null means "not mine or wrong password"
+// and the next provider is tried; throwing means the provider could not answer at all.
+export interface AuthProvider {
+    name: string;
+    authenticate(login: string, password: string): Promise<ProviderResult | null>;
+}
+
+export class AuthProviderUnavailableError extends Error {
+    constructor(public provider: string, cause: unknown) {
+        super(`Auth provider '${provider}' is unavailable: ${cause instanceof Error ? cause.message : cause}`);
+    }
+}
+
+// The users table with bcrypt hashes. Accounts owned by another provider are skipped here,
+// so a stale local hash cannot bypass the directory.
+export const localProvider: AuthProvider = {
+    name: 'local',
+    async authenticate(login, password) {
+        const db = await getDb();
+        const user = await db.get("SELECT * FROM users WHERE email = ? AND auth_provider = 'local'", login);
+        if (!user || !(await bcrypt.compare(String(password), user.password))) return null;
+        return { kind: 'user', user };
+    }
+};
+
+// A directory account whose email already belongs to an account it is not linked to
+export class ExternalAccountConflictError extends Error {
+    constructor(public email: string) {
+        super(`An account with the email ${email} already exists and is not linked to the directory`);
+    }
+}
+
+let providers: AuthProvider[] | null = null;
+
+// Providers in the order they are tried: AUTH_PROVIDERS (comma separated), or local first
+// followed by LDAP when LDAP_URL is configured
+export function getAuthProviders(): AuthProvider[] {
+    if (providers) return providers;
+
+    const ldapConfig = getLdapConfig();
+    const names = (process.env.AUTH_PROVIDERS || (ldapConfig ? 'local,ldap' : 'local'))
+        .split(',').map(n => n.trim().toLowerCase()).filter(Boolean);
+
+    providers = names.map(name => {
+        if (name === 'local') return localProvider;
+        if (name === 'ldap') {
+            if (!ldapConfig) throw new Error('AUTH_PROVIDERS includes ldap but LDAP_URL is not set');
+            return createLdapProvider(ldapConfig);
+        }
+        throw new Error(`Unknown auth provider '${name}'`);
+    });
+    return providers;
+}
+
+// Create or update the users row behind a directory account. Accounts are matched by provider and
+// external id, or by email when an admin handed a local account over to the provider (external id
+// not known yet). Any other account with the same email is refused: linking it on its own would let
+// whoever controls a directory entry with that email sign in as its owner.
+async function provisionExternalUser(provider: string, identity: ExternalIdentity) {
+    const db = await getDb();
+    const existing = await db.get('SELECT * FROM users WHERE auth_provider = ? AND external_id = ?', provider, identity.externalId)
+        || await db.get('SELECT * FROM users WHERE auth_provider = ? AND external_id IS NULL AND lower(email) = lower(?)', provider, identity.email);
+
+    if (!existing) {
+        if (await db.get('SELECT id FROM users WHERE lower(email) = lower(?)', identity.email)) {
+            throw new ExternalAccountConflictError(identity.email);
+        }
+
+        const id = uuidv4();
+        // Never used for sign-in; the column is NOT NULL
+        const unusablePassword = await bcrypt.hash(crypto.randomBytes(32).toString('hex'), 10);
+        await db.run(
+            'INSERT INTO users (id, username, email, password, role, storage_limit, auth_provider, external_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+            id, identity.username, identity.email, unusablePassword, identity.role, identity.storageLimit, provider, identity.externalId
+        );
+
+        const uploadDir = path.join(process.cwd(), 'uploads', id);
+        if (!fs.existsSync(uploadDir)) {
+            fs.mkdirSync(uploadDir, { recursive: true });
+        }
+        return { user: await db.get('SELECT * FROM users WHERE id = ?', id), provisioned: true };
+    }
+
+    // The directory changed the email to one another account has
+    if (await db.get('SELECT id FROM users WHERE lower(email) = lower(?) AND id != ?', identity.email, existing.id)) {
+        throw new ExternalAccountConflictError(identity.email);
+    }
+
+    // The directory decides the role on every sign-in, except that the last admin is never demoted
+    const role = existing.role === 'admin' && identity.role !== 'admin' && await isLastAdmin(existing.id)
+        ? 'admin'
+        : identity.role;
+    await db.run(
+        'UPDATE users SET username = ?, email = ?, role = ?, external_id = ? WHERE id = ?',
+        identity.username, identity.email, role, identity.externalId, existing.id
+    );
+    return { user: await db.get('SELECT * FROM users WHERE id = ?', existing.id), provisioned: false };
+}
+
+// Hands a local account over to a directory provider (by an admin): the next sign-in through it with
+// the account's email links the two. Returns false when there is no such provider.
+export async function linkToDirectory(db: any, userId: string, provider: string) {
+    if (provider === 'local' || !getAuthProviders().some(p => p.name === provider)) return false;
+    await db.run(
+        'UPDATE users SET auth_provider = ?, external_id = NULL, must_change_password = 0 WHERE id = ?',
+        provider, userId
+    );
+    return true;
+}
+
+// Names of the configured directory providers, which accounts can be handed over to
+export const getDirectoryProviders = () => getAuthProviders().map(p => p.name).filter(name => name !== 'local');
+
+// Try each provider in turn. Resolves to the users row, or null when no provider accepted the
+// credentials. Throws AuthProviderUnavailableError when nobody accepted and a provider was down,
+// so an outage is not reported (and throttled) as a wrong password.
+export async function authenticateLogin(login: string, password: string) {
+    let unavailable: AuthProviderUnavailableError | null = null;
+
+    for (const provider of getAuthProviders()) {
+        let result: ProviderResult | null;
+        try {
+            result = await provider.authenticate(login, password);
+        } catch (error) {
+            console.error(`Auth provider ${provider.name} error:`, error);
+            unavailable = unavailable || new AuthProviderUnavailableError(provider.name, error);
+            continue;
+        }
+        if (!result) continue;
+
+        if (result.kind === 'user') {
+            return { user: result.user, provisioned: false };
+        }
+        return provisionExternalUser(provider.name, result.identity);
+    }
+
+    if (unavailable) throw unavailable;
+    return null;
+}
+
+// Re-check the password of a signed-in user (e.g. before disabling 2FA) with the provider that owns the account
+export async function verifyUserPassword(user: { email: string; password: string; auth_provider: string; external_id: string | null }, password: string) {
+    if (!password) return false;
+    if (user.auth_provider === 'local') {
+        return bcrypt.compare(String(password), user.password);
+    }
+
+    const provider = getAuthProviders().find(p => p.name === user.auth_provider);
+    if (!provider) return false;
+    const result = await provider.authenticate(user.email, password);
+    return result?.kind === 'identity' && result.identity.externalId === user.external_id;
+}
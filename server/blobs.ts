@@ -0,0 +1,140 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { getDb, getSetting, setSetting } from './db';
+import { getBlobPath, renameWithRetry } from './safePath';
+
+// Optional deduplicated storage. In "blobs" mode uploaded content is stored once per SHA-256 under
+// uploads/blobs and files rows point at it through blob_hash (their path stays NULL); copies and
+// saves from shared only add a reference. Every files row, version and trash manifest entry that
+// names a blob holds one reference, and a blob whose count drops to 0 is removed by the collector.
+// Files stored before the mode was turned on stay where they are, and quotas keep counting each
+// file's size for its owner however often the content is shared.
+export const STORAGE_MODES = ['files', 'blobs'] as const;
+export type StorageMode = typeof STORAGE_MODES[number];
+
+const GC_INTERVAL_MS = 60 * 60 * 1000;
+
+export async function getStorageMode(): Promise<StorageMode> {
+    return (await getSetting('storage_mode')) === 'blobs' ? 'blobs' : 'files';
+}
+
+export async function setStorageMode(mode: StorageMode) {
+    await setSetting('storage_mode', mode);
+}
+
+// Where the content of a files or file_versions row is on disk (null for a file without content)
+export function getContentPath(row: any): string | null {
+    return row.blob_hash ? getBlobPath(row.blob_hash) : row.path || null;
+}
+
+export function hashFile(filePath: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const hash = crypto.createHash('sha256');
+        fs.createReadStream(filePath)
+            .on('data', chunk => hash.update(chunk))
+            .on('end', () => resolve(hash.digest('hex')))
+            .on('error', reject);
+    });
+}
+
+// Stores and collections take turns. Otherwise a collection could delete an unused blob's row and,
+// before unlinking its file, let a store of the same content take a fresh reference, find the file
+// still there and drop its own copy; the collection would then remove the content the new row needs.
+let lock: Promise<unknown> = Promise.resolve();
+
+function withBlobLock<T>(job: () => Promise<T>): Promise<T> {
+    const run = lock.then(job);
+    lock = run.catch(() => {});
+    return run;
+}
+
+// Adds `sourcePath` to the store and takes a reference for the caller. The source is moved in (or
+// dropped when the content is already stored) unless `keepSource` is set, in which case it is copied.
+// Runs outside transactions: a caller that fails afterwards gives the reference back with releaseBlob.
+export async function storeBlob(db: any, sourcePath: string, keepSource = false): Promise<string> {
+    const hash = await hashFile(sourcePath);
+    return withBlobLock(() => placeBlob(db, hash, sourcePath, keepSource));
+}
+
+async function placeBlob(db: any, hash: string, sourcePath: string, keepSource: boolean) {
+    const blobPath = getBlobPath(hash);
+    const { size } = fs.statSync(sourcePath);
+
+    await db.run(
+        `INSERT INTO blobs (hash, size, ref_count, created_at) VALUES (?, ?, 1, ?)
+         ON CONFLICT(hash) DO UPDATE SET ref_count = ref_count + 1`,
+        hash, size, Date.now()
+    );
+    try {
+        if (!fs.existsSync(blobPath)) {
+            fs.mkdirSync(path.dirname(blobPath), { recursive: true });
+            if (keepSource) {
+                fs.copyFileSync(sourcePath, blobPath);
+            } else {
+                await renameWithRetry(sourcePath, blobPath);
+            }
+        } else if (!keepSource) {
+            fs.rmSync(sourcePath, { force: true });
+        }
+    } catch (error) {
+        await releaseBlob(db, hash);
+        throw error;
+    }
+    return hash;
+}
+
+// One more row points at the blob (a copy or save from shared)
+export async function addBlobRef(db: any, hash: string) {
+    await db.run('UPDATE blobs SET ref_count = ref_count + 1 WHERE hash = ?', hash);
+}
+
+// A row no longer points at the blob; the content is removed by collectBlobGarbage
+export async function releaseBlob(db: any, hash: string) {
+    await db.run('UPDATE blobs SET ref_count = ref_count - 1 WHERE hash = ?', hash);
+}
+
+// Gives back the reference storeBlob took for an upload that did not go through
+export async function discardBlob(db: any, hash: string) {
+    await releaseBlob(db, hash);
+    await collectBlobGarbage(db);
+}
+
+// Removes blobs nothing refers to any more; returns how many were removed
+export function collectBlobGarbage(db: any) {
+    return withBlobLock(() => removeUnusedBlobs(db));
+}
+
+async function removeUnusedBlobs(db: any) {
+    const unused = await db.all('SELECT hash FROM blobs WHERE ref_count <= 0');
+    let removed = 0;
+    for (const { hash } of unused) {
+        // Re-checked per blob: an upload of the same content may have taken a reference meanwhile
+        const result = await db.run('DELETE FROM blobs WHERE hash = ? AND ref_count <= 0', hash);
+        if (result.changes) {
+            fs.rmSync(getBlobPath(hash), { force: true });
+            removed++;
+        }
+    }
+    return removed;
+}
+
+// Logical bytes (what quotas count) next to the bytes the store actually uses, for the admin panel
+export async function getBlobStats(db: any) {
+    const stored = await db.get('SELECT COUNT(*) as count, COALESCE(SUM(size), 0) as size FROM blobs WHERE ref_count > 0');
+    const referenced = await db.get('SELECT COALESCE(SUM(size), 0) as size FROM files WHERE blob_hash IS NOT NULL');
+    return { blobCount: stored.count as number, storedBytes: stored.size as number, logicalBytes: referenced.size as number };
+}
+
+// Collects once at startup and then hourly, for references released outside the usual paths
+export function startBlobGc() {
+    const run = async () => {
+        try {
+            await collectBlobGarbage(await getDb());
+        } catch (error) {
+            console.error('Blob garbage collection error:', error);
+        }
+    };
+    run();
+    setInterval(run, GC_INTERVAL_MS).unref();
+}
@@ -0,0 +1,80 @@
+import fs from 'fs';
+import path from 'path';
+
+// What happens when an upload, copy, move, save-from-shared or new folder lands on a name that is
+// already taken in the target folder:
+//   replace   - the existing item gives way (uploads keep its content as a version, everything
+//               else moves it to the trash)
+//   keep-both - the new item is renamed "name (1).ext"
+//   skip      - the new item is left out
+//   merge     - two folders are combined; inside them files with the same name are replaced and
+//               sub-folders merged. A file and a folder are never merged, both are kept instead.
+export const CONFLICT_POLICIES = ['replace', 'keep-both', 'skip', 'merge'] as const;
+export type ConflictPolicy = typeof CONFLICT_POLICIES[number];
+
+export const INVALID_CONFLICT_POLICY = `onConflict must be one of: ${CONFLICT_POLICIES.join(', ')}`;
+
+export type ConflictDecision =
+    | { action: 'create', name: string }
+    | { action: 'replace' | 'merge' | 'skip', name: string, existing: any };
+
+// The policy sent by the client, `fallback` when none was sent, or null when the value is unknown
+export function parseConflictPolicy(value: unknown, fallback: ConflictPolicy): ConflictPolicy | null {
+    if (value === undefined || value === null || value === '') return fallback;
+    return (CONFLICT_POLICIES as readonly string[]).includes(value as string) ? value as ConflictPolicy : null;
+}
+
+// "report.pdf" -> "report (1).pdf" until the name is free in the target folder, in the DB and on disk
+export async function availableName(db: any, userId: string, parentId: string | null, parentDir: string, name: string, isFolder: boolean) {
+    const ext = isFolder ? '' : path.extname(name);
+    const base = ext ? name.slice(0, -ext.length) : name;
+    let candidate = name;
+    for (let i = 1; ; i++) {
+        const taken = await db.get('SELECT id FROM files WHERE user_id = ? AND parent_id IS ? AND name = ?', userId, parentId, candidate);
+        if (!taken && !fs.existsSync(path.join(parentDir, candidate))) return candidate;
+        candidate = `${base} (${i})${ext}`;
+    }
+}
+
+// Decides where a `type` node called `name` goes in the folder. `ignoreId` is the node itself when it
+// is being moved. Nothing is changed here; replacing the existing node is up to the caller.
+export async function decideConflict(
+    db: any, userId: string, parentId: string | null, parentDir: string,
+    name: string, type: 'file' | 'folder', policy: ConflictPolicy, ignoreId: string | null = null
+): Promise<ConflictDecision> {
+    const existing = await db.get(
+        'SELECT * FROM files WHERE user_id = ? AND parent_id IS ? AND name = ? AND id IS NOT ?',
+        userId, parentId, name, ignoreId
+    );
+
+    if (!existing) {
+        // Entries on disk that the drive does not know about yet are never overwritten
+        const onDisk = fs.existsSync(path.join(parentDir, name));
+        return { action: 'create', name: onDisk ? await availableName(db, userId, parentId, parentDir, name, type === 'folder') : name };
+    }
+
+    switch (policy) {
+        case 'skip':
+            return { action: 'skip', name, existing };
+        case 'replace':
+            return { action: 'replace', name, existing };
+        case 'merge':
+            if (existing.type === type) {
+                return { action: type === 'folder' ? 'merge' : 'replace', name, existing };
+            }
+            break;
+    }
+    return { action: 'create', name: await availableName(db, userId, parentId, parentDir, name, type === 'folder') };
+}
+
+// Items of a planned upload, copy or save that collide with the target folder, so the client can ask first
+export async function findConflicts(db: any, userId: string, parentId: string | null, items: { name: string, type: 'file' | 'folder' }[]) {
+    const conflicts = [];
+    for (const item of items) {
+        const existing = await db.get('SELECT id, type FROM files WHERE user_id = ? AND parent_id IS ? AND name = ?', userId, parentId, item.name);
+        if (existing) {
+            conflicts.push({ name: item.name, type: item.type, existingId: existing.id, existingType: existing.type });
+        }
+    }
+    return conflicts;
+}
@@ -2,6 +2,7 @@ import sqlite3 from 'sqlite3';
 import { open } from 'sqlite';
 import { v4 as uuidv4 } from 'uuid';
 import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
 import path from 'path';
 import fs from 'fs';
 
@@ -10,6 +11,17 @@ const dbPromise = open({
   driver: sqlite3.Database
 });
 
+// Seeded accounts get FLUXLOCAL_SEED_PASSWORD or a random password that is printed once on creation
+const seedPassword = () => process.env.FLUXLOCAL_SEED_PASSWORD || `Flux${crypto.randomInt(1000, 10000)}-${crypto.randomBytes(6).toString('base64url')}`;
+
+// SQLite has no "ADD COLUMN IF NOT EXISTS"; used to migrate databases created by older versions
+const addColumnIfMissing = async (db: any, table: string, column: string, definition: string) => {
+  const columns = await db.all(`PRAGMA table_info(${table})`);
+  if (!columns.some((c: any) => c.name === column)) {
+    await db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+};
+
 export const initDb = async () => {
   const db = await dbPromise;
 
@@ -36,6 +48,8 @@ export const initDb = async () => {
       FOREIGN KEY (user_id) REFERENCES users(id)
     );
 
+    CREATE INDEX IF NOT EXISTS idx_files_parent ON files(parent_id);
+
     CREATE TABLE IF NOT EXISTS shared_files (
       id TEXT PRIMARY KEY,
       file_id TEXT NOT NULL,
@@ -47,20 +61,215 @@ export const initDb = async () => {
       FOREIGN KEY (to_user_id) REFERENCES users(id),
       UNIQUE(file_id, to_user_id)
     );
+
+    CREATE TABLE IF NOT EXISTS sessions (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      expires_at INTEGER NOT NULL,
+      revoked_at INTEGER,
+      user_agent TEXT,
+      ip_address TEXT,
+      last_seen_at INTEGER,
+      FOREIGN KEY (user_id) REFERENCES users(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS password_resets (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      token_hash TEXT UNIQUE NOT NULL,
+      created_by TEXT,
+      created_at INTEGER NOT NULL,
+      expires_at INTEGER NOT NULL,
+      used_at INTEGER,
+      FOREIGN KEY (user_id) REFERENCES users(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS api_tokens (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      token_hash TEXT UNIQUE NOT NULL,
+      scope TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      last_used_at INTEGER,
+      revoked_at INTEGER,
+      FOREIGN KEY (user_id) REFERENCES users(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS recovery_codes (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      code_hash TEXT NOT NULL,
+      used_at INTEGER,
+      FOREIGN KEY (user_id) REFERENCES users(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS login_throttle (
+      key TEXT PRIMARY KEY,
+      failures INTEGER NOT NULL,
+      last_failure_at INTEGER NOT NULL,
+      locked_until INTEGER
+    );
+
+    CREATE TABLE IF NOT EXISTS audit_events (
+      id TEXT PRIMARY KEY,
+      created_at INTEGER NOT NULL,
+      actor_id TEXT,
+      actor_email TEXT,
+      action TEXT NOT NULL,
+      target_type TEXT,
+      target_id TEXT,
+      target_name TEXT,
+      old_path TEXT,
+      new_path TEXT,
+      ip_address TEXT,
+      details TEXT
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_audit_events_created_at ON audit_events(created_at);
+
+    CREATE TABLE IF NOT EXISTS trash_items (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      node_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      type TEXT NOT NULL,
+      size INTEGER NOT NULL,
+      item_count INTEGER NOT NULL,
+      original_parent_id TEXT,
+      original_path TEXT NOT NULL,
+      ancestors TEXT NOT NULL,
+      manifest TEXT NOT NULL,
+      deleted_at INTEGER NOT NULL,
+      deleted_by TEXT,
+      FOREIGN KEY (user_id) REFERENCES users(id)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_trash_items_user ON trash_items(user_id, deleted_at);
+
+    CREATE TABLE IF NOT EXISTS file_versions (
+      id TEXT PRIMARY KEY,
+      file_id TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      size INTEGER NOT NULL,
+      mime_type TEXT,
+      uploaded_by TEXT,
+      uploaded_at INTEGER NOT NULL,
+      archived_at INTEGER NOT NULL,
+      FOREIGN KEY (user_id) REFERENCES users(id)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_file_versions_file ON file_versions(file_id, uploaded_at);
+
+    CREATE TABLE IF NOT EXISTS blobs (
+      hash TEXT PRIMARY KEY,
+      size INTEGER NOT NULL,
+      ref_count INTEGER NOT NULL,
+      created_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS thumbnails (
+      file_id TEXT PRIMARY KEY,
+      content_key TEXT NOT NULL,
+      status TEXT NOT NULL,
+      width INTEGER,
+      height INTEGER,
+      created_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS tags (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      name TEXT NOT NULL COLLATE NOCASE,
+      color TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      FOREIGN KEY (user_id) REFERENCES users(id),
+      UNIQUE(user_id, name)
+    );
+
+    CREATE TABLE IF NOT EXISTS file_tags (
+      file_id TEXT NOT NULL,
+      tag_id TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      PRIMARY KEY (file_id, tag_id),
+      FOREIGN KEY (tag_id) REFERENCES tags(id)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_file_tags_tag ON file_tags(tag_id);
+
+    CREATE TABLE IF NOT EXISTS stars (
+      user_id TEXT NOT NULL,
+      file_id TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      PRIMARY KEY (user_id, file_id),
+      FOREIGN KEY (user_id) REFERENCES users(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS recent_activity (
+      user_id TEXT NOT NULL,
+      file_id TEXT NOT NULL,
+      action TEXT NOT NULL,
+      at INTEGER NOT NULL,
+      PRIMARY KEY (user_id, file_id),
+      FOREIGN KEY (user_id) REFERENCES users(id)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_recent_activity_user ON recent_activity(user_id, at);
+
+    CREATE TABLE IF NOT EXISTS search_documents (
+      doc_id INTEGER PRIMARY KEY,
+      file_id TEXT UNIQUE NOT NULL,
+      user_id TEXT NOT NULL,
+      path TEXT NOT NULL,
+      content_key TEXT
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_search_documents_user ON search_documents(user_id);
+    CREATE INDEX IF NOT EXISTS idx_search_documents_path ON search_documents(user_id, path);
+
+    CREATE VIRTUAL TABLE IF NOT EXISTS search_index USING fts5(
+      name, path, content,
+      tokenize = 'unicode61 remove_diacritics 2'
+    );
+
+    CREATE TABLE IF NOT EXISTS settings (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL
+    );
   `);
 
+  await addColumnIfMissing(db, 'sessions', 'user_agent', 'TEXT');
+  await addColumnIfMissing(db, 'sessions', 'ip_address', 'TEXT');
+  await addColumnIfMissing(db, 'sessions', 'last_seen_at', 'INTEGER');
+  await addColumnIfMissing(db, 'users', 'totp_secret', 'TEXT');
+  await addColumnIfMissing(db, 'users', 'totp_pending_secret', 'TEXT');
+  await addColumnIfMissing(db, 'users', 'totp_enabled_at', 'INTEGER');
+  await addColumnIfMissing(db, 'users', 'totp_last_step', 'INTEGER');
+  await addColumnIfMissing(db, 'users', 'auth_provider', "TEXT NOT NULL DEFAULT 'local'");
+  await addColumnIfMissing(db, 'users', 'external_id', 'TEXT');
+  await addColumnIfMissing(db, 'users', 'version_limit', 'INTEGER');
+  await addColumnIfMissing(db, 'users', 'must_change_password', 'INTEGER NOT NULL DEFAULT 0');
+  await addColumnIfMissing(db, 'files', 'uploaded_by', 'TEXT');
+  await addColumnIfMissing(db, 'files', 'updated_at', 'INTEGER');
+  await addColumnIfMissing(db, 'files', 'blob_hash', 'TEXT');
+  await addColumnIfMissing(db, 'file_versions', 'blob_hash', 'TEXT');
+  await addColumnIfMissing(db, 'files', 'file_count', 'INTEGER NOT NULL DEFAULT 0');
+  await addColumnIfMissing(db, 'files', 'folder_count', 'INTEGER NOT NULL DEFAULT 0');
+
   // Seed Users
   const adminEmail = 'admin@fluxlocal.com';
   const adminExists = await db.get('SELECT * FROM users WHERE email = ?', adminEmail);
 
   if (!adminExists) {
-    const hashedPassword = await bcrypt.hash('123', 10);
+    const password = seedPassword();
+    const hashedPassword = await bcrypt.hash(password, 10);
     const adminId = uuidv4();
     await db.run(
       'INSERT INTO users (id, username, email, password, role, storage_limit) VALUES (?, ?, ?, ?, ?, ?)',
       adminId, 'Admin', adminEmail, hashedPassword, 'admin', 10737418240 // 10GB
     );
-    console.log('Admin user created');
+    console.log(`Admin user created: ${adminEmail} / ${password}`);
     
     // Create upload folder for admin
     const uploadDir = path.join(process.cwd(), 'uploads', adminId);
@@ -73,13 +282,14 @@ export const initDb = async () => {
   const userExists = await db.get('SELECT * FROM users WHERE email = ?', userEmail);
 
   if (!userExists) {
-    const hashedPassword = await bcrypt.hash('123', 10);
+    const password = seedPassword();
+    const hashedPassword = await bcrypt.hash(password, 10);
     const userId = uuidv4();
     await db.run(
       'INSERT INTO users (id, username, email, password, role, storage_limit) VALUES (?, ?, ?, ?, ?, ?)',
       userId, 'User', userEmail, hashedPassword, 'user', 2147483648 // 2GB
     );
-    console.log('Demo user created');
+    console.log(`Demo user created: ${userEmail} / ${password}`);
 
     // Create upload folder for user
     const uploadDir = path.join(process.cwd(), 'uploads', userId);
@@ -92,3 +302,17 @@ export const initDb = async () => {
 export const getDb = async () => {
   return await dbPromise;
 };
+
+export const getSetting = async (key: string): Promise<string | null> => {
+  const db = await dbPromise;
+  const row = await db.get('SELECT value FROM settings WHERE key = ?', key);
+  return row ? row.value : null;
+};
+
+export const setSetting = async (key: string, value: string) => {
+  const db = await dbPromise;
+  await db.run(
+    'INSERT INTO settings (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value',
+    key, value
+  );
+};
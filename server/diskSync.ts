@@ -0,0 +1,341 @@
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { getDb } from './db';
+import { getUserRoot } from './safePath';
+import { collectBlobGarbage } from './blobs';
+import { removeNodeTags } from './tags';
+import { releaseRemovedNodes } from './trash';
+import { adjustFolderTotals, nodeTotals } from './folderStats';
+import { canHaveThumbnail, queueThumbnails } from './thumbnails';
+
+// Keeps the files table in step with what is on disk under uploads/<userId>, for files added,
+// changed or removed outside the app. Each drive is watched; the folders that saw changes are
+// reconciled one level deep once the changes stop for a moment. A full scan of every drive runs at
+// startup and then now and then, for whatever the watchers missed (or in their place where the
+// platform has no recursive fs.watch). Listings only ever read the database.
+const DEBOUNCE_MS = 500;
+const MAX_DELAY_MS = 5000; // A folder that never stops changing is still reconciled this often
+const FULL_SCAN_INTERVAL_MS = 15 * 60 * 1000;
+const UNWATCHED_SCAN_INTERVAL_MS = 60 * 1000;
+
+const watchers = new Map<string, fs.FSWatcher>();
+let watchingAvailable = true;
+
+// Folders (relative to the drive root) waiting to be reconciled per user; null for the whole drive
+const pending = new Map<string, Set<string> | null>();
+const holds = new Map<string, number>();
+let flushTimer: NodeJS.Timeout | null = null;
+let firstPendingAt = 0;
+let lastFullScan = 0;
+
+// Reconciles run one at a time, so two of them never add the same entry twice
+let queue: Promise<void> = Promise.resolve();
+let notifyChange: (userId: string, folderIds: (string | null)[]) => void = () => {};
+
+function getMimeType(filename: string): string {
+    const ext = path.extname(filename).toLowerCase();
+    const map: Record<string, string> = {
+        '.txt': 'text/plain',
+        '.pdf': 'application/pdf',
+        '.png': 'image/png',
+        '.jpg': 'image/jpeg',
+        '.jpeg': 'image/jpeg',
+        '.gif': 'image/gif',
+        '.webp': 'image/webp',
+        '.mp4': 'video/mp4',
+        '.mp3': 'audio/mpeg',
+        '.zip': 'application/zip',
+        '.json': 'application/json',
+        '.js': 'text/javascript',
+        '.ts': 'text/typescript',
+        '.html': 'text/html',
+        '.css': 'text/css',
+        '.md': 'text/markdown'
+    };
+    return map[ext] || 'application/octet-stream';
+}
+
+// An entry gone from disk (or replaced by one of the other type) is gone for good, like a node
+// purged from the trash: its subtree's rows, shares and tags go, and so do their versions, blob
+// references, stars and recent activity
+async function deleteMissingNode(db: any, userId: string, node: any) {
+    const nodes: any[] = [];
+    const queue = [node];
+    while (queue.length) {
+        const current = queue.shift();
+        nodes.push(current);
+        if (current.type === 'folder') {
+            queue.push(...await db.all('SELECT id, type, blob_hash FROM files WHERE parent_id = ?', current.id));
+        }
+    }
+    const ids = nodes.map(n => n.id);
+    for (const id of ids) {
+        await db.run('DELETE FROM shared_files WHERE file_id = ?', id);
+    }
+    await removeNodeTags(db, ids);
+    for (const id of ids.reverse()) {
+        await db.run('DELETE FROM files WHERE id = ?', id);
+    }
+    await releaseRemovedNodes(db, userId, nodes.map(n => ({ id: n.id, type: n.type, blobHash: n.blob_hash })));
+    await collectBlobGarbage(db);
+}
+
+// Without `deep`, folders already known are not scanned again; new ones are always read whole.
+// Folders whose children changed in the database are added to `changed` (null for the root).
+async function syncFolder(db: any, userId: string, currentPath: string, parentId: string | null, changed: Set<string | null>, deep = true) {
+    // Get DB children
+    // Files in the blob store are not on disk under the user's directory; the scan leaves them alone
+    const query = parentId
+        ? 'SELECT * FROM files WHERE user_id = ? AND parent_id = ? AND blob_hash IS NULL'
+        : 'SELECT * FROM files WHERE user_id = ? AND parent_id IS NULL AND blob_hash IS NULL';
+    const params = parentId ? [userId, parentId] : [userId];
+    const dbChildren = await db.all(query, ...params);
+
+    const dbMap = new Map(dbChildren.map((f: any) => [f.name, f]));
+    const seenDbIds = new Set<string>();
+
+    // Scan physical
+    let entries: fs.Dirent[];
+    try {
+        if (!fs.existsSync(currentPath)) {
+            entries = [];
+        } else {
+            entries = fs.readdirSync(currentPath, { withFileTypes: true });
+        }
+    } catch (e) {
+        console.error(`Error reading directory ${currentPath}:`, e);
+        return;
+    }
+
+    for (const entry of entries) {
+        const entryPath = path.join(currentPath, entry.name);
+        let stats;
+        try {
+            stats = fs.statSync(entryPath);
+        } catch (e) {
+            continue;
+        }
+
+        let dbNode: any = dbMap.get(entry.name);
+
+        if (dbNode) {
+            seenDbIds.add(dbNode.id);
+            const isDbFolder = dbNode.type === 'folder';
+            const isPhyFolder = entry.isDirectory();
+
+            if (isDbFolder !== isPhyFolder) {
+                await adjustFolderTotals(db, parentId, nodeTotals(dbNode), -1);
+                await deleteMissingNode(db, userId, dbNode);
+                dbNode = null;
+                changed.add(parentId);
+            } else {
+                if (!isPhyFolder && dbNode.size !== stats.size) {
+                    await db.run('UPDATE files SET size = ?, path = ? WHERE id = ?', stats.size, entryPath, dbNode.id);
+                    await adjustFolderTotals(db, parentId, { size: stats.size - dbNode.size, files: 0, folders: 0 });
+                    changed.add(parentId);
+                    if (canHaveThumbnail(dbNode)) {
+                        queueThumbnails(dbNode.id);
+                    }
+                } else if (dbNode.path !== entryPath) {
+                    await db.run('UPDATE files SET path = ? WHERE id = ?', entryPath, dbNode.id);
+                }
+
+                if (isPhyFolder && deep) {
+                    await syncFolder(db, userId, entryPath, dbNode.id, changed);
+                }
+            }
+        }
+
+        // An API route may have added the entry since the children were read
+        if (!dbNode && await db.get('SELECT 1 FROM files WHERE user_id = ? AND parent_id IS ? AND name = ?', userId, parentId, entry.name)) {
+            continue;
+        }
+
+        if (!dbNode) {
+            const newId = uuidv4();
+            const type = entry.isDirectory() ? 'folder' : 'file';
+            const mimeType = entry.isDirectory() ? null : getMimeType(entry.name);
+            // A folder's size is that of its contents, added as they are found
+            const size = entry.isDirectory() ? 0 : stats.size;
+
+            await db.run(
+                `INSERT INTO files (id, user_id, parent_id, name, type, size, path, mime_type, created_at)
+                 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                newId, userId, parentId, entry.name, type, size, entryPath, mimeType, Date.now()
+            );
+            await adjustFolderTotals(db, parentId, nodeTotals({ type, size }));
+            changed.add(parentId);
+            if (canHaveThumbnail({ type, mime_type: mimeType })) {
+                queueThumbnails(newId);
+            }
+
+            // Read whole, but only the folder itself is news: nobody has its contents loaded yet
+            if (entry.isDirectory()) {
+                await syncFolder(db, userId, entryPath, newId, new Set());
+            }
+        }
+    }
+
+    // Cleanup missing
+    for (const child of dbChildren) {
+        if (!seenDbIds.has(child.id)) {
+            await adjustFolderTotals(db, parentId, nodeTotals(child), -1);
+            await deleteMissingNode(db, userId, child);
+            changed.add(parentId);
+        }
+    }
+}
+
+// Reconciles the folder a change happened in. A folder gone from disk is handled through its parent,
+// and one the database does not know yet through the closest known folder above it, which reads it
+// whole.
+async function syncDirectory(db: any, userId: string, relativeDir: string, changed: Set<string | null>) {
+    const root = getUserRoot(userId);
+    const segments = relativeDir.split(path.sep).filter(segment => segment && segment !== '.');
+    while (segments.length && !fs.statSync(path.join(root, ...segments), { throwIfNoEntry: false })?.isDirectory()) {
+        segments.pop();
+    }
+
+    let folderId: string | null = null;
+    let depth = 0;
+    for (const name of segments) {
+        const folder = await db.get(
+            `SELECT id FROM files WHERE user_id = ? AND parent_id IS ? AND name = ? AND type = 'folder'`,
+            userId, folderId, name
+        );
+        if (!folder) break;
+        folderId = folder.id;
+        depth++;
+    }
+    await syncFolder(db, userId, path.join(root, ...segments.slice(0, depth)), folderId, changed, false);
+}
+
+async function syncDrive(db: any, userId: string, changed: Set<string | null>) {
+    const root = getUserRoot(userId);
+    if (!fs.existsSync(root)) {
+        fs.mkdirSync(root, { recursive: true });
+    }
+    await syncFolder(db, userId, root, null, changed);
+}
+
+function enqueue(job: () => Promise<void>) {
+    queue = queue.then(job).catch(error => console.error('Disk sync error:', error));
+}
+
+async function flushPending() {
+    const db = await getDb();
+    for (const [userId, dirs] of Array.from(pending)) {
+        if (holds.has(userId)) continue; // Picked up when the hold is released
+        pending.delete(userId);
+        if (!await db.get('SELECT 1 FROM users WHERE id = ?', userId)) continue;
+        const changed = new Set<string | null>();
+        if (dirs) {
+            for (const dir of dirs) {
+                await syncDirectory(db, userId, dir, changed);
+            }
+        } else {
+            await syncDrive(db, userId, changed);
+        }
+        if (changed.size) notifyChange(userId, Array.from(changed));
+    }
+}
+
+function scheduleFlush() {
+    if (flushTimer) clearTimeout(flushTimer);
+    if (!firstPendingAt) firstPendingAt = Date.now();
+    const delay = Math.max(0, Math.min(DEBOUNCE_MS, firstPendingAt + MAX_DELAY_MS - Date.now()));
+    flushTimer = setTimeout(() => {
+        flushTimer = null;
+        firstPendingAt = 0;
+        enqueue(flushPending);
+    }, delay);
+}
+
+// `relativeDir` null when the watcher could not tell what changed
+function queueChange(userId: string, relativeDir: string | null) {
+    const dirs = pending.has(userId) ? pending.get(userId)! : new Set<string>();
+    if (dirs && relativeDir !== null) {
+        dirs.add(relativeDir);
+        pending.set(userId, dirs);
+    } else {
+        pending.set(userId, null);
+    }
+    if (!holds.has(userId)) scheduleFlush();
+}
+
+function watchDrive(userId: string) {
+    if (!watchingAvailable || watchers.has(userId)) return;
+    const root = getUserRoot(userId);
+    try {
+        fs.mkdirSync(root, { recursive: true });
+        const watcher = fs.watch(root, { recursive: true }, (_event, filename) => {
+            queueChange(userId, filename ? path.dirname(filename.toString()) : null);
+        });
+        // The drive directory itself went away; the next full scan creates it and watches it again
+        watcher.on('error', () => {
+            watcher.close();
+            watchers.delete(userId);
+            queueChange(userId, null);
+        });
+        watchers.set(userId, watcher);
+    } catch (error: any) {
+        if (error.code === 'ERR_FEATURE_UNAVAILABLE_ON_PLATFORM') {
+            console.warn('Recursive fs.watch is not available here; drives are rescanned every minute instead');
+            watchingAvailable = false;
+        } else {
+            console.error(`Cannot watch ${root}:`, error);
+        }
+    }
+}
+
+// Every drive, one after the other, letting requests through in between
+async function scanAllDrives() {
+    lastFullScan = Date.now();
+    const db = await getDb();
+    const users: { id: string }[] = await db.all('SELECT id FROM users');
+    for (const { id } of users) {
+        if (holds.has(id)) continue; // Next time
+        watchDrive(id);
+        const changed = new Set<string | null>();
+        await syncDrive(db, id, changed);
+        if (changed.size) notifyChange(id, Array.from(changed));
+        await new Promise(resolve => setImmediate(resolve));
+    }
+    for (const [userId, watcher] of Array.from(watchers)) {
+        if (!users.some(user => user.id === userId)) {
+            watcher.close();
+            watchers.delete(userId);
+        }
+    }
+}
+
+// Routes that change a drive keep the database in step themselves; while one runs, the watcher
+// leaves that drive alone so it does not act on a half-done change. Returns the release function.
+export function holdDiskSync(userId: string) {
+    holds.set(userId, (holds.get(userId) || 0) + 1);
+    watchDrive(userId);
+    let released = false;
+    return () => {
+        if (released) return;
+        released = true;
+        const count = (holds.get(userId) || 1) - 1;
+        if (count) {
+            holds.set(userId, count);
+        } else {
+            holds.delete(userId);
+            if (pending.has(userId)) scheduleFlush();
+        }
+    };
+}
+
+// Scans every drive once at startup and starts watching them; `onChange` is told which folders of a
+// drive had their children brought up to date with the disk
+export function startDiskSync(onChange: (userId: string, folderIds: (string | null)[]) => void) {
+    notifyChange = onChange;
+    enqueue(scanAllDrives);
+    setInterval(() => {
+        if (watchingAvailable && Date.now() - lastFullScan < FULL_SCAN_INTERVAL_MS) return;
+        enqueue(scanAllDrives);
+    }, UNWATCHED_SCAN_INTERVAL_MS).unref();
+}
@@ -0,0 +1,209 @@
+import crypto from 'crypto';
+import { getTagsByNode } from './tags';
+import { mapFileNode } from './listing';
+
+// Change notifications pushed to the drive over Server-Sent Events. Every change goes only to the
+// users who can see it: the owner, and anyone the node (or a folder above it) is shared with. Each
+// user's latest events are kept, so a client that reconnects with Last-Event-ID gets what it missed;
+// one that missed too much (or reconnects after a server restart) is told to reload instead.
+export type ChangeType = 'created' | 'updated' | 'renamed' | 'moved' | 'deleted' | 'changed' | 'shared' | 'unshared';
+
+const BUFFER_SIZE = 500; // Events kept per user for replay
+const HEARTBEAT_MS = 25000;
+// Event ids are "<boot>.<sequence>", so an id from before a restart is recognised as such
+const BOOT_ID = crypto.randomBytes(4).toString('hex');
+
+interface BufferedEvent {
+    seq: number;
+    data: string;
+}
+
+interface Channel {
+    events: BufferedEvent[];
+    droppedThrough: number; // Sequence of the newest event no longer kept
+    clients: Set<any>;
+    lastChange: number;
+}
+
+const channels = new Map<string, Channel>();
+const startedAt = Date.now();
+let seq = 0;
+
+// Who can see a node: the folders from the drive root down to it (its own id last), and per user the
+// index in that chain from which they can see it (0 for the owner, the shared folder for others)
+export interface Audience {
+    ownerId: string;
+    chain: string[];
+    access: Map<string, number>;
+}
+
+function getChannel(userId: string) {
+    let channel = channels.get(userId);
+    if (!channel) {
+        channel = { events: [], droppedThrough: 0, clients: new Set(), lastChange: startedAt };
+        channels.set(userId, channel);
+    }
+    return channel;
+}
+
+const writeEvent = (res: any, event: BufferedEvent) => res.write(`id: ${BOOT_ID}.${event.seq}\nevent: change\ndata: ${event.data}\n\n`);
+
+function deliver(userId: string, payload: object) {
+    const channel = getChannel(userId);
+    const event = { seq: ++seq, data: JSON.stringify(payload) };
+    channel.events.push(event);
+    if (channel.events.length > BUFFER_SIZE) {
+        channel.droppedThrough = channel.events.shift()!.seq;
+    }
+    channel.lastChange = Date.now();
+    for (const res of channel.clients) {
+        writeEvent(res, event);
+    }
+}
+
+// When the user's drive last changed, for clients that poll instead of listening
+export function getLastChange(userId: string) {
+    return getChannel(userId).lastChange;
+}
+
+// Streams the user's changes until the client goes away; replays what came after Last-Event-ID
+export function openEventStream(userId: string, req: any, res: any) {
+    res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-store',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no'
+    });
+    res.write('retry: 3000\n\n');
+
+    const channel = getChannel(userId);
+    const lastEventId = req.get('Last-Event-ID') || req.query.lastEventId;
+    if (lastEventId) {
+        const [boot, last] = String(lastEventId).split('.');
+        const lastSeq = Number(last);
+        if (boot !== BOOT_ID || !Number.isInteger(lastSeq) || lastSeq < channel.droppedThrough) {
+            res.write(`event: resync\ndata: {}\n\n`);
+        } else {
+            channel.events.filter(event => event.seq > lastSeq).forEach(event => writeEvent(res, event));
+        }
+    }
+    // Marks the position, so that a reconnect replays from here even when nothing happens meanwhile
+    res.write(`id: ${BOOT_ID}.${seq}\nevent: ready\ndata: {}\n\n`);
+
+    channel.clients.add(res);
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+    req.on('close', () => {
+        clearInterval(heartbeat);
+        channel.clients.delete(res);
+    });
+}
+
+// The audience of a node or folder (null for the owner's drive root). Taken before a node is
+// deleted or moved, so the users who could see it where it was are told too.
+export async function getAudience(db: any, nodeId: string | null, ownerId: string): Promise<Audience> {
+    const access = new Map<string, number>([[ownerId, 0]]);
+    if (!nodeId) return { ownerId, chain: [], access };
+
+    const rows = await db.all(
+        `WITH RECURSIVE chain(id, parent_id, depth) AS (
+             SELECT id, parent_id, 0 FROM files WHERE id = ?
+             UNION ALL SELECT f.id, f.parent_id, c.depth + 1 FROM files f JOIN chain c ON f.id = c.parent_id
+         )
+         SELECT id FROM chain ORDER BY depth DESC`,
+        nodeId
+    );
+    const chain: string[] = rows.map((row: any) => row.id);
+    if (!chain.length) return { ownerId, chain, access };
+
+    const shares = await db.all(
+        `SELECT file_id, to_user_id FROM shared_files WHERE file_id IN (${chain.map(() => '?').join(',')})`,
+        ...chain
+    );
+    for (const share of shares) {
+        const index = chain.indexOf(share.file_id);
+        if (share.to_user_id !== ownerId && index < (access.get(share.to_user_id) ?? Infinity)) {
+            access.set(share.to_user_id, index);
+        }
+    }
+    return { ownerId, chain, access };
+}
+
+// Current totals of the folders in the chain that the user can see, so cached folder sizes follow
+async function visibleFolderTotals(db: any, audience: Audience, userId: string) {
+    const ids = audience.chain.slice(audience.access.get(userId));
+    if (!ids.length) return [];
+    const rows = await db.all(
+        `SELECT id, size, file_count, folder_count FROM files WHERE type = 'folder' AND id IN (${ids.map(() => '?').join(',')})`,
+        ...ids
+    );
+    return rows.map((row: any) => ({ id: row.id, size: row.size, fileCount: row.file_count, folderCount: row.folder_count }));
+}
+
+// The node as the user sees it in listings: only the owner sees its tags, and stars are personal
+async function mapNodeFor(db: any, row: any, userId: string) {
+    const tagsByNode = row.user_id === userId ? await getTagsByNode(db, userId, [row.id]) : new Map<string, string[]>();
+    const starred = await db.get('SELECT 1 FROM stars WHERE user_id = ? AND file_id = ?', userId, row.id);
+    return mapFileNode(row, tagsByNode, new Set(starred ? [row.id] : []));
+}
+
+async function deliverNode(db: any, type: ChangeType, row: any, audience: Audience, userId: string, extra: object = {}) {
+    deliver(userId, {
+        type,
+        nodeId: row.id,
+        folderId: row.parent_id,
+        node: await mapNodeFor(db, row, userId),
+        folders: await visibleFolderTotals(db, audience, userId),
+        ...extra
+    });
+}
+
+// A node was added, or its content, name or tags changed
+export async function publishNodeChange(db: any, type: 'created' | 'updated' | 'renamed', nodeId: string) {
+    const row = await db.get('SELECT * FROM files WHERE id = ?', nodeId);
+    if (!row) return;
+    const audience = await getAudience(db, nodeId, row.user_id);
+    for (const userId of audience.access.keys()) {
+        await deliverNode(db, type, row, audience, userId);
+    }
+}
+
+// A node went to another folder. Users who can only see one end of the move get a creation or a
+// deletion instead.
+export async function publishMove(db: any, nodeId: string, fromFolderId: string | null, before: Audience) {
+    const row = await db.get('SELECT * FROM files WHERE id = ?', nodeId);
+    if (!row) return;
+    const after = await getAudience(db, nodeId, row.user_id);
+    for (const userId of after.access.keys()) {
+        if (before.access.has(userId)) {
+            await deliverNode(db, 'moved', row, after, userId, { fromFolderId });
+        } else {
+            await deliverNode(db, 'created', row, after, userId);
+        }
+    }
+    for (const userId of before.access.keys()) {
+        if (!after.access.has(userId)) {
+            deliver(userId, { type: 'deleted', nodeId, folderId: fromFolderId, folders: await visibleFolderTotals(db, before, userId) });
+        }
+    }
+}
+
+// A node (and everything in it) left the drive; `before` is its audience from before the removal
+export async function publishDeletion(db: any, node: any, before: Audience) {
+    for (const userId of before.access.keys()) {
+        deliver(userId, { type: 'deleted', nodeId: node.id, folderId: node.parent_id, folders: await visibleFolderTotals(db, before, userId) });
+    }
+}
+
+// Many children of a folder (null for the owner's root) changed at once, as in merges and changes
+// found on disk; clients load the folder again
+export async function publishFolderChange(db: any, ownerId: string, folderId: string | null) {
+    const audience = await getAudience(db, folderId, ownerId);
+    for (const userId of audience.access.keys()) {
+        deliver(userId, { type: 'changed', nodeId: folderId, folderId, folders: await visibleFolderTotals(db, audience, userId) });
+    }
+}
+
+// A node was shared with the user, or the user dropped it from their shared items
+export function publishShareChange(userId: string, type: 'shared' | 'unshared', nodeId: string) {
+    deliver(userId, { type, nodeId, folderId: null, folders: [] });
+}
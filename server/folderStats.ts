@@ -0,0 +1,104 @@
+import { getSetting, setSetting } from './db';
+
+// Every folder row carries the totals of everything below it, at any depth: `size` is the bytes of
+// all its files, `file_count` and `folder_count` the number of files and subfolders. Whatever adds,
+// removes, moves or resizes a node passes the change on to the folder it sits in and every folder
+// above it, so listings read the totals as they are.
+export interface FolderTotals {
+    size: number;
+    files: number;
+    folders: number;
+}
+
+// What a node adds to the folders above it
+export function nodeTotals(node: any): FolderTotals {
+    return node.type === 'folder'
+        ? { size: node.size || 0, files: node.file_count || 0, folders: (node.folder_count || 0) + 1 }
+        : { size: node.size || 0, files: 1, folders: 0 };
+}
+
+// Adds the totals to a folder and all its ancestors; sign -1 takes them away
+export async function adjustFolderTotals(db: any, folderId: string | null, totals: FolderTotals, sign: 1 | -1 = 1) {
+    if (!folderId || (!totals.size && !totals.files && !totals.folders)) return;
+    await db.run(
+        `WITH RECURSIVE chain(id) AS (
+             SELECT ?
+             UNION SELECT f.parent_id FROM files f JOIN chain c ON f.id = c.id WHERE f.parent_id IS NOT NULL
+         )
+         UPDATE files SET size = size + ?, file_count = file_count + ?, folder_count = folder_count + ?
+         WHERE type = 'folder' AND id IN (SELECT id FROM chain)`,
+        folderId, sign * totals.size, sign * totals.files, sign * totals.folders
+    );
+}
+
+// Adds up the totals of the given rows bottom-up and writes those of folders that are off. Returns
+// what each row adds to its parent.
+async function recountRows(db: any, rows: any[]) {
+    const children = new Map<string, any[]>();
+    for (const row of rows) {
+        if (!row.parent_id) continue;
+        if (!children.has(row.parent_id)) children.set(row.parent_id, []);
+        children.get(row.parent_id)!.push(row);
+    }
+
+    const contributions = new Map<string, FolderTotals>();
+    const visit = async (row: any): Promise<FolderTotals> => {
+        if (row.type !== 'folder') return nodeTotals(row);
+        const totals: FolderTotals = { size: 0, files: 0, folders: 0 };
+        for (const child of children.get(row.id) || []) {
+            const added = await visit(child);
+            totals.size += added.size;
+            totals.files += added.files;
+            totals.folders += added.folders;
+        }
+        if (row.size !== totals.size || row.file_count !== totals.files || row.folder_count !== totals.folders) {
+            await db.run(
+                'UPDATE files SET size = ?, file_count = ?, folder_count = ? WHERE id = ?',
+                totals.size, totals.files, totals.folders, row.id
+            );
+        }
+        return { ...totals, folders: totals.folders + 1 };
+    };
+
+    const ids = new Set(rows.map(row => row.id));
+    for (const row of rows) {
+        if (!row.parent_id || !ids.has(row.parent_id)) {
+            contributions.set(row.id, await visit(row));
+        }
+    }
+    return contributions;
+}
+
+// Recounts a node and everything below it, for trees put back in one go (restores from the trash).
+// The folders above are left alone; returns what the node adds to them.
+export async function recountSubtree(db: any, nodeId: string): Promise<FolderTotals> {
+    const rows = await db.all(
+        `WITH RECURSIVE tree(id) AS (
+             SELECT ?
+             UNION SELECT f.id FROM files f JOIN tree t ON f.parent_id = t.id
+         )
+         SELECT id, parent_id, type, size, file_count, folder_count FROM files WHERE id IN (SELECT id FROM tree)`,
+        nodeId
+    );
+    return (await recountRows(db, rows)).get(nodeId) || { size: 0, files: 0, folders: 0 };
+}
+
+// Databases from before folder totals have every folder at 0 (or the size of the directory entry);
+// they are counted once on startup
+export async function ensureFolderTotals(db: any) {
+    if (await getSetting('folder_totals_ready') === 'true') return;
+    await db.run('BEGIN TRANSACTION');
+    try {
+        await recountRows(db, await db.all('SELECT id, parent_id, type, size, file_count, folder_count FROM files'));
+        await db.run('COMMIT');
+    } catch (error) {
+        await db.run('ROLLBACK');
+        throw error;
+    }
+    await setSetting('folder_totals_ready', 'true');
+}
+
+// The counts in the API shape of a folder node
+export function mapFolderCounts(row: any) {
+    return row.type === 'folder' ? { fileCount: row.file_count ?? 0, folderCount: row.folder_count ?? 0 } : {};
+}
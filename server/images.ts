@@ -0,0 +1,248 @@
+import jpeg from 'jpeg-js';
+import { PNG } from 'pngjs';
+import { GifReader } from 'omggif';
+import { decodeWebp, isWebp } from './webp';
+
+// Thumbnails in plain JavaScript: JPEG, PNG, GIF (first frame) and WebP are decoded to RGBA, scaled
+// down by averaging the source pixels each thumbnail pixel covers, flattened onto white and encoded
+// as JPEG. Runs in the thumbnail worker process, as decoding a large image takes a while.
+export interface RgbaImage {
+    width: number;
+    height: number;
+    data: Uint8Array; // 4 bytes per pixel, rows top to bottom
+}
+
+// Longest side of each rendition; smaller images keep their size
+export const THUMBNAIL_SIZES = { small: 256, medium: 1024 } as const;
+export type ThumbnailSize = keyof typeof THUMBNAIL_SIZES;
+
+export const THUMBNAIL_MIME_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
+export interface Thumbnails {
+    width: number; // Of the image as shown, after EXIF orientation
+    height: number;
+    renditions: Record<ThumbnailSize, Uint8Array>;
+}
+
+const MAX_PIXELS = 50 * 1000 * 1000;
+const JPEG_QUALITY = 80;
+
+const startsWith = (buffer: Uint8Array, bytes: number[]) => bytes.every((byte, i) => buffer[i] === byte);
+
+function checkPixels(width: number, height: number) {
+    if (!width || !height) throw new Error('Image has no pixels');
+    if (width * height > MAX_PIXELS) throw new Error('Image is too large');
+}
+
+// omggif follows LZW codes without checking them, and loops forever once a code that is not in its
+// table yet has linked an entry to itself. Walks the codes of a frame first, growing the table the
+// same way, to refuse such files.
+function checkGifCodes(buffer: Buffer, offset: number) {
+    const minCodeSize = buffer[offset];
+    if (!(minCodeSize >= 1 && minCodeSize <= 8)) throw new Error('Corrupt GIF image');
+    const clearCode = 1 << minCodeSize;
+    let nextCode = clearCode + 2;
+    let codeSize = minCodeSize + 1;
+    let hasPrevious = false;
+
+    let position = offset + 1;
+    let blockLeft = 0;
+    let bits = 0;
+    let bitCount = 0;
+    for (;;) {
+        while (bitCount < codeSize) {
+            if (blockLeft === 0) {
+                blockLeft = buffer[position++] ?? 0;
+                if (blockLeft === 0) return; // End of the image data (omggif reads zeros past a cut)
+            }
+            blockLeft--;
+            bits |= (buffer[position++] ?? 0) << bitCount;
+            bitCount += 8;
+        }
+        const code = bits & ((1 << codeSize) - 1);
+        bits >>>= codeSize;
+        bitCount -= codeSize;
+
+        if (code === clearCode) {
+            nextCode = clearCode + 2;
+            codeSize = minCodeSize + 1;
+            hasPrevious = false;
+            continue;
+        }
+        if (code === clearCode + 1) return;
+        if (code > nextCode || (code === nextCode && !hasPrevious)) throw new Error('Corrupt GIF image');
+        if (hasPrevious && nextCode < 4096) {
+            nextCode++;
+            if (nextCode >= 1 << codeSize && codeSize < 12) codeSize++;
+        }
+        hasPrevious = true;
+    }
+}
+
+// By content rather than by the stored MIME type, which comes from the uploading browser
+export function decodeImage(buffer: Buffer): RgbaImage {
+    if (startsWith(buffer, [0xff, 0xd8, 0xff])) {
+        return jpeg.decode(buffer, { useTArray: true, formatAsRGBA: true, maxResolutionInMP: MAX_PIXELS / 1e6 });
+    }
+    if (startsWith(buffer, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+        // Size from the IHDR chunk before pngjs allocates anything
+        if (buffer.length < 24) throw new Error('Truncated PNG image');
+        checkPixels(buffer.readUInt32BE(16), buffer.readUInt32BE(20));
+        const png = PNG.sync.read(buffer);
+        return { width: png.width, height: png.height, data: png.data };
+    }
+    if (startsWith(buffer, [0x47, 0x49, 0x46, 0x38])) {
+        const gif = new GifReader(buffer);
+        checkPixels(gif.width, gif.height);
+        const frame = gif.frameInfo(0);
+        checkPixels(frame.width, frame.height);
+        checkGifCodes(buffer, frame.data_offset);
+        const data = new Uint8Array(gif.width * gif.height * 4);
+        gif.decodeAndBlitFrameRGBA(0, data);
+        return { width: gif.width, height: gif.height, data };
+    }
+    if (isWebp(buffer)) {
+        return decodeWebp(buffer, MAX_PIXELS);
+    }
+    throw new Error('Unsupported image format');
+}
+
+// The Orientation tag (1 to 8) of the Exif block of a JPEG file, 1 when there is none
+export function getJpegOrientation(buffer: Buffer): number {
+    let offset = 2;
+    while (offset + 4 <= buffer.length && buffer[offset] === 0xff) {
+        const marker = buffer[offset + 1];
+        const length = buffer.readUInt16BE(offset + 2);
+        if (marker === 0xda || marker === 0xd9) break; // Image data follows
+        if (marker === 0xe1 && buffer.toString('latin1', offset + 4, offset + 10) === 'Exif\0\0') {
+            const tiff = offset + 10;
+            const end = Math.min(buffer.length, offset + 2 + length);
+            if (tiff + 8 > end) return 1;
+            const little = buffer.toString('latin1', tiff, tiff + 2) === 'II';
+            const u16 = (at: number) => little ? buffer.readUInt16LE(at) : buffer.readUInt16BE(at);
+            const u32 = (at: number) => little ? buffer.readUInt32LE(at) : buffer.readUInt32BE(at);
+            const ifd = tiff + u32(tiff + 4);
+            if (ifd + 2 > end) return 1;
+            const count = u16(ifd);
+            for (let i = 0; i < count && ifd + 14 + i * 12 <= end; i++) {
+                const entry = ifd + 2 + i * 12;
+                if (u16(entry) === 0x0112) {
+                    const value = u16(entry + 8);
+                    return value >= 1 && value <= 8 ? value : 1;
+                }
+            }
+            return 1;
+        }
+        offset += 2 + length;
+    }
+    return 1;
+}
+
+// Turns stored pixels the way Exif orientation says they are to be shown
+function orient(image: RgbaImage, orientation: number): RgbaImage {
+    if (orientation <= 1) return image;
+    const { width: w, height: h, data } = image;
+    const swap = orientation >= 5;
+    const width = swap ? h : w;
+    const height = swap ? w : h;
+    const out = new Uint8Array(data.length);
+    const source = new Uint32Array(data.buffer, data.byteOffset, w * h);
+    const target = new Uint32Array(out.buffer);
+    for (let y = 0; y < h; y++) {
+        for (let x = 0; x < w; x++) {
+            let tx: number, ty: number;
+            switch (orientation) {
+                case 2: tx = w - 1 - x; ty = y; break;
+                case 3: tx = w - 1 - x; ty = h - 1 - y; break;
+                case 4: tx = x; ty = h - 1 - y; break;
+                case 5: tx = y; ty = x; break;
+                case 6: tx = h - 1 - y; ty = x; break;
+                case 7: tx = h - 1 - y; ty = w - 1 - x; break;
+                default: tx = y; ty = w - 1 - x; break;
+            }
+            target[ty * width + tx] = source[y * w + x];
+        }
+    }
+    return { width, height, data: out };
+}
+
+// For each source column (or row): the first target one it falls in, and the part of it that does
+// (the rest falls in the next one)
+function coverage(size: number, targetSize: number) {
+    const scale = size / targetSize;
+    const index = new Int32Array(size);
+    const weight = new Float32Array(size);
+    for (let i = 0; i < size; i++) {
+        const target = Math.min(targetSize - 1, Math.floor(i / scale));
+        index[i] = target;
+        weight[i] = Math.min(1, (target + 1) * scale - i);
+    }
+    return { index, weight };
+}
+
+// Scales down so that neither side exceeds `maxSide`, averaging the source pixels each target pixel
+// covers. The result is opaque: transparent pixels are flattened onto white first.
+export function scaleDown(image: RgbaImage, maxSide: number): RgbaImage {
+    const factor = Math.max(1, image.width / maxSide, image.height / maxSide);
+    const width = Math.max(1, Math.round(image.width / factor));
+    const height = Math.max(1, Math.round(image.height / factor));
+    const columns = coverage(image.width, width);
+    const rows = coverage(image.height, height);
+    const sums = new Float32Array(width * height * 3);
+    const source = image.data;
+
+    const add = (target: number, weight: number, r: number, g: number, b: number) => {
+        sums[target] += r * weight;
+        sums[target + 1] += g * weight;
+        sums[target + 2] += b * weight;
+    };
+
+    for (let y = 0; y < image.height; y++) {
+        const row = rows.index[y] * width;
+        const rowWeight = rows.weight[y];
+        const nextRow = rowWeight < 1 && rows.index[y] + 1 < height ? row + width : -1;
+        for (let x = 0; x < image.width; x++) {
+            const i = (y * image.width + x) * 4;
+            const alpha = source[i + 3];
+            const white = 255 - alpha;
+            const r = (source[i] * alpha) / 255 + white;
+            const g = (source[i + 1] * alpha) / 255 + white;
+            const b = (source[i + 2] * alpha) / 255 + white;
+            const column = columns.index[x];
+            const columnWeight = columns.weight[x];
+            const split = columnWeight < 1 && column + 1 < width;
+
+            add((row + column) * 3, rowWeight * columnWeight, r, g, b);
+            if (split) add((row + column + 1) * 3, rowWeight * (1 - columnWeight), r, g, b);
+            if (nextRow >= 0) {
+                add((nextRow + column) * 3, (1 - rowWeight) * columnWeight, r, g, b);
+                if (split) add((nextRow + column + 1) * 3, (1 - rowWeight) * (1 - columnWeight), r, g, b);
+            }
+        }
+    }
+
+    const area = (image.width / width) * (image.height / height);
+    const data = new Uint8Array(width * height * 4);
+    for (let i = 0, j = 0; i < sums.length; i += 3, j += 4) {
+        data[j] = Math.min(255, Math.round(sums[i] / area));
+        data[j + 1] = Math.min(255, Math.round(sums[i + 1] / area));
+        data[j + 2] = Math.min(255, Math.round(sums[i + 2] / area));
+        data[j + 3] = 255;
+    }
+    return { width, height, data };
+}
+
+export function makeThumbnails(buffer: Buffer): Thumbnails {
+    const image = decodeImage(buffer);
+    const orientation = startsWith(buffer, [0xff, 0xd8]) ? getJpegOrientation(buffer) : 1;
+    // Scaled before turning, which is cheaper; the bounds are square so the size comes out the same
+    const medium = orient(scaleDown(image, THUMBNAIL_SIZES.medium), orientation);
+    const small = scaleDown(medium, THUMBNAIL_SIZES.small);
+    const encode = (rendition: RgbaImage) => new Uint8Array(jpeg.encode(rendition, JPEG_QUALITY).data);
+    const swap = orientation >= 5;
+    return {
+        width: swap ? image.height : image.width,
+        height: swap ? image.width : image.height,
+        renditions: { small: encode(small), medium: encode(medium) }
+    };
+}
@@ -4,18 +4,47 @@ import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
 import { v4 as uuidv4 } from 'uuid';
-import bcrypt from 'bcryptjs';
 import archiver from 'archiver';
 import { initDb, getDb } from './db';
+import { authenticate, createSession, revokeSession, revokeUserSessions, listActiveSessions, mapSession, createDownloadSignature, createEventsTicket } from './auth';
+import { requireAdmin, isLastAdmin, ROLES } from './permissions';
+import { validatePassword, hashPassword, createResetToken, findResetToken, markResetTokenUsed, RESET_TOKEN_TTL_MS } from './passwords';
+import { sendMail } from './mailer';
+import { generateSecret, buildOtpauthUri, verifyTotp } from './totp';
+import {
+    requireTwoFactorSetup, isTwoFactorSetupRequired, isAdminTwoFactorRequired, setAdminTwoFactorRequired,
+    createLoginChallenge, verifyLoginChallenge, verifySecondFactor, replaceRecoveryCodes, disableTwoFactor, getTwoFactorStatus
+} from './twoFactor';
+import QRCode from 'qrcode';
+import { checkLoginAllowed, recordLoginFailure, clearAccountFailures, getLockedAccounts, ThrottleStatus } from './loginThrottle';
+import { recordAudit, getNodePath, queryAuditEvents, mapAuditEvent, auditEventsToCsv, AUDIT_EXPORT_LIMIT, AuditFilters } from './audit';
+import { authenticateLogin, verifyUserPassword, linkToDirectory, getDirectoryProviders, AuthProviderUnavailableError, ExternalAccountConflictError } from './authProviders';
+import { UPLOADS_ROOT, UnsafePathError, sanitizeName, getUserRoot, assertInsideUserRoot, resolveChildPath, getUploadTempDir, getChunkPath, getIncomingDir } from './safePath';
+import { moveToTrash, restoreFromTrash, purgeTrashItem, listTrashItems, mapTrashItem, getTrashSettings, setTrashSettings, getTrashQuotaUsage, getTrashQuotaUsageByUser, startTrashPurge } from './trash';
+import { replaceFileContent, getVersionContentPath, pruneVersions, listVersions, mapVersion, getVersion, restoreVersion, getVersionLimit, pruneUserVersions, getVersionUsage, getVersionUsageByUser, getBytesFreedByReplace, DEFAULT_VERSION_LIMIT, MAX_VERSION_LIMIT } from './versions';
+import { getStorageMode, setStorageMode, storeBlob, discardBlob, addBlobRef, releaseBlob, getContentPath, getBlobStats, startBlobGc, STORAGE_MODES, StorageMode } from './blobs';
+import { parseConflictPolicy, decideConflict, findConflicts, INVALID_CONFLICT_POLICY, ConflictPolicy, ConflictDecision } from './conflicts';
+import { listTags, getTag, findTagByName, createTag, updateTag, deleteTag, updateNodeTags, getTagsByNode, copyNodeTags, removeNodeTags, validateTag, mapTag } from './tags';
+import { setStarred, listStarred, getStarredIds } from './stars';
+import { recordRecent, listRecent } from './recent';
+import { adjustFolderTotals, nodeTotals, ensureFolderTotals, mapFolderCounts } from './folderStats';
+import { parseListingQuery, listChildren, getFolderPath, mapFileNode, INVALID_LISTING_QUERY } from './listing';
+import { startDiskSync, holdDiskSync } from './diskSync';
+import { sendFileContent, Disposition } from './streaming';
+import { queueThumbnails, invalidateThumbnails, getThumbnail, startThumbnailGc } from './thumbnails';
+import { THUMBNAIL_SIZES, ThumbnailSize } from './images';
+import { openEventStream, getLastChange, Audience, getAudience, publishNodeChange, publishMove, publishDeletion, publishFolderChange, publishShareChange } from './events';
+import { indexNode, indexFolder, removeFromIndex, rebuildSearchIndex, searchFiles, SearchFilters } from './search';
+import { createApiToken, listApiTokens, revokeApiToken, mapApiToken, API_TOKEN_SCOPES } from './apiTokens';
 
 const app = express();
-const PORT = 3001;
+const PORT = Number(process.env.PORT ?? 3001);
 
 app.use(cors({
     origin: '*',
     credentials: true,
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'x-user-id', 'Authorization']
+    allowedHeaders: ['Content-Type', 'Authorization']
 }));
 // Increase timeouts for large file uploads
 app.use((req, res, next) => {
@@ -25,11 +54,20 @@ app.use((req, res, next) => {
 });
 app.use(express.json({ limit: '100gb' }));
 app.use(express.urlencoded({ limit: '100gb', extended: true }));
+// Resolve the caller from the session token for every route (except login)
+app.use(authenticate);
+app.use(requireTwoFactorSetup);
+// Changes made through the API are written to the database by the routes themselves; the disk
+// watcher stays off the caller's drive until the request is done
+app.use((req, res, next) => {
+    if (req.method !== 'GET' && req.user) {
+        res.on('close', holdDiskSync(req.user.id));
+    }
+    next();
+});
 
 const isWindows = process.platform === 'win32';
 
-let lastFileSystemChange = Date.now();
-
 function setPermissions(path: string) {
     if (!isWindows && fs.existsSync(path)) {
         try {
@@ -41,7 +79,7 @@ function setPermissions(path: string) {
 }
 
 // Ensure uploads directory exists
-const uploadsRoot = path.join(process.cwd(), 'uploads');
+const uploadsRoot = UPLOADS_ROOT;
 if (!fs.existsSync(uploadsRoot)) {
     fs.mkdirSync(uploadsRoot);
     setPermissions(uploadsRoot);
@@ -50,17 +88,22 @@ if (!fs.existsSync(uploadsRoot)) {
 // Multer storage configuration
 const storage = multer.diskStorage({
     destination: async function (req: any, file, cb) {
-        const userId = req.headers['x-user-id']; // Simple auth for now
+        const userId = req.user?.id;
         if (!userId) {
-            return cb(new Error('No user ID provided'), '');
+            return cb(new Error('Not authenticated'), '');
         }
 
-        const userDir = path.join(uploadsRoot, userId as string);
+        const userDir = getUserRoot(userId);
         if (!fs.existsSync(userDir)) {
             fs.mkdirSync(userDir, { recursive: true });
             setPermissions(userDir);
         }
-        cb(null, userDir);
+        const incomingDir = getIncomingDir();
+        if (!fs.existsSync(incomingDir)) {
+            fs.mkdirSync(incomingDir, { recursive: true });
+            setPermissions(incomingDir);
+        }
+        cb(null, incomingDir);
     },
     filename: function (req, file, cb) {
         // Use UUID to prevent filename collisions during concurrent chunk uploads
@@ -81,242 +124,797 @@ const upload = multer({
     }
 });
 
-// Initialize DB
-initDb().then(() => {
+// Initialize DB; resolves once the server can take requests
+export const ready = initDb().then(async () => {
+    await ensureFolderTotals(await getDb());
     console.log('Database initialized');
+    startTrashPurge(item => recordAudit({}, {
+        action: 'file.purge',
+        targetType: item.type,
+        targetId: item.node_id,
+        targetName: item.name,
+        oldPath: item.original_path,
+        details: { automatic: true }
+    }));
+    startBlobGc();
+    startThumbnailGc();
+    rebuildSearchIndex(await getDb());
+    startDiskSync(async (userId, folderIds) => {
+        const db = await getDb();
+        for (const folderId of folderIds) {
+            await publishFolderChange(db, userId, folderId);
+            await indexFolder(db, userId, folderId);
+        }
+    });
 });
 
 // API Routes
 
-// System Status (Polling for changes)
+// System Status (Polling for changes); the drive listens on /api/events instead
 app.get('/api/system/status', (req, res) => {
-    res.json({ lastChange: lastFileSystemChange });
+    res.json({ lastChange: getLastChange(req.user.id) });
 });
 
+// Changes to what the caller can see, as Server-Sent Events
+app.get('/api/events', (req, res) => {
+    openEventStream(req.user.id, req, res);
+});
+
+// Short-lived ticket for browsers to open /api/events with, since EventSource cannot send the
+// session token in a header
+app.post('/api/events/ticket', async (req, res) => {
+    try {
+        res.json(await createEventsTicket(req.user.id, req.sessionId));
+    } catch (error) {
+        console.error('Events ticket error:', error);
+        res.status(500).json({ error: 'Failed to create events ticket' });
+    }
+});
+
+// Refuse a throttled sign-in with the reason, so the login screen can show it
+function sendLoginThrottled(res: any, status: ThrottleStatus) {
+    const retryAfter = Math.ceil(status.retryAfterMs / 1000);
+    res.set('Retry-After', String(retryAfter));
+    res.status(429).json({ error: status.message, reason: status.reason, retryAfter });
+}
+
+// Re-checks the signed-in user's password before a sensitive change. Wrong passwords count against
+// the same limits as failed sign-ins, so a session cannot be used to guess the password unthrottled.
+// Answers the request and returns false unless the password is right.
+async function confirmCurrentPassword(req: any, res: any, user: any, password: string) {
+    const throttled = await checkLoginAllowed(user.email, req.ip);
+    if (throttled) {
+        sendLoginThrottled(res, throttled);
+        return false;
+    }
+    if (!await verifyUserPassword(user, password)) {
+        await recordLoginFailure(user.email, req.ip);
+        res.status(403).json({ error: 'Current password is incorrect' });
+        return false;
+    }
+    await clearAccountFailures(user.email);
+    return true;
+}
+
 // Login
 app.post('/api/login', async (req, res) => {
     const { email, password } = req.body;
-    const db = await getDb();
 
-    const user = await db.get('SELECT * FROM users WHERE email = ?', email);
+    // Checked before bcrypt so locked accounts and IPs cannot keep the CPU busy
+    const throttled = await checkLoginAllowed(email, req.ip);
+    if (throttled) {
+        return sendLoginThrottled(res, throttled);
+    }
+
+    let result;
+    try {
+        result = await authenticateLogin(email, password);
+    } catch (error) {
+        if (error instanceof AuthProviderUnavailableError) {
+            return res.status(503).json({ error: 'Sign-in service is unavailable, please try again later' });
+        }
+        if (error instanceof ExternalAccountConflictError) {
+            return res.status(409).json({ error: 'An account with this email already exists. Ask an administrator to link it to the directory.' });
+        }
+        console.error('Login error:', error);
+        return res.status(500).json({ error: 'Failed to login' });
+    }
 
-    if (!user) {
+    if (!result) {
+        await recordLoginFailure(email, req.ip);
         return res.status(401).json({ error: 'Invalid credentials' });
     }
 
-    const isValid = await bcrypt.compare(password, user.password);
+    const { user } = result;
+    if (result.provisioned) {
+        await recordAudit({ ip: req.ip, user }, {
+            action: 'user.provision',
+            targetType: 'user',
+            targetId: user.id,
+            targetName: user.email,
+            details: { provider: user.auth_provider, role: user.role }
+        });
+    }
 
-    if (!isValid) {
-        return res.status(401).json({ error: 'Invalid credentials' });
+    // Passwords set before the strength rules existed still work, but until the user changes them
+    // authenticate only lets them through to the password change. Directory passwords are managed
+    // (and checked) by the directory.
+    if (user.auth_provider === 'local' && validatePassword(password, user.email) !== null) {
+        const db = await getDb();
+        await db.run('UPDATE users SET must_change_password = 1 WHERE id = ?', user.id);
     }
 
-    // Return user info (excluding password)
-    const { password: _, ...userWithoutPassword } = user;
-    res.json({ user: { ...userWithoutPassword, storageLimitBytes: user.storage_limit } });
-});
-
-// Helper for synchronization
-function getMimeType(filename: string): string {
-    const ext = path.extname(filename).toLowerCase();
-    const map: Record<string, string> = {
-        '.txt': 'text/plain',
-        '.pdf': 'application/pdf',
-        '.png': 'image/png',
-        '.jpg': 'image/jpeg',
-        '.jpeg': 'image/jpeg',
-        '.gif': 'image/gif',
-        '.mp4': 'video/mp4',
-        '.mp3': 'audio/mpeg',
-        '.zip': 'application/zip',
-        '.json': 'application/json',
-        '.js': 'text/javascript',
-        '.ts': 'text/typescript',
-        '.html': 'text/html',
-        '.css': 'text/css',
-        '.md': 'text/markdown'
-    };
-    return map[ext] || 'application/octet-stream';
-}
+    // With 2FA enabled no session is issued yet; the client continues at /api/login/2fa
+    if (user.totp_enabled_at) {
+        const challenge = await createLoginChallenge(user.id);
+        return res.json({ twoFactorRequired: true, challenge });
+    }
 
-async function deleteDbFolderRecursively(db: any, folderId: string) {
-    const children = await db.all('SELECT id, type FROM files WHERE parent_id = ?', folderId);
-    for (const child of children) {
-        if (child.type === 'folder') {
-            await deleteDbFolderRecursively(db, child.id);
+    await completeLogin(req, res, user.id);
+});
+
+// Second login step: authenticator code or recovery code
+app.post('/api/login/2fa', async (req, res) => {
+    const { challenge, code } = req.body;
+
+    try {
+        const pending = await verifyLoginChallenge(challenge);
+        if (!pending) {
+            return res.status(401).json({ error: 'Sign-in expired, please enter your password again' });
+        }
+
+        // Wrong codes count against the same account limits as wrong passwords
+        const db = await getDb();
+        const user = await db.get('SELECT email FROM users WHERE id = ?', pending.userId);
+        const throttled = await checkLoginAllowed(user?.email, req.ip);
+        if (throttled) {
+            return sendLoginThrottled(res, throttled);
+        }
+
+        const method = await verifySecondFactor(pending.userId, code);
+        if (!method) {
+            await recordLoginFailure(user?.email, req.ip);
+            return res.status(401).json({ error: 'Invalid verification code' });
         }
-        // Clean up shared references first
-        await db.run('DELETE FROM shared_files WHERE file_id = ?', child.id);
-        await db.run('DELETE FROM files WHERE id = ?', child.id);
+
+        await completeLogin(req, res, pending.userId);
+    } catch (error) {
+        console.error('2FA login error:', error);
+        res.status(500).json({ error: 'Failed to verify code' });
     }
-    // Clean up shared references for the folder itself
-    await db.run('DELETE FROM shared_files WHERE file_id = ?', folderId);
-    await db.run('DELETE FROM files WHERE id = ?', folderId);
+});
+
+// Create the session and return user info (excluding password and 2FA secrets) along with the session token
+async function completeLogin(req: any, res: any, userId: string) {
+    const db = await getDb();
+    const user = await db.get('SELECT id, username, email, role, storage_limit, auth_provider, must_change_password FROM users WHERE id = ?', userId);
+    await clearAccountFailures(user.email);
+    const session = await createSession(user.id, { userAgent: req.headers['user-agent'], ip: req.ip });
+
+    res.json({
+        user: {
+            ...user,
+            storageLimitBytes: user.storage_limit,
+            authProvider: user.auth_provider,
+            mustChangePassword: !!user.must_change_password,
+            twoFactorSetupRequired: await isTwoFactorSetupRequired(user)
+        },
+        token: session.token,
+        expiresAt: session.expiresAt
+    });
 }
 
-async function syncFolder(db: any, userId: string, currentPath: string, parentId: string | null) {
-    // Get DB children
-    const query = parentId
-        ? 'SELECT * FROM files WHERE user_id = ? AND parent_id = ?'
-        : 'SELECT * FROM files WHERE user_id = ? AND parent_id IS NULL';
-    const params = parentId ? [userId, parentId] : [userId];
-    const dbChildren = await db.all(query, ...params);
+// Logout (revoke the current session)
+app.post('/api/logout', async (req, res) => {
+    try {
+        await revokeSession(req.sessionId);
+        res.json({ success: true });
+    } catch (error) {
+        console.error('Logout error:', error);
+        res.status(500).json({ error: 'Failed to logout' });
+    }
+});
 
-    const dbMap = new Map(dbChildren.map((f: any) => [f.name, f]));
-    const seenDbIds = new Set<string>();
+// Current user
+app.get('/api/me', async (req, res) => {
+    res.json({
+        user: {
+            ...req.user,
+            storageLimitBytes: req.user.storage_limit,
+            authProvider: req.user.auth_provider,
+            mustChangePassword: !!req.user.must_change_password,
+            twoFactorSetupRequired: await isTwoFactorSetupRequired(req.user)
+        }
+    });
+});
+
+// Change my password
+app.post('/api/me/password', async (req, res) => {
+    const { currentPassword, newPassword } = req.body;
+
+    if (!currentPassword || !newPassword) {
+        return res.status(400).json({ error: 'Missing required fields' });
+    }
+
+    const db = await getDb();
 
-    // Scan physical
-    let entries: fs.Dirent[];
     try {
-        if (!fs.existsSync(currentPath)) {
-            entries = [];
-        } else {
-            entries = fs.readdirSync(currentPath, { withFileTypes: true });
+        const user = await db.get('SELECT id, email, password, auth_provider, external_id FROM users WHERE id = ?', req.user.id);
+        if (user.auth_provider !== 'local') {
+            return res.status(400).json({ error: 'Your password is managed by your organization\'s directory' });
         }
-    } catch (e) {
-        console.error(`Error reading directory ${currentPath}:`, e);
-        return;
+        if (!await confirmCurrentPassword(req, res, user, currentPassword)) return;
+
+        const passwordError = validatePassword(newPassword, user.email);
+        if (passwordError) {
+            return res.status(400).json({ error: passwordError });
+        }
+
+        await db.run('UPDATE users SET password = ?, must_change_password = 0 WHERE id = ?', await hashPassword(newPassword), user.id);
+        // Other devices have to sign in again with the new password
+        await revokeUserSessions(user.id, req.sessionId);
+
+        res.json({ success: true });
+    } catch (error) {
+        console.error('Change password error:', error);
+        res.status(500).json({ error: 'Failed to change password' });
     }
+});
 
-    for (const entry of entries) {
-        const entryPath = path.join(currentPath, entry.name);
-        let stats;
-        try {
-            stats = fs.statSync(entryPath);
-        } catch (e) {
-            continue;
+// My 2FA status
+app.get('/api/me/2fa', async (req, res) => {
+    try {
+        res.json(await getTwoFactorStatus(req.user.id));
+    } catch (error) {
+        console.error('2FA status error:', error);
+        res.status(500).json({ error: 'Failed to load two-factor status' });
+    }
+});
+
+// Start enrollment: generate a secret and return it with the provisioning URI and a QR code.
+// The secret only becomes active once a code from it has been confirmed.
+app.post('/api/me/2fa/setup', async (req, res) => {
+    const db = await getDb();
+    try {
+        const status = await getTwoFactorStatus(req.user.id);
+        if (status.enabled) {
+            return res.status(409).json({ error: 'Two-factor authentication is already enabled' });
         }
 
-        let dbNode: any = dbMap.get(entry.name);
+        const secret = generateSecret();
+        await db.run('UPDATE users SET totp_pending_secret = ? WHERE id = ?', secret, req.user.id);
 
-        if (dbNode) {
-            seenDbIds.add(dbNode.id);
-            const isDbFolder = dbNode.type === 'folder';
-            const isPhyFolder = entry.isDirectory();
+        const otpauthUri = buildOtpauthUri(secret, req.user.email);
+        const qrCodeDataUrl = await QRCode.toDataURL(otpauthUri);
+        res.json({ secret, otpauthUri, qrCodeDataUrl });
+    } catch (error) {
+        console.error('2FA setup error:', error);
+        res.status(500).json({ error: 'Failed to start two-factor setup' });
+    }
+});
 
-            if (isDbFolder !== isPhyFolder) {
-                await deleteDbFolderRecursively(db, dbNode.id);
-                dbNode = null;
-            } else {
-                if (!isPhyFolder && dbNode.size !== stats.size) {
-                    await db.run('UPDATE files SET size = ?, path = ? WHERE id = ?', stats.size, entryPath, dbNode.id);
-                } else if (dbNode.path !== entryPath) {
-                    await db.run('UPDATE files SET path = ? WHERE id = ?', entryPath, dbNode.id);
-                }
+// Confirm enrollment with a code from the authenticator app
+app.post('/api/me/2fa/enable', async (req, res) => {
+    const db = await getDb();
+    try {
+        const user = await db.get('SELECT totp_pending_secret FROM users WHERE id = ?', req.user.id);
+        if (!user?.totp_pending_secret) {
+            return res.status(400).json({ error: 'Start two-factor setup first' });
+        }
 
-                if (isPhyFolder) {
-                    await syncFolder(db, userId, entryPath, dbNode.id);
-                }
-            }
+        const step = verifyTotp(user.totp_pending_secret, req.body.code);
+        if (step === null) {
+            return res.status(400).json({ error: 'Invalid verification code' });
         }
 
-        if (!dbNode) {
-            const newId = uuidv4();
-            const type = entry.isDirectory() ? 'folder' : 'file';
-            const mimeType = entry.isDirectory() ? null : getMimeType(entry.name);
+        await db.run(
+            'UPDATE users SET totp_secret = totp_pending_secret, totp_pending_secret = NULL, totp_enabled_at = ?, totp_last_step = ? WHERE id = ?',
+            Date.now(), step, req.user.id
+        );
+        const recoveryCodes = await replaceRecoveryCodes(req.user.id);
 
-            await db.run(
-                `INSERT INTO files (id, user_id, parent_id, name, type, size, path, mime_type, created_at)
-                 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-                newId, userId, parentId, entry.name, type, stats.size, entryPath, mimeType, Date.now()
-            );
+        res.json({ success: true, recoveryCodes });
+    } catch (error) {
+        console.error('2FA enable error:', error);
+        res.status(500).json({ error: 'Failed to enable two-factor authentication' });
+    }
+});
 
-            if (entry.isDirectory()) {
-                await syncFolder(db, userId, entryPath, newId);
-            }
+// Turn 2FA off (requires the current password)
+app.post('/api/me/2fa/disable', async (req, res) => {
+    const db = await getDb();
+    try {
+        const user = await db.get('SELECT email, password, auth_provider, external_id FROM users WHERE id = ?', req.user.id);
+        if (!await confirmCurrentPassword(req, res, user, req.body.password)) return;
+
+        if (req.user.role === 'admin' && await isAdminTwoFactorRequired()) {
+            return res.status(403).json({ error: 'Two-factor authentication is required for admins' });
         }
+
+        await disableTwoFactor(req.user.id);
+        res.json({ success: true });
+    } catch (error) {
+        console.error('2FA disable error:', error);
+        res.status(500).json({ error: 'Failed to disable two-factor authentication' });
     }
+});
 
-    // Cleanup missing
-    for (const child of dbChildren) {
-        if (!seenDbIds.has(child.id)) {
-            if (child.type === 'folder') {
-                await deleteDbFolderRecursively(db, child.id);
-            } else {
-                await db.run('DELETE FROM files WHERE id = ?', child.id);
-            }
+// Replace my recovery codes (the old ones stop working)
+app.post('/api/me/2fa/recovery-codes', async (req, res) => {
+    try {
+        const status = await getTwoFactorStatus(req.user.id);
+        if (!status.enabled) {
+            return res.status(400).json({ error: 'Two-factor authentication is not enabled' });
         }
+
+        const recoveryCodes = await replaceRecoveryCodes(req.user.id);
+        res.json({ success: true, recoveryCodes });
+    } catch (error) {
+        console.error('Recovery codes error:', error);
+        res.status(500).json({ error: 'Failed to generate recovery codes' });
     }
-}
+});
 
-async function syncUserFiles(db: any, userId: string) {
-    const rootPath = path.join(process.cwd(), 'uploads', userId);
-    if (!fs.existsSync(rootPath)) {
-        fs.mkdirSync(rootPath, { recursive: true });
+// Check a password reset token (public)
+app.post('/api/password-reset/verify', async (req, res) => {
+    try {
+        const reset = await findResetToken(req.body.token);
+        if (!reset) {
+            return res.status(400).json({ error: 'This reset link is invalid or has expired' });
+        }
+        res.json({ email: reset.email, expiresAt: reset.expires_at });
+    } catch (error) {
+        console.error('Verify reset token error:', error);
+        res.status(500).json({ error: 'Failed to verify reset link' });
     }
-    await syncFolder(db, userId, rootPath, null);
-}
+});
 
-// Get Files
-app.get('/api/files', async (req, res) => {
-    const userId = req.query.userId as string;
-    const parentId = req.query.parentId as string || null;
+// Set a new password with a reset token (public)
+app.post('/api/password-reset/confirm', async (req, res) => {
+    const { token, newPassword } = req.body;
+    const db = await getDb();
 
-    if (!userId) {
-        return res.status(400).json({ error: 'User ID required' });
+    try {
+        const reset = await findResetToken(token);
+        if (!reset) {
+            return res.status(400).json({ error: 'This reset link is invalid or has expired' });
+        }
+
+        const passwordError = validatePassword(newPassword, reset.email);
+        if (passwordError) {
+            return res.status(400).json({ error: passwordError });
+        }
+
+        await markResetTokenUsed(reset.id);
+        await db.run('UPDATE users SET password = ?, must_change_password = 0 WHERE id = ?', await hashPassword(newPassword), reset.user_id);
+        await revokeUserSessions(reset.user_id);
+        await clearAccountFailures(reset.email);
+
+        res.json({ success: true });
+    } catch (error) {
+        console.error('Confirm reset error:', error);
+        res.status(500).json({ error: 'Failed to reset password' });
     }
+});
 
+// My active sessions
+app.get('/api/sessions', async (req, res) => {
+    try {
+        const sessions = await listActiveSessions(req.user.id);
+        res.json(sessions.map(s => mapSession(s, req.sessionId)));
+    } catch (error) {
+        console.error('List sessions error:', error);
+        res.status(500).json({ error: 'Failed to list sessions' });
+    }
+});
+
+// Sign out all my other devices
+app.post('/api/sessions/revoke-others', async (req, res) => {
+    try {
+        const revoked = await revokeUserSessions(req.user.id, req.sessionId);
+        res.json({ success: true, revoked });
+    } catch (error) {
+        console.error('Revoke sessions error:', error);
+        res.status(500).json({ error: 'Failed to revoke sessions' });
+    }
+});
+
+// Sign out one of my sessions
+app.delete('/api/sessions/:id', async (req, res) => {
     const db = await getDb();
+    try {
+        const session = await db.get('SELECT id FROM sessions WHERE id = ? AND user_id = ?', req.params.id, req.user.id);
+        if (!session) {
+            return res.status(404).json({ error: 'Session not found' });
+        }
+        await revokeSession(session.id);
+        res.json({ success: true });
+    } catch (error) {
+        console.error('Revoke session error:', error);
+        res.status(500).json({ error: 'Failed to revoke session' });
+    }
+});
 
-    // Sync with physical files
+// My personal access tokens
+app.get('/api/tokens', async (req, res) => {
     try {
-        await syncUserFiles(db, userId);
-    } catch (e) {
-        console.error('Sync error:', e);
+        const tokens = await listApiTokens(req.user.id);
+        res.json(tokens.map(mapApiToken));
+    } catch (error) {
+        console.error('List tokens error:', error);
+        res.status(500).json({ error: 'Failed to list tokens' });
     }
+});
+
+// Create a token; the plain value is only returned in this response
+app.post('/api/tokens', async (req, res) => {
+    const { scope } = req.body;
+    const name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+
+    if (!name || name.length > 100) {
+        return res.status(400).json({ error: 'Token name is required (max 100 characters)' });
+    }
+    if (!API_TOKEN_SCOPES.includes(scope)) {
+        return res.status(400).json({ error: 'Invalid scope' });
+    }
+
+    try {
+        const created = await createApiToken(req.user.id, name, scope);
+        res.json({ id: created.id, name, scope, createdAt: created.createdAt, lastUsedAt: null, token: created.token });
+    } catch (error) {
+        console.error('Create token error:', error);
+        res.status(500).json({ error: 'Failed to create token' });
+    }
+});
+
+app.delete('/api/tokens/:id', async (req, res) => {
+    try {
+        if (!await revokeApiToken(req.user.id, req.params.id)) {
+            return res.status(404).json({ error: 'Token not found' });
+        }
+        res.json({ success: true });
+    } catch (error) {
+        console.error('Revoke token error:', error);
+        res.status(500).json({ error: 'Failed to revoke token' });
+    }
+});
+
+// Get Files
+app.get('/api/files', async (req, res) => {
+    const userId = req.user.id;
+    const parentId = req.query.parentId as string || null;
+
+    const db = await getDb();
 
     // Prevent caching
     res.setHeader('Cache-Control', 'no-store, no-cache, must-revalidate, proxy-revalidate');
     res.setHeader('Pragma', 'no-cache');
     res.setHeader('Expires', '0');
 
-    // Basic query
+    // Without parentId this is every node of the drive; the drive itself pages folders through
+    // /api/folders/:folderId/children
     let query = 'SELECT * FROM files WHERE user_id = ?';
     const params: any[] = [userId];
 
-    // If parentId is provided, filter by it. If not, showing root (parentId is null)
-    // For simplicity in this demo, let's just return ALL files and let frontend filter
-    // OR strictly implement folder structure.
-    // The current frontend might expect a flat list or tree.
-    // Let's return all files for the user for now to make frontend state reconstruction easier.
+    // ?parentId= ('root' for the top level) lists only the children of that folder
+    if (req.query.parentId) {
+        query += ' AND parent_id IS ?';
+        params.push(parentId === 'root' ? null : parentId);
+    }
+
+    // ?tag= lists only the nodes carrying that tag, wherever they are
+    if (req.query.tag) {
+        query += ' AND id IN (SELECT file_id FROM file_tags WHERE tag_id = ?)';
+        params.push(req.query.tag);
+    }
 
     const files = await db.all(query, params);
+    const tagsByNode = await getTagsByNode(db, userId);
+    const starredIds = await getStarredIds(db, userId);
 
-    // Map to frontend expected format
-    const mappedFiles = files.map(f => ({
-        id: f.id,
-        parentId: f.parent_id,
-        ownerId: f.user_id,
-        name: f.name,
-        type: f.type,
-        size: f.size,
-        mimeType: f.mime_type,
-        createdAt: f.created_at
-    }));
+    res.json(files.map(f => mapFileNode(f, tagsByNode, starredIds)));
+});
 
-    res.json(mappedFiles);
+// One page of a folder's children ('root' for the caller's drive root), for the owner and for anyone
+// the folder or one of its parents is shared with
+app.get('/api/folders/:folderId/children', async (req, res) => {
+    const userId = req.user.id;
+    const options = parseListingQuery(req.query);
+    if (!options) {
+        return res.status(400).json({ error: INVALID_LISTING_QUERY });
+    }
+
+    const db = await getDb();
+    try {
+        let ownerId = userId;
+        let parentId: string | null = null;
+        if (req.params.folderId !== 'root') {
+            const folder = await db.get('SELECT id, user_id, type FROM files WHERE id = ?', req.params.folderId);
+            if (!folder || folder.type !== 'folder' || !await checkFolderAccess(db, folder.id, userId)) {
+                return res.status(404).json({ error: 'Folder not found' });
+            }
+            ownerId = folder.user_id;
+            parentId = folder.id;
+        }
+
+        const { rows, nextCursor } = await listChildren(db, ownerId, parentId, options);
+        // Tags are the owner's own; someone browsing a shared folder does not see them
+        const tagsByNode = ownerId === userId ? await getTagsByNode(db, userId) : new Map<string, string[]>();
+        const starredIds = await getStarredIds(db, userId);
+
+        res.setHeader('Cache-Control', 'no-store');
+        res.json({ items: rows.map((row: any) => mapFileNode(row, tagsByNode, starredIds)), nextCursor });
+    } catch (error) {
+        console.error('Listing error:', error);
+        res.status(500).json({ error: 'Failed to list folder' });
+    }
+});
+
+// The folders leading to a folder, for breadcrumbs; for a shared folder the path starts at the
+// folder that was shared
+app.get('/api/folders/:folderId/path', async (req, res) => {
+    const db = await getDb();
+    try {
+        const path = await getFolderPath(db, req.params.folderId, req.user.id);
+        if (!path) {
+            return res.status(404).json({ error: 'Folder not found' });
+        }
+        res.json({ path: path.map(node => ({ id: node.id, name: node.name, parentId: node.parent_id })) });
+    } catch (error) {
+        console.error('Folder path error:', error);
+        res.status(500).json({ error: 'Failed to load folder path' });
+    }
 });
 
-// Helper to get physical path
+// Query string to search filters; null when a value is not understood
+function parseSearchFilters(query: any): SearchFilters | null {
+    const number = (value: any) => value === undefined || value === '' ? undefined : Number(value);
+    const filters: SearchFilters = {
+        q: typeof query.q === 'string' && query.q.trim() ? query.q.trim() : undefined,
+        type: query.type || undefined,
+        mime: query.mime || undefined,
+        minSize: number(query.minSize),
+        maxSize: number(query.maxSize),
+        from: number(query.from),
+        to: number(query.to),
+        owner: query.owner || undefined,
+        sharedWithMe: query.sharedWithMe === 'true'
+    };
+    if (filters.type && filters.type !== 'file' && filters.type !== 'folder') return null;
+    if ([filters.minSize, filters.maxSize, filters.from, filters.to].some(value => value !== undefined && !Number.isFinite(value))) return null;
+    return filters;
+}
+
+// Search own files and everything shared with the caller by name, path and text content
+app.get('/api/search', async (req, res) => {
+    const userId = req.user.id;
+    const filters = parseSearchFilters(req.query);
+    if (!filters) {
+        return res.status(400).json({ error: 'Invalid search filters' });
+    }
+    const { q, sharedWithMe, ...rest } = filters;
+    if (!q && !sharedWithMe && Object.values(rest).every(value => value === undefined)) {
+        return res.status(400).json({ error: 'Enter a search term or choose a filter' });
+    }
+    const limit = Math.min(100, Math.max(1, parseInt(req.query.limit as string) || 50));
+    const offset = Math.max(0, parseInt(req.query.offset as string) || 0);
+
+    const db = await getDb();
+    try {
+        const { results, hasMore } = await searchFiles(db, userId, filters, limit, offset);
+        res.setHeader('Cache-Control', 'no-store');
+        res.json({ results, hasMore, offset, limit });
+    } catch (error) {
+        console.error('Search error:', error);
+        res.status(500).json({ error: 'Search failed' });
+    }
+});
+
+// Helper to get physical path. Only folders owned by the user resolve, and the result
+// is always inside uploads/<userId>; anything else throws UnsafePathError.
 async function getPhysicalPath(db: any, userId: string, folderId: string | null): Promise<string> {
-    const rootPath = path.join(process.cwd(), 'uploads', userId);
+    const rootPath = getUserRoot(userId);
     if (!folderId || folderId === 'root') {
         return rootPath;
     }
 
-    const folder = await db.get('SELECT path, name, parent_id FROM files WHERE id = ?', folderId);
-    if (!folder) return rootPath;
+    const folder = await db.get(
+        'SELECT path, name, parent_id FROM files WHERE id = ? AND user_id = ? AND type = "folder"',
+        folderId, userId
+    );
+    if (!folder) throw new UnsafePathError('Target folder not found', 404);
 
     // If folder has a path stored, use it
-    if (folder.path) return folder.path;
+    if (folder.path) return assertInsideUserRoot(userId, folder.path);
 
     // Otherwise construct it recursively
     const parentPath = await getPhysicalPath(db, userId, folder.parent_id);
-    return path.join(parentPath, folder.name);
+    return resolveChildPath(userId, parentPath, folder.name);
+}
+
+// Bytes counted against the user's quota: their files and earlier versions, plus the trash when the
+// admin setting says so
+async function getUsedStorage(db: any, userId: string): Promise<number> {
+    const files = await db.get(
+        'SELECT COALESCE(SUM(size), 0) as total FROM files WHERE user_id = ? AND type = "file"',
+        userId
+    );
+    return (files.total || 0) + await getVersionUsage(db, userId) + await getTrashQuotaUsage(db, userId);
 }
 
+// onConflict=replace for anything but a file's new content: the node in the way goes to the trash
+async function trashReplacedNode(req: any, db: any, userId: string, node: any) {
+    const drivePath = await getNodePath(db, node.id);
+    const audience = await getAudience(db, node.id, userId);
+    await moveToTrash(db, userId, node, req.user.id, drivePath);
+    await publishDeletion(db, node, audience);
+    await removeFromIndex(db, node.id);
+    await recordAudit(req, {
+        action: 'file.delete',
+        targetType: node.type,
+        targetId: node.id,
+        targetName: node.name,
+        oldPath: drivePath,
+        details: { replaced: true }
+    });
+}
+
+// Tags of the current user, with how many nodes carry each
+app.get('/api/tags', async (req, res) => {
+    const db = await getDb();
+    try {
+        const tags = await listTags(db, req.user.id);
+        res.json({ tags: tags.map(mapTag) });
+    } catch (error) {
+        console.error('List tags error:', error);
+        res.status(500).json({ error: 'Failed to load tags' });
+    }
+});
+
+app.post('/api/tags', async (req, res) => {
+    const { name, color } = req.body;
+    const invalid = validateTag(name, color);
+    if (invalid) {
+        return res.status(400).json({ error: invalid });
+    }
+
+    const db = await getDb();
+    try {
+        if (await findTagByName(db, req.user.id, name)) {
+            return res.status(409).json({ error: 'A tag with that name already exists' });
+        }
+        const tag = await createTag(db, req.user.id, name, color);
+        res.json(mapTag(tag));
+    } catch (error) {
+        console.error('Create tag error:', error);
+        res.status(500).json({ error: 'Failed to create tag' });
+    }
+});
+
+app.put('/api/tags/:id', async (req, res) => {
+    const { name, color } = req.body;
+    const invalid = validateTag(name, color, true);
+    if (invalid) {
+        return res.status(400).json({ error: invalid });
+    }
+
+    const db = await getDb();
+    try {
+        const tag = await getTag(db, req.user.id, req.params.id);
+        if (!tag) {
+            return res.status(404).json({ error: 'Tag not found' });
+        }
+        const existing = name !== undefined ? await findTagByName(db, req.user.id, name) : null;
+        if (existing && existing.id !== tag.id) {
+            return res.status(409).json({ error: 'A tag with that name already exists' });
+        }
+        res.json(mapTag(await updateTag(db, tag, { name, color })));
+    } catch (error) {
+        console.error('Update tag error:', error);
+        res.status(500).json({ error: 'Failed to update tag' });
+    }
+});
+
+// Deleting a tag takes it off every node
+app.delete('/api/tags/:id', async (req, res) => {
+    const db = await getDb();
+    try {
+        const tag = await getTag(db, req.user.id, req.params.id);
+        if (!tag) {
+            return res.status(404).json({ error: 'Tag not found' });
+        }
+        await deleteTag(db, tag.id);
+        res.json({ success: true });
+    } catch (error) {
+        console.error('Delete tag error:', error);
+        res.status(500).json({ error: 'Failed to delete tag' });
+    }
+});
+
+// Add and/or remove tags on many nodes at once
+app.post('/api/files/tags', async (req, res) => {
+    const { fileIds, add = [], remove = [] } = req.body;
+    const isIdList = (value: any) => Array.isArray(value) && value.every(id => typeof id === 'string');
+    if (!isIdList(fileIds) || !isIdList(add) || !isIdList(remove)) {
+        return res.status(400).json({ error: 'fileIds, add and remove must be lists of ids' });
+    }
+
+    const db = await getDb();
+    let updated: string[];
+    try {
+        await db.run('BEGIN TRANSACTION');
+        updated = await updateNodeTags(db, req.user.id, fileIds, add, remove);
+        await db.run('COMMIT');
+    } catch (error) {
+        await db.run('ROLLBACK');
+        console.error('Update file tags error:', error);
+        return res.status(500).json({ error: 'Failed to update tags' });
+    }
+
+    // The tags are saved by now; a failed notification does not undo them
+    try {
+        for (const fileId of updated) {
+            await publishNodeChange(db, 'updated', fileId);
+        }
+    } catch (error) {
+        console.error('Publish file tags error:', error);
+    }
+    res.json({ success: true, updated: updated.length });
+});
+
+// Which of the planned items already exist in the target folder, so the client can ask how to resolve them
+app.post('/api/files/conflicts', async (req, res) => {
+    const userId = req.user.id;
+    const { targetFolderId, items } = req.body;
+
+    if (!Array.isArray(items)) {
+        return res.status(400).json({ error: 'Invalid request' });
+    }
+
+    try {
+        const db = await getDb();
+        const parentId = !targetFolderId || targetFolderId === 'root' ? null : targetFolderId;
+        await getPhysicalPath(db, userId, parentId);
+
+        // Names are compared the way the server would store them; invalid names cannot conflict
+        const planned: { name: string, type: 'file' | 'folder' }[] = [];
+        for (const item of items) {
+            try {
+                planned.push({ name: sanitizeName(item?.name), type: item?.type === 'folder' ? 'folder' : 'file' });
+            } catch (error) {
+                continue;
+            }
+        }
+        res.json({ conflicts: await findConflicts(db, userId, parentId, planned) });
+    } catch (error) {
+        if (error instanceof UnsafePathError) {
+            return res.status(error.status).json({ error: error.message });
+        }
+        console.error('Conflict check error:', error);
+        res.status(500).json({ error: 'Failed to check for conflicts' });
+    }
+});
+
+// Bytes used and allowed, for the storage meter
+app.get('/api/storage', async (req, res) => {
+    const userId = req.user.id;
+    const db = await getDb();
+
+    try {
+        const user = await db.get('SELECT storage_limit FROM users WHERE id = ?', userId);
+        if (!user) {
+            return res.status(404).json({ error: 'User not found' });
+        }
+        res.json({ usedSpace: await getUsedStorage(db, userId), totalSpace: user.storage_limit });
+    } catch (error) {
+        console.error('Storage usage error:', error);
+        res.status(500).json({ error: 'Failed to load storage usage' });
+    }
+});
+
 // Check Quota Before Upload
 app.post('/api/check-quota', async (req, res) => {
-    const userId = req.headers['x-user-id'] as string;
+    const userId = req.user.id;
     const { fileSize } = req.body;
 
     if (!userId || !fileSize) {
@@ -332,12 +930,7 @@ app.post('/api/check-quota', async (req, res) => {
         }
 
         // Calculate current usage
-        const currentUsage = await db.get(
-            'SELECT COALESCE(SUM(size), 0) as total FROM files WHERE user_id = ? AND type = "file"',
-            userId
-        );
-
-        const usedSpace = currentUsage.total || 0;
+        const usedSpace = await getUsedStorage(db, userId);
         const requestedSize = parseInt(fileSize) || 0;
         const availableSpace = user.storage_limit - usedSpace;
         const canUpload = requestedSize <= availableSpace;
@@ -357,27 +950,31 @@ app.post('/api/check-quota', async (req, res) => {
 
 // Upload Chunk
 app.post('/api/upload/chunk', upload.single('chunk'), async (req, res) => {
-    const userId = req.headers['x-user-id'] as string;
+    const userId = req.user.id;
     const { uploadId, chunkIndex, totalChunks, fileName, parentId } = req.body;
 
     if (!req.file || !userId || !uploadId || !chunkIndex || !totalChunks || !fileName) {
         return res.status(400).json({ error: 'Missing required fields' });
     }
 
-    const tempDir = path.join(process.cwd(), 'uploads', 'temp', uploadId);
-
     try {
+        const tempDir = getUploadTempDir(userId, uploadId);
+        const chunkPath = getChunkPath(tempDir, chunkIndex);
+
         if (!fs.existsSync(tempDir)) {
             fs.mkdirSync(tempDir, { recursive: true });
             setPermissions(tempDir);
         }
 
-        const chunkPath = path.join(tempDir, `part_${chunkIndex}`);
         fs.renameSync(req.file.path, chunkPath);
         setPermissions(chunkPath);
 
         res.json({ success: true });
     } catch (error) {
+        if (error instanceof UnsafePathError) {
+            fs.rmSync(req.file.path, { force: true });
+            return res.status(error.status).json({ error: error.message });
+        }
         console.error('Chunk upload error:', error);
         res.status(500).json({ error: 'Failed to save chunk' });
     }
@@ -385,17 +982,29 @@ app.post('/api/upload/chunk', upload.single('chunk'), async (req, res) => {
 
 // Complete Upload (Merge Chunks)
 app.post('/api/upload/complete', async (req, res) => {
-    const userId = req.headers['x-user-id'] as string;
-    const { uploadId, fileName, parentId, totalChunks, mimeType, size } = req.body;
+    const userId = req.user.id;
+    const { uploadId, parentId, totalChunks, mimeType, size } = req.body;
 
-    if (!userId || !uploadId || !fileName || !totalChunks) {
+    if (!userId || !uploadId || !req.body.fileName || !totalChunks) {
         return res.status(400).json({ error: 'Missing required fields' });
     }
 
-    const tempDir = path.join(process.cwd(), 'uploads', 'temp', uploadId);
+    let tempDir: string;
+    let fileName: string;
+    try {
+        tempDir = getUploadTempDir(userId, uploadId);
+        fileName = sanitizeName(req.body.fileName);
+    } catch (error: any) {
+        return res.status(error.status || 400).json({ error: error.message });
+    }
+    const policy = parseConflictPolicy(req.body.onConflict, 'replace');
+    if (!policy) {
+        return res.status(400).json({ error: INVALID_CONFLICT_POLICY });
+    }
     const db = await getDb();
     const fileId = uuidv4();
     const now = Date.now();
+    const parentKey = parentId === 'root' ? null : parentId || null;
 
     // Check user quota before completing upload
     // Check user quota before completing upload (Preliminary Check)
@@ -405,13 +1014,11 @@ app.post('/api/upload/complete', async (req, res) => {
             return res.status(404).json({ error: 'User not found' });
         }
 
-        // Calculate current usage
-        const currentUsage = await db.get(
-            'SELECT COALESCE(SUM(size), 0) as total FROM files WHERE user_id = ? AND type = "file"',
-            userId
-        );
-
-        const usedSpace = currentUsage.total || 0;
+        // Calculate current usage, less what replacing a file of the same name frees
+        const replaced = policy === 'replace' || policy === 'merge'
+            ? await db.get('SELECT id, user_id, size FROM files WHERE user_id = ? AND parent_id IS ? AND name = ? AND type = "file"', userId, parentKey, fileName)
+            : null;
+        const usedSpace = await getUsedStorage(db, userId) - (replaced ? await getBytesFreedByReplace(db, replaced) : 0);
         const fileSize = parseInt(size) || 0;
         const availableSpace = user.storage_limit - usedSpace;
 
@@ -463,10 +1070,21 @@ app.post('/api/upload/complete', async (req, res) => {
             setPermissions(targetDir);
         }
 
-        const targetPath = path.join(targetDir, fileName);
+        const decision = await decideConflict(db, userId, parentKey, targetDir, fileName, 'file', policy);
+        if (decision.action === 'skip') {
+            fs.rmSync(tempDir, { recursive: true, force: true });
+            return res.json({ skipped: true, id: decision.existing.id, name: fileName });
+        }
+        // Replacing a file keeps its content as a version; a folder in the way goes to the trash
+        const existing = decision.action === 'replace' && decision.existing.type === 'file' ? decision.existing : null;
+        const replacedFolder = decision.action === 'replace' && decision.existing.type === 'folder' ? decision.existing : null;
+        fileName = decision.name;
+        const targetPath = resolveChildPath(userId, targetDir, fileName);
 
-        // Create write stream
-        const writeStream = fs.createWriteStream(targetPath);
+        // Chunks are merged next to them and only moved into the drive once complete,
+        // so a failed merge never touches an existing file of the same name
+        const mergedPath = path.join(tempDir, 'merged');
+        const writeStream = fs.createWriteStream(mergedPath);
 
         // Merge chunks sequentially
         for (let i = 0; i < parseInt(totalChunks); i++) {
@@ -509,7 +1127,7 @@ app.post('/api/upload/complete', async (req, res) => {
             }
         }
 
-        writeStream.end();
+        await new Promise(resolve => writeStream.end(resolve));
 
         // Cleanup temp dir with retry
         const safeCleanupTempDir = async (dirPath: string) => {
@@ -533,13 +1151,13 @@ app.post('/api/upload/complete', async (req, res) => {
             console.warn(`Warning: Could not fully remove temp dir ${dirPath} after retries. System will clean up later.`);
         };
 
-        // Don't await this, let it happen in background
-        safeCleanupTempDir(tempDir);
-
-        setPermissions(targetPath);
+        setPermissions(mergedPath);
 
         // Verify size
-        const stats = fs.statSync(targetPath);
+        const stats = fs.statSync(mergedPath);
+        let versionId: string | null = null;
+        // In blob mode the content is stored first; if the upload is not saved the reference is given back
+        const blobHash = await getStorageMode() === 'blobs' ? await storeBlob(db, mergedPath) : null;
 
         // Final Verification with Transaction
         try {
@@ -547,52 +1165,98 @@ app.post('/api/upload/complete', async (req, res) => {
 
             // Re-check quota atomically (snapshot)
             const userCheck = await db.get('SELECT storage_limit FROM users WHERE id = ?', userId);
-            const currentUsageCheck = await db.get(
-                'SELECT COALESCE(SUM(size), 0) as total FROM files WHERE user_id = ? AND type = "file"',
-                userId
-            );
+            const usedCheck = await getUsedStorage(db, userId) - (existing ? await getBytesFreedByReplace(db, existing) : 0);
 
-            if (userCheck && (currentUsageCheck.total + stats.size > userCheck.storage_limit)) {
+            if (userCheck && (usedCheck + stats.size > userCheck.storage_limit)) {
                 await db.run('ROLLBACK');
-                // Delete the file we just created
-                fs.unlinkSync(targetPath);
+                if (blobHash) await discardBlob(db, blobHash);
+                safeCleanupTempDir(tempDir);
                 return res.status(413).json({ error: 'Quota exceeded (concurrent upload detected)' });
             }
 
-            await db.run(
-                `INSERT INTO files (id, user_id, parent_id, name, type, size, path, mime_type, created_at)
-                 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-                fileId,
-                userId,
-                parentId === 'root' ? null : parentId,
-                fileName,
-                'file',
-                stats.size,
-                targetPath,
-                mimeType || 'application/octet-stream',
-                now
-            );
+            if (replacedFolder) {
+                await trashReplacedNode(req, db, userId, replacedFolder);
+            }
+            if (existing) {
+                versionId = await replaceFileContent(db, existing, {
+                    ...(blobHash ? { blobHash } : { sourcePath: mergedPath }),
+                    size: stats.size,
+                    mimeType: mimeType || 'application/octet-stream',
+                    uploadedBy: req.user.id
+                });
+            } else {
+                if (!blobHash) {
+                    fs.renameSync(mergedPath, targetPath);
+                }
+                await db.run(
+                    `INSERT INTO files (id, user_id, parent_id, name, type, size, path, mime_type, created_at, uploaded_by, blob_hash)
+                     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                    fileId,
+                    userId,
+                    parentKey,
+                    fileName,
+                    'file',
+                    stats.size,
+                    blobHash ? null : targetPath,
+                    mimeType || 'application/octet-stream',
+                    now,
+                    req.user.id,
+                    blobHash
+                );
+                await adjustFolderTotals(db, parentKey, { size: stats.size, files: 1, folders: 0 });
+            }
 
             await db.run('COMMIT');
         } catch (txError) {
             await db.run('ROLLBACK');
+            if (blobHash) {
+                await discardBlob(db, blobHash);
+            } else if (!existing && fs.existsSync(targetPath) && !fs.existsSync(mergedPath)) {
+                fs.rmSync(targetPath, { force: true });
+            }
+            safeCleanupTempDir(tempDir);
             throw txError;
         }
 
-        lastFileSystemChange = Date.now();
+        // Don't await this, let it happen in background
+        safeCleanupTempDir(tempDir);
+        if (existing) {
+            await pruneVersions(db, userId, existing.id);
+        }
+
+        const savedId = existing ? existing.id : fileId;
+        if (existing) {
+            await invalidateThumbnails(db, savedId);
+        } else {
+            queueThumbnails(savedId);
+        }
+        await publishNodeChange(db, existing ? 'updated' : 'created', savedId);
+        await indexNode(db, savedId);
+        await recordRecent(db, userId, savedId, existing ? 'edit' : 'upload');
+        await recordAudit(req, {
+            action: 'file.upload',
+            targetType: 'file',
+            targetId: savedId,
+            targetName: fileName,
+            newPath: await getNodePath(db, savedId),
+            details: versionId ? { size: stats.size, previousVersionId: versionId } : { size: stats.size }
+        });
 
         res.json({
-            id: fileId,
-            parentId: parentId === 'root' ? null : parentId,
+            id: savedId,
+            parentId: parentKey,
             ownerId: userId,
             name: fileName,
             type: 'file',
             size: stats.size,
             mimeType: mimeType,
-            createdAt: now
+            createdAt: existing ? existing.created_at : now
         });
 
     } catch (error) {
+        if (error instanceof UnsafePathError) {
+            return res.status(error.status).json({ error: error.message });
+        }
         console.error('Merge error:', error);
         res.status(500).json({ error: 'Failed to merge file' });
     }
@@ -611,13 +1275,26 @@ app.post('/api/upload', (req, res, next) => {
         next();
     });
 }, async (req, res) => {
-    const userId = req.headers['x-user-id'] as string;
+    const userId = req.user.id;
     const parentId = req.body.parentId || null;
 
     if (!req.file || !userId) {
         return res.status(400).json({ error: 'File or User ID missing' });
     }
 
+    let fileName: string;
+    try {
+        fileName = sanitizeName(req.file.originalname);
+    } catch (error: any) {
+        fs.rmSync(req.file.path, { force: true });
+        return res.status(error.status || 400).json({ error: error.message });
+    }
+    const policy = parseConflictPolicy(req.body.onConflict, 'replace');
+    if (!policy) {
+        fs.rmSync(req.file.path, { force: true });
+        return res.status(400).json({ error: INVALID_CONFLICT_POLICY });
+    }
+
     const db = await getDb();
     const fileId = uuidv4();
     const now = Date.now();
@@ -634,45 +1311,114 @@ app.post('/api/upload', (req, res, next) => {
 
         // Move file to correct location
         const originalPath = req.file.path;
-        const targetPath = path.join(targetDir, req.file.originalname);
+        const decision = await decideConflict(db, userId, parentId === 'root' ? null : parentId, targetDir, fileName, 'file', policy);
+        if (decision.action === 'skip') {
+            fs.rmSync(originalPath, { force: true });
+            return res.json({ skipped: true, id: decision.existing.id, name: fileName });
+        }
+        const existing = decision.action === 'replace' && decision.existing.type === 'file' ? decision.existing : null;
 
-        if (originalPath !== targetPath) {
-            // If file exists, maybe append timestamp or uuid? 
-            // For now, let's just overwrite or rename if needed.
-            // But Multer already saved it to originalPath.
-            // We simply move it.
-            fs.renameSync(originalPath, targetPath);
+        // Same quota rule as chunked uploads, which check before the chunks are merged
+        const user = await db.get('SELECT storage_limit FROM users WHERE id = ?', userId);
+        const usedSpace = await getUsedStorage(db, userId) - (existing ? await getBytesFreedByReplace(db, existing) : 0);
+        if (usedSpace + req.file.size > user.storage_limit) {
+            fs.rmSync(originalPath, { force: true });
+            return res.status(413).json({
+                error: 'Quota exceeded',
+                usedSpace,
+                totalSpace: user.storage_limit,
+                availableSpace: user.storage_limit - usedSpace,
+                fileSize: req.file.size
+            });
+        }
+
+        if (decision.action === 'replace' && !existing) {
+            await trashReplacedNode(req, db, userId, decision.existing);
+        }
+        fileName = decision.name;
+        const targetPath = resolveChildPath(userId, targetDir, fileName);
+
+        setPermissions(originalPath);
+        let versionId: string | null = null;
+        const blobHash = await getStorageMode() === 'blobs' ? await storeBlob(db, originalPath) : null;
+
+        if (existing) {
+            // Same name in the same folder: the current content is kept as a version
+            await db.run('BEGIN TRANSACTION');
+            try {
+                versionId = await replaceFileContent(db, existing, {
+                    ...(blobHash ? { blobHash } : { sourcePath: originalPath }),
+                    size: req.file.size,
+                    mimeType: req.file.mimetype,
+                    uploadedBy: req.user.id
+                });
+                await db.run('COMMIT');
+            } catch (txError) {
+                await db.run('ROLLBACK');
+                if (blobHash) await discardBlob(db, blobHash);
+                throw txError;
+            }
+            await pruneVersions(db, userId, existing.id);
+        } else {
+            if (!blobHash) {
+                fs.renameSync(originalPath, targetPath);
+            }
+            try {
+                await db.run(
+                    `INSERT INTO files (id, user_id, parent_id, name, type, size, path, mime_type, created_at, uploaded_by, blob_hash)
+               VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                    fileId,
+                    userId,
+                    parentId === 'root' ? null : parentId,
+                    fileName,
+                    'file',
+                    req.file.size,
+                    blobHash ? null : targetPath,
+                    req.file.mimetype,
+                    now,
+                    req.user.id,
+                    blobHash
+                );
+                await adjustFolderTotals(db, parentId === 'root' ? null : parentId, { size: req.file.size, files: 1, folders: 0 });
+            } catch (dbError) {
+                if (blobHash) await discardBlob(db, blobHash);
+                throw dbError;
+            }
         }
 
-        setPermissions(targetPath);
-
-        await db.run(
-            `INSERT INTO files (id, user_id, parent_id, name, type, size, path, mime_type, created_at)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-            fileId,
-            userId,
-            parentId === 'root' ? null : parentId,
-            req.file.originalname,
-            'file',
-            req.file.size,
-            targetPath,
-            req.file.mimetype,
-            now
-        );
-
-        lastFileSystemChange = Date.now();
+        const savedId = existing ? existing.id : fileId;
+        if (existing) {
+            await invalidateThumbnails(db, savedId);
+        } else {
+            queueThumbnails(savedId);
+        }
+        await publishNodeChange(db, existing ? 'updated' : 'created', savedId);
+        await indexNode(db, savedId);
+        await recordRecent(db, userId, savedId, existing ? 'edit' : 'upload');
+        await recordAudit(req, {
+            action: 'file.upload',
+            targetType: 'file',
+            targetId: savedId,
+            targetName: fileName,
+            newPath: await getNodePath(db, savedId),
+            details: versionId ? { size: req.file.size, previousVersionId: versionId } : { size: req.file.size }
+        });
 
         res.json({
-            id: fileId,
+            id: savedId,
             parentId: parentId === 'root' ? null : parentId,
             ownerId: userId,
-            name: req.file.originalname,
+            name: fileName,
             type: 'file',
             size: req.file.size,
             mimeType: req.file.mimetype,
-            createdAt: now
+            createdAt: existing ? existing.created_at : now
         });
     } catch (error) {
+        if (error instanceof UnsafePathError) {
+            fs.rmSync(req.file.path, { force: true });
+            return res.status(error.status).json({ error: error.message });
+        }
         console.error(error);
         res.status(500).json({ error: 'Database error' });
     }
@@ -680,41 +1426,55 @@ app.post('/api/upload', (req, res, next) => {
 
 // Create Folder
 app.post('/api/folder', async (req, res) => {
-    const { userId, parentId, name } = req.body;
+    const userId = req.user.id;
+    const { parentId } = req.body;
 
-    if (!userId || !name) {
+    if (!req.body.name) {
         return res.status(400).json({ error: 'Missing required fields' });
     }
 
-    const db = await getDb();
-
-    // Check if folder already exists
-    const existingFolder = await db.get(
-        'SELECT * FROM files WHERE user_id = ? AND parent_id IS ? AND name = ? AND type = "folder"',
-        userId,
-        parentId === 'root' ? null : parentId,
-        name
-    );
+    let name: string;
+    try {
+        name = sanitizeName(req.body.name);
+    } catch (error: any) {
+        return res.status(error.status || 400).json({ error: error.message });
+    }
 
-    if (existingFolder) {
-        return res.json({
-            id: existingFolder.id,
-            parentId: existingFolder.parent_id,
-            ownerId: existingFolder.user_id,
-            name: existingFolder.name,
-            type: 'folder',
-            size: 0,
-            createdAt: existingFolder.created_at
-        });
+    // Creating a folder that already exists returns it (merge), which the folder upload relies on
+    const policy = parseConflictPolicy(req.body.onConflict, 'merge');
+    if (!policy) {
+        return res.status(400).json({ error: INVALID_CONFLICT_POLICY });
     }
 
+    const db = await getDb();
     const folderId = uuidv4();
     const now = Date.now();
 
     try {
-        // Create physical folder
         const parentPath = await getPhysicalPath(db, userId, parentId);
-        const folderPath = path.join(parentPath, name);
+        const decision = await decideConflict(db, userId, parentId === 'root' ? null : parentId, parentPath, name, 'folder', policy);
+
+        if (decision.action === 'merge' || decision.action === 'skip') {
+            const existingFolder = decision.existing;
+            return res.json({
+                id: existingFolder.id,
+                parentId: existingFolder.parent_id,
+                ownerId: existingFolder.user_id,
+                name: existingFolder.name,
+                type: existingFolder.type,
+                size: existingFolder.size || 0,
+                ...mapFolderCounts(existingFolder),
+                createdAt: existingFolder.created_at,
+                ...(decision.action === 'skip' ? { skipped: true } : {})
+            });
+        }
+        if (decision.action === 'replace') {
+            await trashReplacedNode(req, db, userId, decision.existing);
+        }
+        name = decision.name;
+
+        // Create physical folder
+        const folderPath = resolveChildPath(userId, parentPath, name);
 
         if (!fs.existsSync(folderPath)) {
             fs.mkdirSync(folderPath, { recursive: true });
@@ -734,8 +1494,17 @@ app.post('/api/folder', async (req, res) => {
             null,
             now
         );
-
-        lastFileSystemChange = Date.now();
+        await adjustFolderTotals(db, parentId === 'root' ? null : parentId, { size: 0, files: 0, folders: 1 });
+
+        await publishNodeChange(db, 'created', folderId);
+        await indexNode(db, folderId);
+        await recordAudit(req, {
+            action: 'folder.create',
+            targetType: 'folder',
+            targetId: folderId,
+            targetName: name,
+            newPath: await getNodePath(db, folderId)
+        });
 
         res.json({
             id: folderId,
@@ -744,9 +1513,14 @@ app.post('/api/folder', async (req, res) => {
             name: name,
             type: 'folder',
             size: 0,
+            fileCount: 0,
+            folderCount: 0,
             createdAt: now
         });
     } catch (error) {
+        if (error instanceof UnsafePathError) {
+            return res.status(error.status).json({ error: error.message });
+        }
         console.error(error);
         res.status(500).json({ error: 'Database error' });
     }
@@ -756,7 +1530,7 @@ app.post('/api/folder', async (req, res) => {
 app.put('/api/files/:id/rename', async (req, res) => {
     const { id } = req.params;
     const { name } = req.body;
-    const userId = req.headers['x-user-id'] as string;
+    const userId = req.user.id;
 
     if (!userId || !name) {
         return res.status(400).json({ error: 'Missing required fields' });
@@ -769,29 +1543,35 @@ app.put('/api/files/:id/rename', async (req, res) => {
         return res.status(404).json({ error: 'File not found' });
     }
 
-    // Sanitize name with broader allowance
-    const safeName = name.replace(/[^a-zA-Z0-9\.\-\_\s\(\)\[\]\,\&\+]/g, '').trim();
-    if (!safeName) return res.status(400).json({ error: 'Invalid name' });
+    let safeName: string;
+    try {
+        safeName = sanitizeName(name);
+    } catch (error: any) {
+        return res.status(error.status || 400).json({ error: error.message });
+    }
 
     // Store old values for rollback
     const oldName = file.name;
     const oldPath = file.path;
     const oldUpdatedAt = file.created_at; // Or whatever timestamp field used
+    const oldDrivePath = await getNodePath(db, id);
 
     try {
-        const parentPath = path.dirname(file.path);
-        const newPath = path.join(parentPath, safeName);
+        // Files in the blob store have no path of their own, only their folder has
+        const parentPath = file.blob_hash ? await getPhysicalPath(db, userId, file.parent_id) : path.dirname(file.path);
+        const newPath = resolveChildPath(userId, parentPath, safeName);
 
-        if (file.path === newPath) {
+        if (file.path === newPath || (file.blob_hash && file.name === safeName)) {
             return res.json({ success: true, file });
         }
 
-        if (fs.existsSync(newPath)) {
+        const taken = await db.get('SELECT id FROM files WHERE user_id = ? AND parent_id IS ? AND name = ? AND id != ?', userId, file.parent_id, safeName, id);
+        if (taken || fs.existsSync(newPath)) {
             return res.status(409).json({ error: 'A file with that name already exists' });
         }
 
         // Rename physical
-        if (fs.existsSync(file.path)) {
+        if (file.path && fs.existsSync(file.path)) {
             fs.renameSync(file.path, newPath);
         }
 
@@ -801,7 +1581,7 @@ app.put('/api/files/:id/rename', async (req, res) => {
 
             // Update DB
             const now = Date.now();
-            await db.run('UPDATE files SET name = ?, path = ?, created_at = ? WHERE id = ?', safeName, newPath, now, id);
+            await db.run('UPDATE files SET name = ?, path = ?, created_at = ? WHERE id = ?', safeName, file.blob_hash ? null : newPath, now, id);
 
             // If folder, update children paths
             if (file.type === 'folder') {
@@ -821,7 +1601,7 @@ app.put('/api/files/:id/rename', async (req, res) => {
             await db.run('ROLLBACK');
             // Attempt to rollback physical rename
             try {
-                if (fs.existsSync(newPath) && !fs.existsSync(file.path)) {
+                if (file.path && fs.existsSync(newPath) && !fs.existsSync(file.path)) {
                     fs.renameSync(newPath, file.path);
                 }
             } catch (rollbackError) {
@@ -830,7 +1610,20 @@ app.put('/api/files/:id/rename', async (req, res) => {
             throw dbError;
         }
 
-        lastFileSystemChange = Date.now();
+        if (file.type === 'file') {
+            await invalidateThumbnails(db, id);
+        }
+        await publishNodeChange(db, 'renamed', id);
+        await indexNode(db, id);
+        await recordRecent(db, userId, id, 'edit');
+        await recordAudit(req, {
+            action: 'file.rename',
+            targetType: file.type,
+            targetId: id,
+            targetName: safeName,
+            oldPath: oldDrivePath,
+            newPath: await getNodePath(db, id)
+        });
 
         // Return updated file
         const updatedFile = await db.get('SELECT * FROM files WHERE id = ?', id);
@@ -846,15 +1639,18 @@ app.put('/api/files/:id/rename', async (req, res) => {
         });
 
     } catch (error) {
+        if (error instanceof UnsafePathError) {
+            return res.status(error.status).json({ error: error.message });
+        }
         console.error('Rename error:', error);
         res.status(500).json({ error: 'Failed to rename' });
     }
 });
 
-// Delete File/Folder
+// Delete File/Folder (moves it to the trash)
 app.delete('/api/files/:id', async (req, res) => {
     const { id } = req.params;
-    const userId = req.headers['x-user-id'] as string;
+    const userId = req.user.id;
 
     const db = await getDb();
     const file = await db.get('SELECT * FROM files WHERE id = ? AND user_id = ?', id, userId);
@@ -863,84 +1659,200 @@ app.delete('/api/files/:id', async (req, res) => {
         return res.status(404).json({ error: 'File not found' });
     }
 
+    const drivePath = await getNodePath(db, id);
+
     try {
-        if (file.type === 'file') {
-            // Delete actual file
-            if (file.path && fs.existsSync(file.path)) {
-                let retries = 5;
-                while (retries > 0) {
-                    try {
-                        fs.unlinkSync(file.path);
-                        break;
-                    } catch (e: any) {
-                        if (e.code === 'EBUSY' || e.code === 'EPERM') {
-                            retries--;
-                            if (retries === 0) throw e;
-                            await new Promise(r => setTimeout(r, 200));
-                        } else {
-                            throw e;
-                        }
-                    }
-                }
-            }
-            // Delete shared references
-            await db.run('DELETE FROM shared_files WHERE file_id = ?', id);
-            // Delete from DB
-            await db.run('DELETE FROM files WHERE id = ?', id);
-        } else {
-            // For folders, remove physical first to ensure no zombies
-            if (file.path && fs.existsSync(file.path)) {
-                let retries = 5;
-                while (retries > 0) {
-                    try {
-                        // Use rmSync which is more robust for recursive deletion
-                        fs.rmSync(file.path, { recursive: true, force: true });
-                        break;
-                    } catch (e: any) {
-                        if (e.code === 'EBUSY' || e.code === 'ENOTEMPTY' || e.code === 'EPERM') {
-                            retries--;
-                            if (retries === 0) throw e; // Propagate error to prevent DB delete
-                            await new Promise(r => setTimeout(r, 200));
-                        } else {
-                            throw e; // Propagate other errors
-                        }
-                    }
-                }
-            }
+        const audience = await getAudience(db, id, userId);
+        const trashItemId = await moveToTrash(db, userId, file, req.user.id, drivePath);
+
+        await publishDeletion(db, file, audience);
+        await removeFromIndex(db, file.id);
+        await recordAudit(req, {
+            action: 'file.delete',
+            targetType: file.type,
+            targetId: id,
+            targetName: file.name,
+            oldPath: drivePath
+        });
+        res.json({ success: true, trashItemId });
+    } catch (error) {
+        console.error('Delete error:', error);
+        res.status(500).json({ error: 'Error deleting file' });
+    }
+});
 
-            // Start Transaction for DB cleanup
-            await db.run('BEGIN TRANSACTION');
-            try {
-                // Use recursive clean up
-                await deleteDbFolderRecursively(db, id);
-                await db.run('COMMIT');
-            } catch (dbError) {
-                await db.run('ROLLBACK');
-                throw dbError; // Physical was deleted, but DB failed. 
-                // This results in "Missing" files which sync will clean up later.
-                // Better than "Zombie" files (DB exists, physical missing).
-            }
+// Earlier contents of one of my files, newest first
+app.get('/api/files/:id/versions', async (req, res) => {
+    const userId = req.user.id;
+    const db = await getDb();
+    try {
+        const file = await db.get('SELECT * FROM files WHERE id = ? AND user_id = ? AND type = "file"', req.params.id, userId);
+        if (!file) {
+            return res.status(404).json({ error: 'File not found' });
         }
 
-        lastFileSystemChange = Date.now();
-        res.json({ success: true });
+        const uploader = await db.get('SELECT username FROM users WHERE id = ?', file.uploaded_by || file.user_id);
+        res.json({
+            current: {
+                size: file.size,
+                mimeType: file.mime_type,
+                uploadedAt: file.updated_at || file.created_at,
+                uploadedBy: uploader?.username || null
+            },
+            versions: (await listVersions(db, file.id)).map(mapVersion),
+            limit: await getVersionLimit(db, userId)
+        });
     } catch (error) {
-        console.error('Delete error:', error);
-        res.status(500).json({ error: 'Error deleting file' });
+        console.error('List versions error:', error);
+        res.status(500).json({ error: 'Failed to list versions' });
+    }
+});
+
+// Make an earlier version the current content; the replaced content is kept as a version
+app.post('/api/files/:id/versions/:versionId/restore', async (req, res) => {
+    const userId = req.user.id;
+    const db = await getDb();
+    try {
+        const file = await db.get('SELECT * FROM files WHERE id = ? AND user_id = ? AND type = "file"', req.params.id, userId);
+        if (!file) {
+            return res.status(404).json({ error: 'File not found' });
+        }
+
+        const restored = await restoreVersion(db, file, req.params.versionId, req.user.id);
+        if (!restored) {
+            return res.status(404).json({ error: 'Version not found' });
+        }
+
+        await invalidateThumbnails(db, file.id);
+        await publishNodeChange(db, 'updated', file.id);
+        await indexNode(db, file.id);
+        await recordRecent(db, userId, file.id, 'edit');
+        await recordAudit(req, {
+            action: 'file.version_restore',
+            targetType: 'file',
+            targetId: file.id,
+            targetName: file.name,
+            newPath: await getNodePath(db, file.id),
+            details: { versionId: restored.version.id, uploadedAt: restored.version.uploaded_at, previousVersionId: restored.replacedId }
+        });
+        res.json({ success: true, size: restored.version.size });
+    } catch (error) {
+        if (error instanceof UnsafePathError) {
+            return res.status(error.status).json({ error: error.message });
+        }
+        console.error('Restore version error:', error);
+        res.status(500).json({ error: 'Failed to restore version' });
+    }
+});
+
+// My trash, newest first
+app.get('/api/trash', async (req, res) => {
+    try {
+        const db = await getDb();
+        const settings = await getTrashSettings();
+        const items = await listTrashItems(req.user.id);
+        res.json({
+            items: items.map(item => mapTrashItem(item, settings.retentionDays)),
+            totalSize: items.reduce((sum, item) => sum + item.size, 0),
+            quotaUsage: await getTrashQuotaUsage(db, req.user.id),
+            ...settings
+        });
+    } catch (error) {
+        console.error('List trash error:', error);
+        res.status(500).json({ error: 'Failed to load trash' });
+    }
+});
+
+// Restore a trash item to where it was deleted from, recreating missing parent folders
+app.post('/api/trash/:id/restore', async (req, res) => {
+    const db = await getDb();
+    try {
+        const result = await restoreFromTrash(db, req.user.id, req.params.id);
+        if (!result) {
+            return res.status(404).json({ error: 'Item not found in trash' });
+        }
+
+        // Folders recreated on the way back are new too; the topmost one holds everything else
+        await publishNodeChange(db, 'created', result.createdId);
+        await indexNode(db, result.createdId);
+        const newPath = await getNodePath(db, result.node.id);
+        await recordAudit(req, {
+            action: 'file.restore',
+            targetType: result.node.type,
+            targetId: result.node.id,
+            targetName: result.node.name,
+            oldPath: result.item.original_path,
+            newPath
+        });
+        res.json({ id: result.node.id, name: result.node.name, parentId: result.node.parent_id, path: newPath });
+    } catch (error) {
+        if (error instanceof UnsafePathError) {
+            return res.status(error.status).json({ error: error.message });
+        }
+        console.error('Restore error:', error);
+        res.status(500).json({ error: 'Failed to restore item' });
     }
 });
 
+// Delete a trash item permanently
+app.delete('/api/trash/:id', async (req, res) => {
+    const db = await getDb();
+    try {
+        const item = await purgeTrashItem(db, req.user.id, req.params.id);
+        if (!item) {
+            return res.status(404).json({ error: 'Item not found in trash' });
+        }
+
+        await recordAudit(req, {
+            action: 'file.purge',
+            targetType: item.type,
+            targetId: item.node_id,
+            targetName: item.name,
+            oldPath: item.original_path
+        });
+        res.json({ success: true });
+    } catch (error) {
+        console.error('Purge error:', error);
+        res.status(500).json({ error: 'Failed to delete item' });
+    }
+});
 
+// Empty my trash
+app.delete('/api/trash', async (req, res) => {
+    const db = await getDb();
+    try {
+        const items = await listTrashItems(req.user.id);
+        for (const entry of items) {
+            const item = await purgeTrashItem(db, req.user.id, entry.id);
+            if (item) {
+                await recordAudit(req, {
+                    action: 'file.purge',
+                    targetType: item.type,
+                    targetId: item.node_id,
+                    targetName: item.name,
+                    oldPath: item.original_path
+                });
+            }
+        }
+        res.json({ success: true, purged: items.length });
+    } catch (error) {
+        console.error('Empty trash error:', error);
+        res.status(500).json({ error: 'Failed to empty trash' });
+    }
+});
 
 // User Management (Admin)
-app.get('/api/users', async (req, res) => {
+app.get('/api/users', requireAdmin, async (req, res) => {
     const db = await getDb();
-    const users = await db.all('SELECT id, username, email, role, storage_limit FROM users');
+    const users = await db.all('SELECT id, username, email, role, storage_limit, totp_enabled_at, auth_provider, version_limit FROM users');
 
     // Calculate storage usage for each user
     const usages = await db.all('SELECT user_id, SUM(size) as total_size FROM files WHERE type != "folder" GROUP BY user_id');
     const usageMap = new Map();
     usages.forEach((u: any) => usageMap.set(u.user_id, u.total_size || 0));
+    const versionUsage = await getVersionUsageByUser(db);
+    const trashUsage = await getTrashQuotaUsageByUser(db);
+    const lockedAccounts = await getLockedAccounts();
 
     const mappedUsers = users.map(u => ({
         id: u.id,
@@ -948,96 +1860,412 @@ app.get('/api/users', async (req, res) => {
         email: u.email,
         role: u.role,
         storageLimitBytes: u.storage_limit,
-        usedStorageBytes: usageMap.get(u.id) || 0
+        usedStorageBytes: (usageMap.get(u.id) || 0) + (versionUsage.get(u.id) || 0) + (trashUsage.get(u.id) || 0),
+        twoFactorEnabled: !!u.totp_enabled_at,
+        authProvider: u.auth_provider,
+        versionLimit: u.version_limit ?? DEFAULT_VERSION_LIMIT,
+        lockedUntil: lockedAccounts.get(String(u.email).toLowerCase()) || null
     }));
 
     res.json(mappedUsers);
 });
 
-app.post('/api/users', async (req, res) => {
-    const { username, email, password, role, storageLimitBytes } = req.body;
+app.post('/api/users', requireAdmin, async (req, res) => {
+    const { username, email, password, role, storageLimitBytes } = req.body;
+
+    if (!ROLES.includes(role)) {
+        return res.status(400).json({ error: 'Invalid role' });
+    }
+
+    const passwordError = validatePassword(password, email);
+    if (passwordError) {
+        return res.status(400).json({ error: passwordError });
+    }
+
+    const db = await getDb();
+
+    try {
+        const hashedPassword = await hashPassword(password);
+        const userId = uuidv4();
+
+        await db.run(
+            'INSERT INTO users (id, username, email, password, role, storage_limit) VALUES (?, ?, ?, ?, ?, ?)',
+            userId, username, email, hashedPassword, role, storageLimitBytes
+        );
+
+        // Create upload folder
+        const uploadDir = path.join(process.cwd(), 'uploads', userId);
+        if (!fs.existsSync(uploadDir)) {
+            fs.mkdirSync(uploadDir, { recursive: true });
+        }
+
+        await recordAudit(req, {
+            action: 'user.create',
+            targetType: 'user',
+            targetId: userId,
+            targetName: email,
+            details: { username, role, storageLimitBytes }
+        });
+        res.json({ success: true, id: userId });
+    } catch (error) {
+        res.status(500).json({ error: 'Error creating user' });
+    }
+});
+
+app.delete('/api/users/:id', requireAdmin, async (req, res) => {
+    const { id } = req.params;
+    const db = await getDb();
+    try {
+        if (await isLastAdmin(id)) {
+            return res.status(409).json({ error: 'Cannot delete the last remaining admin' });
+        }
+
+        const user = await db.get('SELECT email FROM users WHERE id = ?', id);
+        await db.run('DELETE FROM users WHERE id = ?', id);
+        if (user) {
+            await recordAudit(req, { action: 'user.delete', targetType: 'user', targetId: id, targetName: user.email });
+        }
+        // Also delete files? For now keep it simple.
+        res.json({ success: true });
+    } catch (error) {
+        res.status(500).json({ error: 'Error deleting user' });
+    }
+});
+
+app.put('/api/users/:id', requireAdmin, async (req, res) => {
+    const { id } = req.params;
+    const { username, email, storageLimitBytes, role, versionLimit } = req.body;
+    const db = await getDb();
+
+    if (req.body.password !== undefined) {
+        return res.status(400).json({ error: 'Passwords cannot be set here; send a reset link instead' });
+    }
+
+    if (role !== undefined && !ROLES.includes(role)) {
+        return res.status(400).json({ error: 'Invalid role' });
+    }
+
+    if (versionLimit !== undefined && (!Number.isInteger(versionLimit) || versionLimit < 0 || versionLimit > MAX_VERSION_LIMIT)) {
+        return res.status(400).json({ error: `versionLimit must be a whole number between 0 and ${MAX_VERSION_LIMIT}` });
+    }
+
+    try {
+        if (role && role !== 'admin' && await isLastAdmin(id)) {
+            return res.status(409).json({ error: 'Cannot demote the last remaining admin' });
+        }
+
+        // Only the fields that were sent are updated
+        const updates: Record<string, any> = {
+            username,
+            email,
+            storage_limit: storageLimitBytes,
+            role,
+            version_limit: versionLimit
+        };
+        const columns = Object.keys(updates).filter(key => updates[key] !== undefined);
+
+        if (columns.length > 0) {
+            const before = await db.get('SELECT username, email, storage_limit, role, version_limit FROM users WHERE id = ?', id);
+            await db.run(
+                `UPDATE users SET ${columns.map(c => `${c} = ?`).join(', ')} WHERE id = ?`,
+                ...columns.map(c => updates[c]), id
+            );
+            if (versionLimit !== undefined) {
+                await pruneUserVersions(db, id);
+            }
+
+            // Only record the fields that actually changed, as { field: [old, new] }
+            const changes = Object.fromEntries(columns
+                .filter(c => before && before[c] !== updates[c])
+                .map(c => [c, [before[c], updates[c]]]));
+            if (Object.keys(changes).length > 0) {
+                await recordAudit(req, {
+                    action: 'user.update',
+                    targetType: 'user',
+                    targetId: id,
+                    targetName: email || before?.email,
+                    details: changes
+                });
+            }
+        }
+        res.json({ success: true });
+    } catch (error) {
+        res.status(500).json({ error: 'Error updating user' });
+    }
+});
+
+// Send a one-time password reset link (Admin)
+app.post('/api/users/:id/password-reset', requireAdmin, async (req, res) => {
+    const db = await getDb();
+    try {
+        const user = await db.get('SELECT id, username, email, auth_provider FROM users WHERE id = ?', req.params.id);
+        if (!user) {
+            return res.status(404).json({ error: 'User not found' });
+        }
+        if (user.auth_provider !== 'local') {
+            return res.status(400).json({ error: 'This user signs in through the directory; reset the password there' });
+        }
+
+        const { token, expiresAt } = await createResetToken(user.id, req.user.id);
+        const appUrl = process.env.APP_BASE_URL || req.headers.origin || 'http://localhost:5173';
+        const resetUrl = `${appUrl}/?reset=${token}`;
+
+        await sendMail({
+            to: user.email,
+            subject: 'FluxLocal Storage password reset',
+            text: `Hello ${user.username},\n\n` +
+                `An administrator requested a password reset for your account.\n` +
+                `Open this link within ${RESET_TOKEN_TTL_MS / 60000} minutes to choose a new password:\n\n` +
+                `${resetUrl}\n\nThe link can only be used once.`
+        });
+
+        await recordAudit(req, { action: 'user.password_reset', targetType: 'user', targetId: user.id, targetName: user.email });
+        res.json({ success: true, expiresAt });
+    } catch (error) {
+        console.error('Password reset error:', error);
+        res.status(500).json({ error: 'Failed to create reset link' });
+    }
+});
+
+// Sessions of any user (Admin)
+app.get('/api/users/:id/sessions', requireAdmin, async (req, res) => {
+    try {
+        const sessions = await listActiveSessions(req.params.id);
+        res.json(sessions.map(s => mapSession(s, req.sessionId)));
+    } catch (error) {
+        console.error('List user sessions error:', error);
+        res.status(500).json({ error: 'Failed to list sessions' });
+    }
+});
+
+app.delete('/api/users/:id/sessions', requireAdmin, async (req, res) => {
+    try {
+        // An admin revoking their own sessions keeps the one they are using
+        const keep = req.params.id === req.user.id ? req.sessionId : undefined;
+        const revoked = await revokeUserSessions(req.params.id, keep);
+        await recordAudit(req, { action: 'user.sessions_revoke', targetType: 'user', targetId: req.params.id, details: { revoked } });
+        res.json({ success: true, revoked });
+    } catch (error) {
+        console.error('Revoke user sessions error:', error);
+        res.status(500).json({ error: 'Failed to revoke sessions' });
+    }
+});
+
+app.delete('/api/users/:id/sessions/:sessionId', requireAdmin, async (req, res) => {
+    const db = await getDb();
+    try {
+        const session = await db.get('SELECT id FROM sessions WHERE id = ? AND user_id = ?', req.params.sessionId, req.params.id);
+        if (!session) {
+            return res.status(404).json({ error: 'Session not found' });
+        }
+        await revokeSession(session.id);
+        await recordAudit(req, { action: 'user.sessions_revoke', targetType: 'session', targetId: session.id, details: { userId: req.params.id } });
+        res.json({ success: true });
+    } catch (error) {
+        console.error('Revoke user session error:', error);
+        res.status(500).json({ error: 'Failed to revoke session' });
+    }
+});
+
+// Lift a sign-in lockout (Admin)
+app.delete('/api/users/:id/lockout', requireAdmin, async (req, res) => {
+    const db = await getDb();
+    try {
+        const user = await db.get('SELECT id, email FROM users WHERE id = ?', req.params.id);
+        if (!user) {
+            return res.status(404).json({ error: 'User not found' });
+        }
+        await clearAccountFailures(user.email);
+        await recordAudit(req, { action: 'user.unlock', targetType: 'user', targetId: user.id, targetName: user.email });
+        res.json({ success: true });
+    } catch (error) {
+        console.error('Unlock user error:', error);
+        res.status(500).json({ error: 'Failed to unlock user' });
+    }
+});
+
+// Hand a local account over to a directory, so its owner signs in with the directory password from
+// then on (Admin). The link is made on their next directory sign-in with the same email.
+app.post('/api/users/:id/directory-link', requireAdmin, async (req, res) => {
+    const { provider } = req.body;
+    const db = await getDb();
+    try {
+        const user = await db.get('SELECT id, email, auth_provider FROM users WHERE id = ?', req.params.id);
+        if (!user) {
+            return res.status(404).json({ error: 'User not found' });
+        }
+        if (user.auth_provider !== 'local') {
+            return res.status(409).json({ error: 'This account already signs in through a directory' });
+        }
+        if (!(await linkToDirectory(db, user.id, String(provider)))) {
+            return res.status(400).json({ error: `provider must be one of: ${getDirectoryProviders().join(', ') || '(none configured)'}` });
+        }
+        await recordAudit(req, { action: 'user.directory_link', targetType: 'user', targetId: user.id, targetName: user.email, details: { provider } });
+        res.json({ success: true });
+    } catch (error) {
+        console.error('Directory link error:', error);
+        res.status(500).json({ error: 'Failed to link the account' });
+    }
+});
+
+// Turn off 2FA for a user who lost their authenticator and recovery codes (Admin)
+app.delete('/api/users/:id/2fa', requireAdmin, async (req, res) => {
     const db = await getDb();
+    try {
+        const user = await db.get('SELECT id, email FROM users WHERE id = ?', req.params.id);
+        if (!user) {
+            return res.status(404).json({ error: 'User not found' });
+        }
+        await disableTwoFactor(user.id);
+        await recordAudit(req, { action: 'user.2fa_reset', targetType: 'user', targetId: user.id, targetName: user.email });
+        res.json({ success: true });
+    } catch (error) {
+        console.error('Reset 2FA error:', error);
+        res.status(500).json({ error: 'Failed to reset two-factor authentication' });
+    }
+});
+
+async function getAdminSettings() {
+    const trash = await getTrashSettings();
+    return {
+        requireAdminTwoFactor: await isAdminTwoFactorRequired(),
+        trashRetentionDays: trash.retentionDays,
+        trashCountsTowardQuota: trash.countsTowardQuota,
+        storageMode: await getStorageMode(),
+        blobStore: await getBlobStats(await getDb()),
+        directoryProviders: getDirectoryProviders()
+    };
+}
 
+// Security, trash and storage policy (Admin)
+app.get('/api/admin/settings', requireAdmin, async (req, res) => {
     try {
-        const hashedPassword = await bcrypt.hash(password, 10);
-        const userId = uuidv4();
+        res.json(await getAdminSettings());
+    } catch (error) {
+        console.error('Get settings error:', error);
+        res.status(500).json({ error: 'Failed to load settings' });
+    }
+});
 
-        await db.run(
-            'INSERT INTO users (id, username, email, password, role, storage_limit) VALUES (?, ?, ?, ?, ?, ?)',
-            userId, username, email, hashedPassword, role, storageLimitBytes
-        );
+app.put('/api/admin/settings', requireAdmin, async (req, res) => {
+    // Partial update: only the settings that were sent are changed
+    const { requireAdminTwoFactor, trashRetentionDays, trashCountsTowardQuota, storageMode } = req.body;
+    if (requireAdminTwoFactor !== undefined && typeof requireAdminTwoFactor !== 'boolean') {
+        return res.status(400).json({ error: 'requireAdminTwoFactor must be a boolean' });
+    }
+    if (trashRetentionDays !== undefined && (!Number.isInteger(trashRetentionDays) || trashRetentionDays < 0 || trashRetentionDays > 3650)) {
+        return res.status(400).json({ error: 'trashRetentionDays must be a whole number of days between 0 and 3650' });
+    }
+    if (trashCountsTowardQuota !== undefined && typeof trashCountsTowardQuota !== 'boolean') {
+        return res.status(400).json({ error: 'trashCountsTowardQuota must be a boolean' });
+    }
+    if (storageMode !== undefined && !STORAGE_MODES.includes(storageMode)) {
+        return res.status(400).json({ error: `storageMode must be one of: ${STORAGE_MODES.join(', ')}` });
+    }
 
-        // Create upload folder
-        const uploadDir = path.join(process.cwd(), 'uploads', userId);
-        if (!fs.existsSync(uploadDir)) {
-            fs.mkdirSync(uploadDir, { recursive: true });
+    try {
+        if (requireAdminTwoFactor !== undefined) {
+            await setAdminTwoFactorRequired(requireAdminTwoFactor);
+        }
+        await setTrashSettings({ retentionDays: trashRetentionDays, countsTowardQuota: trashCountsTowardQuota });
+        if (storageMode !== undefined) {
+            await setStorageMode(storageMode as StorageMode);
         }
 
-        lastFileSystemChange = Date.now();
-        res.json({ success: true, id: userId });
+        const changes = Object.fromEntries(Object.entries({ requireAdminTwoFactor, trashRetentionDays, trashCountsTowardQuota, storageMode })
+            .filter(([, value]) => value !== undefined));
+        await recordAudit(req, { action: 'settings.update', targetType: 'settings', details: changes });
+        res.json(await getAdminSettings());
     } catch (error) {
-        res.status(500).json({ error: 'Error creating user' });
+        console.error('Update settings error:', error);
+        res.status(500).json({ error: 'Failed to update settings' });
     }
 });
 
-app.delete('/api/users/:id', async (req, res) => {
-    const { id } = req.params;
-    const db = await getDb();
+// Compares the whole search index with the drives again and fixes what differs (Admin). The index
+// is otherwise kept up to date as files change, and checked like this at startup.
+app.post('/api/admin/search/rebuild', requireAdmin, async (req, res) => {
     try {
-        await db.run('DELETE FROM users WHERE id = ?', id);
-        // Also delete files? For now keep it simple.
+        await rebuildSearchIndex(await getDb());
+        await recordAudit(req, { action: 'search.rebuild', targetType: 'settings' });
         res.json({ success: true });
     } catch (error) {
-        res.status(500).json({ error: 'Error deleting user' });
+        console.error('Search rebuild error:', error);
+        res.status(500).json({ error: 'Failed to rebuild search index' });
     }
 });
 
-app.put('/api/users/:id', async (req, res) => {
-    const { id } = req.params;
-    const { username, email, storageLimitBytes, password } = req.body;
-    const db = await getDb();
+// Parse the shared query parameters of the audit endpoints
+function parseAuditFilters(query: any): AuditFilters {
+    return {
+        action: query.action || undefined,
+        actorId: query.actorId || undefined,
+        q: query.q || undefined,
+        from: query.from ? Number(query.from) : undefined,
+        to: query.to ? Number(query.to) : undefined
+    };
+}
+
+// Audit log, newest first (Admin)
+app.get('/api/admin/audit', requireAdmin, async (req, res) => {
+    const page = Math.max(1, parseInt(req.query.page as string) || 1);
+    const pageSize = Math.min(200, Math.max(1, parseInt(req.query.pageSize as string) || 50));
 
     try {
-        if (password) {
-            const hashedPassword = await bcrypt.hash(password, 10);
-            await db.run(
-                'UPDATE users SET username = ?, email = ?, storage_limit = ?, password = ? WHERE id = ?',
-                username, email, storageLimitBytes, hashedPassword, id
-            );
-        } else {
-            await db.run(
-                'UPDATE users SET username = ?, email = ?, storage_limit = ? WHERE id = ?',
-                username, email, storageLimitBytes, id
-            );
-        }
-        res.json({ success: true });
+        const { rows, total } = await queryAuditEvents(parseAuditFilters(req.query), pageSize, (page - 1) * pageSize);
+        res.json({ events: rows.map(mapAuditEvent), total, page, pageSize });
     } catch (error) {
-        res.status(500).json({ error: 'Error updating user' });
+        console.error('Audit log error:', error);
+        res.status(500).json({ error: 'Failed to load audit log' });
+    }
+});
+
+app.get('/api/admin/audit/export', requireAdmin, async (req, res) => {
+    try {
+        const { rows } = await queryAuditEvents(parseAuditFilters(req.query), AUDIT_EXPORT_LIMIT);
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="audit-${new Date().toISOString().slice(0, 10)}.csv"`);
+        res.send(auditEventsToCsv(rows));
+    } catch (error) {
+        console.error('Audit export error:', error);
+        res.status(500).json({ error: 'Failed to export audit log' });
     }
 });
 
 
+type CopyResult = { id: string, name: string, type: 'file' | 'folder', skipped?: boolean, merged?: boolean };
+
 // Helper for recursive copy
-async function copyNode(db: any, nodeId: string, newParentId: string | null, userId: string) {
+// Returns the created node (or the folder merged into, or the existing node when skipped), or null when
+// the source does not exist. Everything inside a copied folder is merged: a new folder cannot clash and
+// in a merged one same-named files are replaced.
+async function copyNode(req: any, db: any, nodeId: string, newParentId: string | null, userId: string, policy: ConflictPolicy): Promise<CopyResult | null> {
     const node = await db.get('SELECT * FROM files WHERE id = ? AND user_id = ?', nodeId, userId);
-    if (!node) return;
-
-    const newNodeId = uuidv4();
-    const now = Date.now();
+    if (!node) return null;
 
     // Determine physical path of the parent
     const parentPath = await getPhysicalPath(db, userId, newParentId);
 
-    if (node.type === 'folder') {
-        // Handle folder name conflict
-        let targetFolderName = node.name;
-        let targetFolderPath = path.join(parentPath, targetFolderName);
-
-        // Simple rename strategy if exists
-        if (fs.existsSync(targetFolderPath)) {
-            targetFolderName = `${node.name}_copy_${newNodeId}`;
-            targetFolderPath = path.join(parentPath, targetFolderName);
+    // Copying into the node's own folder always creates a duplicate next to it
+    const decision = await placeNode(req, db, userId, node, newParentId, parentPath, policy, node.id);
+    if (decision.action === 'skip') {
+        return { id: decision.existing.id, name: decision.name, type: decision.existing.type, skipped: true };
+    }
+    if (decision.action === 'merge') {
+        const children = await db.all('SELECT id FROM files WHERE parent_id = ?', nodeId);
+        for (const child of children) {
+            await copyNode(req, db, child.id, decision.existing.id, userId, 'merge');
         }
+        await copyNodeTags(db, node.id, decision.existing.id);
+        return { id: decision.existing.id, name: decision.name, type: 'folder', merged: true };
+    }
+
+    const newNodeId = uuidv4();
+    const now = Date.now();
+
+    if (node.type === 'folder') {
+        const targetFolderName = decision.name;
+        const targetFolderPath = path.join(parentPath, targetFolderName);
 
         // Create new folder physically
         if (!fs.existsSync(targetFolderPath)) {
@@ -1051,43 +2279,118 @@ async function copyNode(db: any, nodeId: string, newParentId: string | null, use
              VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
             newNodeId, userId, newParentId, targetFolderName, 'folder', 0, targetFolderPath, null, now
         );
+        await adjustFolderTotals(db, newParentId, { size: 0, files: 0, folders: 1 });
+        await copyNodeTags(db, node.id, newNodeId);
 
         // Get children
         const children = await db.all('SELECT id FROM files WHERE parent_id = ?', nodeId);
         for (const child of children) {
-            await copyNode(db, child.id, newNodeId, userId);
+            await copyNode(req, db, child.id, newNodeId, userId, 'merge');
         }
+        return { id: newNodeId, name: targetFolderName, type: 'folder' };
     } else {
-        // Copy file
-        let newPath = node.path;
-        let newName = node.name;
+        // Copy file; a missing physical file is copied as a file without content
+        const newName = decision.name;
+        const content = await copyFileContent(db, node, path.join(parentPath, newName));
 
-        if (node.path && fs.existsSync(node.path)) {
-            const ext = path.extname(node.name);
-            const basename = path.basename(node.name, ext);
+        await db.run(
+            `INSERT INTO files (id, user_id, parent_id, name, type, size, path, mime_type, created_at, blob_hash)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            newNodeId, userId, newParentId, newName, 'file', node.size, content?.path ?? null, node.mime_type, now, content?.blobHash ?? null
+        );
+        await adjustFolderTotals(db, newParentId, { size: node.size, files: 1, folders: 0 });
+        await copyNodeTags(db, node.id, newNodeId);
+        return { id: newNodeId, name: newName, type: 'file' };
+    }
+}
 
-            let targetFilePath = path.join(parentPath, node.name);
+// Content for a copy of a file. A file in the blob store only gains a reference; any other file is
+// copied, into the store when blob mode is on. Returns null when the source content is missing.
+async function copyFileContent(db: any, node: any, targetPath: string): Promise<{ path: string | null, blobHash: string | null } | null> {
+    if (node.blob_hash) {
+        await addBlobRef(db, node.blob_hash);
+        return { path: null, blobHash: node.blob_hash };
+    }
+    if (!node.path || !fs.existsSync(node.path)) return null;
 
-            // Check conflict
-            if (fs.existsSync(targetFilePath)) {
-                newName = `${basename}_copy_${newNodeId}${ext}`;
-                targetFilePath = path.join(parentPath, newName);
-            }
+    if (await getStorageMode() === 'blobs') {
+        return { path: null, blobHash: await storeBlob(db, node.path, true) };
+    }
+    fs.copyFileSync(node.path, targetPath);
+    setPermissions(targetPath);
+    return { path: targetPath, blobHash: null };
+}
 
-            fs.copyFileSync(node.path, targetFilePath);
-            setPermissions(targetFilePath);
-            newPath = targetFilePath;
-        } else {
-            // Physical file missing
-            newPath = null;
+// Decides the name a copied, moved or saved node takes in the target folder. With onConflict=replace
+// the node in the way is moved to the trash here, unless the node being placed is inside it.
+async function placeNode(
+    req: any, db: any, userId: string, node: any, parentId: string | null, parentPath: string,
+    policy: ConflictPolicy, ignoreId: string | null = null
+): Promise<ConflictDecision> {
+    const decision = await decideConflict(db, userId, parentId, parentPath, node.name, node.type, policy, ignoreId);
+    if (decision.action === 'replace') {
+        if (decision.existing.type === 'folder' && await isSubfolder(db, decision.existing.id, node.id)) {
+            throw new UnsafePathError(`Cannot replace '${decision.name}' with an item inside it`, 400);
         }
+        await trashReplacedNode(req, db, userId, decision.existing);
+    }
+    return decision;
+}
 
-        await db.run(
-            `INSERT INTO files (id, user_id, parent_id, name, type, size, path, mime_type, created_at)
-             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-            newNodeId, userId, newParentId, newName, 'file', node.size, newPath, node.mime_type, now
-        );
+// Moves a node into the folder. Returns the id it ends up under: its own, or that of the folder it
+// was merged into (the emptied source folder is removed).
+async function moveNode(
+    req: any, db: any, userId: string, node: any, parentId: string | null, parentPath: string, policy: ConflictPolicy
+): Promise<{ id: string, skipped?: boolean }> {
+    // Already in the target folder
+    if ((node.parent_id ?? null) === parentId) return { id: node.id };
+
+    const decision = await placeNode(req, db, userId, node, parentId, parentPath, policy, node.id);
+    if (decision.action === 'skip') return { id: node.id, skipped: true };
+
+    if (decision.action === 'merge') {
+        const target = decision.existing;
+        const children = await db.all('SELECT * FROM files WHERE parent_id = ?', node.id);
+        for (const child of children) {
+            await moveNode(req, db, userId, child, target.id, target.path, 'merge');
+        }
+        if (node.path) {
+            try {
+                fs.rmdirSync(node.path);
+            } catch (error) {
+                console.error(`Could not remove merged folder ${node.path}:`, error);
+            }
+        }
+        await copyNodeTags(db, node.id, target.id);
+        await removeNodeTags(db, [node.id]);
+        // Emptied by now, so only the folder itself is taken off the totals above it
+        await adjustFolderTotals(db, node.parent_id, nodeTotals(await db.get('SELECT * FROM files WHERE id = ?', node.id)), -1);
+        await db.run('DELETE FROM shared_files WHERE file_id = ?', node.id);
+        await db.run('DELETE FROM files WHERE id = ?', node.id);
+        return { id: target.id };
+    }
+
+    // Physical Move
+    let newPhysicalPath = node.path;
+    if (node.path && fs.existsSync(node.path)) {
+        newPhysicalPath = path.join(parentPath, decision.name);
+        fs.renameSync(node.path, newPhysicalPath);
+        setPermissions(newPhysicalPath);
+
+        if (node.type === 'folder') {
+            await updateChildrenPaths(db, node.id, newPhysicalPath);
+        }
     }
+
+    // Update path AND name (if changed due to conflict)
+    const totals = nodeTotals(await db.get('SELECT * FROM files WHERE id = ?', node.id));
+    await adjustFolderTotals(db, node.parent_id, totals, -1);
+    await db.run(
+        'UPDATE files SET path = ?, name = ?, parent_id = ? WHERE id = ? AND user_id = ?',
+        newPhysicalPath, decision.name, parentId, node.id, userId
+    );
+    await adjustFolderTotals(db, parentId, totals);
+    return { id: node.id };
 }
 
 // Helper to recursively update paths after move
@@ -1104,7 +2407,10 @@ async function updateChildrenPaths(db: any, folderId: string, newFolderPath: str
 
         const newChildPath = path.join(newFolderPath, basename);
 
-        await db.run('UPDATE files SET path = ? WHERE id = ?', newChildPath, child.id);
+        // Files in the blob store have no path to update
+        if (!child.blob_hash) {
+            await db.run('UPDATE files SET path = ? WHERE id = ?', newChildPath, child.id);
+        }
 
         if (child.type === 'folder') {
             await updateChildrenPaths(db, child.id, newChildPath);
@@ -1130,17 +2436,24 @@ async function isSubfolder(db: any, sourceId: string, targetId: string | null):
 // Move API
 app.post('/api/files/move', async (req, res) => {
     const { fileIds, targetFolderId } = req.body;
-    const userId = req.headers['x-user-id'] as string;
+    const userId = req.user.id;
 
     if (!fileIds || !Array.isArray(fileIds) || !userId) {
         return res.status(400).json({ error: 'Invalid request' });
     }
+    const policy = parseConflictPolicy(req.body.onConflict, 'keep-both');
+    if (!policy) {
+        return res.status(400).json({ error: INVALID_CONFLICT_POLICY });
+    }
 
     const db = await getDb();
     const parentId = targetFolderId === 'root' ? null : targetFolderId;
 
     try {
         const targetPath = await getPhysicalPath(db, userId, parentId);
+        // Written and published once the transaction has committed
+        const moved: { node: any, id: string, oldPath: string, audience: Audience }[] = [];
+        let skipped = 0;
 
         // Start Transaction
         await db.run('BEGIN TRANSACTION');
@@ -1151,6 +2464,7 @@ app.post('/api/files/move', async (req, res) => {
 
             const node = await db.get('SELECT * FROM files WHERE id = ? AND user_id = ?', id, userId);
             if (!node) continue;
+            const oldPath = await getNodePath(db, id);
 
             // Prevent moving folder into its own subfolder
             if (node.type === 'folder' && await isSubfolder(db, id, targetFolderId)) {
@@ -1158,53 +2472,49 @@ app.post('/api/files/move', async (req, res) => {
                 return res.status(400).json({ error: `Cannot move folder '${node.name}' into its own subfolder` });
             }
 
-            // Physical Move
-            if (node.path && fs.existsSync(node.path)) {
-                const basename = path.basename(node.path);
-                let newPhysicalPath = path.join(targetPath, basename);
-
-                // If path is different, move it
-                if (node.path !== newPhysicalPath) {
-                    // Check conflict
-                    if (fs.existsSync(newPhysicalPath)) {
-                        const ext = path.extname(node.path);
-                        const nameWithoutExt = path.basename(node.path, ext);
-                        const newName = `${nameWithoutExt}_moved_${uuidv4()}${ext}`;
-                        newPhysicalPath = path.join(targetPath, newName);
-                    }
-
-                    try {
-                        fs.renameSync(node.path, newPhysicalPath);
-                        setPermissions(newPhysicalPath);
-                    } catch (fsError) {
-                        // If physical move fails, rollback DB and abort
-                        await db.run('ROLLBACK');
-                        throw fsError;
-                    }
-
-                    // Update path AND name (if changed due to conflict)
-                    const finalName = path.basename(newPhysicalPath);
-                    await db.run('UPDATE files SET path = ?, name = ? WHERE id = ?', newPhysicalPath, finalName, id);
-
-                    if (node.type === 'folder') {
-                        await updateChildrenPaths(db, id, newPhysicalPath);
-                    }
-                }
+            const audience = await getAudience(db, id, userId);
+            const result = await moveNode(req, db, userId, node, parentId, targetPath, policy);
+            if (result.skipped) {
+                skipped++;
+            } else {
+                moved.push({ node, id: result.id, oldPath, audience });
             }
-
-            await db.run('UPDATE files SET parent_id = ? WHERE id = ? AND user_id = ?', parentId, id, userId);
         }
 
         await db.run('COMMIT');
 
-        lastFileSystemChange = Date.now();
-        res.json({ success: true });
+        for (const { node, id, oldPath, audience } of moved) {
+            // Merged into a folder already there: the source is gone and the target has new contents
+            if (id !== node.id) {
+                await publishDeletion(db, node, audience);
+                await publishFolderChange(db, userId, id);
+                await removeFromIndex(db, node.id);
+                await indexFolder(db, userId, id, true);
+            } else if ((node.parent_id ?? null) !== parentId) {
+                await publishMove(db, id, node.parent_id, audience);
+                await indexNode(db, id);
+            }
+            const newPath = await getNodePath(db, id);
+            await recordAudit(req, {
+                action: 'file.move',
+                targetType: node.type,
+                targetId: id,
+                targetName: path.basename(newPath),
+                oldPath,
+                newPath,
+                details: id !== node.id ? { mergedFrom: node.id } : undefined
+            });
+        }
+        res.json({ success: true, skipped });
     } catch (error) {
         console.error('Move error:', error);
         // Try rollback if transaction key exists? 
         // We can safely try rollback, if no transaction active it might throw but we are already in catch.
         try { await db.run('ROLLBACK'); } catch (e) { }
 
+        if (error instanceof UnsafePathError) {
+            return res.status(error.status).json({ error: error.message });
+        }
         res.status(500).json({ error: 'Error moving files' });
     }
 });
@@ -1212,22 +2522,49 @@ app.post('/api/files/move', async (req, res) => {
 // Copy API
 app.post('/api/files/copy', async (req, res) => {
     const { fileIds, targetFolderId } = req.body;
-    const userId = req.headers['x-user-id'] as string;
+    const userId = req.user.id;
 
     if (!fileIds || !Array.isArray(fileIds) || !userId) {
         return res.status(400).json({ error: 'Invalid request' });
     }
+    const policy = parseConflictPolicy(req.body.onConflict, 'keep-both');
+    if (!policy) {
+        return res.status(400).json({ error: INVALID_CONFLICT_POLICY });
+    }
 
     const db = await getDb();
     const parentId = targetFolderId === 'root' ? null : targetFolderId;
 
     try {
+        let skipped = 0;
         for (const id of fileIds) {
-            await copyNode(db, id, parentId, userId);
+            // A folder copied into itself would keep finding its own copy among its children
+            if (await isSubfolder(db, id, parentId)) {
+                const node = await db.get('SELECT name FROM files WHERE id = ?', id);
+                return res.status(400).json({ error: `Cannot copy folder '${node?.name}' into itself` });
+            }
+            const sourcePath = await getNodePath(db, id);
+            const copy = await copyNode(req, db, id, parentId, userId, policy);
+            if (copy?.skipped) {
+                skipped++;
+            } else if (copy) {
+                await (copy.merged ? publishFolderChange(db, userId, copy.id) : publishNodeChange(db, 'created', copy.id));
+                await (copy.merged ? indexFolder(db, userId, copy.id, true) : indexNode(db, copy.id));
+                await recordAudit(req, {
+                    action: 'file.copy',
+                    targetType: copy.type,
+                    targetId: copy.id,
+                    targetName: copy.name,
+                    oldPath: sourcePath,
+                    newPath: await getNodePath(db, copy.id)
+                });
+            }
         }
-        lastFileSystemChange = Date.now();
-        res.json({ success: true });
+        res.json({ success: true, skipped });
     } catch (error) {
+        if (error instanceof UnsafePathError) {
+            return res.status(error.status).json({ error: error.message });
+        }
         console.error('Copy error:', error);
         res.status(500).json({ error: 'Error copying files' });
     }
@@ -1236,7 +2573,7 @@ app.post('/api/files/copy', async (req, res) => {
 // Search Users
 app.get('/api/users/search', async (req, res) => {
     const query = req.query.q as string;
-    const currentUserId = req.headers['x-user-id'] as string;
+    const currentUserId = req.user.id;
 
     if (!query || query.length < 2) {
         return res.json([]);
@@ -1253,9 +2590,9 @@ app.get('/api/users/search', async (req, res) => {
 // Share File
 app.post('/api/share', async (req, res) => {
     const { fileIds, userIds } = req.body;
-    const fromUserId = req.headers['x-user-id'] as string;
+    const fromUserId = req.user.id;
 
-    if (!fileIds || !userIds || !fromUserId) {
+    if (!Array.isArray(fileIds) || !Array.isArray(userIds) || !fromUserId) {
         return res.status(400).json({ error: 'Invalid request' });
     }
 
@@ -1263,7 +2600,27 @@ app.post('/api/share', async (req, res) => {
     const now = Date.now();
 
     try {
+        // Only the owner can share a node; ids of other users' nodes (such as the parent of a shared
+        // folder) are answered like ids that do not exist
+        const files = [];
         for (const fileId of fileIds) {
+            const file = await db.get('SELECT id, name, type FROM files WHERE id = ? AND user_id = ?', fileId, fromUserId);
+            if (!file) {
+                return res.status(404).json({ error: 'File not found' });
+            }
+            files.push(file);
+        }
+
+        const recipients = userIds.length ? await db.all(
+            `SELECT id, email FROM users WHERE id IN (${userIds.map(() => '?').join(',')})`,
+            ...userIds
+        ) : [];
+        if (recipients.length !== new Set(userIds).size) {
+            return res.status(404).json({ error: 'User not found' });
+        }
+
+        for (const file of files) {
+            const fileId = file.id;
             for (const toUserId of userIds) {
                 // Check if already shared
                 const exists = await db.get(
@@ -1276,8 +2633,18 @@ app.post('/api/share', async (req, res) => {
                         'INSERT INTO shared_files (id, file_id, from_user_id, to_user_id, created_at) VALUES (?, ?, ?, ?, ?)',
                         uuidv4(), fileId, fromUserId, toUserId, now
                     );
+                    publishShareChange(toUserId, 'shared', fileId);
                 }
             }
+
+            await recordAudit(req, {
+                action: 'file.share',
+                targetType: file.type,
+                targetId: fileId,
+                targetName: file.name,
+                oldPath: await getNodePath(db, fileId),
+                details: { sharedWith: recipients.map((r: any) => r.email) }
+            });
         }
         res.json({ success: true });
     } catch (error) {
@@ -1288,7 +2655,7 @@ app.post('/api/share', async (req, res) => {
 
 // Get Shared Files
 app.get('/api/shared', async (req, res) => {
-    const userId = req.headers['x-user-id'] as string;
+    const userId = req.user.id;
 
     if (!userId) {
         return res.status(400).json({ error: 'User ID required' });
@@ -1304,6 +2671,7 @@ app.get('/api/shared', async (req, res) => {
         JOIN users u ON sf.from_user_id = u.id
         WHERE sf.to_user_id = ?
     `, userId);
+    const starredIds = await getStarredIds(db, userId);
 
     const mappedFiles = sharedFiles.map(f => ({
         id: f.id,
@@ -1314,12 +2682,14 @@ app.get('/api/shared', async (req, res) => {
         size: f.size,
         mimeType: f.mime_type,
         createdAt: f.created_at,
+        ...mapFolderCounts(f),
         sharedBy: {
             id: f.from_user_id,
             username: f.from_username,
             email: f.from_email
         },
-        sharedAt: f.shared_at
+        sharedAt: f.shared_at,
+        starred: starredIds.has(f.id)
     }));
 
     res.json(mappedFiles);
@@ -1327,7 +2697,7 @@ app.get('/api/shared', async (req, res) => {
 
 // Clear All Shared
 app.delete('/api/shared', async (req, res) => {
-    const userId = req.headers['x-user-id'] as string;
+    const userId = req.user.id;
 
     if (!userId) {
         return res.status(400).json({ error: 'User ID required' });
@@ -1335,7 +2705,10 @@ app.delete('/api/shared', async (req, res) => {
 
     const db = await getDb();
     try {
-        await db.run('DELETE FROM shared_files WHERE to_user_id = ?', userId);
+        const cleared = await db.all('SELECT file_id FROM shared_files WHERE to_user_id = ?', userId);
+        const result = await db.run('DELETE FROM shared_files WHERE to_user_id = ?', userId);
+        cleared.forEach((share: any) => publishShareChange(userId, 'unshared', share.file_id));
+        await recordAudit(req, { action: 'share.clear', details: { removed: result.changes || 0 } });
         res.json({ success: true });
     } catch (error) {
         res.status(500).json({ error: 'Error clearing shared files' });
@@ -1345,16 +2718,21 @@ app.delete('/api/shared', async (req, res) => {
 // Save Shared to My Drive
 app.post('/api/shared/save', async (req, res) => {
     const { fileIds, targetFolderId } = req.body;
-    const userId = req.headers['x-user-id'] as string;
+    const userId = req.user.id;
 
     if (!fileIds || !Array.isArray(fileIds) || !userId) {
         return res.status(400).json({ error: 'Invalid request' });
     }
+    const policy = parseConflictPolicy(req.body.onConflict, 'keep-both');
+    if (!policy) {
+        return res.status(400).json({ error: INVALID_CONFLICT_POLICY });
+    }
 
     const db = await getDb();
     const parentId = targetFolderId === 'root' ? null : targetFolderId;
 
     try {
+        let skipped = 0;
         // We reuse copyNode but we need to ensure we can access the source file.
         // copyNode currently restricts by user_id. We need a variant that allows copying from ANY user if we have a valid share record.
         // Or we can just modify copyNode to check existence first.
@@ -1375,37 +2753,67 @@ app.post('/api/shared/save', async (req, res) => {
             // We need to bypass the user_id check in copyNode or create a new function.
             // Let's create a new helper `copySharedNode`.
 
-            await copySharedNode(db, id, parentId, userId);
+            const sourcePath = await getNodePath(db, id);
+            const copy = await copySharedNode(req, db, id, parentId, userId, policy);
+            if (copy?.skipped) {
+                skipped++;
+            } else if (copy) {
+                await (copy.merged ? publishFolderChange(db, userId, copy.id) : publishNodeChange(db, 'created', copy.id));
+                await (copy.merged ? indexFolder(db, userId, copy.id, true) : indexNode(db, copy.id));
+                await recordAudit(req, {
+                    action: 'share.save',
+                    targetType: copy.type,
+                    targetId: copy.id,
+                    targetName: copy.name,
+                    oldPath: sourcePath,
+                    newPath: await getNodePath(db, copy.id),
+                    details: { sourceId: id, ownerId: shareRecord.from_user_id }
+                });
+            }
         }
-        lastFileSystemChange = Date.now();
-        res.json({ success: true });
+        res.json({ success: true, skipped });
     } catch (error) {
+        if (error instanceof UnsafePathError) {
+            return res.status(error.status).json({ error: error.message });
+        }
         console.error('Save shared error:', error);
         res.status(500).json({ error: 'Error saving shared files' });
     }
 });
 
-// Helper for copying shared node (cross-user copy)
-async function copySharedNode(db: any, nodeId: string, newParentId: string | null, targetUserId: string) {
+// Helper for copying shared node (cross-user copy). Returns the created node (or the folder merged into,
+// or the existing node when skipped), or null if nothing was copied.
+async function copySharedNode(req: any, db: any, nodeId: string, newParentId: string | null, targetUserId: string, policy: ConflictPolicy): Promise<CopyResult | null> {
     // Select file regardless of owner
     const node = await db.get('SELECT * FROM files WHERE id = ?', nodeId);
-    if (!node) return;
-
-    const newNodeId = uuidv4();
-    const now = Date.now();
+    if (!node) return null;
 
     // Determine physical path of the parent (target user)
     const parentPath = await getPhysicalPath(db, targetUserId, newParentId);
 
-    if (node.type === 'folder') {
-        // Handle folder name conflict
-        let targetFolderName = node.name;
-        let targetFolderPath = path.join(parentPath, targetFolderName);
+    const contentPath = node.type === 'file' ? getContentPath(node) : null;
+    if (node.type === 'file' && !(contentPath && fs.existsSync(contentPath))) {
+        return null;
+    }
 
-        if (fs.existsSync(targetFolderPath)) {
-            targetFolderName = `${node.name}_copy_${newNodeId}`;
-            targetFolderPath = path.join(parentPath, targetFolderName);
+    const decision = await placeNode(req, db, targetUserId, node, newParentId, parentPath, policy);
+    if (decision.action === 'skip') {
+        return { id: decision.existing.id, name: decision.name, type: decision.existing.type, skipped: true };
+    }
+    if (decision.action === 'merge') {
+        const children = await db.all('SELECT id FROM files WHERE parent_id = ?', nodeId);
+        for (const child of children) {
+            await copySharedNode(req, db, child.id, decision.existing.id, targetUserId, 'merge');
         }
+        return { id: decision.existing.id, name: decision.name, type: 'folder', merged: true };
+    }
+
+    const newNodeId = uuidv4();
+    const now = Date.now();
+
+    if (node.type === 'folder') {
+        const targetFolderName = decision.name;
+        const targetFolderPath = path.join(parentPath, targetFolderName);
 
         if (!fs.existsSync(targetFolderPath)) {
             fs.mkdirSync(targetFolderPath, { recursive: true });
@@ -1417,49 +2825,34 @@ async function copySharedNode(db: any, nodeId: string, newParentId: string | nul
              VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
             newNodeId, targetUserId, newParentId, targetFolderName, 'folder', 0, targetFolderPath, null, now
         );
+        await adjustFolderTotals(db, newParentId, { size: 0, files: 0, folders: 1 });
 
         const children = await db.all('SELECT id FROM files WHERE parent_id = ?', nodeId);
         for (const child of children) {
-            await copySharedNode(db, child.id, newNodeId, targetUserId);
+            await copySharedNode(req, db, child.id, newNodeId, targetUserId, 'merge');
         }
+        return { id: newNodeId, name: targetFolderName, type: 'folder' };
     } else {
-        // Copy file
-        let newPath = node.path;
-        let newName = node.name;
-
-        if (node.path && fs.existsSync(node.path)) {
-            const ext = path.extname(node.name);
-            const basename = path.basename(node.name, ext);
-
-            let targetFilePath = path.join(parentPath, node.name);
-
-            // Check conflict
-            if (fs.existsSync(targetFilePath)) {
-                newName = `${basename}_copy_${newNodeId}${ext}`;
-                targetFilePath = path.join(parentPath, newName);
-            }
-
-            fs.copyFileSync(node.path, targetFilePath);
-            setPermissions(targetFilePath);
-            newPath = targetFilePath;
-        } else {
-            newPath = null;
-        }
+        // Copy file; with the blob store this only adds a reference
+        const newName = decision.name;
+        const content = await copyFileContent(db, node, path.join(parentPath, newName));
+        if (!content) return null;
 
-        if (newPath) {
-            await db.run(
-                `INSERT INTO files (id, user_id, parent_id, name, type, size, path, mime_type, created_at)
-                 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-                newNodeId, targetUserId, newParentId, newName, 'file', node.size, newPath, node.mime_type, now
-            );
-        }
+        await db.run(
+            `INSERT INTO files (id, user_id, parent_id, name, type, size, path, mime_type, created_at, blob_hash)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            newNodeId, targetUserId, newParentId, newName, 'file', node.size, content.path, node.mime_type, now, content.blobHash
+        );
+        await adjustFolderTotals(db, newParentId, { size: node.size, files: 1, folders: 0 });
+        return { id: newNodeId, name: newName, type: 'file' };
     }
 }
 
-
-// Download File
-app.get('/api/download/:fileId', async (req, res) => {
-    const userId = req.headers['x-user-id'] as string;
+// Sends a file the caller owns or can see through a share (of the file or a folder above it), as a
+// download or to show in place. Players and resumed downloads come back with ranges of the same
+// file; only the request from the start counts as an open.
+async function sendFileNode(req: any, res: any, disposition: Disposition) {
+    const userId = req.user.id;
     const { fileId } = req.params;
 
     if (!userId || !fileId) {
@@ -1469,14 +2862,8 @@ app.get('/api/download/:fileId', async (req, res) => {
     const db = await getDb();
 
     try {
-        const file = await db.get(
-            `SELECT f.* FROM files f 
-             LEFT JOIN shared_files sf ON f.id = sf.file_id 
-             WHERE f.id = ? AND (f.user_id = ? OR sf.to_user_id = ?)`,
-            fileId, userId, userId
-        );
-
-        if (!file) {
+        const file = await db.get('SELECT * FROM files WHERE id = ?', fileId);
+        if (!file || !await checkFolderAccess(db, file.id, userId)) {
             return res.status(404).json({ error: 'File not found' });
         }
 
@@ -1484,20 +2871,143 @@ app.get('/api/download/:fileId', async (req, res) => {
             return res.status(400).json({ error: 'Cannot download folder directly. Use /api/download-folder instead' });
         }
 
-        if (!file.path || !fs.existsSync(file.path)) {
+        const contentPath = getContentPath(file);
+        if (!contentPath || !fs.existsSync(contentPath)) {
             return res.status(404).json({ error: 'File not found on disk' });
         }
 
-        res.download(file.path, file.name);
+        const range = req.get('Range');
+        if (req.method === 'GET' && (!range || /^bytes=0-/.test(range.trim()))) {
+            await recordRecent(db, userId, file.id, 'open');
+            await recordAudit(req, {
+                action: 'file.download',
+                targetType: 'file',
+                targetId: file.id,
+                targetName: file.name,
+                oldPath: await getNodePath(db, file.id),
+                details: file.user_id !== userId ? { ownerId: file.user_id } : undefined
+            });
+        }
+        await sendFileContent(req, res, { path: contentPath, name: file.name, mimeType: file.mime_type, blobHash: file.blob_hash }, disposition);
     } catch (error) {
         console.error('Download error:', error);
-        res.status(500).json({ error: 'Download failed' });
+        if (!res.headersSent) {
+            res.status(500).json({ error: 'Download failed' });
+        } else {
+            res.destroy();
+        }
+    }
+}
+
+// Signed link to download a file or folder the caller can open, for browsers to follow without the
+// session token. With a versionId the link downloads that earlier version of one of the caller's files.
+app.post('/api/files/:id/download-link', async (req, res) => {
+    const userId = req.user.id;
+    const { versionId } = req.body || {};
+    const db = await getDb();
+
+    try {
+        const node = await db.get('SELECT id, user_id, type FROM files WHERE id = ?', req.params.id);
+        if (!node || !await checkFolderAccess(db, node.id, userId)) {
+            return res.status(404).json({ error: 'File not found' });
+        }
+        if (versionId && (node.user_id !== userId || !await getVersion(db, node.id, versionId))) {
+            return res.status(404).json({ error: 'Version not found' });
+        }
+
+        const { signature, expiresAt } = await createDownloadSignature(userId, req.sessionId, node.id);
+        const id = encodeURIComponent(node.id);
+        const query = `sig=${encodeURIComponent(signature)}`;
+        if (versionId) {
+            return res.json({ url: `/api/download-version/${id}/${encodeURIComponent(versionId)}?${query}`, expiresAt });
+        }
+        if (node.type === 'folder') {
+            return res.json({ url: `/api/download-folder/${id}?${query}`, expiresAt });
+        }
+        res.json({ url: `/api/download/${id}?${query}`, streamUrl: `/api/stream/${id}?${query}`, expiresAt });
+    } catch (error) {
+        console.error('Download link error:', error);
+        res.status(500).json({ error: 'Failed to create download link' });
+    }
+});
+
+// Download File
+app.get('/api/download/:fileId', (req, res) => sendFileNode(req, res, 'attachment'));
+
+// Stream a file for players and previews: shown in place unless ?disposition=attachment
+app.get('/api/stream/:fileId', (req, res) => {
+    sendFileNode(req, res, req.query.disposition === 'attachment' ? 'attachment' : 'inline');
+});
+
+// A thumbnail of an image the caller can see, as JPEG: ?size=small (the default) or medium. Made on
+// the spot when there is none yet; 404 for files that are not images or cannot be decoded.
+app.get('/api/files/:id/thumbnail', async (req, res) => {
+    const size = (req.query.size ?? 'small') as ThumbnailSize;
+    if (!Object.hasOwn(THUMBNAIL_SIZES, size)) {
+        return res.status(400).json({ error: `size must be one of ${Object.keys(THUMBNAIL_SIZES).join(', ')}` });
+    }
+
+    const db = await getDb();
+    try {
+        const file = await db.get('SELECT * FROM files WHERE id = ?', req.params.id);
+        if (!file || !await checkFolderAccess(db, file.id, req.user.id)) {
+            return res.status(404).json({ error: 'File not found' });
+        }
+
+        const thumbnailPath = await getThumbnail(db, file, size);
+        if (!thumbnailPath) {
+            return res.status(404).json({ error: 'No thumbnail for this file' });
+        }
+        const baseName = file.name.replace(/\.[^.]*$/, '');
+        await sendFileContent(req, res, { path: thumbnailPath, name: `${baseName}-${size}.jpg`, mimeType: 'image/jpeg' }, 'inline');
+    } catch (error) {
+        console.error('Thumbnail error:', error);
+        if (!res.headersSent) {
+            res.status(500).json({ error: 'Failed to get thumbnail' });
+        } else {
+            res.destroy();
+        }
+    }
+});
+
+// Download an earlier version of one of my files, under the file's current name
+app.get('/api/download-version/:fileId/:versionId', async (req, res) => {
+    const userId = req.user.id;
+    const db = await getDb();
+    try {
+        const file = await db.get('SELECT * FROM files WHERE id = ? AND user_id = ? AND type = "file"', req.params.fileId, userId);
+        const version = file && await getVersion(db, file.id, req.params.versionId);
+        if (!version) {
+            return res.status(404).json({ error: 'Version not found' });
+        }
+
+        const versionPath = getVersionContentPath(version);
+        if (!fs.existsSync(versionPath)) {
+            return res.status(404).json({ error: 'Version not found on disk' });
+        }
+
+        await recordAudit(req, {
+            action: 'file.download',
+            targetType: 'file',
+            targetId: file.id,
+            targetName: file.name,
+            oldPath: await getNodePath(db, file.id),
+            details: { versionId: version.id, uploadedAt: version.uploaded_at }
+        });
+        await sendFileContent(req, res, { path: versionPath, name: file.name, mimeType: version.mime_type, blobHash: version.blob_hash }, 'attachment');
+    } catch (error) {
+        console.error('Download version error:', error);
+        if (!res.headersSent) {
+            res.status(500).json({ error: 'Download failed' });
+        } else {
+            res.destroy();
+        }
     }
 });
 
 // Download Folder as ZIP
 app.get('/api/download-folder/:folderId', async (req, res) => {
-    const userId = (req.headers['x-user-id'] as string) || (req.query.userId as string);
+    const userId = req.user.id;
     const { folderId } = req.params;
 
     if (!userId || !folderId) {
@@ -1507,17 +3017,23 @@ app.get('/api/download-folder/:folderId', async (req, res) => {
     const db = await getDb();
 
     try {
-        const folder = await db.get(
-            `SELECT f.* FROM files f 
-             LEFT JOIN shared_files sf ON f.id = sf.file_id 
-             WHERE f.id = ? AND f.type = "folder" AND (f.user_id = ? OR sf.to_user_id = ?)`,
-            folderId, userId, userId
-        );
+        // Same rule as /api/download-link, so a link issued for a nested shared folder works
+        const folder = await db.get('SELECT * FROM files WHERE id = ? AND type = "folder"', folderId);
 
-        if (!folder) {
+        if (!folder || !await checkFolderAccess(db, folder.id, userId)) {
             return res.status(404).json({ error: 'Folder not found' });
         }
 
+        await recordRecent(db, userId, folder.id, 'open');
+        await recordAudit(req, {
+            action: 'folder.download',
+            targetType: 'folder',
+            targetId: folder.id,
+            targetName: folder.name,
+            oldPath: await getNodePath(db, folder.id),
+            details: folder.user_id !== userId ? { ownerId: folder.user_id } : undefined
+        });
+
         // Set headers for ZIP download
         res.setHeader('Content-Type', 'application/zip');
         res.setHeader('Content-Disposition', `attachment; filename="${folder.name}.zip"`);
@@ -1563,8 +3079,9 @@ app.get('/api/download-folder/:folderId', async (req, res) => {
                     await addFolderToZip(child.id, pathInZip);
                 } else {
                     // Add file
-                    if (child.path && fs.existsSync(child.path)) {
-                        archive.file(child.path, { name: pathInZip });
+                    const contentPath = getContentPath(child);
+                    if (contentPath && fs.existsSync(contentPath)) {
+                        archive.file(contentPath, { name: pathInZip });
                     }
                 }
             }
@@ -1607,7 +3124,7 @@ const checkFolderAccess = async (db: any, folderId: string, userId: string) => {
 
 // Browse Shared Folder Children
 app.get('/api/browse/:folderId', async (req, res) => {
-    const userId = req.headers['x-user-id'] as string;
+    const userId = req.user.id;
     const { folderId } = req.params;
 
     if (!userId || !folderId) {
@@ -1630,7 +3147,104 @@ app.get('/api/browse/:folderId', async (req, res) => {
     }
 });
 
-const server = app.listen(PORT, () => {
+// Starred and recent rows in the API shape, leaving out nodes the caller can no longer open.
+// Nodes of other users come with their owner as `sharedBy`.
+async function mapAccessibleNodes(db: any, userId: string, rows: any[], extra: (row: any) => object) {
+    const starredIds = await getStarredIds(db, userId);
+    const tagsByNode = await getTagsByNode(db, userId);
+    const owners = new Map<string, any>();
+    const nodes = [];
+    for (const row of rows) {
+        const own = row.user_id === userId;
+        if (!own && !await checkFolderAccess(db, row.id, userId)) continue;
+        if (!own && !owners.has(row.user_id)) {
+            owners.set(row.user_id, await db.get('SELECT id, username FROM users WHERE id = ?', row.user_id));
+        }
+        nodes.push({
+            id: row.id,
+            parentId: row.parent_id,
+            ownerId: row.user_id,
+            name: row.name,
+            type: row.type,
+            size: row.size,
+            mimeType: row.mime_type,
+            createdAt: row.created_at,
+            ...mapFolderCounts(row),
+            tags: own ? tagsByNode.get(row.id) || [] : [],
+            starred: starredIds.has(row.id),
+            sharedBy: own ? null : owners.get(row.user_id) || null,
+            ...extra(row)
+        });
+    }
+    return nodes;
+}
+
+// Starred nodes, own and shared, most recently starred first
+app.get('/api/starred', async (req, res) => {
+    const userId = req.user.id;
+    const db = await getDb();
+    try {
+        const rows = await listStarred(db, userId);
+        res.json(await mapAccessibleNodes(db, userId, rows, row => ({ starredAt: row.starred_at })));
+    } catch (error) {
+        console.error('List starred error:', error);
+        res.status(500).json({ error: 'Failed to load starred items' });
+    }
+});
+
+// Star (starred: true) or unstar many nodes at once
+app.put('/api/starred', async (req, res) => {
+    const userId = req.user.id;
+    const { fileIds, starred } = req.body;
+    if (!Array.isArray(fileIds) || !fileIds.every(id => typeof id === 'string') || typeof starred !== 'boolean') {
+        return res.status(400).json({ error: 'fileIds must be a list of ids and starred a boolean' });
+    }
+
+    const db = await getDb();
+    try {
+        // Unstarring is always allowed, so stars on nodes that are no longer shared can be cleared
+        const allowed = [];
+        for (const fileId of fileIds) {
+            if (!starred || await checkFolderAccess(db, fileId, userId)) allowed.push(fileId);
+        }
+        await setStarred(db, userId, allowed, starred);
+        res.json({ success: true, updated: allowed.length });
+    } catch (error) {
+        console.error('Update starred error:', error);
+        res.status(500).json({ error: 'Failed to update starred items' });
+    }
+});
+
+// Recently opened, uploaded and edited nodes, newest first
+app.get('/api/recent', async (req, res) => {
+    const userId = req.user.id;
+    const db = await getDb();
+    try {
+        const rows = await listRecent(db, userId);
+        res.json(await mapAccessibleNodes(db, userId, rows, row => ({ lastAction: row.recent_action, lastActionAt: row.recent_at })));
+    } catch (error) {
+        console.error('List recent error:', error);
+        res.status(500).json({ error: 'Failed to load recent items' });
+    }
+});
+
+// Opening a file in the app without downloading it (the details panel) also counts as recent
+app.post('/api/files/:id/open', async (req, res) => {
+    const userId = req.user.id;
+    const db = await getDb();
+    try {
+        if (!await checkFolderAccess(db, req.params.id, userId)) {
+            return res.status(404).json({ error: 'File not found' });
+        }
+        await recordRecent(db, userId, req.params.id, 'open');
+        res.json({ success: true });
+    } catch (error) {
+        console.error('Record open error:', error);
+        res.status(500).json({ error: 'Failed to record open' });
+    }
+});
+
+export const server = app.listen(PORT, () => {
     console.log(`Server running on http://localhost:${PORT}`);
 });
 
@@ -0,0 +1,125 @@
+import { Client, InvalidCredentialsError } from 'ldapts';
+import type { AuthProvider } from './authProviders';
+
+// LDAP / Active Directory sign-in: search for the user with a service account, then bind as the
+// user's DN with the typed password. Everything is configured through environment variables.
+export interface LdapConfig {
+    url: string;
+    bindDn: string | null;
+    bindPassword: string;
+    baseDn: string;
+    userFilter: string;
+    emailAttribute: string;
+    nameAttribute: string;
+    groupAttribute: string;
+    adminGroups: string[];
+    allowedGroups: string[];
+    defaultQuotaBytes: number;
+    timeoutMs: number;
+}
+
+// Group DNs contain commas, so group lists are separated by semicolons
+const parseGroups = (value: string | undefined) =>
+    (value || '').split(';').map(g => normalizeDn(g)).filter(Boolean);
+
+const normalizeDn = (dn: string) => dn.trim().toLowerCase().replace(/\s*,\s*/g, ',');
+
+export function getLdapConfig(): LdapConfig | null {
+    const env = process.env;
+    if (!env.LDAP_URL) return null;
+    if (!env.LDAP_BASE_DN) throw new Error('LDAP_URL is set but LDAP_BASE_DN is missing');
+
+    return {
+        url: env.LDAP_URL,
+        bindDn: env.LDAP_BIND_DN || null,
+        bindPassword: env.LDAP_BIND_PASSWORD || '',
+        baseDn: env.LDAP_BASE_DN,
+        userFilter: env.LDAP_USER_FILTER || '(mail={{login}})',
+        emailAttribute: env.LDAP_EMAIL_ATTRIBUTE || 'mail',
+        nameAttribute: env.LDAP_NAME_ATTRIBUTE || 'cn',
+        groupAttribute: env.LDAP_GROUP_ATTRIBUTE || 'memberOf',
+        adminGroups: parseGroups(env.LDAP_ADMIN_GROUPS),
+        allowedGroups: parseGroups(env.LDAP_ALLOWED_GROUPS),
+        defaultQuotaBytes: (Number(env.LDAP_DEFAULT_QUOTA_MB) || 2048) * 1024 * 1024,
+        timeoutMs: Number(env.LDAP_TIMEOUT_MS) || 5000
+    };
+}
+
+// RFC 4515 escaping for values placed inside a search filter
+export function escapeFilterValue(value: string) {
+    return value.replace(/[\\*()\0]/g, c => '\\' + c.charCodeAt(0).toString(16).padStart(2, '0'));
+}
+
+// Attribute names are case-insensitive in LDAP, so "memberof" and "memberOf" are the same attribute
+const attributeValues = (entry: Record<string, unknown>, name: string): string[] => {
+    const key = Object.keys(entry).find(k => k.toLowerCase() === name.toLowerCase());
+    const value = key ? entry[key] : undefined;
+    if (value === undefined || value === null) return [];
+    const list = Array.isArray(value) ? value : [value];
+    return list.map(v => Buffer.isBuffer(v) ? v.toString('utf8') : String(v));
+};
+
+export function createLdapProvider(config: LdapConfig): AuthProvider {
+    const newClient = () => new Client({
+        url: config.url,
+        timeout: config.timeoutMs,
+        connectTimeout: config.timeoutMs
+    });
+
+    return {
+        name: 'ldap',
+        async authenticate(login, password) {
+            // An empty password would be an unauthenticated bind, which most servers accept
+            if (!login || !password) return null;
+
+            const client = newClient();
+            try {
+                if (config.bindDn) {
+                    await client.bind(config.bindDn, config.bindPassword);
+                }
+
+                const { searchEntries } = await client.search(config.baseDn, {
+                    scope: 'sub',
+                    filter: config.userFilter.replace(/\{\{login\}\}/g, escapeFilterValue(String(login))),
+                    attributes: [config.emailAttribute, config.nameAttribute, config.groupAttribute],
+                    sizeLimit: 2
+                });
+                // Ambiguous logins are refused rather than guessing which entry was meant
+                if (searchEntries.length !== 1) return null;
+                const entry = searchEntries[0];
+
+                try {
+                    await client.bind(entry.dn, String(password));
+                } catch (error) {
+                    if (error instanceof InvalidCredentialsError) return null;
+                    throw error;
+                }
+
+                const groups = attributeValues(entry, config.groupAttribute).map(normalizeDn);
+                const isAdmin = config.adminGroups.some(g => groups.includes(g));
+                if (config.allowedGroups.length && !isAdmin && !config.allowedGroups.some(g => groups.includes(g))) {
+                    return null;
+                }
+
+                const email = attributeValues(entry, config.emailAttribute)[0];
+                if (!email) {
+                    console.error(`LDAP entry ${entry.dn} has no ${config.emailAttribute} attribute`);
+                    return null;
+                }
+
+                return {
+                    kind: 'identity',
+                    identity: {
+                        externalId: entry.dn,
+                        email,
+                        username: attributeValues(entry, config.nameAttribute)[0] || email.split('@')[0],
+                        role: isAdmin ? 'admin' : 'user',
+                        storageLimit: config.defaultQuotaBytes
+                    }
+                };
+            } finally {
+                await client.unbind().catch(() => {});
+            }
+        }
+    };
+}
@@ -0,0 +1,88 @@
+import path from 'path';
+import { fileURLToPath } from 'url';
+import ldap from 'ldapjs';
+
+// Minimal in-memory LDAP server for trying out and testing directory sign-in without a real
+// OpenLDAP / Active Directory. Run it with `npm run ldap`, then start the app with:
+//
+//   LDAP_URL=ldap://127.0.0.1:3890 LDAP_BASE_DN=ou=people,dc=fluxlocal,dc=test
+//   LDAP_BIND_DN=cn=service,dc=fluxlocal,dc=test LDAP_BIND_PASSWORD=service-secret
+//   LDAP_ADMIN_GROUPS=cn=storage-admins,ou=groups,dc=fluxlocal,dc=test
+//   LDAP_ALLOWED_GROUPS=cn=storage-users,ou=groups,dc=fluxlocal,dc=test
+//
+// Only simple binds and searches are supported; every entry is readable by every bound client.
+// The tests start it on a free port with startLdapStandin(0).
+const PORT = Number(process.env.LDAP_STANDIN_PORT) || 3890;
+const SUFFIX = 'dc=fluxlocal,dc=test';
+const ADMINS_GROUP = `cn=storage-admins,ou=groups,${SUFFIX}`;
+const USERS_GROUP = `cn=storage-users,ou=groups,${SUFFIX}`;
+
+interface StandinEntry {
+    dn: string;
+    password?: string;
+    attributes: Record<string, string[]>;
+}
+
+const person = (uid: string, name: string, password: string, groups: string[]): StandinEntry => ({
+    dn: `uid=${uid},ou=people,${SUFFIX}`,
+    password,
+    attributes: {
+        objectClass: ['inetOrgPerson'],
+        uid: [uid],
+        cn: [name],
+        mail: [`${uid}@fluxlocal.test`],
+        memberOf: groups
+    }
+});
+
+const ENTRIES: StandinEntry[] = [
+    { dn: `cn=service,${SUFFIX}`, password: 'service-secret', attributes: { objectClass: ['person'], cn: ['service'] } },
+    person('alice', 'Alice Admin', 'alice-pass', [ADMINS_GROUP]),
+    person('bob', 'Bob Builder', 'bob-pass', [USERS_GROUP]),
+    // Exists in the directory but is in neither group, so LDAP_ALLOWED_GROUPS keeps her out
+    person('carol', 'Carol Contractor', 'carol-pass', [])
+];
+
+const normalize = (dn: string) => dn.toLowerCase().replace(/\s*,\s*/g, ',');
+const findEntry = (dn: string) => ENTRIES.find(e => normalize(e.dn) === normalize(dn));
+
+export function startLdapStandin(port = PORT): Promise<ldap.Server> {
+    const server = ldap.createServer();
+
+    server.bind(SUFFIX, (req: any, res: any, next: any) => {
+        const entry = findEntry(req.dn.toString());
+        if (!entry || !entry.password || entry.password !== req.credentials) {
+            return next(new ldap.InvalidCredentialsError());
+        }
+        res.end();
+        return next();
+    });
+
+    server.search(SUFFIX, (req: any, res: any, next: any) => {
+        const base = normalize(req.dn.toString());
+        // ldapjs compares requested attribute names case-sensitively against lower-cased entry names;
+        // real servers treat them case-insensitively
+        res.attributes = res.attributes.map((a: string) => a.toLowerCase());
+        for (const entry of ENTRIES) {
+            const dn = normalize(entry.dn);
+            const inScope = req.scope === 'base' ? dn === base : dn === base || dn.endsWith(`,${base}`);
+            if (inScope && req.filter.matches(entry.attributes, false)) {
+                res.send({ dn: entry.dn, attributes: entry.attributes });
+            }
+        }
+        res.end();
+        return next();
+    });
+
+    return new Promise(resolve => server.listen(port, '127.0.0.1', () => resolve(server)));
+}
+
+// Run as a script (npm run ldap) rather than imported
+if (process.argv[1] && path.resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+    startLdapStandin().then(() => {
+        console.log(`LDAP stand-in listening at ldap://127.0.0.1:${PORT}`);
+        for (const entry of ENTRIES.filter(e => e.attributes.mail)) {
+            console.log(`  ${entry.attributes.mail[0]} / ${entry.password}  (${entry.attributes.memberOf.join('; ') || 'no groups'})`);
+        }
+    });
+}
@@ -0,0 +1,155 @@
+import { mapFolderCounts } from './folderStats';
+
+// Paged listings of a folder's children, sorted and filtered in the database. Pages are cut with a
+// keyset cursor (the sort values and id of the last row sent) instead of an offset, so a page costs
+// the same however deep it is and rows do not repeat or go missing while the folder changes.
+export const LISTING_SORTS = ['name', 'size', 'createdAt', 'type'] as const;
+export type ListingSort = typeof LISTING_SORTS[number];
+
+export const DEFAULT_PAGE_SIZE = 100;
+export const MAX_PAGE_SIZE = 500;
+
+export const INVALID_LISTING_QUERY =
+    `sort must be one of: ${LISTING_SORTS.join(', ')}; order asc or desc; limit 1 to ${MAX_PAGE_SIZE}; type file or folder; cursor as returned`;
+
+export interface ListingOptions {
+    sort: ListingSort;
+    order: 'asc' | 'desc';
+    limit: number;
+    cursor: any[] | null;
+    type?: 'file' | 'folder';
+    q?: string; // Part of the name
+    tagId?: string;
+}
+
+// The id always comes last, so that every row has its own place in the order
+const SORT_COLUMNS: Record<ListingSort, string[]> = {
+    name: ['name COLLATE NOCASE', 'id'],
+    size: ['size', 'name COLLATE NOCASE', 'id'],
+    createdAt: ['created_at', 'id'],
+    type: [`CASE type WHEN 'folder' THEN 0 ELSE 1 END`, 'name COLLATE NOCASE', 'id']
+};
+
+const encodeCursor = (values: any[]) => Buffer.from(JSON.stringify(values)).toString('base64url');
+
+function decodeCursor(cursor: string, sort: ListingSort): any[] | null {
+    try {
+        const values = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+        return Array.isArray(values) && values.length === SORT_COLUMNS[sort].length ? values : null;
+    } catch {
+        return null;
+    }
+}
+
+// Query string to listing options; null when a value is not understood
+export function parseListingQuery(query: any): ListingOptions | null {
+    const sort = query.sort || 'name';
+    const order = query.order || 'asc';
+    const limit = query.limit === undefined ? DEFAULT_PAGE_SIZE : Number(query.limit);
+    if (!LISTING_SORTS.includes(sort) || (order !== 'asc' && order !== 'desc')) return null;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) return null;
+    if (query.type !== undefined && query.type !== 'file' && query.type !== 'folder') return null;
+
+    const cursor = typeof query.cursor === 'string' && query.cursor ? decodeCursor(query.cursor, sort) : null;
+    if (query.cursor && !cursor) return null;
+
+    return {
+        sort,
+        order,
+        limit,
+        cursor,
+        type: query.type,
+        q: typeof query.q === 'string' && query.q.trim() ? query.q.trim() : undefined,
+        tagId: typeof query.tag === 'string' && query.tag ? query.tag : undefined
+    };
+}
+
+// Rows that come after the cursor: (a > ?) OR (a = ? AND b > ?) OR ...
+function afterCursor(columns: string[], values: any[], op: '>' | '<') {
+    const clauses: string[] = [];
+    const params: any[] = [];
+    columns.forEach((column, i) => {
+        clauses.push('(' + [...columns.slice(0, i).map(c => `${c} = ?`), `${column} ${op} ?`].join(' AND ') + ')');
+        params.push(...values.slice(0, i), values[i]);
+    });
+    return { clause: `(${clauses.join(' OR ')})`, params };
+}
+
+// One page of a folder's children (parentId null for the owner's root), with the cursor of the next
+// page or null after the last one
+export async function listChildren(db: any, ownerId: string, parentId: string | null, options: ListingOptions) {
+    const columns = SORT_COLUMNS[options.sort];
+    const clauses = ['user_id = ?', 'parent_id IS ?'];
+    const params: any[] = [ownerId, parentId];
+
+    if (options.type) {
+        clauses.push('type = ?');
+        params.push(options.type);
+    }
+    if (options.q) {
+        clauses.push(`name LIKE ? ESCAPE '\\'`);
+        params.push(`%${options.q.replace(/[\\%_]/g, c => '\\' + c)}%`);
+    }
+    if (options.tagId) {
+        clauses.push('id IN (SELECT file_id FROM file_tags WHERE tag_id = ?)');
+        params.push(options.tagId);
+    }
+    if (options.cursor) {
+        const after = afterCursor(columns, options.cursor, options.order === 'asc' ? '>' : '<');
+        clauses.push(after.clause);
+        params.push(...after.params);
+    }
+
+    const direction = options.order === 'asc' ? 'ASC' : 'DESC';
+    const rows = await db.all(
+        `SELECT *, ${columns.map((column, i) => `${column} AS sort_${i}`).join(', ')} FROM files
+         WHERE ${clauses.join(' AND ')}
+         ORDER BY ${columns.map(column => `${column} ${direction}`).join(', ')}
+         LIMIT ?`,
+        ...params, options.limit + 1
+    );
+
+    const page = rows.slice(0, options.limit);
+    const last = page[page.length - 1];
+    return {
+        rows: page,
+        nextCursor: rows.length > options.limit ? encodeCursor(columns.map((_, i) => last[`sort_${i}`])) : null
+    };
+}
+
+// The folders from the top of what the user can see down to the folder itself: from the drive root
+// for the owner, from the shared folder for anyone it was shared with. Null when the user has no
+// access to the folder.
+export async function getFolderPath(db: any, folderId: string, userId: string) {
+    const path: any[] = [];
+    const visited = new Set<string>();
+    let current: string | null = folderId;
+    while (current && !visited.has(current)) {
+        visited.add(current);
+        const node = await db.get('SELECT id, parent_id, user_id, name FROM files WHERE id = ?', current);
+        if (!node) return null;
+        path.unshift(node);
+        if (node.user_id !== userId && await db.get('SELECT 1 FROM shared_files WHERE file_id = ? AND to_user_id = ?', node.id, userId)) {
+            return path;
+        }
+        current = node.parent_id;
+    }
+    return !current && path[0].user_id === userId ? path : null;
+}
+
+// A files row in the API shape of the drive listings
+export function mapFileNode(f: any, tagsByNode: Map<string, string[]>, starredIds: Set<string>) {
+    return {
+        id: f.id,
+        parentId: f.parent_id,
+        ownerId: f.user_id,
+        name: f.name,
+        type: f.type,
+        size: f.size,
+        mimeType: f.mime_type,
+        createdAt: f.created_at,
+        ...mapFolderCounts(f),
+        tags: tagsByNode.get(f.id) || [],
+        starred: starredIds.has(f.id)
+    };
+}
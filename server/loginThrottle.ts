@@ -0,0 +1,125 @@
+import { getDb } from './db';
+
+// Failed sign-ins are tracked per account (by email, so unknown emails are throttled the same way)
+// and per client IP. After a few free attempts every further try has to wait exponentially longer;
+// past the lock threshold the key is locked for a fixed period or until an admin unlocks it.
+// IP limits are higher because a whole office may sign in from one address.
+const LIMITS = {
+    account: { freeAttempts: 3, lockThreshold: 10 },
+    ip: { freeAttempts: 20, lockThreshold: 100 }
+};
+type ThrottleKind = keyof typeof LIMITS;
+
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 5 * 60 * 1000;
+export const LOCKOUT_DURATION_MS = 15 * 60 * 1000;
+// Failure counters start over after this long without a failure
+const FAILURE_WINDOW_MS = 60 * 60 * 1000;
+
+export interface ThrottleStatus {
+    reason: 'locked' | 'backoff';
+    retryAfterMs: number;
+    message: string;
+}
+
+export const accountKey = (email: string) => `account:${String(email || '').trim().toLowerCase()}`;
+export const ipKey = (ip: string) => `ip:${ip || 'unknown'}`;
+
+function backoffDelay(kind: ThrottleKind, failures: number) {
+    const { freeAttempts } = LIMITS[kind];
+    if (failures < freeAttempts) return 0;
+    return Math.min(BASE_DELAY_MS * 2 ** (failures - freeAttempts), MAX_DELAY_MS);
+}
+
+function formatWait(ms: number) {
+    const seconds = Math.ceil(ms / 1000);
+    if (seconds < 60) return `${seconds} second${seconds === 1 ? '' : 's'}`;
+    const minutes = Math.ceil(seconds / 60);
+    return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
+
+async function getEntry(key: string) {
+    const db = await getDb();
+    const row = await db.get('SELECT * FROM login_throttle WHERE key = ?', key);
+    if (!row) return null;
+
+    const now = Date.now();
+    if ((!row.locked_until || row.locked_until < now) && now - row.last_failure_at > FAILURE_WINDOW_MS) {
+        await db.run('DELETE FROM login_throttle WHERE key = ?', key);
+        return null;
+    }
+    return row;
+}
+
+function statusFor(row: any, kind: ThrottleKind): ThrottleStatus | null {
+    if (!row) return null;
+    const now = Date.now();
+
+    if (row.locked_until && row.locked_until > now) {
+        const retryAfterMs = row.locked_until - now;
+        return {
+            reason: 'locked',
+            retryAfterMs,
+            message: kind === 'account'
+                ? `This account is locked after too many failed sign-in attempts. Try again in ${formatWait(retryAfterMs)} or ask an admin to unlock it.`
+                : `Too many failed sign-in attempts from your network. Try again in ${formatWait(retryAfterMs)}.`
+        };
+    }
+
+    const nextAllowedAt = row.last_failure_at + backoffDelay(kind, row.failures);
+    if (nextAllowedAt > now) {
+        const retryAfterMs = nextAllowedAt - now;
+        return {
+            reason: 'backoff',
+            retryAfterMs,
+            message: `Too many failed sign-in attempts. Wait ${formatWait(retryAfterMs)} before trying again.`
+        };
+    }
+
+    return null;
+}
+
+// Returns why a sign-in must be refused right now, or null when it may proceed
+export async function checkLoginAllowed(email: string, ip: string): Promise<ThrottleStatus | null> {
+    return statusFor(await getEntry(ipKey(ip)), 'ip')
+        || statusFor(await getEntry(accountKey(email)), 'account');
+}
+
+// One statement, so parallel failures each count: a counter read first and written back afterwards
+// would let them all write the same value. A counter past the failure window starts over.
+async function recordFailureFor(key: string, kind: ThrottleKind) {
+    const db = await getDb();
+    const now = Date.now();
+    const failures = `CASE WHEN (locked_until IS NULL OR locked_until < ?1) AND ?1 - last_failure_at > ?2 THEN 1 ELSE failures + 1 END`;
+
+    await db.run(
+        `INSERT INTO login_throttle (key, failures, last_failure_at, locked_until) VALUES (?3, 1, ?1, CASE WHEN 1 >= ?4 THEN ?5 END)
+         ON CONFLICT(key) DO UPDATE SET
+            failures = ${failures},
+            last_failure_at = ?1,
+            locked_until = CASE WHEN ${failures} >= ?4 THEN ?5 END`,
+        now, FAILURE_WINDOW_MS, key, LIMITS[kind].lockThreshold, now + LOCKOUT_DURATION_MS
+    );
+}
+
+export async function recordLoginFailure(email: string, ip: string) {
+    await recordFailureFor(accountKey(email), 'account');
+    await recordFailureFor(ipKey(ip), 'ip');
+}
+
+// A successful sign-in (or an admin unlock / password reset) clears the account counter.
+// The IP counter is left alone so one valid account cannot be used to reset it.
+export async function clearAccountFailures(email: string) {
+    const db = await getDb();
+    await db.run('DELETE FROM login_throttle WHERE key = ?', accountKey(email));
+}
+
+// Active account locks keyed by lower-cased email, for the admin user list
+export async function getLockedAccounts(): Promise<Map<string, number>> {
+    const db = await getDb();
+    const rows = await db.all(
+        "SELECT key, locked_until FROM login_throttle WHERE key LIKE 'account:%' AND locked_until > ?",
+        Date.now()
+    );
+    return new Map(rows.map((r: any) => [r.key.slice('account:'.length), r.locked_until]));
+}
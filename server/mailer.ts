@@ -0,0 +1,39 @@
+import path from 'path';
+import fs from 'fs';
+
+// There is no SMTP server on the LAN; mail is written to a local "outbox" directory (default)
+// or printed to the console. Select with MAIL_TRANSPORT=outbox|console.
+const MAIL_TRANSPORT = process.env.MAIL_TRANSPORT || 'outbox';
+const outboxDir = path.join(process.cwd(), 'outbox');
+
+export interface MailMessage {
+    to: string;
+    subject: string;
+    text: string;
+}
+
+export async function sendMail(message: MailMessage) {
+    const date = new Date();
+    const raw = [
+        `Date: ${date.toUTCString()}`,
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        '',
+        message.text,
+        ''
+    ].join('\n');
+
+    if (MAIL_TRANSPORT === 'console') {
+        console.log(`----- Mail to ${message.to} -----\n${raw}--------------------------------`);
+        return;
+    }
+
+    if (!fs.existsSync(outboxDir)) {
+        fs.mkdirSync(outboxDir, { recursive: true });
+    }
+
+    const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+    const fileName = `${date.getTime()}_${safeRecipient}.eml`;
+    await fs.promises.writeFile(path.join(outboxDir, fileName), raw);
+    console.log(`Mail to ${message.to} written to outbox/${fileName}`);
+}
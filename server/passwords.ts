@@ -0,0 +1,79 @@
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import { v4 as uuidv4 } from 'uuid';
+import { getDb } from './db';
+
+export const PASSWORD_MIN_LENGTH = 8;
+const PASSWORD_MAX_LENGTH = 128;
+
+// Reset links are valid for one hour and can be used once
+export const RESET_TOKEN_TTL_MS = 60 * 60 * 1000;
+
+const COMMON_PASSWORDS = new Set([
+    'password', 'password1', 'password123', '12345678', '123456789', '1234567890',
+    'qwerty123', 'qwertyuiop', 'letmein1', 'welcome1', 'iloveyou1', 'admin123', 'abc12345'
+]);
+
+// Returns a human-readable reason when the password is not acceptable, null otherwise
+export function validatePassword(password: any, email?: string): string | null {
+    if (typeof password !== 'string' || password.length < PASSWORD_MIN_LENGTH) {
+        return `Password must be at least ${PASSWORD_MIN_LENGTH} characters`;
+    }
+    if (password.length > PASSWORD_MAX_LENGTH) {
+        return `Password must be at most ${PASSWORD_MAX_LENGTH} characters`;
+    }
+    if (!/[a-zA-Z]/.test(password) || !/[0-9]/.test(password)) {
+        return 'Password must contain both letters and numbers';
+    }
+    if (COMMON_PASSWORDS.has(password.toLowerCase())) {
+        return 'Password is too common';
+    }
+    if (email && password.toLowerCase().includes(email.split('@')[0].toLowerCase())) {
+        return 'Password must not contain your email name';
+    }
+    return null;
+}
+
+export function hashPassword(password: string) {
+    return bcrypt.hash(password, 10);
+}
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+// Creates a one-time reset token for a user; only its hash is stored
+export async function createResetToken(userId: string, createdBy: string) {
+    const db = await getDb();
+    const token = crypto.randomBytes(32).toString('base64url');
+    const now = Date.now();
+    const expiresAt = now + RESET_TOKEN_TTL_MS;
+
+    // A new link supersedes any earlier unused one
+    await db.run('UPDATE password_resets SET used_at = ? WHERE user_id = ? AND used_at IS NULL', now, userId);
+    await db.run(
+        `INSERT INTO password_resets (id, user_id, token_hash, created_by, created_at, expires_at)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        uuidv4(), userId, hashToken(token), createdBy, now, expiresAt
+    );
+
+    return { token, expiresAt };
+}
+
+// Looks up a still-usable reset token; returns the reset row joined with the user's email
+export async function findResetToken(token: string) {
+    if (!token || typeof token !== 'string') return null;
+
+    const db = await getDb();
+    const reset = await db.get(
+        `SELECT pr.*, u.email FROM password_resets pr
+         JOIN users u ON pr.user_id = u.id
+         WHERE pr.token_hash = ?`,
+        hashToken(token)
+    );
+    if (!reset || reset.used_at || reset.expires_at < Date.now()) return null;
+    return reset;
+}
+
+export async function markResetTokenUsed(resetId: string) {
+    const db = await getDb();
+    await db.run('UPDATE password_resets SET used_at = ? WHERE id = ?', Date.now(), resetId);
+}
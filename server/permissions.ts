@@ -0,0 +1,31 @@
+import { getDb } from './db';
+
+export type Role = 'admin' | 'user';
+
+export const ROLES: Role[] = ['admin', 'user'];
+
+// Express middleware factory: only lets through callers whose role (from the users table,
+// resolved by the auth middleware) is one of the given roles.
+export function requireRole(...roles: Role[]) {
+    return (req: any, res: any, next: any) => {
+        if (!req.user) {
+            return res.status(401).json({ error: 'Authentication required' });
+        }
+        if (!roles.includes(req.user.role)) {
+            return res.status(403).json({ error: 'Forbidden', message: `Requires role: ${roles.join(' or ')}` });
+        }
+        next();
+    };
+}
+
+export const requireAdmin = requireRole('admin');
+
+// True if removing admin rights from (or deleting) this user would leave no admin behind
+export async function isLastAdmin(userId: string): Promise<boolean> {
+    const db = await getDb();
+    const target = await db.get('SELECT role FROM users WHERE id = ?', userId);
+    if (!target || target.role !== 'admin') return false;
+
+    const { total } = await db.get('SELECT COUNT(*) as total FROM users WHERE role = ?', 'admin');
+    return total <= 1;
+}
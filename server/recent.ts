@@ -0,0 +1,38 @@
+// The Recent view: the server notes when a user opens (downloads or views) a file, uploads one or
+// edits one (new content, rename, restored version). Only the latest activity per user and node is
+// kept, and only the newest RECENT_LIMIT nodes per user.
+export const RECENT_ACTIONS = ['open', 'upload', 'edit'] as const;
+export type RecentAction = typeof RECENT_ACTIONS[number];
+
+const RECENT_LIMIT = 100;
+
+export async function recordRecent(db: any, userId: string, fileId: string, action: RecentAction) {
+    await db.run(
+        `INSERT INTO recent_activity (user_id, file_id, action, at) VALUES (?, ?, ?, ?)
+         ON CONFLICT(user_id, file_id) DO UPDATE SET action = excluded.action, at = excluded.at`,
+        userId, fileId, action, Date.now()
+    );
+    await db.run(
+        `DELETE FROM recent_activity WHERE user_id = ? AND file_id NOT IN (
+             SELECT file_id FROM recent_activity WHERE user_id = ? ORDER BY at DESC LIMIT ?
+         )`,
+        userId, userId, RECENT_LIMIT
+    );
+}
+
+// Nodes that still exist, newest activity first; access is checked by the caller
+export async function listRecent(db: any, userId: string) {
+    return db.all(
+        `SELECT f.*, r.action as recent_action, r.at as recent_at FROM recent_activity r
+         JOIN files f ON f.id = r.file_id
+         WHERE r.user_id = ? ORDER BY r.at DESC`,
+        userId
+    );
+}
+
+// For nodes removed for good
+export async function removeRecent(db: any, fileIds: string[]) {
+    for (const fileId of fileIds) {
+        await db.run('DELETE FROM recent_activity WHERE file_id = ?', fileId);
+    }
+}
@@ -0,0 +1,167 @@
+import fs from 'fs';
+import path from 'path';
+
+// Every path on disk that is derived from client input (file and folder names, upload ids, chunk
+// indexes) goes through this module, so nothing can end up outside the owner's uploads/<userId>.
+export const UPLOADS_ROOT = path.join(process.cwd(), 'uploads');
+const TEMP_ROOT = path.join(UPLOADS_ROOT, 'temp');
+const TRASH_ROOT = path.join(UPLOADS_ROOT, 'trash');
+const VERSIONS_ROOT = path.join(UPLOADS_ROOT, 'versions');
+const BLOBS_ROOT = path.join(UPLOADS_ROOT, 'blobs');
+const INCOMING_ROOT = path.join(UPLOADS_ROOT, 'incoming');
+const THUMBNAILS_ROOT = path.join(UPLOADS_ROOT, 'thumbnails');
+
+// NTFS and most Linux file systems limit a single name to 255 bytes
+const MAX_NAME_BYTES = 255;
+
+// Device names Windows refuses as file names, with or without an extension ("con.txt" included)
+const RESERVED_NAMES = /^(con|prn|aux|nul|com[0-9]|lpt[0-9])(\..*)?$/i;
+
+// Separators, characters Windows does not allow in names, and control characters
+const FORBIDDEN_CHARS = /[\/\\<>:"|?*\u0000-\u001f\u007f]/;
+
+export class UnsafePathError extends Error {
+    constructor(message: string, public status = 400) {
+        super(message);
+    }
+}
+
+// Normalizes a single file or folder name and throws UnsafePathError when it cannot be used as is.
+// Names are NFC-normalized (so "é" typed on macOS and Windows is the same file) and trailing dots and
+// spaces are dropped, because Windows strips them silently and two names would map to one file.
+export function sanitizeName(name: unknown): string {
+    if (typeof name !== 'string') {
+        throw new UnsafePathError('Name is required');
+    }
+
+    const normalized = name.normalize('NFC').trim().replace(/[. ]+$/, '');
+    if (!normalized || normalized === '.' || normalized === '..') {
+        throw new UnsafePathError('Invalid name');
+    }
+    if (FORBIDDEN_CHARS.test(normalized)) {
+        throw new UnsafePathError('Names cannot contain / \\ < > : " | ? * or control characters');
+    }
+    if (RESERVED_NAMES.test(normalized)) {
+        throw new UnsafePathError(`"${normalized}" is a reserved name`);
+    }
+    if (Buffer.byteLength(normalized, 'utf8') > MAX_NAME_BYTES) {
+        throw new UnsafePathError('Name is too long');
+    }
+    return normalized;
+}
+
+const isInside = (root: string, target: string) => {
+    const relative = path.relative(root, target);
+    return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+};
+
+// Real path of the deepest part of `target` that exists, so a symlink inside the tree
+// cannot point the rest of the path somewhere else
+function realpathOfExisting(target: string) {
+    let current = target;
+    const rest: string[] = [];
+    while (!fs.existsSync(current)) {
+        const parent = path.dirname(current);
+        if (parent === current) return target;
+        rest.unshift(path.basename(current));
+        current = parent;
+    }
+    return path.join(fs.realpathSync(current), ...rest);
+}
+
+export function getUserRoot(userId: string) {
+    if (typeof userId !== 'string' || !/^[A-Za-z0-9-]+$/.test(userId)) {
+        throw new UnsafePathError('Invalid user');
+    }
+    return path.join(UPLOADS_ROOT, userId);
+}
+
+// Returns the resolved path when it lies inside the user's directory, throws otherwise
+export function assertInsideUserRoot(userId: string, target: string) {
+    const root = getUserRoot(userId);
+    const resolved = path.resolve(target);
+    if (!isInside(root, resolved) || (fs.existsSync(root) && !isInside(fs.realpathSync(root), realpathOfExisting(resolved)))) {
+        throw new UnsafePathError('Path is outside the user directory');
+    }
+    return resolved;
+}
+
+// Path for a new entry called `name` inside `parentDir` (which must itself belong to the user)
+export function resolveChildPath(userId: string, parentDir: string, name: unknown) {
+    return assertInsideUserRoot(userId, path.join(assertInsideUserRoot(userId, parentDir), sanitizeName(name)));
+}
+
+// Windows keeps files locked for a moment after they were read; retry before giving up
+export async function renameWithRetry(from: string, to: string) {
+    let retries = 5;
+    while (true) {
+        try {
+            fs.renameSync(from, to);
+            return;
+        } catch (e: any) {
+            if ((e.code === 'EBUSY' || e.code === 'EPERM') && --retries > 0) {
+                await new Promise(r => setTimeout(r, 200));
+            } else {
+                throw e;
+            }
+        }
+    }
+}
+
+// Deleted nodes are kept in uploads/trash/<userId>/<trashItemId>, outside the synced user directory
+export function getTrashItemDir(userId: string, trashItemId: string) {
+    getUserRoot(userId);
+    if (!/^[A-Za-z0-9-]+$/.test(trashItemId)) {
+        throw new UnsafePathError('Invalid trash item');
+    }
+    return path.join(TRASH_ROOT, userId, trashItemId);
+}
+
+// Earlier contents of re-uploaded files are kept in uploads/versions/<userId>/<versionId>
+export function getVersionPath(userId: string, versionId: string) {
+    getUserRoot(userId);
+    if (!/^[A-Za-z0-9-]+$/.test(versionId)) {
+        throw new UnsafePathError('Invalid version');
+    }
+    return path.join(VERSIONS_ROOT, userId, versionId);
+}
+
+// Deduplicated contents live in uploads/blobs/<first two hex digits>/<sha256>
+export function getBlobPath(hash: string) {
+    if (typeof hash !== 'string' || !/^[0-9a-f]{64}$/.test(hash)) {
+        throw new UnsafePathError('Invalid blob');
+    }
+    return path.join(BLOBS_ROOT, hash.slice(0, 2), hash);
+}
+
+// Thumbnails are cached per file under uploads/thumbnails, outside the users' directories
+export function getThumbnailPath(fileId: string, size: string) {
+    if (typeof fileId !== 'string' || !/^[A-Za-z0-9-]+$/.test(fileId) || !/^[a-z]+$/.test(size)) {
+        throw new UnsafePathError('Invalid thumbnail');
+    }
+    return path.join(THUMBNAILS_ROOT, fileId.slice(0, 2), `${fileId}-${size}.jpg`);
+}
+
+// Multipart uploads are written to uploads/incoming and moved into the drive once complete, so the
+// disk watcher never sees a half-written file
+export function getIncomingDir() {
+    return INCOMING_ROOT;
+}
+
+// Chunks are kept in uploads/temp/<userId>/<uploadId>. Upload ids are generated by the client, so
+// they are scoped by user: nobody can add chunks to, or complete, another user's upload.
+export function getUploadTempDir(userId: string, uploadId: unknown) {
+    getUserRoot(userId);
+    if (typeof uploadId !== 'string' || !/^[A-Za-z0-9_-]{1,100}$/.test(uploadId)) {
+        throw new UnsafePathError('Invalid upload id');
+    }
+    return path.join(TEMP_ROOT, userId, uploadId);
+}
+
+export function getChunkPath(tempDir: string, chunkIndex: unknown) {
+    const index = Number(chunkIndex);
+    if (!Number.isInteger(index) || index < 0 || String(chunkIndex).trim() !== String(index)) {
+        throw new UnsafePathError('Invalid chunk index');
+    }
+    return path.join(tempDir, `part_${index}`);
+}
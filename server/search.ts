@@ -0,0 +1,399 @@
+import fs from 'fs';
+import path from 'path';
+import { getContentPath } from './blobs';
+import { getNodePath } from './audit';
+
+// Full-text search over names, drive paths and the text of text, markdown and code files. The
+// FTS5 table search_index is kept next to search_documents, which records for every indexed
+// files row the path and content key it was indexed with. Routes that change a drive and the disk
+// sync update the entries of the nodes they touched (indexNode, indexFolder, removeFromIndex); the
+// whole index is only compared with the files table at startup and when an admin asks for it.
+export const HIGHLIGHT_START = '\u0002';
+export const HIGHLIGHT_END = '\u0003';
+
+// Only the start of large files is indexed
+const MAX_INDEXED_BYTES = 1024 * 1024;
+
+const TEXT_MIME_TYPES = new Set([
+    'application/json', 'application/xml', 'application/javascript', 'application/x-javascript',
+    'application/typescript', 'application/x-typescript', 'application/x-sh', 'application/x-yaml',
+    'application/yaml', 'application/toml', 'application/sql', 'application/x-httpd-php'
+]);
+
+const TEXT_EXTENSIONS = new Set([
+    'txt', 'text', 'md', 'markdown', 'rst', 'csv', 'tsv', 'log', 'json', 'xml', 'yml', 'yaml', 'toml',
+    'ini', 'cfg', 'conf', 'env', 'html', 'htm', 'css', 'scss', 'less', 'js', 'jsx', 'mjs', 'cjs', 'ts',
+    'tsx', 'vue', 'svelte', 'py', 'rb', 'go', 'rs', 'java', 'kt', 'swift', 'c', 'h', 'cc', 'cpp', 'hpp',
+    'cs', 'php', 'pl', 'lua', 'r', 'sh', 'bash', 'zsh', 'ps1', 'bat', 'sql', 'tex'
+]);
+
+export interface SearchFilters {
+    q?: string;
+    type?: 'file' | 'folder';
+    mime?: string;
+    minSize?: number;
+    maxSize?: number;
+    from?: number;
+    to?: number;
+    owner?: string; // 'me' or the id of a user who shared something with the caller
+    sharedWithMe?: boolean;
+}
+
+export function isTextFile(row: any) {
+    if (row.type !== 'file') return false;
+    const mime = (row.mime_type || '').split(';')[0].trim().toLowerCase();
+    if (mime.startsWith('text/') || TEXT_MIME_TYPES.has(mime)) return true;
+    return TEXT_EXTENSIONS.has(path.extname(row.name).slice(1).toLowerCase());
+}
+
+const stripMarkers = (text: string) => text.replace(/[\u0002\u0003]/g, ' ');
+
+// The start of a text file as a string; empty for binary content or a file missing on disk
+async function extractText(row: any) {
+    const contentPath = getContentPath(row);
+    if (!contentPath) return '';
+    let handle: fs.promises.FileHandle | null = null;
+    try {
+        handle = await fs.promises.open(contentPath, 'r');
+        const buffer = Buffer.alloc(Math.min(row.size || 0, MAX_INDEXED_BYTES));
+        const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+        const data = buffer.subarray(0, bytesRead);
+        return data.includes(0) ? '' : stripMarkers(data.toString('utf8'));
+    } catch {
+        return '';
+    } finally {
+        await handle?.close();
+    }
+}
+
+// Changes whenever the content of the row may have changed; null for rows without indexed content
+const contentKey = (row: any) => isTextFile(row)
+    ? `${row.size}:${row.updated_at || row.created_at}:${row.blob_hash || row.path || ''}`
+    : null;
+
+// "/Projects/notes.md" for every row of the user, from one query instead of a walk per row
+function buildDrivePaths(rows: any[]) {
+    const byId = new Map<string, any>(rows.map(row => [row.id, row]));
+    const paths = new Map<string, string>();
+    const resolve = (row: any, seen: Set<string>): string => {
+        const known = paths.get(row.id);
+        if (known !== undefined) return known;
+        const parent = row.parent_id ? byId.get(row.parent_id) : null;
+        seen.add(row.id);
+        const parentPath = parent && !seen.has(parent.id) ? resolve(parent, seen) : '';
+        const drivePath = `${parentPath}/${row.name}`;
+        paths.set(row.id, drivePath);
+        return drivePath;
+    };
+    for (const row of rows) resolve(row, new Set());
+    return paths;
+}
+
+const FILE_COLUMNS = 'id, user_id, parent_id, name, type, size, path, mime_type, blob_hash, created_at, updated_at';
+
+// Updates run one after the other, so their transactions never overlap
+let queue: Promise<void> = Promise.resolve();
+
+function enqueue(job: () => Promise<void>): Promise<void> {
+    const run = queue.then(job).catch(error => console.error('Search index error:', error));
+    queue = run;
+    return run;
+}
+
+// Bounds of the paths below a folder path, for range queries that use the index on path
+// ('0' sorts right after '/')
+const pathsBelow = (folderPath: string) => [`${folderPath}/`, `${folderPath}0`];
+
+async function getDocs(db: any, fileIds: string[]) {
+    const docs = new Map<string, any>();
+    for (let i = 0; i < fileIds.length; i += 500) {
+        const ids = fileIds.slice(i, i + 500);
+        const rows = await db.all(
+            `SELECT doc_id, file_id, path, content_key FROM search_documents WHERE file_id IN (${ids.map(() => '?').join(',')})`,
+            ...ids
+        );
+        rows.forEach((doc: any) => docs.set(doc.file_id, doc));
+    }
+    return docs;
+}
+
+async function inTransaction(db: any, work: () => Promise<void>) {
+    await db.run('BEGIN TRANSACTION');
+    try {
+        await work();
+        await db.run('COMMIT');
+    } catch (error) {
+        await db.run('ROLLBACK');
+        throw error;
+    }
+}
+
+async function deleteDocs(db: any, docIds: number[]) {
+    if (!docIds.length) return;
+    await inTransaction(db, async () => {
+        for (const docId of docIds) {
+            await db.run('DELETE FROM search_index WHERE rowid = ?', docId);
+            await db.run('DELETE FROM search_documents WHERE doc_id = ?', docId);
+        }
+    });
+}
+
+// Which folders indexRows goes on into: those that are new to the index or changed path (their
+// children's paths changed with them), all of them (for changes spread over a tree, as in merges),
+// or none (when the caller passes every row anyway)
+type Descend = 'moved' | 'all' | 'none';
+
+// Brings the entries of rows (files rows with the drive path they are at) up to date
+async function indexRows(db: any, entries: { row: any, drivePath: string }[], descend: Descend) {
+    if (!entries.length) return;
+    const docsByFile = await getDocs(db, entries.map(entry => entry.row.id));
+
+    // Text is read before the transaction so the database is not held while files are read
+    const changes: { row: any, doc: any, drivePath: string, key: string | null, content?: string }[] = [];
+    const folders: { row: any, drivePath: string }[] = [];
+    for (const { row, drivePath } of entries) {
+        const doc = docsByFile.get(row.id);
+        if (row.type === 'folder' && (descend === 'all' || (descend === 'moved' && (!doc || doc.path !== drivePath)))) folders.push({ row, drivePath });
+        const key = contentKey(row);
+        if (doc && doc.path === drivePath && doc.content_key === key) continue;
+        const content = !doc || doc.content_key !== key ? (key ? await extractText(row) : '') : undefined;
+        changes.push({ row, doc, drivePath, key, content });
+    }
+
+    if (changes.length) {
+        await inTransaction(db, async () => {
+            for (const { row, doc, drivePath, key, content } of changes) {
+                if (!doc) {
+                    const result = await db.run(
+                        'INSERT INTO search_documents (file_id, user_id, path, content_key) VALUES (?, ?, ?, ?)',
+                        row.id, row.user_id, drivePath, key
+                    );
+                    await db.run(
+                        'INSERT INTO search_index (rowid, name, path, content) VALUES (?, ?, ?, ?)',
+                        result.lastID, stripMarkers(row.name), stripMarkers(drivePath), content
+                    );
+                    continue;
+                }
+                await db.run('UPDATE search_documents SET path = ?, content_key = ? WHERE doc_id = ?', drivePath, key, doc.doc_id);
+                if (content === undefined) {
+                    await db.run('UPDATE search_index SET name = ?, path = ? WHERE rowid = ?', stripMarkers(row.name), stripMarkers(drivePath), doc.doc_id);
+                } else {
+                    await db.run(
+                        'UPDATE search_index SET name = ?, path = ?, content = ? WHERE rowid = ?',
+                        stripMarkers(row.name), stripMarkers(drivePath), content, doc.doc_id
+                    );
+                }
+            }
+        });
+    }
+
+    for (const { row, drivePath } of folders) {
+        const children = await db.all(`SELECT ${FILE_COLUMNS} FROM files WHERE parent_id = ?`, row.id);
+        await indexRows(db, children.map((child: any) => ({ row: child, drivePath: `${drivePath}/${child.name}` })), descend);
+    }
+}
+
+// A node was created, or its content, name or place changed
+export function indexNode(db: any, nodeId: string): Promise<void> {
+    return enqueue(async () => {
+        const row = await db.get(`SELECT ${FILE_COLUMNS} FROM files WHERE id = ?`, nodeId);
+        if (row) await indexRows(db, [{ row, drivePath: await getNodePath(db, row.id) }], 'moved');
+    });
+}
+
+// Children of a folder (null for the owner's drive root) were added, changed or removed. With `deep`
+// the whole tree below it is compared.
+export function indexFolder(db: any, ownerId: string, folderId: string | null, deep = false): Promise<void> {
+    return enqueue(async () => {
+        if (folderId && !await db.get('SELECT 1 FROM files WHERE id = ? AND user_id = ?', folderId, ownerId)) return;
+        const folderPath = folderId ? await getNodePath(db, folderId) : '';
+        const [from, to] = pathsBelow(folderPath);
+        const gone = await db.all(
+            `SELECT d.doc_id FROM search_documents d LEFT JOIN files f ON f.id = d.file_id
+             WHERE d.user_id = ? AND d.path >= ? AND d.path < ? AND f.id IS NULL`,
+            ownerId, from, to
+        );
+        await deleteDocs(db, gone.map((doc: any) => doc.doc_id));
+
+        const children = folderId
+            ? await db.all(`SELECT ${FILE_COLUMNS} FROM files WHERE parent_id = ?`, folderId)
+            : await db.all(`SELECT ${FILE_COLUMNS} FROM files WHERE user_id = ? AND parent_id IS NULL`, ownerId);
+        await indexRows(db, children.map((child: any) => ({ row: child, drivePath: `${folderPath}/${child.name}` })), deep ? 'all' : 'moved');
+    });
+}
+
+// A node left the drive: its entry goes, with those of everything that was below it. Children
+// that were moved elsewhere first (as in merges) keep theirs.
+export function removeFromIndex(db: any, nodeId: string): Promise<void> {
+    return enqueue(async () => {
+        const doc = await db.get('SELECT doc_id, user_id, path FROM search_documents WHERE file_id = ?', nodeId);
+        if (!doc) return;
+        const [from, to] = pathsBelow(doc.path);
+        const gone = await db.all(
+            `SELECT d.doc_id FROM search_documents d LEFT JOIN files f ON f.id = d.file_id
+             WHERE (d.doc_id = ? OR (d.user_id = ? AND d.path >= ? AND d.path < ?)) AND f.id IS NULL`,
+            doc.doc_id, doc.user_id, from, to
+        );
+        await deleteDocs(db, gone.map((row: any) => row.doc_id));
+    });
+}
+
+// Compares the whole index with the files table and fixes what differs: for every drive at startup,
+// for whatever changed while the server was down, and on an admin's request
+export function rebuildSearchIndex(db: any): Promise<void> {
+    return enqueue(async () => {
+        const orphans = await db.all('SELECT doc_id FROM search_documents WHERE user_id NOT IN (SELECT id FROM users)');
+        await deleteDocs(db, orphans.map((doc: any) => doc.doc_id));
+        const users = await db.all('SELECT id FROM users');
+        for (const { id } of users) {
+            await rebuildUser(db, id);
+        }
+    });
+}
+
+async function rebuildUser(db: any, userId: string) {
+    const rows = await db.all(`SELECT ${FILE_COLUMNS} FROM files WHERE user_id = ?`, userId);
+    const drivePaths = buildDrivePaths(rows);
+    const existing = new Set(rows.map((row: any) => row.id));
+    const docs = await db.all('SELECT doc_id, file_id FROM search_documents WHERE user_id = ?', userId);
+    const removed = docs.filter((doc: any) => !existing.has(doc.file_id)).map((doc: any) => doc.doc_id);
+
+    await deleteDocs(db, removed);
+    // Every row is here with its path, so no folder needs its children read again
+    for (let i = 0; i < rows.length; i += 500) {
+        const entries = rows.slice(i, i + 500).map((row: any) => ({ row, drivePath: drivePaths.get(row.id) as string }));
+        await indexRows(db, entries, 'none');
+    }
+}
+
+// Every word the user typed becomes a quoted prefix term, so FTS5 operators and punctuation in
+// the input are matched as text instead of being parsed as query syntax
+export function toMatchQuery(q: string) {
+    return q.split(/\s+/)
+        .filter(word => /[\p{L}\p{N}]/u.test(word))
+        .map(word => `"${word.replace(/"/g, '""')}"*`)
+        .join(' ');
+}
+
+// Shared items reach the caller through a share of the item itself or of a folder above it;
+// `depth` counts the levels below the shared folder
+const SHARED_TREE = `
+    WITH RECURSIVE shared_tree(id, shared_by, depth) AS (
+        SELECT file_id, from_user_id, 0 FROM shared_files WHERE to_user_id = ?
+        UNION
+        SELECT c.id, t.shared_by, t.depth + 1 FROM files c JOIN shared_tree t ON c.parent_id = t.id
+    )`;
+
+// Best matches first when there is a query (names weigh most, then paths, then content), newest
+// first otherwise. One row more than `limit` is read so the caller can tell whether more follow.
+export async function searchFiles(db: any, userId: string, filters: SearchFilters, limit: number, offset = 0) {
+    const match = filters.q ? toMatchQuery(filters.q) : '';
+    const clauses = ['(f.user_id = ? OR s.id IS NOT NULL)'];
+    const params: any[] = [userId];
+
+    if (match) {
+        clauses.push('search_index MATCH ?');
+        params.push(match);
+    }
+    if (filters.type) {
+        clauses.push('f.type = ?');
+        params.push(filters.type);
+    }
+    if (filters.mime) {
+        // "image", "image/" and "image/*" match the whole family, "image/png" only itself
+        const family = filters.mime.replace(/\/\*?$/, '');
+        if (family.includes('/')) {
+            clauses.push('f.mime_type = ?');
+            params.push(family);
+        } else {
+            clauses.push("f.mime_type LIKE ? ESCAPE '\\'");
+            params.push(`${family.replace(/[\\%_]/g, c => `\\${c}`)}/%`);
+        }
+    }
+    if (filters.minSize !== undefined) {
+        clauses.push('f.size >= ?');
+        params.push(filters.minSize);
+    }
+    if (filters.maxSize !== undefined) {
+        clauses.push('f.size <= ?');
+        params.push(filters.maxSize);
+    }
+    if (filters.from) {
+        clauses.push('COALESCE(f.updated_at, f.created_at) >= ?');
+        params.push(filters.from);
+    }
+    if (filters.to) {
+        clauses.push('COALESCE(f.updated_at, f.created_at) <= ?');
+        params.push(filters.to);
+    }
+    if (filters.owner) {
+        clauses.push('f.user_id = ?');
+        params.push(filters.owner === 'me' ? userId : filters.owner);
+    }
+    if (filters.sharedWithMe) {
+        clauses.push('s.id IS NOT NULL');
+    }
+
+    const highlights = match
+        ? `highlight(search_index, 0, '${HIGHLIGHT_START}', '${HIGHLIGHT_END}') as name_highlight,
+           highlight(search_index, 1, '${HIGHLIGHT_START}', '${HIGHLIGHT_END}') as path_highlight,
+           snippet(search_index, 2, '${HIGHLIGHT_START}', '${HIGHLIGHT_END}', '…', 16) as snippet`
+        : `d.path as path_highlight`;
+    const source = match
+        ? 'search_index JOIN search_documents d ON d.doc_id = search_index.rowid JOIN files f ON f.id = d.file_id'
+        : 'files f JOIN search_documents d ON d.file_id = f.id';
+
+    const rows = await db.all(
+        `${SHARED_TREE}
+         SELECT f.*, d.path as drive_path, ${highlights}, s.id as shared_id, s.depth as shared_depth,
+                u.id as shared_by_id, u.username as shared_by_username
+         FROM ${source}
+         LEFT JOIN (SELECT id, MIN(shared_by) as shared_by, MIN(depth) as depth FROM shared_tree GROUP BY id) s ON s.id = f.id AND f.user_id != ?
+         LEFT JOIN users u ON u.id = s.shared_by
+         WHERE ${clauses.join(' AND ')}
+         ORDER BY ${match ? 'bm25(search_index, 10.0, 2.0, 1.0)' : 'COALESCE(f.updated_at, f.created_at) DESC'}
+         LIMIT ? OFFSET ?`,
+        userId, userId, ...params, limit + 1, offset
+    );
+
+    const hasMore = rows.length > limit;
+    const results = rows.slice(0, limit).map(mapSearchResult).filter(result => result !== null);
+    return { results, hasMore };
+}
+
+// Only the part of a shared item's path below the shared folder is shown. A shared item that only
+// matched on the owner's folders above the share is dropped, so searches cannot probe those names.
+function mapSearchResult(row: any) {
+    const isShared = !!row.shared_id;
+    const visibleParts = (text: string) => isShared
+        ? '/' + text.split('/').slice(-(row.shared_depth + 1)).join('/')
+        : text;
+    const pathHighlight = visibleParts(row.path_highlight);
+    const snippet = row.snippet && row.snippet.includes(HIGHLIGHT_START) ? row.snippet : null;
+
+    if (isShared && row.snippet !== undefined && !pathHighlight.includes(HIGHLIGHT_START) && !snippet) {
+        return null;
+    }
+
+    return {
+        id: row.id,
+        parentId: row.parent_id,
+        ownerId: row.user_id,
+        name: row.name,
+        type: row.type,
+        size: row.size,
+        mimeType: row.mime_type,
+        createdAt: row.created_at,
+        modifiedAt: row.updated_at || row.created_at,
+        path: visibleParts(row.drive_path),
+        // The folder to open for "open containing folder"; null is the drive root, or the list of
+        // shared items for something shared on its own
+        folderId: isShared && row.shared_depth === 0 ? null : row.parent_id,
+        highlights: {
+            name: row.name_highlight ?? row.name,
+            path: pathHighlight,
+            snippet
+        },
+        sharedBy: isShared ? { id: row.shared_by_id, username: row.shared_by_username } : null
+    };
+}
@@ -0,0 +1,36 @@
+// Per-user stars on files and folders. A user can star their own nodes and anything shared with
+// them; a star on a node that is no longer accessible (share removed, node in the trash) is kept but
+// not listed, so it comes back with the node.
+
+export async function setStarred(db: any, userId: string, fileIds: string[], starred: boolean) {
+    const now = Date.now();
+    for (const fileId of fileIds) {
+        if (starred) {
+            await db.run('INSERT OR IGNORE INTO stars (user_id, file_id, created_at) VALUES (?, ?, ?)', userId, fileId, now);
+        } else {
+            await db.run('DELETE FROM stars WHERE user_id = ? AND file_id = ?', userId, fileId);
+        }
+    }
+}
+
+// Starred nodes that still exist, most recently starred first; access is checked by the caller
+export async function listStarred(db: any, userId: string) {
+    return db.all(
+        `SELECT f.*, s.created_at as starred_at FROM stars s
+         JOIN files f ON f.id = s.file_id
+         WHERE s.user_id = ? ORDER BY s.created_at DESC`,
+        userId
+    );
+}
+
+export async function getStarredIds(db: any, userId: string): Promise<Set<string>> {
+    const rows = await db.all('SELECT file_id FROM stars WHERE user_id = ?', userId);
+    return new Set(rows.map((row: any) => row.file_id));
+}
+
+// For nodes removed for good; every user's star on them goes
+export async function removeStars(db: any, fileIds: string[]) {
+    for (const fileId of fileIds) {
+        await db.run('DELETE FROM stars WHERE file_id = ?', fileId);
+    }
+}
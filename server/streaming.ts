@@ -0,0 +1,173 @@
+import fs from 'fs';
+import crypto from 'crypto';
+
+// Sends file content with HTTP range support, so that players can seek, downloads can resume and
+// clients can cache. Responses carry a strong ETag (the content hash for blob storage, otherwise
+// size and modification time) and honour If-Match, If-None-Match, If-Modified-Since,
+// If-Unmodified-Since, Range and If-Range.
+export type Disposition = 'inline' | 'attachment';
+
+export interface FileContent {
+    path: string;
+    name: string;
+    mimeType?: string | null;
+    blobHash?: string | null;
+}
+
+// Types a browser may show in place. Anything it would run or render as a page (HTML, SVG, XML)
+// is always sent as an attachment, so shared content cannot script the app's origin.
+const INLINE_TYPES = [/^image\/(?!svg)/, /^audio\//, /^video\//, /^application\/pdf$/, /^text\/plain$/];
+
+export const canShowInline = (mimeType: string) => INLINE_TYPES.some(pattern => pattern.test(mimeType));
+
+// filename for old clients (ASCII only), filename* (RFC 5987) for the real name
+function contentDisposition(disposition: Disposition, name: string) {
+    const fallback = name.replace(/[^\x20-\x7e]|["\\%]/g, '_');
+    const encoded = encodeURIComponent(name).replace(/['()*]/g, c => '%' + c.charCodeAt(0).toString(16).toUpperCase());
+    return `${disposition}; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
+
+const parseETags = (header: string) => header.split(',').map(tag => tag.trim()).filter(Boolean);
+const weakMatch = (a: string, b: string) => a.replace(/^W\//, '') === b.replace(/^W\//, '');
+
+function parseDate(header: string | undefined) {
+    const time = header ? Date.parse(header) : NaN;
+    return Number.isNaN(time) ? null : time;
+}
+
+// "bytes=0-99,200-,-500" to sorted, merged [start, end] pairs within the file. Null when the header
+// is not a byte range (it is then ignored), [] when no range lies within the file.
+export function parseRange(header: string, size: number): [number, number][] | null {
+    const match = /^bytes=(.+)$/.exec(header.trim());
+    if (!match) return null;
+
+    const ranges: [number, number][] = [];
+    for (const part of match[1].split(',')) {
+        const spec = /^\s*(\d*)-(\d*)\s*$/.exec(part);
+        if (!spec || (!spec[1] && !spec[2])) return null;
+        let start: number, end: number;
+        if (!spec[1]) {
+            // The last n bytes
+            start = Math.max(0, size - Number(spec[2]));
+            end = size - 1;
+        } else {
+            start = Number(spec[1]);
+            end = spec[2] ? Math.min(Number(spec[2]), size - 1) : size - 1;
+            if (spec[2] && Number(spec[2]) < start) return null;
+        }
+        if (start <= end && start < size) ranges.push([start, end]);
+    }
+
+    ranges.sort((a, b) => a[0] - b[0]);
+    const merged: [number, number][] = [];
+    for (const range of ranges) {
+        const last = merged[merged.length - 1];
+        if (last && range[0] <= last[1] + 1) {
+            last[1] = Math.max(last[1], range[1]);
+        } else {
+            merged.push([...range]);
+        }
+    }
+    return merged;
+}
+
+function pipeRange(res: any, filePath: string, start: number, end: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const stream = fs.createReadStream(filePath, { start, end });
+        res.once('close', () => stream.destroy());
+        stream.once('error', reject);
+        stream.once('close', resolve); // Also when the client went away
+        stream.pipe(res, { end: false });
+    });
+}
+
+export async function sendFileContent(req: any, res: any, file: FileContent, disposition: Disposition) {
+    const stat = await fs.promises.stat(file.path);
+    const size = stat.size;
+    const lastModified = new Date(Math.floor(stat.mtimeMs / 1000) * 1000);
+    const etag = file.blobHash
+        ? `"${file.blobHash}"`
+        : `"${size.toString(16)}-${Math.floor(stat.mtimeMs).toString(16)}"`;
+    const mimeType = file.mimeType || 'application/octet-stream';
+
+    res.setHeader('Accept-Ranges', 'bytes');
+    res.setHeader('ETag', etag);
+    res.setHeader('Last-Modified', lastModified.toUTCString());
+    res.setHeader('Cache-Control', 'private, no-cache');
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+
+    // Preconditions (RFC 9110 section 13.2.2): If-Match compares strongly, If-None-Match weakly
+    const ifMatch = req.get('If-Match');
+    if (ifMatch && ifMatch.trim() !== '*' && !parseETags(ifMatch).includes(etag)) {
+        return res.status(412).end();
+    }
+    const ifUnmodifiedSince = parseDate(req.get('If-Unmodified-Since'));
+    if (!ifMatch && ifUnmodifiedSince !== null && lastModified.getTime() > ifUnmodifiedSince) {
+        return res.status(412).end();
+    }
+    const ifNoneMatch = req.get('If-None-Match');
+    if (ifNoneMatch) {
+        if (ifNoneMatch.trim() === '*' || parseETags(ifNoneMatch).some(tag => weakMatch(tag, etag))) {
+            return res.status(304).end();
+        }
+    } else {
+        const ifModifiedSince = parseDate(req.get('If-Modified-Since'));
+        if (ifModifiedSince !== null && lastModified.getTime() <= ifModifiedSince) {
+            return res.status(304).end();
+        }
+    }
+
+    res.setHeader('Content-Disposition', contentDisposition(disposition === 'inline' && canShowInline(mimeType) ? 'inline' : 'attachment', file.name));
+
+    // A Range with If-Range only applies while the content is the one the client has: the ETag must
+    // match strongly, or the date be exactly the last modification
+    let ranges = req.get('Range') && size > 0 ? parseRange(req.get('Range'), size) : null;
+    const ifRange = req.get('If-Range');
+    if (ranges && ifRange) {
+        const fresh = ifRange.trim().startsWith('"')
+            ? ifRange.trim() === etag
+            : parseDate(ifRange) === lastModified.getTime();
+        if (!fresh) ranges = null;
+    }
+
+    if (ranges && ranges.length === 0) {
+        res.setHeader('Content-Range', `bytes */${size}`);
+        return res.status(416).end();
+    }
+
+    if (!ranges) {
+        res.status(200);
+        res.setHeader('Content-Type', mimeType);
+        res.setHeader('Content-Length', size);
+        if (req.method === 'HEAD' || size === 0) return res.end();
+        await pipeRange(res, file.path, 0, size - 1);
+        return res.end();
+    }
+
+    res.status(206);
+    if (ranges.length === 1) {
+        const [start, end] = ranges[0];
+        res.setHeader('Content-Type', mimeType);
+        res.setHeader('Content-Range', `bytes ${start}-${end}/${size}`);
+        res.setHeader('Content-Length', end - start + 1);
+        if (req.method === 'HEAD') return res.end();
+        await pipeRange(res, file.path, start, end);
+        return res.end();
+    }
+
+    // Several ranges go out as multipart/byteranges
+    const boundary = crypto.randomBytes(12).toString('hex');
+    const heads = ranges.map(([start, end], i) =>
+        `${i ? '\r\n' : ''}--${boundary}\r\nContent-Type: ${mimeType}\r\nContent-Range: bytes ${start}-${end}/${size}\r\n\r\n`
+    );
+    const tail = `\r\n--${boundary}--\r\n`;
+    const length = ranges.reduce((sum, [start, end], i) => sum + Buffer.byteLength(heads[i]) + end - start + 1, Buffer.byteLength(tail));
+    res.setHeader('Content-Type', `multipart/byteranges; boundary=${boundary}`);
+    res.setHeader('Content-Length', length);
+    if (req.method === 'HEAD') return res.end();
+    for (let i = 0; i < ranges.length; i++) {
+        res.write(heads[i]);
+        await pipeRange(res, file.path, ranges[i][0], ranges[i][1]);
+    }
+    res.end(tail);
+}
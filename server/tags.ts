@@ -0,0 +1,131 @@
+import { v4 as uuidv4 } from 'uuid';
+
+// User-defined tags that cut across folders. Every user has their own set of tags and can put them
+// on the files and folders they own. Tags belong to the node id, so they stay with a node when it is
+// renamed or moved; copies get the tags of their source, and a trashed node gets them back when it
+// is restored.
+export const TAG_COLORS = ['gray', 'red', 'orange', 'yellow', 'green', 'teal', 'blue', 'indigo', 'purple', 'pink'] as const;
+export type TagColor = typeof TAG_COLORS[number];
+
+const MAX_TAG_NAME_LENGTH = 50;
+
+// Checks a new or changed tag; returns the error message for the client, or null
+export function validateTag(name: unknown, color: unknown, partial = false): string | null {
+    if (!partial || name !== undefined) {
+        if (typeof name !== 'string' || !name.trim()) return 'Tag name is required';
+        if (name.trim().length > MAX_TAG_NAME_LENGTH) return `Tag names can be at most ${MAX_TAG_NAME_LENGTH} characters`;
+    }
+    if (color !== undefined && !(TAG_COLORS as readonly unknown[]).includes(color)) {
+        return `color must be one of: ${TAG_COLORS.join(', ')}`;
+    }
+    return null;
+}
+
+export async function listTags(db: any, userId: string) {
+    return db.all(
+        `SELECT t.*, COUNT(ft.file_id) as item_count FROM tags t
+         LEFT JOIN file_tags ft ON ft.tag_id = t.id
+         WHERE t.user_id = ? GROUP BY t.id ORDER BY t.name COLLATE NOCASE`,
+        userId
+    );
+}
+
+export async function getTag(db: any, userId: string, tagId: string) {
+    return db.get('SELECT * FROM tags WHERE id = ? AND user_id = ?', tagId, userId);
+}
+
+export async function findTagByName(db: any, userId: string, name: string) {
+    return db.get('SELECT * FROM tags WHERE user_id = ? AND name = ? COLLATE NOCASE', userId, name.trim());
+}
+
+export async function createTag(db: any, userId: string, name: string, color: TagColor = 'gray') {
+    const id = uuidv4();
+    await db.run(
+        'INSERT INTO tags (id, user_id, name, color, created_at) VALUES (?, ?, ?, ?, ?)',
+        id, userId, name.trim(), color, Date.now()
+    );
+    return getTag(db, userId, id);
+}
+
+export async function updateTag(db: any, tag: any, changes: { name?: string, color?: TagColor }) {
+    await db.run(
+        'UPDATE tags SET name = ?, color = ? WHERE id = ?',
+        changes.name !== undefined ? changes.name.trim() : tag.name, changes.color ?? tag.color, tag.id
+    );
+    return db.get('SELECT * FROM tags WHERE id = ?', tag.id);
+}
+
+export async function deleteTag(db: any, tagId: string) {
+    await db.run('DELETE FROM file_tags WHERE tag_id = ?', tagId);
+    await db.run('DELETE FROM tags WHERE id = ?', tagId);
+}
+
+// Adds and removes tags on many nodes at once. Only the caller's own nodes and tags are touched;
+// returns the ids of `fileIds` that were theirs.
+export async function updateNodeTags(db: any, userId: string, fileIds: string[], add: string[], remove: string[]) {
+    const nodes = [];
+    for (const fileId of fileIds) {
+        const node = await db.get('SELECT id FROM files WHERE id = ? AND user_id = ?', fileId, userId);
+        if (node) nodes.push(node.id);
+    }
+    const now = Date.now();
+    for (const fileId of nodes) {
+        for (const tagId of add) {
+            await db.run(
+                `INSERT OR IGNORE INTO file_tags (file_id, tag_id, created_at)
+                 SELECT ?, id, ? FROM tags WHERE id = ? AND user_id = ?`,
+                fileId, now, tagId, userId
+            );
+        }
+        for (const tagId of remove) {
+            await db.run(
+                'DELETE FROM file_tags WHERE file_id = ? AND tag_id IN (SELECT id FROM tags WHERE id = ? AND user_id = ?)',
+                fileId, tagId, userId
+            );
+        }
+    }
+    return nodes;
+}
+
+// Tag ids per node for everything the user owns (or only the given nodes), for the file listing
+export async function getTagsByNode(db: any, userId: string, fileIds?: string[]): Promise<Map<string, string[]>> {
+    const onlyNodes = fileIds ? ` AND ft.file_id IN (${fileIds.map(() => '?').join(',') || 'NULL'})` : '';
+    const rows = await db.all(
+        `SELECT ft.file_id, ft.tag_id FROM file_tags ft JOIN tags t ON t.id = ft.tag_id WHERE t.user_id = ?${onlyNodes} ORDER BY t.name COLLATE NOCASE`,
+        userId, ...(fileIds || [])
+    );
+    const byNode = new Map<string, string[]>();
+    for (const row of rows) {
+        const tags = byNode.get(row.file_id) || [];
+        tags.push(row.tag_id);
+        byNode.set(row.file_id, tags);
+    }
+    return byNode;
+}
+
+// A copy (or the folder a copy was merged into) gets the tags of its source, on top of its own
+export async function copyNodeTags(db: any, fromId: string, toId: string) {
+    if (fromId === toId) return;
+    await db.run(
+        'INSERT OR IGNORE INTO file_tags (file_id, tag_id, created_at) SELECT ?, tag_id, ? FROM file_tags WHERE file_id = ?',
+        toId, Date.now(), fromId
+    );
+}
+
+// For nodes that leave the drive for good (removed on disk, merged away)
+export async function removeNodeTags(db: any, fileIds: string[]) {
+    for (const fileId of fileIds) {
+        await db.run('DELETE FROM file_tags WHERE file_id = ?', fileId);
+    }
+}
+
+// Map a tags row to the API shape
+export function mapTag(row: any) {
+    return {
+        id: row.id,
+        name: row.name,
+        color: row.color,
+        itemCount: row.item_count ?? undefined,
+        createdAt: row.created_at
+    };
+}
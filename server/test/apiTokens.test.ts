@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { startServer, TestServer, USER_EMAIL, SEED_PASSWORD } from './server';
+
+let api: TestServer;
+let session: string;
+
+const createToken = async (scope: string) => {
+    const response = await api.request('/api/tokens', { method: 'POST', token: session, json: { name: `${scope} token`, scope } });
+    expect(response.status).toBe(200);
+    return response.json();
+};
+
+beforeAll(async () => {
+    api = await startServer();
+    session = await api.login(USER_EMAIL);
+});
+
+afterAll(async () => {
+    await api.stop();
+});
+
+describe('API token scopes', () => {
+    it('read tokens can list and download but not change anything', async () => {
+        const { token } = await createToken('read');
+        const file = await api.upload(session, 'readme.txt', 'hello');
+
+        expect((await api.request('/api/files', { token })).status).toBe(200);
+        expect((await api.request(`/api/download/${file.id}`, { token })).status).toBe(200);
+        expect((await api.request('/api/folder', { method: 'POST', token, json: { name: 'Scripts' } })).status).toBe(403);
+        expect((await api.request(`/api/files/${file.id}`, { method: 'DELETE', token })).status).toBe(403);
+    });
+
+    it('upload tokens can upload and create folders but not read', async () => {
+        const { token } = await createToken('upload');
+
+        const folder = await api.createFolder(token, 'Backups');
+        const file = await api.upload(token, 'backup.txt', 'data', folder.id);
+        expect(file.parentId).toBe(folder.id);
+        expect((await api.request('/api/files', { token })).status).toBe(403);
+        expect((await api.request(`/api/download/${file.id}`, { token })).status).toBe(403);
+    });
+
+    it('full tokens can change files', async () => {
+        const { token } = await createToken('full');
+        const file = await api.upload(token, 'temp.txt', 'temp');
+        expect((await api.request(`/api/files/${file.id}`, { method: 'DELETE', token })).status).toBe(200);
+    });
+
+    it('no scope reaches password, session or token management', async () => {
+        const { token } = await createToken('full');
+        const password = { currentPassword: SEED_PASSWORD, newPassword: 'Changed1234-pass' };
+
+        expect((await api.request('/api/me/password', { method: 'POST', token, json: password })).status).toBe(403);
+        expect((await api.request('/api/me/2fa', { token })).status).toBe(403);
+        expect((await api.request('/api/sessions', { token })).status).toBe(403);
+        expect((await api.request('/api/tokens', { token })).status).toBe(403);
+        expect((await api.request('/api/tokens', { method: 'POST', token, json: { name: 'more', scope: 'full' } })).status).toBe(403);
+    });
+
+    it('no scope reaches them through other spellings of the path', async () => {
+        const { token } = await createToken('full');
+        const password = { currentPassword: SEED_PASSWORD, newPassword: 'Changed1234-pass' };
+
+        expect((await api.request('/API/tokens', { token })).status).toBe(403);
+        expect((await api.request('/api/tokens/', { token })).status).toBe(403);
+        expect((await api.request('/Api/Tokens', { method: 'POST', token, json: { name: 'more', scope: 'full' } })).status).toBe(403);
+        expect((await api.request('/api/Sessions', { token })).status).toBe(403);
+        expect((await api.request('/api/ME/2fa', { token })).status).toBe(403);
+        expect((await api.request('/api/Me/password', { method: 'POST', token, json: password })).status).toBe(403);
+        expect((await api.request('/api/%74okens', { token })).status).not.toBe(200);
+
+        // The password is unchanged
+        expect(await api.login(USER_EMAIL)).toBeTruthy();
+    });
+
+    it('upload tokens reach the upload routes whatever the case', async () => {
+        const { token } = await createToken('upload');
+        const created = await api.request('/API/Folder', { method: 'POST', token, json: { name: 'Mixed case' } });
+        expect(created.status).toBe(200);
+    });
+
+    it('revoked tokens stop working', async () => {
+        const { id, token } = await createToken('read');
+        expect((await api.request(`/api/tokens/${id}`, { method: 'DELETE', token: session })).status).toBe(200);
+        expect((await api.request('/api/files', { token })).status).toBe(401);
+    });
+
+    it('unknown tokens are refused', async () => {
+        const response = await api.request('/api/files', { token: 'flx_not-a-real-token' });
+        expect(response.status).toBe(401);
+    });
+});
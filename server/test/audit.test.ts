@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { startServer, TestServer, ADMIN_EMAIL, USER_EMAIL } from './server';
+
+let api: TestServer;
+let admin: string;
+let user: string;
+let userId: string;
+let audit: typeof import('../audit');
+
+const events = async (query = '') => {
+    const response = await api.request(`/api/admin/audit${query}`, { token: admin });
+    expect(response.status).toBe(200);
+    return response.json();
+};
+
+const latest = async (action: string) => (await events(`?action=${action}`)).events[0];
+
+beforeAll(async () => {
+    api = await startServer();
+    admin = await api.login(ADMIN_EMAIL);
+    user = await api.login(USER_EMAIL);
+    userId = (await (await api.request('/api/me', { token: user })).json()).user.id;
+    audit = await import('../audit');
+});
+
+afterAll(async () => {
+    await api.stop();
+});
+
+describe('audit events', () => {
+    it('record file actions with actor, paths and address', async () => {
+        const folder = await api.createFolder(user, 'Reports');
+        const file = await api.upload(user, 'q1.txt', 'numbers', folder.id);
+        await api.request(`/api/files/${file.id}/rename`, { method: 'PUT', token: user, json: { name: 'q1-final.txt' } });
+        await api.request('/api/files/move', { method: 'POST', token: user, json: { fileIds: [file.id], targetFolderId: 'root' } });
+        await api.request(`/api/download/${file.id}`, { token: user });
+        await api.request(`/api/files/${file.id}`, { method: 'DELETE', token: user });
+
+        expect(await latest('folder.create')).toMatchObject({ actorId: userId, actorEmail: USER_EMAIL, targetType: 'folder', newPath: '/Reports' });
+        expect(await latest('file.upload')).toMatchObject({ targetId: file.id, targetName: 'q1.txt', newPath: '/Reports/q1.txt' });
+        expect(await latest('file.rename')).toMatchObject({ oldPath: '/Reports/q1.txt', newPath: '/Reports/q1-final.txt' });
+        expect(await latest('file.move')).toMatchObject({ oldPath: '/Reports/q1-final.txt', newPath: '/q1-final.txt' });
+        expect(await latest('file.download')).toMatchObject({ targetId: file.id, actorEmail: USER_EMAIL });
+        const deleted = await latest('file.delete');
+        expect(deleted).toMatchObject({ targetId: file.id, oldPath: '/q1-final.txt' });
+        expect(deleted.ipAddress).toMatch(/127\.0\.0\.1/);
+    });
+
+    it('record admin actions', async () => {
+        const created = await api.request('/api/users', {
+            method: 'POST',
+            token: admin,
+            json: { username: 'Auditor', email: 'auditor@fluxlocal.com', password: 'Welcome1234-pass', role: 'user', storageLimitBytes: 1024 }
+        });
+        const { id } = await created.json();
+        expect(await latest('user.create')).toMatchObject({ actorEmail: ADMIN_EMAIL, targetType: 'user', targetId: id, targetName: 'auditor@fluxlocal.com' });
+    });
+
+    it('are filtered and paged, newest first', async () => {
+        const byActor = await events(`?actorId=${userId}&pageSize=2`);
+        expect(byActor.events).toHaveLength(2);
+        expect(byActor.total).toBeGreaterThan(2);
+        expect(byActor.events.every((event: any) => event.actorId === userId)).toBe(true);
+        expect(byActor.events[0].createdAt).toBeGreaterThanOrEqual(byActor.events[1].createdAt);
+
+        const second = await events(`?actorId=${userId}&pageSize=2&page=2`);
+        expect(second.events.map((e: any) => e.id)).not.toContain(byActor.events[0].id);
+
+        const search = await events('?q=q1-final');
+        expect(search.events.length).toBeGreaterThan(0);
+        expect(search.events.every((e: any) => [e.targetName, e.oldPath, e.newPath].some(value => value?.includes('q1-final')))).toBe(true);
+
+        expect((await events(`?from=${Date.now() + 60000}`)).total).toBe(0);
+    });
+
+    it('are for admins only', async () => {
+        expect((await api.request('/api/admin/audit', { token: user })).status).toBe(403);
+        expect((await api.request('/api/admin/audit/export', { token: user })).status).toBe(403);
+    });
+});
+
+describe('CSV export', () => {
+    it('has a header and a row per event', async () => {
+        const response = await api.request('/api/admin/audit/export?action=file.upload', { token: admin });
+        expect(response.headers.get('content-type')).toMatch(/^text\/csv/);
+        expect(response.headers.get('content-disposition')).toMatch(/attachment; filename="audit-.*\.csv"/);
+
+        const lines = (await response.text()).trimEnd().split('\r\n');
+        expect(lines[0]).toBe('time,actor,action,target_type,target,old_path,new_path,ip,details');
+        expect(lines.slice(1).every(line => line.includes(',file.upload,'))).toBe(true);
+        expect(lines).toHaveLength(1 + (await events('?action=file.upload')).total);
+    });
+
+    it('keeps names from running as spreadsheet formulas', async () => {
+        await api.upload(user, '=HYPERLINK(A1,B1).txt', 'x');
+        await api.upload(user, '@SUM(A1).txt', 'x');
+
+        const csv = await (await api.request('/api/admin/audit/export?action=file.upload', { token: admin })).text();
+        expect(csv).toContain(`"'=HYPERLINK(A1,B1).txt"`);
+        expect(csv).toContain(`,'@SUM(A1).txt,`);
+        expect(csv).not.toMatch(/,=HYPERLINK/);
+    });
+
+    it('escapes every cell that could start a formula or break a row', () => {
+        const row = (value: string) => audit.auditEventsToCsv([{ created_at: 0, actor_email: value }]).split('\r\n')[1];
+        expect(row('+1')).toContain(`,'+1,`);
+        expect(row('-1+2')).toContain(`'-1+2`);
+        expect(row('\t=1')).toContain(`'\t=1`);
+        expect(row('\r=1')).toContain(`"'\r=1"`);
+        expect(row('a,b')).toContain('"a,b"');
+        expect(row('line\nbreak')).toContain('"line\nbreak"');
+        expect(row('plain')).toBe('1970-01-01T00:00:00.000Z,plain,,,,,,,');
+    });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import bcrypt from 'bcryptjs';
+import { startServer, TestServer, ADMIN_EMAIL, USER_EMAIL } from './server';
+
+let api: TestServer;
+
+beforeAll(async () => {
+    api = await startServer();
+});
+
+afterAll(async () => {
+    await api.stop();
+});
+
+describe('sessions', () => {
+    it('refuses requests without a token', async () => {
+        const response = await api.request('/api/files');
+        expect(response.status).toBe(401);
+    });
+
+    it('refuses tokens that are not signed by the server', async () => {
+        const token = await api.login(USER_EMAIL);
+        const [payload] = token.split('.');
+        const response = await api.request('/api/files', { token: `${payload}.forged` });
+        expect(response.status).toBe(401);
+    });
+
+    it('refuses wrong passwords', async () => {
+        const response = await api.request('/api/login', { method: 'POST', json: { email: USER_EMAIL, password: 'Wrong1234-pass' } });
+        expect(response.status).toBe(401);
+    });
+
+    it('resolves the caller from the session token', async () => {
+        const token = await api.login(USER_EMAIL);
+        const response = await api.request('/api/me', { token });
+        expect(response.status).toBe(200);
+        expect((await response.json()).user.email).toBe(USER_EMAIL);
+    });
+
+    it('ends the session on logout', async () => {
+        const token = await api.login(USER_EMAIL);
+        expect((await api.request('/api/logout', { method: 'POST', token })).status).toBe(200);
+        expect((await api.request('/api/files', { token })).status).toBe(401);
+    });
+
+    it('ends the other sessions when asked to, and keeps the current one', async () => {
+        const current = await api.login(USER_EMAIL);
+        const other = await api.login(USER_EMAIL);
+        expect((await api.request('/api/sessions/revoke-others', { method: 'POST', token: current })).status).toBe(200);
+        expect((await api.request('/api/files', { token: other })).status).toBe(401);
+        expect((await api.request('/api/files', { token: current })).status).toBe(200);
+    });
+
+    it('does not let users revoke sessions of other users', async () => {
+        const adminToken = await api.login(ADMIN_EMAIL);
+        const userToken = await api.login(USER_EMAIL);
+        const [adminSession] = await (await api.request('/api/sessions', { token: adminToken })).json();
+        expect((await api.request(`/api/sessions/${adminSession.id}`, { method: 'DELETE', token: userToken })).status).toBe(404);
+        expect((await api.request('/api/files', { token: adminToken })).status).toBe(200);
+    });
+});
+
+describe('admin routes', () => {
+    it('are refused to users', async () => {
+        const token = await api.login(USER_EMAIL);
+        expect((await api.request('/api/users', { token })).status).toBe(403);
+        expect((await api.request('/api/admin/settings', { token })).status).toBe(403);
+    });
+
+    it('are open to admins', async () => {
+        const token = await api.login(ADMIN_EMAIL);
+        expect((await api.request('/api/users', { token })).status).toBe(200);
+    });
+});
+
+describe('passwords from before the strength rules', () => {
+    const email = 'legacy@fluxlocal.com';
+
+    // Sets a password the rules no longer allow, as if it had been chosen before them
+    const setLegacyPassword = async () => {
+        const { getDb } = await import('../db');
+        const db = await getDb();
+        await db.run('UPDATE users SET password = ? WHERE email = ?', await bcrypt.hash('legacy', 10), email);
+    };
+
+    beforeAll(async () => {
+        const adminToken = await api.login(ADMIN_EMAIL);
+        const created = await api.request('/api/users', {
+            method: 'POST',
+            token: adminToken,
+            json: { username: 'Legacy', email, password: 'Welcome1234-pass', role: 'user', storageLimitBytes: 1024 * 1024 }
+        });
+        expect(created.status).toBe(200);
+        await setLegacyPassword();
+    });
+
+    it('only allow changing the password until it is changed', async () => {
+        const token = await api.login(email, 'legacy');
+        const me = await (await api.request('/api/me', { token })).json();
+        expect(me.user.mustChangePassword).toBe(true);
+        expect((await api.request('/api/files', { token })).status).toBe(403);
+        expect((await api.request('/api/events/ticket', { method: 'POST', token })).status).toBe(403);
+
+        const changed = await api.request('/api/me/password', { method: 'POST', token, json: { currentPassword: 'legacy', newPassword: 'Renewed1234-pass' } });
+        expect(changed.status).toBe(200);
+        expect((await api.request('/api/files', { token })).status).toBe(200);
+        expect((await (await api.request('/api/me', { token })).json()).user.mustChangePassword).toBe(false);
+    });
+
+    it('keep the requirement across sessions', async () => {
+        await setLegacyPassword();
+        await api.login(email, 'legacy');
+
+        // A later session (another device) is held to it as well
+        const token = await api.login(email, 'legacy');
+        expect((await api.request('/api/files', { token })).status).toBe(403);
+        expect((await api.request('/api/logout', { method: 'POST', token })).status).toBe(200);
+    });
+});
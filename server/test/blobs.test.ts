@@ -0,0 +1,107 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { startServer, TestServer, ADMIN_EMAIL, USER_EMAIL } from './server';
+
+let api: TestServer;
+let admin: string;
+let user: string;
+let db: any;
+let blobs: typeof import('../blobs');
+
+const sha256 = (content: string) => crypto.createHash('sha256').update(content).digest('hex');
+
+const blobFile = (hash: string) => path.join(api.dir, 'uploads', 'blobs', hash.slice(0, 2), hash);
+
+const refCount = async (hash: string) =>
+    (await db.get('SELECT ref_count FROM blobs WHERE hash = ?', hash))?.ref_count as number | undefined;
+
+const blobStore = async () => (await (await api.request('/api/admin/settings', { token: admin })).json()).blobStore;
+
+const trashAndPurge = async (token: string, id: string) => {
+    const { trashItemId } = await (await api.request(`/api/files/${id}`, { method: 'DELETE', token })).json();
+    expect((await api.request(`/api/trash/${trashItemId}`, { method: 'DELETE', token })).status).toBe(200);
+};
+
+beforeAll(async () => {
+    api = await startServer();
+    admin = await api.login(ADMIN_EMAIL);
+    user = await api.login(USER_EMAIL);
+    expect((await api.request('/api/admin/settings', { method: 'PUT', token: admin, json: { storageMode: 'blobs' } })).status).toBe(200);
+    db = await (await import('../db')).getDb();
+    blobs = await import('../blobs');
+});
+
+afterAll(async () => {
+    await api.stop();
+});
+
+describe('blob store', () => {
+    it('stores the same content once and counts a reference per file', async () => {
+        const content = 'the same bytes in two drives';
+        const hash = sha256(content);
+        const first = await api.upload(admin, 'mine.txt', content);
+        await api.upload(user, 'yours.txt', content);
+
+        expect(await refCount(hash)).toBe(2);
+        expect(fs.readFileSync(blobFile(hash), 'utf8')).toBe(content);
+        expect(await blobStore()).toMatchObject({ blobCount: 1, storedBytes: content.length, logicalBytes: 2 * content.length });
+        const download = await api.request(`/api/download/${first.id}`, { token: admin });
+        expect(await download.text()).toBe(content);
+    });
+
+    it('copies a file by adding a reference only', async () => {
+        const content = 'copied without copying';
+        const hash = sha256(content);
+        const file = await api.upload(admin, 'original.txt', content);
+        const folder = await api.createFolder(admin, 'Copies');
+
+        const response = await api.request('/api/files/copy', { method: 'POST', token: admin, json: { fileIds: [file.id], targetFolderId: folder.id } });
+        expect(response.status).toBe(200);
+        expect(await refCount(hash)).toBe(2);
+        expect(fs.readdirSync(path.dirname(blobFile(hash)))).toEqual([hash]);
+
+        const [copy] = (await (await api.request(`/api/files?parentId=${folder.id}`, { token: admin })).json()) as any[];
+        expect(await (await api.request(`/api/download/${copy.id}`, { token: admin })).text()).toBe(content);
+    });
+
+    it('keeps the content while any file refers to it and removes it with the last one', async () => {
+        const content = 'shared until the end';
+        const hash = sha256(content);
+        const first = await api.upload(admin, 'one.txt', content);
+        const second = await api.upload(admin, 'two.txt', content);
+
+        // In the trash the reference is still held
+        const { trashItemId } = await (await api.request(`/api/files/${first.id}`, { method: 'DELETE', token: admin })).json();
+        expect(await refCount(hash)).toBe(2);
+        expect((await api.request(`/api/trash/${trashItemId}`, { method: 'DELETE', token: admin })).status).toBe(200);
+        expect(await refCount(hash)).toBe(1);
+        expect(fs.existsSync(blobFile(hash))).toBe(true);
+
+        await trashAndPurge(admin, second.id);
+        expect(await refCount(hash)).toBeUndefined();
+        expect(fs.existsSync(blobFile(hash))).toBe(false);
+    });
+
+    it('does not lose content stored again while a collection runs', async () => {
+        const content = 'back from the dead';
+        const hash = sha256(content);
+        const source = path.join(api.dir, 'again.txt');
+
+        for (let round = 0; round < 20; round++) {
+            const file = await api.upload(admin, 'gone.txt', content);
+            await db.run('UPDATE blobs SET ref_count = 0 WHERE hash = ?', hash);
+            await db.run('DELETE FROM files WHERE id = ?', file.id);
+
+            fs.writeFileSync(source, content);
+            const [, stored] = await Promise.all([blobs.collectBlobGarbage(db), blobs.storeBlob(db, source)]);
+            expect(stored).toBe(hash);
+            expect(await refCount(hash)).toBe(1);
+            expect(fs.readFileSync(blobFile(hash), 'utf8')).toBe(content);
+
+            await blobs.releaseBlob(db, hash);
+            await blobs.collectBlobGarbage(db);
+        }
+    });
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { startServer, TestServer, USER_EMAIL } from './server';
+
+let api: TestServer;
+let token: string;
+
+const upload = async (name: string, content: string, parentId?: string, onConflict?: string) => {
+    const form = new FormData();
+    if (parentId) form.append('parentId', parentId);
+    if (onConflict) form.append('onConflict', onConflict);
+    form.append('file', new Blob([content], { type: 'text/plain' }), name);
+    return api.request('/api/upload', { method: 'POST', token, body: form });
+};
+
+const post = (route: string, json: unknown) => api.request(route, { method: 'POST', token, json });
+
+const children = async (parentId: string) =>
+    ((await (await api.request(`/api/files?parentId=${parentId}`, { token })).json()) as any[])
+        .sort((a, b) => a.name.localeCompare(b.name));
+
+const names = async (parentId: string) => (await children(parentId)).map(node => node.name);
+
+const download = async (id: string) => (await api.request(`/api/download/${id}`, { token })).text();
+
+const listTrash = async () => (await (await api.request('/api/trash', { token })).json()).items as any[];
+
+beforeAll(async () => {
+    api = await startServer();
+    token = await api.login(USER_EMAIL);
+});
+
+afterAll(async () => {
+    await api.stop();
+});
+
+describe('replace', () => {
+    it('keeps the earlier upload as a version (the upload default)', async () => {
+        const folder = await api.createFolder(token, 'Replace uploads');
+        const first = await (await upload('notes.txt', 'first', folder.id)).json();
+        const second = await (await upload('notes.txt', 'second', folder.id)).json();
+
+        expect(second.id).toBe(first.id);
+        expect(await names(folder.id)).toEqual(['notes.txt']);
+        expect(await download(first.id)).toBe('second');
+        const { versions } = await (await api.request(`/api/files/${first.id}/versions`, { token })).json();
+        expect(versions).toHaveLength(1);
+    });
+
+    it('moves the node that was in the way of a copy to the trash', async () => {
+        const source = await api.createFolder(token, 'Replace source');
+        const target = await api.createFolder(token, 'Replace target');
+        const incoming = await api.upload(token, 'plan.txt', 'new plan', source.id);
+        const old = await api.upload(token, 'plan.txt', 'old plan', target.id);
+
+        expect((await post('/api/files/copy', { fileIds: [incoming.id], targetFolderId: target.id, onConflict: 'replace' })).status).toBe(200);
+        const [copy] = await children(target.id);
+        expect(copy.name).toBe('plan.txt');
+        expect(copy.id).not.toBe(old.id);
+        expect(await download(copy.id)).toBe('new plan');
+        expect((await listTrash()).some(item => item.originalPath === '/Replace target/plan.txt')).toBe(true);
+    });
+});
+
+describe('keep-both', () => {
+    it('numbers new names like "name (1).ext" (the copy and move default)', async () => {
+        const folder = await api.createFolder(token, 'Keep both');
+        const file = await api.upload(token, 'photo.jpg.txt', 'a', folder.id);
+
+        await post('/api/files/copy', { fileIds: [file.id], targetFolderId: folder.id });
+        await post('/api/files/copy', { fileIds: [file.id], targetFolderId: folder.id });
+        expect(await names(folder.id)).toEqual(['photo.jpg (1).txt', 'photo.jpg (2).txt', 'photo.jpg.txt']);
+
+        const other = await api.createFolder(token, 'Keep both other');
+        const mover = await api.upload(token, 'photo.jpg.txt', 'b', other.id);
+        await post('/api/files/move', { fileIds: [mover.id], targetFolderId: folder.id });
+        expect(await names(folder.id)).toContain('photo.jpg (3).txt');
+    });
+
+    it('applies to uploads and new folders when asked for', async () => {
+        const folder = await api.createFolder(token, 'Keep both uploads');
+        await upload('a.txt', 'one', folder.id);
+        expect((await (await upload('a.txt', 'two', folder.id, 'keep-both')).json()).name).toBe('a (1).txt');
+
+        await api.createFolder(token, 'Inner', folder.id);
+        const second = await (await post('/api/folder', { name: 'Inner', parentId: folder.id, onConflict: 'keep-both' })).json();
+        expect(second.name).toBe('Inner (1)');
+    });
+});
+
+describe('skip', () => {
+    it('leaves the new item out and the existing one alone', async () => {
+        const folder = await api.createFolder(token, 'Skip');
+        const existing = await api.upload(token, 'keep.txt', 'original', folder.id);
+
+        const uploaded = await (await upload('keep.txt', 'newer', folder.id, 'skip')).json();
+        expect(uploaded).toMatchObject({ skipped: true, id: existing.id });
+        expect(await download(existing.id)).toBe('original');
+
+        const other = await api.createFolder(token, 'Skip other');
+        const incoming = await api.upload(token, 'keep.txt', 'copy me', other.id);
+        const copied = await (await post('/api/files/copy', { fileIds: [incoming.id], targetFolderId: folder.id, onConflict: 'skip' })).json();
+        expect(copied).toEqual({ success: true, skipped: 1 });
+        const moved = await (await post('/api/files/move', { fileIds: [incoming.id], targetFolderId: folder.id, onConflict: 'skip' })).json();
+        expect(moved).toEqual({ success: true, skipped: 1 });
+
+        expect(await names(folder.id)).toEqual(['keep.txt']);
+        expect(await names(other.id)).toEqual(['keep.txt']);
+    });
+});
+
+describe('merge', () => {
+    it('returns the existing folder for a new one of the same name (the folder default)', async () => {
+        const folder = await api.createFolder(token, 'Merge me');
+        const again = await api.createFolder(token, 'Merge me');
+        expect(again.id).toBe(folder.id);
+    });
+
+    it('combines folders, replacing files and merging sub-folders', async () => {
+        const source = await api.createFolder(token, 'Merge source');
+        const target = await api.createFolder(token, 'Merge target');
+        const sourceDocs = await api.createFolder(token, 'Docs', source.id);
+        const targetDocs = await api.createFolder(token, 'Docs', target.id);
+        await api.upload(token, 'same.txt', 'from source', sourceDocs.id);
+        await api.upload(token, 'only-source.txt', 's', sourceDocs.id);
+        await api.upload(token, 'same.txt', 'from target', targetDocs.id);
+        await api.upload(token, 'only-target.txt', 't', targetDocs.id);
+
+        expect((await post('/api/files/copy', { fileIds: [sourceDocs.id], targetFolderId: target.id, onConflict: 'merge' })).status).toBe(200);
+        expect(await names(target.id)).toEqual(['Docs']);
+        const merged = await children(targetDocs.id);
+        expect(merged.map(node => node.name)).toEqual(['only-source.txt', 'only-target.txt', 'same.txt']);
+        expect(await download(merged.find(node => node.name === 'same.txt').id)).toBe('from source');
+    });
+
+    it('keeps both when a file meets a folder of the same name', async () => {
+        const folder = await api.createFolder(token, 'Mixed');
+        await api.createFolder(token, 'thing', folder.id);
+        const other = await api.createFolder(token, 'Mixed other');
+        const file = await api.upload(token, 'thing', 'a file', other.id);
+
+        await post('/api/files/move', { fileIds: [file.id], targetFolderId: folder.id, onConflict: 'merge' });
+        expect(await names(folder.id)).toEqual(['thing', 'thing (1)']);
+    });
+});
+
+describe('policies', () => {
+    it('are refused when unknown', async () => {
+        const folder = await api.createFolder(token, 'Unknown');
+        const file = await api.upload(token, 'x.txt', 'x', folder.id);
+        expect((await upload('x.txt', 'y', folder.id, 'overwrite')).status).toBe(400);
+        expect((await post('/api/files/copy', { fileIds: [file.id], targetFolderId: folder.id, onConflict: 'overwrite' })).status).toBe(400);
+        expect((await post('/api/files/move', { fileIds: [file.id], targetFolderId: 'root', onConflict: 'overwrite' })).status).toBe(400);
+        expect((await post('/api/folder', { name: 'Inner', parentId: folder.id, onConflict: 'overwrite' })).status).toBe(400);
+    });
+
+    it('can be chosen up front from the planned conflicts', async () => {
+        const folder = await api.createFolder(token, 'Planned');
+        const file = await api.upload(token, 'taken.txt', 'x', folder.id);
+        const response = await post('/api/files/conflicts', {
+            targetFolderId: folder.id,
+            items: [{ name: 'taken.txt', type: 'file' }, { name: 'free.txt', type: 'file' }, { name: '../taken.txt', type: 'file' }]
+        });
+        expect(await response.json()).toEqual({
+            conflicts: [{ name: 'taken.txt', type: 'file', existingId: file.id, existingType: 'file' }]
+        });
+    });
+});
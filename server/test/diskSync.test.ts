@@ -0,0 +1,97 @@
+import fs from 'fs';
+import path from 'path';
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { startServer, TestServer, ADMIN_EMAIL, USER_EMAIL } from './server';
+
+// Files added and removed under uploads/<userId> behind the app's back, picked up by the watcher
+let api: TestServer;
+let owner: { token: string, id: string };
+let recipient: { token: string, id: string };
+let db: any;
+
+const signIn = async (email: string) => {
+    const token = await api.login(email);
+    const { user } = await (await api.request('/api/me', { token })).json();
+    return { token, id: user.id as string };
+};
+
+const driveDir = () => path.join(api.dir, 'uploads', owner.id);
+
+const children = async (parentId = 'root') =>
+    (await (await api.request(`/api/files?parentId=${parentId}`, { token: owner.token })).json()) as any[];
+
+// The watcher reconciles once changes settle for a moment
+const waitFor = async (check: () => Promise<boolean>) => {
+    const deadline = Date.now() + 15000;
+    while (!await check()) {
+        if (Date.now() > deadline) throw new Error('The disk change was not picked up');
+        await new Promise(resolve => setTimeout(resolve, 200));
+    }
+};
+
+const countRows = async (table: string, ids: string[]) => {
+    const row = await db.get(`SELECT COUNT(*) as count FROM ${table} WHERE file_id IN (${ids.map(() => '?').join(',')})`, ...ids);
+    return row.count as number;
+};
+
+beforeAll(async () => {
+    api = await startServer();
+    owner = await signIn(ADMIN_EMAIL);
+    recipient = await signIn(USER_EMAIL);
+    db = await (await import('../db')).getDb();
+});
+
+afterAll(async () => {
+    await api.stop();
+});
+
+describe('disk sync', () => {
+    it('adds files and folders created on disk', async () => {
+        fs.mkdirSync(path.join(driveDir(), 'Scans'), { recursive: true });
+        fs.writeFileSync(path.join(driveDir(), 'Scans', 'receipt.txt'), 'coffee 3.50');
+
+        await waitFor(async () => (await children()).some(node => node.name === 'Scans'));
+        const [scans] = (await children()).filter(node => node.name === 'Scans');
+        expect(scans.type).toBe('folder');
+        await waitFor(async () => (await children(scans.id)).length === 1);
+        expect((await children(scans.id))[0]).toMatchObject({ name: 'receipt.txt', size: 11 });
+    });
+
+    it('removes a file deleted on disk along with its versions, shares, stars and recent activity', async () => {
+        await api.upload(owner.token, 'ledger.txt', 'first');
+        const file = await api.upload(owner.token, 'ledger.txt', 'second');
+        await api.request('/api/share', { method: 'POST', token: owner.token, json: { fileIds: [file.id], userIds: [recipient.id] } });
+        await api.request('/api/starred', { method: 'PUT', token: owner.token, json: { fileIds: [file.id], starred: true } });
+        await api.request(`/api/files/${file.id}/open`, { method: 'POST', token: recipient.token });
+        expect(await countRows('file_versions', [file.id])).toBe(1);
+        const before = (await (await api.request('/api/storage', { token: owner.token })).json()).usedSpace;
+
+        fs.rmSync(path.join(driveDir(), 'ledger.txt'));
+        await waitFor(async () => !(await children()).some(node => node.id === file.id));
+
+        for (const table of ['file_versions', 'shared_files', 'stars', 'recent_activity']) {
+            expect(await countRows(table, [file.id])).toBe(0);
+        }
+        expect(fs.readdirSync(path.join(api.dir, 'uploads', 'versions', owner.id), { withFileTypes: true }).filter(entry => entry.isFile())).toEqual([]);
+        // The earlier version no longer counts toward the quota
+        const after = (await (await api.request('/api/storage', { token: owner.token })).json()).usedSpace;
+        expect(before - after).toBe('first'.length + 'second'.length);
+    });
+
+    it('removes a folder deleted on disk with everything that was in it', async () => {
+        const folder = await api.createFolder(owner.token, 'Archive');
+        await api.upload(owner.token, 'old.txt', 'v1', folder.id);
+        const file = await api.upload(owner.token, 'old.txt', 'v2', folder.id);
+        await api.request('/api/starred', { method: 'PUT', token: owner.token, json: { fileIds: [folder.id, file.id], starred: true } });
+        await api.request('/api/share', { method: 'POST', token: owner.token, json: { fileIds: [folder.id], userIds: [recipient.id] } });
+
+        fs.rmSync(path.join(driveDir(), 'Archive'), { recursive: true });
+        await waitFor(async () => !(await children()).some(node => node.id === folder.id));
+
+        const ids = [folder.id, file.id];
+        expect((await db.get(`SELECT COUNT(*) as count FROM files WHERE id IN (?, ?)`, ...ids)).count).toBe(0);
+        for (const table of ['file_versions', 'shared_files', 'stars']) {
+            expect(await countRows(table, ids)).toBe(0);
+        }
+    });
+});
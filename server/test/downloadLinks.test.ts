@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { startServer, TestServer, ADMIN_EMAIL, USER_EMAIL } from './server';
+
+let api: TestServer;
+let owner: string;
+let recipient: string;
+
+const getLink = async (token: string, id: string, body: object = {}) => {
+    const response = await api.request(`/api/files/${id}/download-link`, { method: 'POST', token, json: body });
+    return { status: response.status, ...(response.ok ? await response.json() : {}) };
+};
+
+beforeAll(async () => {
+    api = await startServer();
+    owner = await api.login(ADMIN_EMAIL);
+    recipient = await api.login(USER_EMAIL);
+});
+
+afterAll(async () => {
+    await api.stop();
+});
+
+describe('download links', () => {
+    it('download the file without a session token', async () => {
+        const file = await api.upload(owner, 'song.txt', 'la la la');
+        const { url, streamUrl } = await getLink(owner, file.id);
+
+        const download = await fetch(api.url(url));
+        expect(download.status).toBe(200);
+        expect(await download.text()).toBe('la la la');
+        expect((await fetch(api.url(streamUrl))).status).toBe(200);
+    });
+
+    it('only open the node they were made for', async () => {
+        const file = await api.upload(owner, 'a.txt', 'a');
+        const other = await api.upload(owner, 'b.txt', 'b');
+        const { url } = await getLink(owner, file.id);
+
+        expect((await fetch(api.url(url.replace(file.id, other.id)))).status).toBe(401);
+        expect((await fetch(api.url(`/api/files?${new URL(api.url(url)).searchParams}`))).status).toBe(401);
+    });
+
+    it('are refused when the signature was changed', async () => {
+        const file = await api.upload(owner, 'c.txt', 'c');
+        const { url } = await getLink(owner, file.id);
+        expect((await fetch(api.url(`${url.slice(0, -2)}xx`))).status).toBe(401);
+    });
+
+    it('stop working when the session that asked for them ends', async () => {
+        const token = await api.login(ADMIN_EMAIL);
+        const file = await api.upload(token, 'd.txt', 'd');
+        const { url } = await getLink(token, file.id);
+
+        await api.request('/api/logout', { method: 'POST', token });
+        expect((await fetch(api.url(url))).status).toBe(401);
+    });
+
+    it('are only issued for nodes the caller can open', async () => {
+        const file = await api.upload(owner, 'e.txt', 'e');
+        expect((await getLink(recipient, file.id)).status).toBe(404);
+    });
+
+    it('download folders inside a shared folder', async () => {
+        const { user } = await (await api.request('/api/me', { token: recipient })).json();
+        const parent = await api.createFolder(owner, 'Projects');
+        const child = await api.createFolder(owner, 'Website', parent.id);
+        await api.upload(owner, 'index.txt', 'home page', child.id);
+        await api.request('/api/share', { method: 'POST', token: owner, json: { fileIds: [parent.id], userIds: [user.id] } });
+
+        const { status, url } = await getLink(recipient, child.id);
+        expect(status).toBe(200);
+        const download = await fetch(api.url(url));
+        expect(download.status).toBe(200);
+        expect(download.headers.get('content-type')).toBe('application/zip');
+        expect((await download.arrayBuffer()).byteLength).toBeGreaterThan(0);
+
+        expect((await api.request(`/api/download-folder/${child.id}`, { token: recipient })).status).toBe(200);
+    });
+
+    it('to earlier versions are only issued to the owner', async () => {
+        const { user } = await (await api.request('/api/me', { token: recipient })).json();
+        const file = await api.upload(owner, 'f.txt', 'first');
+        await api.upload(owner, 'f.txt', 'second');
+        await api.request('/api/share', { method: 'POST', token: owner, json: { fileIds: [file.id], userIds: [user.id] } });
+        const { versions: [version] } = await (await api.request(`/api/files/${file.id}/versions`, { token: owner })).json();
+
+        const { url } = await getLink(owner, file.id, { versionId: version.id });
+        expect(await (await fetch(api.url(url))).text()).toBe('first');
+        expect((await getLink(recipient, file.id, { versionId: version.id })).status).toBe(404);
+    });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { startServer, TestServer, USER_EMAIL } from './server';
+
+let api: TestServer;
+
+// Opens the stream and closes it again as soon as the response headers are in
+const openStream = async (query: string) => {
+    const controller = new AbortController();
+    const response = await fetch(api.url(`/api/events?${query}`), { signal: controller.signal });
+    controller.abort();
+    return response;
+};
+
+const getTicket = async (token: string) => {
+    const response = await api.request('/api/events/ticket', { method: 'POST', token });
+    expect(response.status).toBe(200);
+    return (await response.json()).ticket as string;
+};
+
+beforeAll(async () => {
+    api = await startServer();
+});
+
+afterAll(async () => {
+    await api.stop();
+});
+
+describe('event stream tickets', () => {
+    it('open the event stream', async () => {
+        const token = await api.login(USER_EMAIL);
+        const response = await openStream(`ticket=${encodeURIComponent(await getTicket(token))}`);
+        expect(response.status).toBe(200);
+        expect(response.headers.get('content-type')).toMatch(/^text\/event-stream/);
+    });
+
+    it('are the only credential accepted in the address', async () => {
+        const token = await api.login(USER_EMAIL);
+        expect((await openStream(`token=${encodeURIComponent(token)}`)).status).toBe(401);
+        expect((await openStream(`ticket=${encodeURIComponent(token)}`)).status).toBe(401);
+    });
+
+    it('are not accepted on other routes', async () => {
+        const token = await api.login(USER_EMAIL);
+        const ticket = await getTicket(token);
+        expect((await fetch(api.url(`/api/files?ticket=${encodeURIComponent(ticket)}`))).status).toBe(401);
+    });
+
+    it('stop working when the session ends', async () => {
+        const token = await api.login(USER_EMAIL);
+        const ticket = await getTicket(token);
+        await api.request('/api/logout', { method: 'POST', token });
+        expect((await openStream(`ticket=${encodeURIComponent(ticket)}`)).status).toBe(401);
+    });
+
+    it('cannot be made from download links', async () => {
+        const token = await api.login(USER_EMAIL);
+        const file = await api.upload(token, 'clip.txt', 'clip');
+        const { url } = await (await api.request(`/api/files/${file.id}/download-link`, { method: 'POST', token })).json();
+        const signature = new URL(api.url(url)).searchParams.get('sig') as string;
+        expect((await openStream(`ticket=${encodeURIComponent(signature)}`)).status).toBe(401);
+    });
+});
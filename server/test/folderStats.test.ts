@@ -0,0 +1,122 @@
+import fs from 'fs';
+import path from 'path';
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { startServer, TestServer, USER_EMAIL } from './server';
+
+let api: TestServer;
+let token: string;
+let userId: string;
+let db: any;
+
+const post = (route: string, json: unknown) => api.request(route, { method: 'POST', token, json });
+
+// size, files and subfolders of a folder as the listing reports them
+const totals = async (folderId: string) => {
+    const nodes = (await (await api.request('/api/files', { token })).json()) as any[];
+    const folder = nodes.find(node => node.id === folderId);
+    return { size: folder.size, files: folder.fileCount, folders: folder.folderCount };
+};
+
+beforeAll(async () => {
+    api = await startServer();
+    token = await api.login(USER_EMAIL);
+    userId = (await (await api.request('/api/me', { token })).json()).user.id;
+    db = await (await import('../db')).getDb();
+});
+
+afterAll(async () => {
+    await api.stop();
+});
+
+describe('folder totals', () => {
+    it('add up everything below a folder as files and folders are added', async () => {
+        const top = await api.createFolder(token, 'Top');
+        const inner = await api.createFolder(token, 'Inner', top.id);
+        await api.upload(token, 'a.txt', 'aaaa', top.id);
+        await api.upload(token, 'b.txt', 'bbbbbb', inner.id);
+
+        expect(await totals(inner.id)).toEqual({ size: 6, files: 1, folders: 0 });
+        expect(await totals(top.id)).toEqual({ size: 10, files: 2, folders: 1 });
+    });
+
+    it('follow content replaced by a new upload', async () => {
+        const folder = await api.createFolder(token, 'Growing');
+        await api.upload(token, 'log.txt', 'short', folder.id);
+        await api.upload(token, 'log.txt', 'a good deal longer', folder.id);
+        expect(await totals(folder.id)).toEqual({ size: 18, files: 1, folders: 0 });
+    });
+
+    it('move with the nodes, between folders and back from the trash', async () => {
+        const from = await api.createFolder(token, 'From');
+        const to = await api.createFolder(token, 'To');
+        const sub = await api.createFolder(token, 'Sub', from.id);
+        await api.upload(token, 'one.txt', '123', sub.id);
+        await api.upload(token, 'two.txt', '45', sub.id);
+
+        await post('/api/files/move', { fileIds: [sub.id], targetFolderId: to.id });
+        expect(await totals(from.id)).toEqual({ size: 0, files: 0, folders: 0 });
+        expect(await totals(to.id)).toEqual({ size: 5, files: 2, folders: 1 });
+
+        const { trashItemId } = await (await api.request(`/api/files/${sub.id}`, { method: 'DELETE', token })).json();
+        expect(await totals(to.id)).toEqual({ size: 0, files: 0, folders: 0 });
+
+        await post(`/api/trash/${trashItemId}/restore`, {});
+        expect(await totals(to.id)).toEqual({ size: 5, files: 2, folders: 1 });
+        expect(await totals(sub.id)).toEqual({ size: 5, files: 2, folders: 0 });
+    });
+
+    it('count copies of whole folders', async () => {
+        const source = await api.createFolder(token, 'Copy source');
+        const nested = await api.createFolder(token, 'Nested', source.id);
+        await api.upload(token, 'x.txt', 'xyz', nested.id);
+        const target = await api.createFolder(token, 'Copy target');
+
+        await post('/api/files/copy', { fileIds: [source.id], targetFolderId: target.id });
+        expect(await totals(target.id)).toEqual({ size: 3, files: 1, folders: 2 });
+        expect(await totals(source.id)).toEqual({ size: 3, files: 1, folders: 1 });
+    });
+
+    it('pick up files added and removed on disk', async () => {
+        const folder = await api.createFolder(token, 'On disk');
+        const file = path.join(api.dir, 'uploads', userId, 'On disk', 'outside.txt');
+        const waitForTotals = async (expected: object) => {
+            const deadline = Date.now() + 15000;
+            while (JSON.stringify(await totals(folder.id)) !== JSON.stringify(expected)) {
+                if (Date.now() > deadline) throw new Error(`Folder totals never became ${JSON.stringify(expected)}`);
+                await new Promise(resolve => setTimeout(resolve, 200));
+            }
+        };
+
+        fs.writeFileSync(file, 'written outside');
+        await waitForTotals({ size: 15, files: 1, folders: 0 });
+        fs.rmSync(file);
+        await waitForTotals({ size: 0, files: 0, folders: 0 });
+    });
+
+    it('are recounted once for databases from before they existed', async () => {
+        const folder = await api.createFolder(token, 'Legacy');
+        await api.upload(token, 'old.txt', '1234567', folder.id);
+        await db.run(`UPDATE files SET size = 4096, file_count = 0, folder_count = 0 WHERE type = 'folder' AND user_id = ?`, userId);
+        await db.run(`DELETE FROM settings WHERE key = 'folder_totals_ready'`);
+
+        const { ensureFolderTotals } = await import('../folderStats');
+        await ensureFolderTotals(db);
+        expect(await totals(folder.id)).toEqual({ size: 7, files: 1, folders: 0 });
+        expect(await totals((await (await api.request('/api/files', { token })).json()).find((n: any) => n.name === 'Top').id))
+            .toEqual({ size: 10, files: 2, folders: 1 });
+    });
+});
+
+describe('sorting folders by size', () => {
+    it('puts them among the files by their totals', async () => {
+        const parent = await api.createFolder(token, 'Sorted');
+        const big = await api.createFolder(token, 'Big', parent.id);
+        await api.upload(token, 'inside.txt', 'x'.repeat(50), big.id);
+        await api.upload(token, 'medium.txt', 'x'.repeat(20), parent.id);
+        await api.createFolder(token, 'Empty', parent.id);
+
+        const response = await api.request(`/api/folders/${parent.id}/children?sort=size&order=desc`, { token });
+        const { items } = await response.json();
+        expect(items.map((node: any) => node.name)).toEqual(['Big', 'medium.txt', 'Empty']);
+    });
+});
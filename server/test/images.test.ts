@@ -0,0 +1,351 @@
+import fs from 'fs';
+import { fileURLToPath } from 'url';
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import jpeg from 'jpeg-js';
+import { PNG } from 'pngjs';
+import { GifReader, GifWriter } from 'omggif';
+import encodeWebp, { init as initWebpEncode } from '@jsquash/webp/encode.js';
+import referenceDecodeWebp, { init as initWebpDecode } from '@jsquash/webp/decode.js';
+import { decodeImage, makeThumbnails, type RgbaImage } from '../images';
+import { decodeWebp } from '../webp';
+
+// libwebp compiled to WebAssembly serves as the reference for the WebP decoder. Its version is too
+// old to read untrusted files with (CVE-2023-4863), which is why the server has a decoder of its own.
+
+const WIDTH = 67;
+const HEIGHT = 45;
+
+// Gradients, a checkered pattern with noise in it and an alpha ramp: every decoding stage has work
+let seed = 1;
+const random = () => {
+    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+    return seed / 0x7fffffff;
+};
+const pixels = new Uint8ClampedArray(WIDTH * HEIGHT * 4);
+for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+        const i = (y * WIDTH + x) * 4;
+        pixels[i] = (x * 255) / WIDTH;
+        pixels[i + 1] = (y * 255) / HEIGHT;
+        pixels[i + 2] = ((x ^ y) * 8 + random() * 40) & 255;
+        pixels[i + 3] = x < 20 ? 255 : (y * 6) & 255;
+    }
+}
+const opaque = pixels.map((value, i) => (i % 4 === 3 ? 255 : value));
+const fewColors = pixels.map((_, i) => (i % 4 === 3 ? 255 : ((i >> 2) % 5) * 50));
+
+const WEBP_CASES: [string, Uint8ClampedArray, Record<string, number>][] = [
+    ['lossy', opaque, { quality: 75 }],
+    ['lossy at low quality', opaque, { quality: 10 }],
+    ['lossy at full quality', opaque, { quality: 100 }],
+    ['lossy with one segment', opaque, { quality: 50, method: 6, segments: 1 }],
+    ['lossy with several partitions', opaque, { quality: 80, partitions: 3 }],
+    ['lossy with the simple loop filter', opaque, { quality: 60, filter_type: 0, filter_strength: 60 }],
+    ['lossy with a sharp loop filter', opaque, { quality: 70, filter_sharpness: 7 }],
+    ['lossy with alpha', pixels, { quality: 75 }],
+    ['lossy with uncompressed alpha', pixels, { quality: 75, alpha_compression: 0 }],
+    ['lossy with filtered alpha', pixels, { quality: 75, alpha_filtering: 2 }],
+    ['lossy with lossy alpha', pixels, { quality: 75, alpha_quality: 30 }],
+    ['lossless', pixels, { lossless: 1 }],
+    ['lossless with every transform tried', pixels, { lossless: 1, method: 6, quality: 100 }],
+    ['lossless keeping transparent colors', pixels, { lossless: 1, exact: 1 }],
+    ['near lossless', pixels, { lossless: 1, near_lossless: 60 }],
+    ['lossless with a palette', fewColors, { lossless: 1 }]
+];
+
+const webpFiles = new Map<string, Buffer>();
+const webpReferences = new Map<string, RgbaImage>();
+
+// The typings leave out the compiled module, which saves the codecs from fetching it
+const compileCodec = (file: string) =>
+    WebAssembly.compile(fs.readFileSync(fileURLToPath(new URL(`../../node_modules/@jsquash/webp/codec/${file}`, import.meta.url))));
+
+beforeAll(async () => {
+    await (initWebpEncode as (module: WebAssembly.Module) => Promise<unknown>)(await compileCodec('enc/webp_enc_simd.wasm'));
+    await (initWebpDecode as (module: WebAssembly.Module) => Promise<unknown>)(await compileCodec('dec/webp_dec.wasm'));
+    for (const [name, data, options] of WEBP_CASES) {
+        const file = Buffer.from(await encodeWebp({ data, width: WIDTH, height: HEIGHT, colorSpace: 'srgb' }, options));
+        const reference = await referenceDecodeWebp(file.buffer.slice(file.byteOffset, file.byteOffset + file.length));
+        webpFiles.set(name, file);
+        webpReferences.set(name, { width: reference.width, height: reference.height, data: new Uint8Array(reference.data.buffer, reference.data.byteOffset, reference.data.length) });
+    }
+});
+
+const setUInt24LE = (buffer: Buffer, value: number, offset: number) => {
+    buffer.writeUInt16LE(value & 0xffff, offset);
+    buffer[offset + 2] = value >> 16;
+};
+
+const riffChunk = (type: string, data: Buffer) =>
+    Buffer.concat([Buffer.from(type, 'latin1'), Buffer.from(Uint32Array.of(data.length).buffer), data, Buffer.alloc(data.length & 1)]);
+
+// An animation of one frame at an offset: the frame is what is shown
+function makeAnimatedWebp(frame: Buffer) {
+    const header = Buffer.alloc(10);
+    header[0] = 0x02 | 0x10; // Animation and alpha
+    setUInt24LE(header, WIDTH + 9, 4);
+    setUInt24LE(header, HEIGHT + 9, 7);
+    const frameHeader = Buffer.alloc(16);
+    setUInt24LE(frameHeader, 2, 0);
+    setUInt24LE(frameHeader, 2, 3);
+    setUInt24LE(frameHeader, WIDTH - 1, 6);
+    setUInt24LE(frameHeader, HEIGHT - 1, 9);
+    setUInt24LE(frameHeader, 100, 12);
+    const body = Buffer.concat([
+        Buffer.from('WEBP', 'latin1'),
+        riffChunk('VP8X', header),
+        riffChunk('ANIM', Buffer.alloc(6)),
+        riffChunk('ANMF', Buffer.concat([frameHeader, frame.subarray(12)]))
+    ]);
+    return Buffer.concat([Buffer.from('RIFF', 'latin1'), Buffer.from(Uint32Array.of(body.length).buffer), body]);
+}
+
+const PALETTE = [0x000000, 0xff0000, 0x00ff00, 0x0000ff, 0xffffff, 0x808080, 0xffff00, 0x00ffff];
+
+function makeGif(indices: number[], width = WIDTH, height = HEIGHT) {
+    const buffer = Buffer.alloc(width * height * 2 + 1024);
+    const writer = new GifWriter(buffer, width, height, { palette: PALETTE });
+    writer.addFrame(0, 0, width, height, indices);
+    return buffer.subarray(0, writer.end());
+}
+
+const gifIndices = Array.from({ length: WIDTH * HEIGHT }, (_, i) => ((i % WIDTH) * 7 + Math.floor(i / WIDTH) * 3 + (i % 11)) % PALETTE.length);
+
+function makePng() {
+    const png = new PNG({ width: WIDTH, height: HEIGHT });
+    png.data.set(pixels);
+    return PNG.sync.write(png);
+}
+
+const makeJpeg = () => Buffer.from(jpeg.encode({ data: Buffer.from(opaque), width: WIDTH, height: HEIGHT }, 90).data);
+
+// An Exif block saying the stored pixels are to be turned before they are shown
+function withJpegOrientation(file: Buffer, orientation: number) {
+    const tiff = Buffer.alloc(26);
+    tiff.write('MM\0*', 0, 'latin1');
+    tiff.writeUInt32BE(8, 4);
+    tiff.writeUInt16BE(1, 8);
+    tiff.writeUInt16BE(0x0112, 10);
+    tiff.writeUInt16BE(3, 12);
+    tiff.writeUInt32BE(1, 14);
+    tiff.writeUInt16BE(orientation, 18);
+    const exif = Buffer.concat([Buffer.from('Exif\0\0', 'latin1'), tiff]);
+    const segment = Buffer.alloc(4);
+    segment.writeUInt16BE(0xffe1, 0);
+    segment.writeUInt16BE(exif.length + 2, 2);
+    return Buffer.concat([file.subarray(0, 2), segment, exif, file.subarray(2)]);
+}
+
+// Either an error or a well-formed image; anything else (a hang, a thrown string, short pixel data)
+// would reach the thumbnail worker
+function expectErrorOrImage(decode: () => RgbaImage) {
+    let image: RgbaImage;
+    try {
+        image = decode();
+    } catch (error) {
+        expect(error).toBeInstanceOf(Error);
+        return;
+    }
+    expect(image.width).toBeGreaterThan(0);
+    expect(image.height).toBeGreaterThan(0);
+    expect(image.data.length).toBe(image.width * image.height * 4);
+}
+
+// `count` copies of the file, each with a few bytes past the signature changed at random
+function* corruptCopies(file: Buffer, count: number) {
+    let state = 7;
+    const next = () => {
+        state = (state * 1103515245 + 12345) & 0x7fffffff;
+        return state / 0x7fffffff;
+    };
+    for (let i = 0; i < count; i++) {
+        const copy = Buffer.from(file);
+        for (let j = 0; j < 3; j++) {
+            copy[12 + Math.floor(next() * (copy.length - 12))] = Math.floor(next() * 256);
+        }
+        yield copy;
+    }
+}
+
+describe('WebP decoding', () => {
+    it.each(WEBP_CASES.map(([name]) => name))('matches libwebp for %s files', name => {
+        const image = decodeWebp(webpFiles.get(name)!);
+        const reference = webpReferences.get(name)!;
+        expect(image.width).toBe(reference.width);
+        expect(image.height).toBe(reference.height);
+        expect(Buffer.compare(Buffer.from(image.data), Buffer.from(reference.data))).toBe(0);
+    });
+
+    it('shows the first frame of an animation', () => {
+        const image = decodeWebp(makeAnimatedWebp(webpFiles.get('lossless')!));
+        const reference = webpReferences.get('lossless')!;
+        expect([image.width, image.height]).toEqual([WIDTH, HEIGHT]);
+        expect(Buffer.compare(Buffer.from(image.data), Buffer.from(reference.data))).toBe(0);
+    });
+
+    it.each(['lossy', 'lossy with alpha', 'lossless'])('refuses every cut short %s file', name => {
+        const file = webpFiles.get(name)!;
+        for (let length = 0; length < file.length; length++) {
+            expect(() => decodeWebp(file.subarray(0, length))).toThrow(Error);
+        }
+    });
+
+    it.each(['lossy', 'lossy with alpha', 'lossless'])('refuses or decodes cut short %s files with a RIFF size to match', name => {
+        const file = webpFiles.get(name)!;
+        for (let length = 16; length < file.length; length++) {
+            const cut = Buffer.from(file.subarray(0, length));
+            cut.writeUInt32LE(length - 8, 4);
+            expectErrorOrImage(() => decodeWebp(cut));
+        }
+    });
+
+    it.each(['lossy', 'lossy with alpha', 'lossless', 'lossless with a palette'])('refuses or decodes corrupt %s files', name => {
+        for (const file of corruptCopies(webpFiles.get(name)!, 300)) {
+            expectErrorOrImage(() => decodeWebp(file));
+        }
+    });
+
+    it('checks the size before decoding', () => {
+        const file = Buffer.from(webpFiles.get('lossless')!);
+        // 16384 x 16384 in the VP8L header
+        file[21] = 0xff;
+        file[22] = 0xff;
+        file[23] = 0xff;
+        file[24] = (file[24] & 0xf0) | 0x0f;
+        expect(() => decodeImage(file)).toThrow('WebP image is too large');
+    });
+});
+
+describe('PNG decoding', () => {
+    it('reads back what pngjs wrote', () => {
+        const image = decodeImage(makePng());
+        expect([image.width, image.height]).toEqual([WIDTH, HEIGHT]);
+        expect(Buffer.compare(Buffer.from(image.data), Buffer.from(pixels))).toBe(0);
+    });
+
+    it('refuses or decodes cut short and corrupt files', () => {
+        const file = makePng();
+        for (let length = 0; length < file.length; length++) {
+            expectErrorOrImage(() => decodeImage(file.subarray(0, length)));
+        }
+        for (const copy of corruptCopies(file, 300)) {
+            expectErrorOrImage(() => decodeImage(copy));
+        }
+    });
+
+    it('checks the size before decoding', () => {
+        const file = makePng();
+        file.writeUInt32BE(100000, 16);
+        file.writeUInt32BE(100000, 20);
+        expect(() => decodeImage(file)).toThrow('Image is too large');
+    });
+});
+
+describe('GIF decoding', () => {
+    it('shows the palette colors of the first frame', () => {
+        const image = decodeImage(makeGif(gifIndices));
+        expect([image.width, image.height]).toEqual([WIDTH, HEIGHT]);
+        gifIndices.forEach((index, i) => {
+            const color = PALETTE[index];
+            expect([...image.data.subarray(i * 4, i * 4 + 4)]).toEqual([color >> 16, (color >> 8) & 0xff, color & 0xff, 255]);
+        });
+    });
+
+    it('matches omggif for files that fill the code table', () => {
+        const indices = Array.from({ length: 200 * 150 }, (_, i) => ((i * 7919) ^ (i >> 5)) % PALETTE.length);
+        const file = makeGif(indices, 200, 150);
+        const reference = new Uint8Array(200 * 150 * 4);
+        new GifReader(file).decodeAndBlitFrameRGBA(0, reference);
+        expect(Buffer.compare(Buffer.from(decodeImage(file).data), Buffer.from(reference))).toBe(0);
+    });
+
+    it('refuses or decodes cut short and corrupt files', () => {
+        // omggif warns on the console about image data of the wrong length
+        const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+        try {
+            const file = makeGif(gifIndices);
+            for (let length = 0; length < file.length; length++) {
+                expectErrorOrImage(() => decodeImage(file.subarray(0, length)));
+            }
+            for (const copy of corruptCopies(file, 300)) {
+                expectErrorOrImage(() => decodeImage(copy));
+            }
+        } finally {
+            log.mockRestore();
+        }
+    });
+
+    it('refuses codes that are not in the table yet, which omggif would loop on', () => {
+        const file = Buffer.from(makeGif(gifIndices));
+        const data = 13 + PALETTE.length * 3 + 10;
+        expect(file[data]).toBe(3); // Code size of the 8 colors
+        // Clear code, then 15 (the next free code is 10) in 4 bits
+        file[data + 2] = 0x08 | (15 << 4);
+        expect(() => decodeImage(file)).toThrow('Corrupt GIF image');
+    });
+
+    it('checks the size of the screen and of the frame before decoding', () => {
+        const screen = Buffer.from(makeGif(gifIndices));
+        screen.writeUInt16LE(0xffff, 6);
+        screen.writeUInt16LE(0xffff, 8);
+        expect(() => decodeImage(screen)).toThrow('Image is too large');
+
+        const frame = Buffer.from(makeGif(gifIndices));
+        const descriptor = 13 + PALETTE.length * 3;
+        expect(frame[descriptor]).toBe(0x2c);
+        frame.writeUInt16LE(0xffff, descriptor + 5);
+        frame.writeUInt16LE(0xffff, descriptor + 7);
+        expect(() => decodeImage(frame)).toThrow('Image is too large');
+    });
+});
+
+describe('JPEG decoding', () => {
+    it('comes close to what was encoded', () => {
+        const image = decodeImage(makeJpeg());
+        expect([image.width, image.height]).toEqual([WIDTH, HEIGHT]);
+        let difference = 0;
+        for (let i = 0; i < image.data.length; i += 4) {
+            for (let c = 0; c < 3; c++) difference += Math.abs(image.data[i + c] - opaque[i + c]);
+        }
+        expect(difference / (WIDTH * HEIGHT * 3)).toBeLessThan(8);
+    });
+
+    it('refuses or decodes cut short and corrupt files', () => {
+        const file = makeJpeg();
+        for (let length = 0; length < file.length; length += 7) {
+            expectErrorOrImage(() => decodeImage(file.subarray(0, length)));
+        }
+        for (const copy of corruptCopies(file, 300)) {
+            expectErrorOrImage(() => decodeImage(copy));
+        }
+    });
+
+    it('checks the size before decoding', () => {
+        const file = makeJpeg();
+        const frame = file.indexOf(Buffer.from([0xff, 0xc0]));
+        file.writeUInt16BE(0xffff, frame + 5);
+        file.writeUInt16BE(0xffff, frame + 7);
+        expect(() => decodeImage(file)).toThrow(Error);
+    });
+});
+
+describe('thumbnails', () => {
+    it('keep the size of small images and come out as JPEG', () => {
+        const thumbnails = makeThumbnails(makePng());
+        expect([thumbnails.width, thumbnails.height]).toEqual([WIDTH, HEIGHT]);
+        const small = jpeg.decode(Buffer.from(thumbnails.renditions.small));
+        expect([small.width, small.height]).toEqual([WIDTH, HEIGHT]);
+    });
+
+    it('turn JPEG images the way their Exif orientation says', () => {
+        const thumbnails = makeThumbnails(withJpegOrientation(makeJpeg(), 6));
+        expect([thumbnails.width, thumbnails.height]).toEqual([HEIGHT, WIDTH]);
+        const medium = jpeg.decode(Buffer.from(thumbnails.renditions.medium));
+        expect([medium.width, medium.height]).toEqual([HEIGHT, WIDTH]);
+    });
+
+    it('are made for WebP images', () => {
+        const thumbnails = makeThumbnails(webpFiles.get('lossy with alpha')!);
+        expect([thumbnails.width, thumbnails.height]).toEqual([WIDTH, HEIGHT]);
+    });
+});
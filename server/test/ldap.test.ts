@@ -0,0 +1,107 @@
+import type { Server } from 'ldapjs';
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { startLdapStandin } from '../ldapStandin';
+import { startServer, TestServer, ADMIN_EMAIL } from './server';
+
+// Directory sign-in against the stand-in LDAP server and its sample people: alice is in the admins
+// group, bob in the users group and carol in neither
+let directory: Server;
+let api: TestServer;
+let admin: string;
+
+const login = (email: string, password: string) =>
+    api.request('/api/login', { method: 'POST', json: { email, password } });
+
+const getMe = async (token: string) => (await (await api.request('/api/me', { token })).json()).user;
+
+const findUser = async (email: string) => {
+    const users = await (await api.request('/api/users', { token: admin })).json();
+    return users.find((u: any) => u.email === email);
+};
+
+beforeAll(async () => {
+    directory = await startLdapStandin(0);
+    Object.assign(process.env, {
+        LDAP_URL: directory.url,
+        LDAP_BASE_DN: 'ou=people,dc=fluxlocal,dc=test',
+        LDAP_BIND_DN: 'cn=service,dc=fluxlocal,dc=test',
+        LDAP_BIND_PASSWORD: 'service-secret',
+        LDAP_ADMIN_GROUPS: 'cn=storage-admins,ou=groups,dc=fluxlocal,dc=test',
+        LDAP_ALLOWED_GROUPS: 'cn=storage-users,ou=groups,dc=fluxlocal,dc=test'
+    });
+    api = await startServer();
+    admin = await api.login(ADMIN_EMAIL);
+});
+
+afterAll(async () => {
+    await api.stop();
+    await new Promise<void>(resolve => directory.close(() => resolve()));
+});
+
+describe('directory sign-in', () => {
+    it('creates the account on the first sign-in, with the role of the directory groups', async () => {
+        const first = await login('alice@fluxlocal.test', 'alice-pass');
+        expect(first.status).toBe(200);
+        const me = await getMe((await first.json()).token);
+        expect(me).toMatchObject({ email: 'alice@fluxlocal.test', username: 'Alice Admin', role: 'admin', authProvider: 'ldap' });
+
+        const again = await login('alice@fluxlocal.test', 'alice-pass');
+        expect((await getMe((await again.json()).token)).id).toBe(me.id);
+    });
+
+    it('refuses wrong directory passwords', async () => {
+        expect((await login('alice@fluxlocal.test', 'wrong-pass')).status).toBe(401);
+    });
+
+    it('refuses people outside the allowed groups', async () => {
+        expect((await login('carol@fluxlocal.test', 'carol-pass')).status).toBe(401);
+        expect(await findUser('carol@fluxlocal.test')).toBeUndefined();
+    });
+});
+
+describe('local accounts with a directory email', () => {
+    const email = 'bob@fluxlocal.test';
+
+    beforeAll(async () => {
+        const created = await api.request('/api/users', {
+            method: 'POST',
+            token: admin,
+            json: { username: 'Local Bob', email, password: 'Welcome1234-pass', role: 'admin', storageLimitBytes: 1024 * 1024 }
+        });
+        expect(created.status).toBe(200);
+    });
+
+    it('are not taken over by a directory sign-in', async () => {
+        const response = await login(email, 'bob-pass');
+        expect(response.status).toBe(409);
+        expect((await response.json()).error).toMatch(/administrator/);
+
+        expect(await findUser(email)).toMatchObject({ username: 'Local Bob', role: 'admin', authProvider: 'local' });
+        expect((await login(email, 'Welcome1234-pass')).status).toBe(200);
+    });
+
+    it('sign in through the directory once an admin links them', async () => {
+        const local = await findUser(email);
+        const linked = await api.request(`/api/users/${local.id}/directory-link`, { method: 'POST', token: admin, json: { provider: 'ldap' } });
+        expect(linked.status).toBe(200);
+
+        expect((await login(email, 'Welcome1234-pass')).status).toBe(401);
+        const response = await login(email, 'bob-pass');
+        expect(response.status).toBe(200);
+        const me = await getMe((await response.json()).token);
+        expect(me).toMatchObject({ id: local.id, role: 'user', authProvider: 'ldap' });
+    });
+
+    it('are only linked to providers that are configured', async () => {
+        const created = await api.request('/api/users', {
+            method: 'POST',
+            token: admin,
+            json: { username: 'Dana', email: 'dana@fluxlocal.com', password: 'Welcome1234-pass', role: 'user', storageLimitBytes: 1024 * 1024 }
+        });
+        const { id } = await created.json();
+        for (const provider of ['local', 'kerberos']) {
+            const response = await api.request(`/api/users/${id}/directory-link`, { method: 'POST', token: admin, json: { provider } });
+            expect(response.status).toBe(400);
+        }
+    });
+});
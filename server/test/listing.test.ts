@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { startServer, TestServer, ADMIN_EMAIL, USER_EMAIL } from './server';
+
+let api: TestServer;
+let owner: { token: string, id: string };
+let recipient: { token: string, id: string };
+let folder: any;
+
+const NAMES = ['delta', 'Alpha', 'charlie', 'Bravo', 'echo', '50% off', 'foxtrot', 'golf_1', 'hotel', 'India', 'juliet', 'kilo'];
+
+const signIn = async (email: string) => {
+    const token = await api.login(email);
+    const { user } = await (await api.request('/api/me', { token })).json();
+    return { token, id: user.id as string };
+};
+
+const page = async (folderId: string, query: string, token = owner.token) => {
+    const response = await api.request(`/api/folders/${folderId}/children?${query}`, { token });
+    expect(response.status).toBe(200);
+    return response.json() as Promise<{ items: any[], nextCursor: string | null }>;
+};
+
+// Every page of a listing, following the cursors
+const allPages = async (folderId: string, query: string) => {
+    const pages: any[][] = [];
+    let cursor: string | null = null;
+    do {
+        const result = await page(folderId, `${query}${cursor ? `&cursor=${cursor}` : ''}`);
+        pages.push(result.items);
+        cursor = result.nextCursor;
+    } while (cursor);
+    return pages;
+};
+
+beforeAll(async () => {
+    api = await startServer();
+    owner = await signIn(ADMIN_EMAIL);
+    recipient = await signIn(USER_EMAIL);
+    folder = await api.createFolder(owner.token, 'Phonetic');
+    for (const [i, name] of NAMES.entries()) {
+        if (i % 3 === 0) {
+            await api.createFolder(owner.token, name, folder.id);
+        } else {
+            await api.upload(owner.token, `${name}.txt`, 'x'.repeat(i + 1), folder.id);
+        }
+    }
+});
+
+afterAll(async () => {
+    await api.stop();
+});
+
+describe('folder children', () => {
+    it('come in pages that together hold every child once, sorted by name', async () => {
+        const pages = await allPages(folder.id, 'limit=5');
+        expect(pages.map(p => p.length)).toEqual([5, 5, 2]);
+        const names = pages.flat().map(node => node.name);
+        expect(names).toEqual([...names].sort((a, b) => a.toLowerCase().localeCompare(b.toLowerCase())));
+        expect(new Set(names).size).toBe(NAMES.length);
+    });
+
+    it('sort by size, creation time and type in either order', async () => {
+        const bySize = (await allPages(folder.id, 'sort=size&order=desc&limit=4')).flat();
+        const sizes = bySize.map(node => node.size);
+        expect(sizes).toEqual([...sizes].sort((a, b) => b - a));
+
+        const byCreation = (await allPages(folder.id, 'sort=createdAt&limit=4')).flat();
+        expect(byCreation.map(node => node.name.replace(/\.txt$/, ''))).toEqual(NAMES);
+
+        const byType = (await allPages(folder.id, 'sort=type&limit=3')).flat();
+        expect(byType.slice(0, 4).every(node => node.type === 'folder')).toBe(true);
+        expect(byType.slice(4).every(node => node.type === 'file')).toBe(true);
+    });
+
+    it('filter by type and by part of the name, taking % and _ literally', async () => {
+        const folders = (await page(folder.id, 'type=folder')).items;
+        expect(folders.map(node => node.name)).toEqual(['Bravo', 'delta', 'foxtrot', 'India']);
+
+        expect((await page(folder.id, 'q=%25')).items.map(node => node.name)).toEqual(['50% off.txt']);
+        expect((await page(folder.id, 'q=_')).items.map(node => node.name)).toEqual(['golf_1.txt']);
+        expect((await page(folder.id, 'q=ALPHA')).items.map(node => node.name)).toEqual(['Alpha.txt']);
+    });
+
+    it('neither repeat nor skip children while the folder changes', async () => {
+        const first = await page(folder.id, 'limit=6');
+        await api.createFolder(owner.token, 'aardvark', folder.id);
+        await api.upload(owner.token, 'zulu.txt', 'z', folder.id);
+
+        let cursor = first.nextCursor;
+        const rest: any[] = [];
+        while (cursor) {
+            const next = await page(folder.id, `limit=6&cursor=${cursor}`);
+            rest.push(...next.items);
+            cursor = next.nextCursor;
+        }
+        const seen = [...first.items, ...rest].map(node => node.name);
+        expect(new Set(seen).size).toBe(seen.length);
+        expect(seen).toContain('zulu.txt');
+        expect(seen).not.toContain('aardvark');
+    });
+
+    it('refuse queries they do not understand', async () => {
+        const { nextCursor } = await page(folder.id, 'limit=2');
+        for (const query of ['sort=owner', 'order=up', 'limit=0', 'limit=501', 'limit=two', 'type=link', 'cursor=garbage', `sort=size&cursor=${nextCursor}`]) {
+            const response = await api.request(`/api/folders/${folder.id}/children?${query}`, { token: owner.token });
+            expect(response.status, query).toBe(400);
+        }
+    });
+
+    it('list the drive root with "root"', async () => {
+        const { items } = await page('root', 'type=folder');
+        expect(items.map(node => node.id)).toContain(folder.id);
+    });
+
+    it('are open to those the folder is shared with, and to nobody else', async () => {
+        expect((await api.request(`/api/folders/${folder.id}/children`, { token: recipient.token })).status).toBe(404);
+        await api.request('/api/share', { method: 'POST', token: owner.token, json: { fileIds: [folder.id], userIds: [recipient.id] } });
+
+        const { items } = await page(folder.id, 'limit=500', recipient.token);
+        expect(items.length).toBeGreaterThanOrEqual(NAMES.length);
+        const [inner] = items.filter(node => node.name === 'delta');
+        expect((await api.request(`/api/folders/${inner.id}/children`, { token: recipient.token })).status).toBe(200);
+
+        const [file] = items.filter(node => node.type === 'file');
+        expect((await api.request(`/api/folders/${file.id}/children`, { token: recipient.token })).status).toBe(404);
+    });
+});
+
+describe('folder path', () => {
+    it('leads from the drive root for the owner and from the shared folder for others', async () => {
+        const inner = (await page(folder.id, 'q=delta')).items[0];
+        const deeper = await api.createFolder(owner.token, 'Deeper', inner.id);
+
+        const own = await (await api.request(`/api/folders/${deeper.id}/path`, { token: owner.token })).json();
+        expect(own.path.map((node: any) => node.name)).toEqual(['Phonetic', 'delta', 'Deeper']);
+
+        const shared = await (await api.request(`/api/folders/${deeper.id}/path`, { token: recipient.token })).json();
+        expect(shared.path.map((node: any) => node.name)).toEqual(['Phonetic', 'delta', 'Deeper']);
+
+        const topLevel = await api.createFolder(owner.token, 'Outer');
+        const sharedInner = await api.createFolder(owner.token, 'Shared inner', topLevel.id);
+        await api.request('/api/share', { method: 'POST', token: owner.token, json: { fileIds: [sharedInner.id], userIds: [recipient.id] } });
+        const trimmed = await (await api.request(`/api/folders/${sharedInner.id}/path`, { token: recipient.token })).json();
+        expect(trimmed.path.map((node: any) => node.name)).toEqual(['Shared inner']);
+
+        expect((await api.request(`/api/folders/${topLevel.id}/path`, { token: recipient.token })).status).toBe(404);
+    });
+});
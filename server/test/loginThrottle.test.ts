@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from 'vitest';
+import { startServer, TestServer, ADMIN_EMAIL, SEED_PASSWORD } from './server';
+
+let api: TestServer;
+let admin: string;
+let db: any;
+let throttle: typeof import('../loginThrottle');
+
+const EMAIL = 'throttled@fluxlocal.com';
+const PASSWORD = 'Welcome1234-pass';
+let userId: string;
+
+const login = (password: string, email = EMAIL) =>
+    api.request('/api/login', { method: 'POST', json: { email, password } });
+
+// Failures as if they happened `ms` ago, so backoff and lock periods can be tested without waiting
+const ageFailures = async (ms: number) => {
+    await db.run('UPDATE login_throttle SET last_failure_at = last_failure_at - ?, locked_until = locked_until - ?', ms, ms);
+};
+
+beforeAll(async () => {
+    api = await startServer();
+    admin = await api.login(ADMIN_EMAIL);
+    const created = await api.request('/api/users', {
+        method: 'POST',
+        token: admin,
+        json: { username: 'Throttled', email: EMAIL, password: PASSWORD, role: 'user', storageLimitBytes: 1024 * 1024 }
+    });
+    userId = (await created.json()).id;
+    db = await (await import('../db')).getDb();
+    throttle = await import('../loginThrottle');
+});
+
+beforeEach(async () => {
+    await db.run('DELETE FROM login_throttle');
+});
+
+afterAll(async () => {
+    await api.stop();
+});
+
+describe('sign-in throttling', () => {
+    it('lets a few wrong passwords through, then makes the next try wait', async () => {
+        for (let attempt = 0; attempt < 3; attempt++) {
+            expect((await login('Wrong1234-pass')).status).toBe(401);
+        }
+        const throttled = await login(PASSWORD);
+        expect(throttled.status).toBe(429);
+        expect(await throttled.json()).toMatchObject({ reason: 'backoff', retryAfter: 1 });
+        expect(throttled.headers.get('Retry-After')).toBe('1');
+
+        await ageFailures(1000);
+        expect((await login(PASSWORD)).status).toBe(200);
+        // The successful sign-in started the account counter over
+        expect((await db.get('SELECT * FROM login_throttle WHERE key = ?', throttle.accountKey(EMAIL)))).toBeUndefined();
+    });
+
+    it('throttles unknown emails like accounts', async () => {
+        for (let attempt = 0; attempt < 3; attempt++) {
+            expect((await login(PASSWORD, 'nobody@fluxlocal.com')).status).toBe(401);
+        }
+        expect((await login(PASSWORD, 'nobody@fluxlocal.com')).status).toBe(429);
+    });
+
+    it('counts every one of many failures at the same time', async () => {
+        await Promise.all(Array.from({ length: 10 }, () => throttle.recordLoginFailure(EMAIL, '203.0.113.5')));
+        const row = await db.get('SELECT * FROM login_throttle WHERE key = ?', throttle.accountKey(EMAIL));
+        expect(row.failures).toBe(10);
+        expect(row.locked_until).toBeGreaterThan(Date.now());
+    });
+
+    it('locks the account after too many failures, even for the right password', async () => {
+        for (let attempt = 0; attempt < 10; attempt++) {
+            await throttle.recordLoginFailure(EMAIL, '203.0.113.5');
+        }
+        const locked = await login(PASSWORD);
+        expect(locked.status).toBe(429);
+        expect((await locked.json()).reason).toBe('locked');
+
+        const users = await (await api.request('/api/users', { token: admin })).json();
+        expect(users.find((u: any) => u.id === userId).lockedUntil).toBeGreaterThan(Date.now());
+    });
+
+    it('lifts the lock when it runs out, and forgets old failures', async () => {
+        for (let attempt = 0; attempt < 10; attempt++) {
+            await throttle.recordLoginFailure(EMAIL, '203.0.113.5');
+        }
+        await ageFailures(throttle.LOCKOUT_DURATION_MS + 1000);
+        expect((await login(PASSWORD)).status).toBe(200);
+
+        await throttle.recordLoginFailure(EMAIL, '203.0.113.5');
+        await throttle.recordLoginFailure(EMAIL, '203.0.113.5');
+        await ageFailures(2 * 60 * 60 * 1000);
+        await throttle.recordLoginFailure(EMAIL, '203.0.113.5');
+        expect((await db.get('SELECT failures FROM login_throttle WHERE key = ?', throttle.accountKey(EMAIL))).failures).toBe(1);
+    });
+
+    it('lets an admin unlock the account', async () => {
+        for (let attempt = 0; attempt < 10; attempt++) {
+            await throttle.recordLoginFailure(EMAIL, '203.0.113.5');
+        }
+        expect((await login(PASSWORD)).status).toBe(429);
+
+        const unlocked = await api.request(`/api/users/${userId}/lockout`, { method: 'DELETE', token: admin });
+        expect(unlocked.status).toBe(200);
+        expect((await login(PASSWORD)).status).toBe(200);
+    });
+
+    it('locks a whole address after many failures across accounts', async () => {
+        for (let attempt = 0; attempt < 100; attempt++) {
+            await throttle.recordLoginFailure(`guess${attempt}@fluxlocal.com`, '198.51.100.7');
+        }
+        const status = await throttle.checkLoginAllowed(EMAIL, '198.51.100.7');
+        expect(status?.reason).toBe('locked');
+        expect(await throttle.checkLoginAllowed(EMAIL, '198.51.100.8')).toBeNull();
+    });
+});
+
+describe('password checks of signed-in users', () => {
+    it('count wrong current passwords against the sign-in limits', async () => {
+        const token = await api.login(ADMIN_EMAIL);
+        const change = (currentPassword: string) => api.request('/api/me/password', {
+            method: 'POST',
+            token,
+            json: { currentPassword, newPassword: 'Another1234-pass' }
+        });
+
+        for (let attempt = 0; attempt < 3; attempt++) {
+            expect((await change('Wrong1234-pass')).status).toBe(403);
+        }
+        expect((await change(SEED_PASSWORD)).status).toBe(429);
+        expect((await login(SEED_PASSWORD, ADMIN_EMAIL)).status).toBe(429);
+
+        await ageFailures(1000);
+        expect((await change(SEED_PASSWORD)).status).toBe(200);
+    });
+});
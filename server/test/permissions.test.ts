@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { startServer, TestServer, ADMIN_EMAIL, USER_EMAIL } from './server';
+
+let api: TestServer;
+let admin: string;
+let adminId: string;
+
+const updateUser = (id: string, json: unknown, token = admin) =>
+    api.request(`/api/users/${id}`, { method: 'PUT', token, json });
+
+const deleteUser = (id: string, token = admin) =>
+    api.request(`/api/users/${id}`, { method: 'DELETE', token });
+
+const createUser = async (email: string, role: string) => {
+    const response = await api.request('/api/users', {
+        method: 'POST',
+        token: admin,
+        json: { username: email.split('@')[0], email, password: 'Welcome1234-pass', role, storageLimitBytes: 1024 * 1024 }
+    });
+    expect(response.status).toBe(200);
+    return (await response.json()).id as string;
+};
+
+beforeAll(async () => {
+    api = await startServer();
+    admin = await api.login(ADMIN_EMAIL);
+    adminId = (await (await api.request('/api/me', { token: admin })).json()).user.id;
+});
+
+afterAll(async () => {
+    await api.stop();
+});
+
+describe('user management', () => {
+    it('answers users with the same 403 body on every route', async () => {
+        const token = await api.login(USER_EMAIL);
+        const responses = [
+            await api.request('/api/users', { token }),
+            await api.request('/api/users', { method: 'POST', token, json: {} }),
+            await updateUser(adminId, { role: 'user' }, token),
+            await deleteUser(adminId, token)
+        ];
+        for (const response of responses) {
+            expect(response.status).toBe(403);
+            expect(await response.json()).toEqual({ error: 'Forbidden', message: 'Requires role: admin' });
+        }
+        expect((await (await api.request('/api/me', { token: admin })).json()).user.role).toBe('admin');
+    });
+
+    it('refuses unknown roles', async () => {
+        expect((await updateUser(adminId, { role: 'owner' })).status).toBe(400);
+    });
+});
+
+describe('the last admin', () => {
+    it('cannot be demoted or deleted', async () => {
+        const demoted = await updateUser(adminId, { role: 'user' });
+        expect(demoted.status).toBe(409);
+        expect((await demoted.json()).error).toMatch(/last remaining admin/);
+        expect((await deleteUser(adminId)).status).toBe(409);
+
+        const users = await (await api.request('/api/users', { token: admin })).json();
+        expect(users.find((u: any) => u.id === adminId).role).toBe('admin');
+    });
+
+    it('can still have everything else changed', async () => {
+        expect((await updateUser(adminId, { username: 'Chief', role: 'admin' })).status).toBe(200);
+    });
+
+    it('can step down once there is another admin, who is then the last one', async () => {
+        const deputyId = await createUser('deputy@fluxlocal.com', 'admin');
+        expect((await updateUser(adminId, { role: 'user' })).status).toBe(200);
+
+        const deputy = await api.login('deputy@fluxlocal.com', 'Welcome1234-pass');
+        expect((await updateUser(deputyId, { role: 'user' }, deputy)).status).toBe(409);
+        expect((await deleteUser(deputyId, deputy)).status).toBe(409);
+
+        // The former admin lost access with the role
+        expect((await api.request('/api/users', { token: admin })).status).toBe(403);
+
+        expect((await updateUser(adminId, { role: 'admin' }, deputy)).status).toBe(200);
+        expect((await deleteUser(deputyId)).status).toBe(200);
+    });
+});
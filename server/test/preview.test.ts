@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { startServer, TestServer, ADMIN_EMAIL, USER_EMAIL } from './server';
+
+let api: TestServer;
+let owner: { token: string, id: string };
+let recipient: { token: string, id: string };
+
+const signIn = async (email: string) => {
+    const token = await api.login(email);
+    const { user } = await (await api.request('/api/me', { token })).json();
+    return { token, id: user.id as string };
+};
+
+// Upload with the type a browser would send for the file
+const uploadAs = async (name: string, content: string, type: string) => {
+    const form = new FormData();
+    form.append('file', new Blob([content], { type }), name);
+    const response = await api.request('/api/upload', { method: 'POST', token: owner.token, body: form });
+    expect(response.status).toBe(200);
+    return response.json();
+};
+
+const stream = (token: string, id: string, headers: Record<string, string> = {}, query = '') =>
+    fetch(api.url(`/api/stream/${id}${query}`), { headers: { Authorization: `Bearer ${token}`, ...headers } });
+
+const recent = async (token: string) => ((await (await api.request('/api/recent', { token })).json()) as any[]);
+
+beforeAll(async () => {
+    api = await startServer();
+    owner = await signIn(ADMIN_EMAIL);
+    recipient = await signIn(USER_EMAIL);
+});
+
+afterAll(async () => {
+    await api.stop();
+});
+
+describe('streaming for previews', () => {
+    it('shows text, images, PDF, audio and video in place with their type', async () => {
+        for (const [name, type] of [['notes.txt', 'text/plain'], ['photo.avif', 'image/avif'], ['paper.pdf', 'application/pdf'], ['tune.mp3', 'audio/mpeg'], ['clip.mp4', 'video/mp4']]) {
+            const file = await uploadAs(name, 'content', type);
+            const response = await stream(owner.token, file.id);
+            expect(response.status).toBe(200);
+            expect(response.headers.get('content-type')).toContain(type);
+            expect(response.headers.get('content-disposition')).toMatch(/^inline;/);
+            expect(response.headers.get('x-content-type-options')).toBe('nosniff');
+            await response.arrayBuffer();
+        }
+    });
+
+    it('downloads types a browser would run instead of showing them', async () => {
+        for (const [name, type] of [['page.html', 'text/html'], ['drawing.svg', 'image/svg+xml'], ['blob.bin', 'application/octet-stream']]) {
+            const file = await uploadAs(name, '<script>alert(1)</script>', type);
+            const response = await stream(owner.token, file.id);
+            expect(response.headers.get('content-disposition')).toMatch(/^attachment;/);
+            await response.arrayBuffer();
+        }
+    });
+
+    it('downloads with ?disposition=attachment, as /api/download always does', async () => {
+        const file = await uploadAs('readme.txt', 'read me', 'text/plain');
+        expect((await stream(owner.token, file.id, {}, '?disposition=attachment')).headers.get('content-disposition')).toMatch(/^attachment;/);
+        expect((await api.request(`/api/download/${file.id}`, { token: owner.token })).headers.get('content-disposition')).toMatch(/^attachment;/);
+    });
+
+    it('answers the range requests of media players', async () => {
+        const file = await uploadAs('long.mp4', '0123456789', 'video/mp4');
+        const response = await stream(owner.token, file.id, { Range: 'bytes=4-' });
+        expect(response.status).toBe(206);
+        expect(response.headers.get('content-range')).toBe('bytes 4-9/10');
+        expect(await response.text()).toBe('456789');
+    });
+
+    it('works through the signed stream link, without the session token', async () => {
+        const file = await uploadAs('linked.mp3', 'abcdef', 'audio/mpeg');
+        const { streamUrl } = await (await api.request(`/api/files/${file.id}/download-link`, { method: 'POST', token: owner.token, json: {} })).json();
+        const response = await fetch(api.url(streamUrl), { headers: { Range: 'bytes=0-2' } });
+        expect(response.status).toBe(206);
+        expect(response.headers.get('content-disposition')).toMatch(/^inline;/);
+        expect(await response.text()).toBe('abc');
+    });
+
+    it('is open to those the file is shared with, and to nobody else', async () => {
+        const folder = await api.createFolder(owner.token, 'Preview share');
+        const file = await api.upload(owner.token, 'shared.txt', 'shared text', folder.id);
+        expect((await stream(recipient.token, file.id)).status).toBe(404);
+
+        await api.request('/api/share', { method: 'POST', token: owner.token, json: { fileIds: [folder.id], userIds: [recipient.id] } });
+        const response = await stream(recipient.token, file.id);
+        expect(response.status).toBe(200);
+        expect(await response.text()).toBe('shared text');
+
+        expect((await stream(recipient.token, folder.id)).status).toBe(400);
+    });
+
+    it('counts as an open only from the start of the file', async () => {
+        const file = await api.upload(owner.token, 'opened.txt', 'opened once');
+        await api.request('/api/share', { method: 'POST', token: owner.token, json: { fileIds: [file.id], userIds: [recipient.id] } });
+
+        await (await stream(recipient.token, file.id, { Range: 'bytes=3-' })).arrayBuffer();
+        expect((await recent(recipient.token)).map(item => item.id)).not.toContain(file.id);
+
+        await (await stream(recipient.token, file.id)).arrayBuffer();
+        expect((await recent(recipient.token)).find(item => item.id === file.id)).toMatchObject({ lastAction: 'open' });
+    });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { startServer, TestServer, ADMIN_EMAIL } from './server';
+
+let api: TestServer;
+let admin: string;
+let token: string;
+let userId: string;
+
+const LIMIT = 100;
+
+// Uploads content in one chunk through the chunked upload routes the browser uses
+const uploadInChunks = async (name: string, content: string) => {
+    const uploadId = `upload-${Math.random().toString(36).slice(2)}`;
+    const form = new FormData();
+    form.append('uploadId', uploadId);
+    form.append('chunkIndex', '0');
+    form.append('totalChunks', '1');
+    form.append('fileName', name);
+    form.append('chunk', new Blob([content]), 'blob');
+    expect((await api.request('/api/upload/chunk', { method: 'POST', token, body: form })).status).toBe(200);
+
+    return api.request('/api/upload/complete', {
+        method: 'POST',
+        token,
+        json: { uploadId, fileName: name, totalChunks: 1, size: content.length, mimeType: 'text/plain' }
+    });
+};
+
+const uploadDirectly = (name: string, content: string) => {
+    const form = new FormData();
+    form.append('file', new Blob([content], { type: 'text/plain' }), name);
+    return api.request('/api/upload', { method: 'POST', token, body: form });
+};
+
+const setVersionLimit = (versionLimit: number) =>
+    api.request(`/api/users/${userId}`, { method: 'PUT', token: admin, json: { versionLimit } });
+
+beforeAll(async () => {
+    api = await startServer();
+    admin = await api.login(ADMIN_EMAIL);
+    const created = await api.request('/api/users', {
+        method: 'POST',
+        token: admin,
+        json: { username: 'Small', email: 'small@fluxlocal.com', password: 'Welcome1234-pass', role: 'user', storageLimitBytes: LIMIT }
+    });
+    expect(created.status).toBe(200);
+    token = await api.login('small@fluxlocal.com', 'Welcome1234-pass');
+    userId = (await (await api.request('/api/me', { token })).json()).user.id;
+});
+
+afterAll(async () => {
+    await api.stop();
+});
+
+describe('storage quota', () => {
+    it('counts earlier versions', async () => {
+        expect((await uploadInChunks('notes.txt', 'a'.repeat(40))).status).toBe(200);
+        expect((await uploadInChunks('notes.txt', 'b'.repeat(40))).status).toBe(200);
+
+        const storage = await (await api.request('/api/storage', { token })).json();
+        expect(storage.usedSpace).toBe(80);
+    });
+
+    it('refuses a new version that does not fit next to the earlier ones', async () => {
+        expect((await uploadInChunks('notes.txt', 'c'.repeat(40))).status).toBe(413);
+        expect((await uploadDirectly('notes.txt', 'c'.repeat(40))).status).toBe(413);
+    });
+
+    it('frees the space of versions that fall beyond the limit', async () => {
+        expect((await setVersionLimit(1)).status).toBe(200);
+        // The current content becomes the one version kept, the older one is removed
+        expect((await uploadInChunks('notes.txt', 'd'.repeat(40))).status).toBe(200);
+        expect((await uploadDirectly('notes.txt', 'e'.repeat(40))).status).toBe(200);
+
+        const storage = await (await api.request('/api/storage', { token })).json();
+        expect(storage.usedSpace).toBe(80);
+    });
+
+    it('refuses direct uploads over the quota', async () => {
+        expect((await uploadDirectly('large.txt', 'f'.repeat(30))).status).toBe(413);
+        expect((await setVersionLimit(0)).status).toBe(200);
+        expect((await uploadDirectly('notes.txt', 'g'.repeat(60))).status).toBe(200);
+    });
+});
@@ -0,0 +1,102 @@
+import fs from 'fs';
+import path from 'path';
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { useTempDir } from './server';
+
+let dir: string;
+let safePath: typeof import('../safePath');
+
+const ALICE = '11111111-aaaa';
+const BOB = '22222222-bbbb';
+
+beforeAll(async () => {
+    dir = useTempDir();
+    safePath = await import('../safePath');
+    fs.mkdirSync(safePath.getUserRoot(ALICE), { recursive: true });
+    fs.mkdirSync(safePath.getUserRoot(BOB), { recursive: true });
+});
+
+afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('sanitizeName', () => {
+    it.each(['', '.', '..', ' ', 'a/b', 'a\\b', '../etc', 'a:b', 'tab\there', 'con', 'NUL.txt', 'x'.repeat(256)])('rejects %j', name => {
+        expect(() => safePath.sanitizeName(name)).toThrow(safePath.UnsafePathError);
+    });
+
+    it('rejects values that are not strings', () => {
+        expect(() => safePath.sanitizeName(undefined)).toThrow(safePath.UnsafePathError);
+        expect(() => safePath.sanitizeName(['a'])).toThrow(safePath.UnsafePathError);
+    });
+
+    it('drops trailing dots and spaces and normalizes to NFC', () => {
+        expect(safePath.sanitizeName('report.txt. . ')).toBe('report.txt');
+        expect(safePath.sanitizeName('cafe\u0301')).toBe('caf\u00e9');
+    });
+});
+
+describe('paths inside a user directory', () => {
+    it('resolves children of the user root', () => {
+        const root = safePath.getUserRoot(ALICE);
+        expect(safePath.resolveChildPath(ALICE, root, 'notes.txt')).toBe(path.join(root, 'notes.txt'));
+    });
+
+    it('refuses names that climb out of the parent', () => {
+        const root = safePath.getUserRoot(ALICE);
+        expect(() => safePath.resolveChildPath(ALICE, root, '..')).toThrow(safePath.UnsafePathError);
+        expect(() => safePath.resolveChildPath(ALICE, root, `../${BOB}`)).toThrow(safePath.UnsafePathError);
+    });
+
+    it('refuses parents outside the user root', () => {
+        expect(() => safePath.resolveChildPath(ALICE, safePath.getUserRoot(BOB), 'notes.txt')).toThrow(safePath.UnsafePathError);
+        expect(() => safePath.assertInsideUserRoot(ALICE, path.join(safePath.getUserRoot(ALICE), '..', BOB))).toThrow(safePath.UnsafePathError);
+        expect(() => safePath.assertInsideUserRoot(ALICE, '/etc/passwd')).toThrow(safePath.UnsafePathError);
+    });
+
+    it('refuses paths through a symlink that points elsewhere', () => {
+        const link = path.join(safePath.getUserRoot(ALICE), 'shortcut');
+        fs.symlinkSync(safePath.getUserRoot(BOB), link);
+        expect(() => safePath.assertInsideUserRoot(ALICE, path.join(link, 'secret.txt'))).toThrow(safePath.UnsafePathError);
+    });
+
+    it('refuses user ids that are not plain ids', () => {
+        expect(() => safePath.getUserRoot('../uploads')).toThrow(safePath.UnsafePathError);
+        expect(() => safePath.getUserRoot('')).toThrow(safePath.UnsafePathError);
+    });
+});
+
+describe('upload temp directories', () => {
+    it('are kept per user', () => {
+        const alice = safePath.getUploadTempDir(ALICE, 'upload-1');
+        const bob = safePath.getUploadTempDir(BOB, 'upload-1');
+        expect(alice).not.toBe(bob);
+        expect(alice).toBe(path.join(safePath.UPLOADS_ROOT, 'temp', ALICE, 'upload-1'));
+    });
+
+    it.each(['', '..', '../upload-1', 'a/b', 'a\\b', 'x'.repeat(101)])('refuse the upload id %j', uploadId => {
+        expect(() => safePath.getUploadTempDir(ALICE, uploadId)).toThrow(safePath.UnsafePathError);
+    });
+
+    it('refuse user ids that are not plain ids', () => {
+        expect(() => safePath.getUploadTempDir('..', 'upload-1')).toThrow(safePath.UnsafePathError);
+    });
+
+    it.each(['-1', '1.5', '01', '../1', 'abc', ''])('refuse the chunk index %j', chunkIndex => {
+        expect(() => safePath.getChunkPath(safePath.getUploadTempDir(ALICE, 'upload-1'), chunkIndex)).toThrow(safePath.UnsafePathError);
+    });
+
+    it('name chunks by their index', () => {
+        const tempDir = safePath.getUploadTempDir(ALICE, 'upload-1');
+        expect(safePath.getChunkPath(tempDir, '3')).toBe(path.join(tempDir, 'part_3'));
+    });
+});
+
+describe('trash, version and blob paths', () => {
+    it('refuse ids that could leave their directory', () => {
+        expect(() => safePath.getTrashItemDir(ALICE, '../x')).toThrow(safePath.UnsafePathError);
+        expect(() => safePath.getVersionPath(ALICE, '../x')).toThrow(safePath.UnsafePathError);
+        expect(() => safePath.getBlobPath('../' + 'a'.repeat(61))).toThrow(safePath.UnsafePathError);
+        expect(() => safePath.getThumbnailPath('../x', 'small')).toThrow(safePath.UnsafePathError);
+    });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { startServer, TestServer, ADMIN_EMAIL, USER_EMAIL } from './server';
+
+let api: TestServer;
+let owner: { token: string, id: string };
+let recipient: { token: string, id: string };
+
+const MARK = /\u0002(.*?)\u0003/g;
+const marked = (text: string) => Array.from(text.matchAll(MARK), match => match[1]);
+
+const signIn = async (email: string) => {
+    const token = await api.login(email);
+    const { user } = await (await api.request('/api/me', { token })).json();
+    return { token, id: user.id as string };
+};
+
+const search = async (token: string, query: string) => {
+    const response = await api.request(`/api/search?${query}`, { token });
+    expect(response.status).toBe(200);
+    return (await response.json()).results as any[];
+};
+
+const share = (fileIds: string[]) =>
+    api.request('/api/share', { method: 'POST', token: owner.token, json: { fileIds, userIds: [recipient.id] } });
+
+beforeAll(async () => {
+    api = await startServer();
+    owner = await signIn(ADMIN_EMAIL);
+    recipient = await signIn(USER_EMAIL);
+});
+
+afterAll(async () => {
+    await api.stop();
+});
+
+describe('search', () => {
+    it('finds files by name, by the folders on their path and by their text', async () => {
+        const folder = await api.createFolder(owner.token, 'Budgets');
+        const file = await api.upload(owner.token, 'forecast.md', 'Revenue grows with the zeppelin fleet', folder.id);
+
+        const [byName] = await search(owner.token, 'q=forecast');
+        expect(byName).toMatchObject({ id: file.id, path: '/Budgets/forecast.md', folderId: folder.id, sharedBy: null });
+        expect(marked(byName.highlights.name)).toEqual(['forecast']);
+
+        const byPath = await search(owner.token, 'q=budgets');
+        expect(byPath.map(result => result.id)).toEqual(expect.arrayContaining([folder.id, file.id]));
+
+        const [byText] = await search(owner.token, 'q=zeppel');
+        expect(byText.id).toBe(file.id);
+        expect(marked(byText.highlights.snippet)).toEqual(['zeppelin']);
+    });
+
+    it('keeps up with renames and deletes', async () => {
+        const file = await api.upload(owner.token, 'draft-ostrich.txt', 'x');
+        await api.request(`/api/files/${file.id}/rename`, { method: 'PUT', token: owner.token, json: { name: 'final-pelican.txt' } });
+        expect(await search(owner.token, 'q=ostrich')).toEqual([]);
+        expect((await search(owner.token, 'q=pelican')).map(result => result.id)).toEqual([file.id]);
+
+        await api.request(`/api/files/${file.id}`, { method: 'DELETE', token: owner.token });
+        expect(await search(owner.token, 'q=pelican')).toEqual([]);
+    });
+
+    it('reads query syntax as plain text', async () => {
+        await api.upload(owner.token, 'alpaca NEAR(llama).txt', 'y');
+        expect((await search(owner.token, `q=${encodeURIComponent('alpaca NEAR(llama')}`)).map(result => result.name)).toEqual(['alpaca NEAR(llama).txt']);
+        expect((await api.request(`/api/search?q=${encodeURIComponent('"alpaca OR -llama* AND')}`, { token: owner.token })).status).toBe(200);
+    });
+
+    it('filters by type, mime type and size', async () => {
+        const folder = await api.createFolder(owner.token, 'Filtered walrus');
+        const small = await api.upload(owner.token, 'walrus-small.txt', 'ab', folder.id);
+        const large = await api.upload(owner.token, 'walrus-large.txt', 'a'.repeat(500), folder.id);
+
+        expect((await search(owner.token, 'q=walrus&type=folder')).map(r => r.id)).toEqual([folder.id]);
+        expect((await search(owner.token, 'q=walrus&type=file&mime=text')).map(r => r.id).sort()).toEqual([small.id, large.id].sort());
+        expect(await search(owner.token, 'q=walrus&mime=image/png')).toEqual([]);
+        expect((await search(owner.token, 'q=walrus&type=file&minSize=100')).map(r => r.id)).toEqual([large.id]);
+        expect((await search(owner.token, 'q=walrus&type=file&maxSize=100')).map(r => r.id)).toEqual([small.id]);
+    });
+
+    it('needs a term or a filter, and understood filter values', async () => {
+        expect((await api.request('/api/search', { token: owner.token })).status).toBe(400);
+        expect((await api.request('/api/search?type=link', { token: owner.token })).status).toBe(400);
+        expect((await api.request('/api/search?minSize=big', { token: owner.token })).status).toBe(400);
+    });
+
+    it('does not find other people\'s files', async () => {
+        await api.upload(owner.token, 'private-narwhal.txt', 'x');
+        expect(await search(recipient.token, 'q=narwhal')).toEqual([]);
+    });
+});
+
+describe('search in shared folders', () => {
+    let shared: any;
+    let file: any;
+
+    beforeAll(async () => {
+        const hidden = await api.createFolder(owner.token, 'Confidential');
+        const client = await api.createFolder(owner.token, 'Client Kestrel', hidden.id);
+        shared = await api.createFolder(owner.token, 'Handover', client.id);
+        file = await api.upload(owner.token, 'timeline.txt', 'milestones for the lighthouse', shared.id);
+        expect((await share([shared.id])).status).toBe(200);
+    });
+
+    it('shows only the part of the path below the shared folder', async () => {
+        const [result] = await search(recipient.token, 'q=timeline');
+        expect(result).toMatchObject({
+            id: file.id,
+            path: '/Handover/timeline.txt',
+            folderId: shared.id,
+            sharedBy: { id: owner.id }
+        });
+        expect(result.highlights.path).not.toMatch(/Confidential|Kestrel/);
+
+        const [folder] = await search(recipient.token, 'q=handover');
+        expect(folder).toMatchObject({ id: shared.id, path: '/Handover', folderId: null });
+    });
+
+    it('does not match on the owner\'s folders above the share', async () => {
+        expect(await search(recipient.token, 'q=confidential')).toEqual([]);
+        expect(await search(recipient.token, 'q=kestrel')).toEqual([]);
+        expect((await search(owner.token, 'q=kestrel')).length).toBeGreaterThan(0);
+    });
+
+    it('matches the text of shared files', async () => {
+        expect((await search(recipient.token, 'q=lighthouse')).map(r => r.id)).toEqual([file.id]);
+    });
+
+    it('lists only shared items with sharedWithMe, and filters by who shared them', async () => {
+        await api.upload(recipient.token, 'own-timeline.txt', 'x');
+        const sharedOnly = await search(recipient.token, 'q=timeline&sharedWithMe=true');
+        expect(sharedOnly.map(r => r.id)).toEqual([file.id]);
+        expect((await search(recipient.token, `q=timeline&owner=${owner.id}`)).map(r => r.id)).toEqual([file.id]);
+        expect((await search(recipient.token, 'q=timeline&owner=me')).map(r => r.name)).toEqual(['own-timeline.txt']);
+    });
+
+    it('stops finding items once the share is gone', async () => {
+        const single = await api.upload(owner.token, 'single-heron.txt', 'x');
+        await share([single.id]);
+        expect((await search(recipient.token, 'q=heron'))[0]).toMatchObject({ path: '/single-heron.txt', folderId: null });
+
+        expect((await api.request('/api/shared', { method: 'DELETE', token: recipient.token })).status).toBe(200);
+        expect(await search(recipient.token, 'q=heron')).toEqual([]);
+        expect(await search(recipient.token, 'q=timeline&sharedWithMe=true')).toEqual([]);
+    });
+});
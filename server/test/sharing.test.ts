@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { startServer, TestServer, ADMIN_EMAIL, USER_EMAIL, SEED_PASSWORD } from './server';
+
+let api: TestServer;
+let owner: { token: string, id: string };
+let recipient: { token: string, id: string };
+let outsider: { token: string, id: string };
+
+const signIn = async (email: string) => {
+    const token = await api.login(email);
+    const { user } = await (await api.request('/api/me', { token })).json();
+    return { token, id: user.id as string };
+};
+
+const share = (token: string, fileIds: string[], userIds: string[]) =>
+    api.request('/api/share', { method: 'POST', token, json: { fileIds, userIds } });
+
+beforeAll(async () => {
+    api = await startServer();
+    owner = await signIn(ADMIN_EMAIL);
+    recipient = await signIn(USER_EMAIL);
+    const created = await api.request('/api/users', {
+        method: 'POST',
+        token: owner.token,
+        json: { username: 'Outsider', email: 'outsider@fluxlocal.com', password: SEED_PASSWORD, role: 'user', storageLimitBytes: 1024 * 1024 }
+    });
+    expect(created.status).toBe(200);
+    outsider = await signIn('outsider@fluxlocal.com');
+});
+
+afterAll(async () => {
+    await api.stop();
+});
+
+describe('POST /api/share', () => {
+    it('lets the owner share a file, which the recipient can then download', async () => {
+        const file = await api.upload(owner.token, 'report.txt', 'quarterly numbers');
+        expect((await share(owner.token, [file.id], [recipient.id])).status).toBe(200);
+
+        const download = await api.request(`/api/download/${file.id}`, { token: recipient.token });
+        expect(download.status).toBe(200);
+        expect(await download.text()).toBe('quarterly numbers');
+    });
+
+    it('gives access to everything inside a shared folder', async () => {
+        const folder = await api.createFolder(owner.token, 'Team');
+        const file = await api.upload(owner.token, 'plan.txt', 'the plan', folder.id);
+        expect((await share(owner.token, [folder.id], [recipient.id])).status).toBe(200);
+
+        expect((await api.request(`/api/download/${file.id}`, { token: recipient.token })).status).toBe(200);
+        expect((await api.request(`/api/download/${file.id}`, { token: outsider.token })).status).toBe(404);
+    });
+
+    it('refuses to share files of other users', async () => {
+        const file = await api.upload(owner.token, 'private.txt', 'not for everyone');
+        expect((await share(outsider.token, [file.id], [outsider.id])).status).toBe(404);
+        expect((await api.request(`/api/download/${file.id}`, { token: outsider.token })).status).toBe(404);
+    });
+
+    it('does not let recipients share further', async () => {
+        const file = await api.upload(owner.token, 'draft.txt', 'draft');
+        expect((await share(owner.token, [file.id], [recipient.id])).status).toBe(200);
+
+        expect((await share(recipient.token, [file.id], [outsider.id])).status).toBe(404);
+        expect((await api.request(`/api/download/${file.id}`, { token: outsider.token })).status).toBe(404);
+    });
+
+    it('refuses unknown recipients without sharing with the others', async () => {
+        const file = await api.upload(owner.token, 'notes.txt', 'notes');
+        expect((await share(owner.token, [file.id], [outsider.id, 'no-such-user'])).status).toBe(404);
+        expect((await api.request(`/api/download/${file.id}`, { token: outsider.token })).status).toBe(404);
+    });
+
+    it('refuses malformed requests', async () => {
+        const file = await api.upload(owner.token, 'memo.txt', 'memo');
+        expect((await api.request('/api/share', { method: 'POST', token: owner.token, json: { fileIds: file.id, userIds: [recipient.id] } })).status).toBe(400);
+    });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { startServer, TestServer, ADMIN_EMAIL, USER_EMAIL } from './server';
+
+let api: TestServer;
+let owner: { token: string, id: string };
+let recipient: { token: string, id: string };
+
+const signIn = async (email: string) => {
+    const token = await api.login(email);
+    const { user } = await (await api.request('/api/me', { token })).json();
+    return { token, id: user.id as string };
+};
+
+const star = (token: string, fileIds: string[], starred = true) =>
+    api.request('/api/starred', { method: 'PUT', token, json: { fileIds, starred } });
+
+const starred = async (token: string) => ((await (await api.request('/api/starred', { token })).json()) as any[]);
+
+const recent = async (token: string) => ((await (await api.request('/api/recent', { token })).json()) as any[]);
+
+const share = (fileIds: string[]) =>
+    api.request('/api/share', { method: 'POST', token: owner.token, json: { fileIds, userIds: [recipient.id] } });
+
+// Activity is ordered by time; a little gap keeps the order of quick successive actions certain
+const tick = () => new Promise(resolve => setTimeout(resolve, 5));
+
+beforeAll(async () => {
+    api = await startServer();
+    owner = await signIn(ADMIN_EMAIL);
+    recipient = await signIn(USER_EMAIL);
+});
+
+afterAll(async () => {
+    await api.stop();
+});
+
+describe('starred', () => {
+    it('lists own nodes, most recently starred first, and marks them in listings', async () => {
+        const folder = await api.createFolder(recipient.token, 'Favorites');
+        const file = await api.upload(recipient.token, 'star.txt', 'x');
+
+        expect(await (await star(recipient.token, [folder.id])).json()).toEqual({ success: true, updated: 1 });
+        await tick();
+        await star(recipient.token, [file.id]);
+
+        expect((await starred(recipient.token)).map(node => node.id)).toEqual([file.id, folder.id]);
+        const listing = (await (await api.request('/api/files?parentId=root', { token: recipient.token })).json()) as any[];
+        expect(listing.find(node => node.id === file.id).starred).toBe(true);
+
+        await star(recipient.token, [folder.id, file.id], false);
+        expect(await starred(recipient.token)).toEqual([]);
+    });
+
+    it('works for shared nodes, and only while they are shared', async () => {
+        const file = await api.upload(owner.token, 'shared-star.txt', 'x');
+        expect(await (await star(recipient.token, [file.id])).json()).toMatchObject({ updated: 0 });
+
+        await share([file.id]);
+        await star(recipient.token, [file.id]);
+        const [node] = await starred(recipient.token);
+        expect(node).toMatchObject({ id: file.id, sharedBy: { id: owner.id } });
+        // Stars are per user
+        expect((await starred(owner.token)).map(n => n.id)).not.toContain(file.id);
+
+        await api.request('/api/shared', { method: 'DELETE', token: recipient.token });
+        expect(await starred(recipient.token)).toEqual([]);
+        // The star is kept and shows again when the node is shared again
+        await share([file.id]);
+        expect((await starred(recipient.token)).map(n => n.id)).toEqual([file.id]);
+        await api.request('/api/shared', { method: 'DELETE', token: recipient.token });
+    });
+
+    it('comes back with a node restored from the trash', async () => {
+        const file = await api.upload(owner.token, 'trashed-star.txt', 'x');
+        await star(owner.token, [file.id]);
+        const { trashItemId } = await (await api.request(`/api/files/${file.id}`, { method: 'DELETE', token: owner.token })).json();
+        expect((await starred(owner.token)).map(n => n.id)).not.toContain(file.id);
+
+        await api.request(`/api/trash/${trashItemId}/restore`, { method: 'POST', token: owner.token });
+        expect((await starred(owner.token)).map(n => n.id)).toContain(file.id);
+    });
+
+    it('needs a list of ids and a boolean', async () => {
+        expect((await api.request('/api/starred', { method: 'PUT', token: owner.token, json: { fileIds: 'x', starred: true } })).status).toBe(400);
+        expect((await api.request('/api/starred', { method: 'PUT', token: owner.token, json: { fileIds: [], starred: 'yes' } })).status).toBe(400);
+    });
+});
+
+describe('recent', () => {
+    it('records uploads, opens and edits, newest first', async () => {
+        const { token } = recipient;
+        const first = await api.upload(token, 'first.txt', 'one');
+        await tick();
+        const second = await api.upload(token, 'second.txt', 'two');
+        await tick();
+        await api.request(`/api/download/${first.id}`, { token });
+
+        let items = await recent(token);
+        expect(items.slice(0, 2).map(item => [item.id, item.lastAction])).toEqual([[first.id, 'open'], [second.id, 'upload']]);
+
+        await tick();
+        await api.request(`/api/files/${second.id}/rename`, { method: 'PUT', token, json: { name: 'second-renamed.txt' } });
+        await tick();
+        await api.upload(token, 'first.txt', 'one, again');
+        items = await recent(token);
+        expect(items.slice(0, 2).map(item => [item.id, item.lastAction])).toEqual([[first.id, 'edit'], [second.id, 'edit']]);
+        // One entry per node
+        expect(items.filter(item => item.id === first.id)).toHaveLength(1);
+    });
+
+    it('records opens from the details panel, for shared files too', async () => {
+        const file = await api.upload(owner.token, 'shared-recent.txt', 'x');
+        expect((await api.request(`/api/files/${file.id}/open`, { method: 'POST', token: recipient.token })).status).toBe(404);
+
+        await share([file.id]);
+        expect((await api.request(`/api/files/${file.id}/open`, { method: 'POST', token: recipient.token })).status).toBe(200);
+        const [item] = await recent(recipient.token);
+        expect(item).toMatchObject({ id: file.id, lastAction: 'open', sharedBy: { id: owner.id } });
+        // The owner's own Recent only has their upload
+        expect((await recent(owner.token)).find(i => i.id === file.id).lastAction).toBe('upload');
+
+        await api.request('/api/shared', { method: 'DELETE', token: recipient.token });
+        expect((await recent(recipient.token)).map(i => i.id)).not.toContain(file.id);
+    });
+
+    it('leaves out nodes in the trash', async () => {
+        const file = await api.upload(recipient.token, 'gone.txt', 'x');
+        await api.request(`/api/files/${file.id}`, { method: 'DELETE', token: recipient.token });
+        expect((await recent(recipient.token)).map(i => i.id)).not.toContain(file.id);
+    });
+});
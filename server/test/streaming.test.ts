@@ -0,0 +1,159 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import { once } from 'events';
+import type { AddressInfo } from 'net';
+import express from 'express';
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { parseRange, sendFileContent } from '../streaming';
+
+const CONTENT = '0123456789abcdefghij';
+
+let dir: string;
+let server: http.Server;
+let base: string;
+
+const get = (route: string, headers: Record<string, string> = {}, method = 'GET') =>
+    fetch(`${base}${route}`, { method, headers });
+
+beforeAll(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'fluxlocal-streaming-'));
+    fs.writeFileSync(path.join(dir, 'letters.txt'), CONTENT);
+    fs.writeFileSync(path.join(dir, 'page.html'), '<script>alert(1)</script>');
+
+    const app = express();
+    app.get('/text', (req, res) => sendFileContent(req, res, { path: path.join(dir, 'letters.txt'), name: 'letters.txt', mimeType: 'text/plain' }, 'inline'));
+    app.get('/html', (req, res) => sendFileContent(req, res, { path: path.join(dir, 'page.html'), name: 'page.html', mimeType: 'text/html' }, 'inline'));
+    server = app.listen(0);
+    await once(server, 'listening');
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+    fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('parseRange', () => {
+    it('reads single, open-ended and suffix ranges', () => {
+        expect(parseRange('bytes=0-4', 20)).toEqual([[0, 4]]);
+        expect(parseRange('bytes=15-', 20)).toEqual([[15, 19]]);
+        expect(parseRange('bytes=-5', 20)).toEqual([[15, 19]]);
+        expect(parseRange('bytes=10-99', 20)).toEqual([[10, 19]]);
+    });
+
+    it('sorts and merges overlapping or adjacent ranges', () => {
+        expect(parseRange('bytes=10-12,0-2,3-4,11-15', 20)).toEqual([[0, 4], [10, 15]]);
+    });
+
+    it('returns no ranges when none lies within the file', () => {
+        expect(parseRange('bytes=20-30', 20)).toEqual([]);
+    });
+
+    it('ignores headers that are not valid byte ranges', () => {
+        expect(parseRange('items=0-4', 20)).toBeNull();
+        expect(parseRange('bytes=5-2', 20)).toBeNull();
+        expect(parseRange('bytes=-', 20)).toBeNull();
+        expect(parseRange('bytes=a-b', 20)).toBeNull();
+    });
+});
+
+describe('sendFileContent', () => {
+    it('sends the whole file without a Range header', async () => {
+        const response = await get('/text');
+        expect(response.status).toBe(200);
+        expect(response.headers.get('accept-ranges')).toBe('bytes');
+        expect(await response.text()).toBe(CONTENT);
+    });
+
+    it('sends one range as 206 with Content-Range', async () => {
+        const response = await get('/text', { Range: 'bytes=2-5' });
+        expect(response.status).toBe(206);
+        expect(response.headers.get('content-range')).toBe(`bytes 2-5/${CONTENT.length}`);
+        expect(response.headers.get('content-length')).toBe('4');
+        expect(await response.text()).toBe('2345');
+    });
+
+    it('sends the last bytes for a suffix range', async () => {
+        const response = await get('/text', { Range: 'bytes=-3' });
+        expect(response.status).toBe(206);
+        expect(await response.text()).toBe('hij');
+    });
+
+    it('sends several ranges as multipart/byteranges', async () => {
+        const response = await get('/text', { Range: 'bytes=0-1,10-11' });
+        expect(response.status).toBe(206);
+        expect(response.headers.get('content-type')).toMatch(/^multipart\/byteranges; boundary=/);
+        const body = await response.text();
+        expect(Buffer.byteLength(body)).toBe(Number(response.headers.get('content-length')));
+        expect(body).toContain(`Content-Range: bytes 0-1/${CONTENT.length}\r\n\r\n01`);
+        expect(body).toContain(`Content-Range: bytes 10-11/${CONTENT.length}\r\n\r\nab`);
+    });
+
+    it('answers 416 when no range lies within the file', async () => {
+        const response = await get('/text', { Range: 'bytes=100-200' });
+        expect(response.status).toBe(416);
+        expect(response.headers.get('content-range')).toBe(`bytes */${CONTENT.length}`);
+    });
+
+    it('ignores Range headers it cannot read', async () => {
+        const response = await get('/text', { Range: 'lines=1-2' });
+        expect(response.status).toBe(200);
+        expect(await response.text()).toBe(CONTENT);
+    });
+
+    it('sends no body for HEAD', async () => {
+        const response = await get('/text', { Range: 'bytes=0-9' }, 'HEAD');
+        expect(response.status).toBe(206);
+        expect(response.headers.get('content-length')).toBe('10');
+        expect(await response.text()).toBe('');
+    });
+
+    describe('If-Range', () => {
+        it('applies the range while the ETag matches', async () => {
+            const etag = (await get('/text')).headers.get('etag') as string;
+            const response = await get('/text', { Range: 'bytes=0-1', 'If-Range': etag });
+            expect(response.status).toBe(206);
+            expect(await response.text()).toBe('01');
+        });
+
+        it('sends the whole file when the ETag changed', async () => {
+            const response = await get('/text', { Range: 'bytes=0-1', 'If-Range': '"outdated"' });
+            expect(response.status).toBe(200);
+            expect(await response.text()).toBe(CONTENT);
+        });
+
+        it('does not accept weak ETags', async () => {
+            const etag = (await get('/text')).headers.get('etag') as string;
+            const response = await get('/text', { Range: 'bytes=0-1', 'If-Range': `W/${etag}` });
+            expect(response.status).toBe(200);
+        });
+
+        it('applies the range when the date is the last modification', async () => {
+            const lastModified = (await get('/text')).headers.get('last-modified') as string;
+            expect((await get('/text', { Range: 'bytes=0-1', 'If-Range': lastModified })).status).toBe(206);
+            const earlier = new Date(Date.parse(lastModified) - 1000).toUTCString();
+            expect((await get('/text', { Range: 'bytes=0-1', 'If-Range': earlier })).status).toBe(200);
+        });
+    });
+
+    describe('preconditions', () => {
+        it('answers 304 when If-None-Match matches', async () => {
+            const etag = (await get('/text')).headers.get('etag') as string;
+            expect((await get('/text', { 'If-None-Match': etag })).status).toBe(304);
+            expect((await get('/text', { 'If-None-Match': `W/${etag}` })).status).toBe(304);
+        });
+
+        it('answers 412 when If-Match does not match', async () => {
+            expect((await get('/text', { 'If-Match': '"outdated"' })).status).toBe(412);
+        });
+    });
+
+    it('never shows content a browser would run inline', async () => {
+        const response = await get('/html');
+        expect(response.headers.get('content-disposition')).toMatch(/^attachment;/);
+        expect(response.headers.get('x-content-type-options')).toBe('nosniff');
+    });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { startServer, TestServer, ADMIN_EMAIL, USER_EMAIL } from './server';
+
+let api: TestServer;
+let token: string;
+let other: string;
+
+const createTag = (name: string, color?: string) =>
+    api.request('/api/tags', { method: 'POST', token, json: { name, color } });
+
+const tagNodes = (fileIds: string[], add: string[], remove: string[] = [], as = token) =>
+    api.request('/api/files/tags', { method: 'POST', token: as, json: { fileIds, add, remove } });
+
+const listTags = async () => (await (await api.request('/api/tags', { token })).json()).tags as any[];
+
+const tagged = async (tagId: string, as = token) =>
+    ((await (await api.request(`/api/files?tag=${tagId}`, { token: as })).json()) as any[]).map(node => node.id);
+
+// Everything the event stream sends within `ms` after `action` runs
+const eventsDuring = async (as: string, action: () => Promise<unknown>, ms = 500) => {
+    const { ticket } = await (await api.request('/api/events/ticket', { method: 'POST', token: as })).json();
+    const controller = new AbortController();
+    const response = await fetch(api.url(`/api/events?ticket=${encodeURIComponent(ticket)}`), { signal: controller.signal });
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let text = '';
+    const reading = (async () => {
+        try {
+            for (;;) {
+                const { value, done } = await reader.read();
+                if (done) break;
+                text += decoder.decode(value);
+            }
+        } catch {
+            // Aborted
+        }
+    })();
+    await action();
+    await new Promise(resolve => setTimeout(resolve, ms));
+    controller.abort();
+    await reading;
+    return text.split('\n\n').filter(event => event.includes('event: change'));
+};
+
+beforeAll(async () => {
+    api = await startServer();
+    token = await api.login(USER_EMAIL);
+    other = await api.login(ADMIN_EMAIL);
+});
+
+afterAll(async () => {
+    await api.stop();
+});
+
+describe('tags', () => {
+    it('are created, renamed and recolored', async () => {
+        const created = await createTag('  Invoices ', 'green');
+        expect(created.status).toBe(200);
+        const tag = await created.json();
+        expect(tag).toMatchObject({ name: 'Invoices', color: 'green' });
+
+        const updated = await api.request(`/api/tags/${tag.id}`, { method: 'PUT', token, json: { name: 'Bills', color: 'red' } });
+        expect(await updated.json()).toMatchObject({ id: tag.id, name: 'Bills', color: 'red' });
+    });
+
+    it('refuse duplicate names, whatever the case, and unknown colors', async () => {
+        expect((await createTag('Receipts')).status).toBe(200);
+        expect((await createTag('receipts')).status).toBe(409);
+        expect((await createTag('Other', 'magenta')).status).toBe(400);
+        expect((await createTag('   ')).status).toBe(400);
+    });
+
+    it('are put on and taken off many nodes at once', async () => {
+        const tag = await (await createTag('Travel')).json();
+        const folder = await api.createFolder(token, 'Trips');
+        const file = await api.upload(token, 'tickets.txt', 'seat 12A', folder.id);
+
+        const response = await tagNodes([folder.id, file.id], [tag.id]);
+        expect(await response.json()).toEqual({ success: true, updated: 2 });
+        expect((await tagged(tag.id)).sort()).toEqual([folder.id, file.id].sort());
+        expect((await listTags()).find(t => t.id === tag.id).itemCount).toBe(2);
+
+        await tagNodes([folder.id], [], [tag.id]);
+        expect(await tagged(tag.id)).toEqual([file.id]);
+    });
+
+    it('are only put on the caller\'s own nodes, and only their owner is told about changes', async () => {
+        const tag = await (await createTag('Mine')).json();
+        const own = await api.upload(token, 'own.txt', 'own');
+        const foreign = await api.upload(other, 'foreign.txt', 'foreign');
+
+        let response: Response | undefined;
+        const othersEvents = await eventsDuring(other, async () => {
+            response = await tagNodes([own.id, foreign.id], [tag.id]);
+        });
+        expect(await response!.json()).toEqual({ success: true, updated: 1 });
+        expect(await tagged(tag.id)).toEqual([own.id]);
+        expect(othersEvents.filter(event => event.includes(foreign.id))).toEqual([]);
+
+        const ownEvents = await eventsDuring(token, () => tagNodes([own.id], [], [tag.id]));
+        expect(ownEvents.some(event => event.includes(own.id))).toBe(true);
+    });
+
+    it('of someone else cannot be used', async () => {
+        const foreignTag = await (await api.request('/api/tags', { method: 'POST', token: other, json: { name: 'Theirs' } })).json();
+        const file = await api.upload(token, 'plain.txt', 'plain');
+
+        await tagNodes([file.id], [foreignTag.id]);
+        expect(await tagged(foreignTag.id, other)).toEqual([]);
+        expect((await api.request(`/api/tags/${foreignTag.id}`, { method: 'DELETE', token })).status).toBe(404);
+    });
+
+    it('come off every node when deleted', async () => {
+        const tag = await (await createTag('Temporary')).json();
+        const file = await api.upload(token, 'draft.txt', 'draft');
+        await tagNodes([file.id], [tag.id]);
+
+        expect((await api.request(`/api/tags/${tag.id}`, { method: 'DELETE', token })).status).toBe(200);
+        expect((await listTags()).map(t => t.id)).not.toContain(tag.id);
+        const [node] = ((await (await api.request('/api/files?parentId=root', { token })).json()) as any[]).filter(n => n.id === file.id);
+        expect(node.tags).toEqual([]);
+    });
+
+    it('need lists of ids', async () => {
+        expect((await api.request('/api/files/tags', { method: 'POST', token, json: { fileIds: 'all', add: [] } })).status).toBe(400);
+    });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { base32Encode, base32Decode, hotp, verifyTotp, currentStep, hashRecoveryCode } from '../totp';
+import { startServer, TestServer, ADMIN_EMAIL, SEED_PASSWORD } from './server';
+
+// The shared secret of the RFC 4226 and RFC 6238 test vectors (SHA-1)
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('codes', () => {
+    it('match the RFC 4226 HOTP test vectors', () => {
+        const expected = ['755224', '287082', '359152', '969429', '338314', '254676', '287922', '162583', '399871', '520489'];
+        expect(expected.map((_, counter) => hotp(RFC_SECRET, counter))).toEqual(expected);
+    });
+
+    it('match the RFC 6238 TOTP test vectors, to six digits', () => {
+        const vectors: [number, string][] = [
+            [59, '287082'],
+            [1111111109, '081804'],
+            [1111111111, '050471'],
+            [1234567890, '005924'],
+            [2000000000, '279037'],
+            [20000000000, '353130']
+        ];
+        for (const [seconds, code] of vectors) {
+            expect(hotp(RFC_SECRET, currentStep(seconds * 1000))).toBe(code);
+            expect(verifyTotp(RFC_SECRET, code, seconds * 1000)).toBe(currentStep(seconds * 1000));
+        }
+    });
+
+    it('are accepted one step early or late, and no further', () => {
+        const time = 1111111111 * 1000;
+        const step = currentStep(time);
+        expect(verifyTotp(RFC_SECRET, hotp(RFC_SECRET, step - 1), time)).toBe(step - 1);
+        expect(verifyTotp(RFC_SECRET, hotp(RFC_SECRET, step + 1), time)).toBe(step + 1);
+        expect(verifyTotp(RFC_SECRET, hotp(RFC_SECRET, step - 2), time)).toBeNull();
+        expect(verifyTotp(RFC_SECRET, hotp(RFC_SECRET, step + 2), time)).toBeNull();
+    });
+
+    it('are read with spaces but nothing else', () => {
+        const time = 59 * 1000;
+        expect(verifyTotp(RFC_SECRET, '287 082', time)).not.toBeNull();
+        expect(verifyTotp(RFC_SECRET, '28708', time)).toBeNull();
+        expect(verifyTotp(RFC_SECRET, '2870820', time)).toBeNull();
+        expect(verifyTotp(RFC_SECRET, 'abcdef', time)).toBeNull();
+    });
+
+    it('use secrets that survive base32 both ways', () => {
+        expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+        expect(base32Decode(RFC_SECRET.toLowerCase()).toString()).toBe('12345678901234567890');
+        expect(() => base32Decode('GEZ1')).toThrow();
+    });
+
+    it('have recovery codes that match however they are typed', () => {
+        expect(hashRecoveryCode('ABCD efgh-JKLM')).toBe(hashRecoveryCode('abcd-efgh-jklm'));
+    });
+});
+
+describe('two-factor sign-in', () => {
+    let api: TestServer;
+    let secret: string;
+    let recoveryCodes: string[];
+
+    const signIn = async () => {
+        const response = await api.request('/api/login', { method: 'POST', json: { email: ADMIN_EMAIL, password: SEED_PASSWORD } });
+        const body = await response.json();
+        expect(body.twoFactorRequired).toBe(true);
+        return body.challenge as string;
+    };
+
+    const secondStep = async (code: string) =>
+        api.request('/api/login/2fa', { method: 'POST', json: { challenge: await signIn(), code } });
+
+    beforeAll(async () => {
+        api = await startServer();
+        const token = await api.login(ADMIN_EMAIL);
+        secret = (await (await api.request('/api/me/2fa/setup', { method: 'POST', token })).json()).secret;
+        expect((await api.request('/api/me/2fa/enable', { method: 'POST', token, json: { code: '000000' } })).status).toBe(400);
+
+        const enabled = await api.request('/api/me/2fa/enable', { method: 'POST', token, json: { code: hotp(secret, currentStep()) } });
+        expect(enabled.status).toBe(200);
+        recoveryCodes = (await enabled.json()).recoveryCodes;
+        expect(recoveryCodes).toHaveLength(10);
+    });
+
+    afterAll(async () => {
+        await api.stop();
+    });
+
+    it('asks for a code after the password and signs in with it', async () => {
+        const response = await secondStep(hotp(secret, currentStep() + 1));
+        expect(response.status).toBe(200);
+        expect((await response.json()).token).toBeTruthy();
+    });
+
+    it('does not take a code twice, nor an older one', async () => {
+        // The code of the next step was used above; the one that enabled 2FA is older still
+        expect((await secondStep(hotp(secret, currentStep() + 1))).status).toBe(401);
+        expect((await secondStep(hotp(secret, currentStep()))).status).toBe(401);
+    });
+
+    it('takes each recovery code once', async () => {
+        const [code] = recoveryCodes;
+        expect((await secondStep(code.toUpperCase())).status).toBe(200);
+        expect((await secondStep(code)).status).toBe(401);
+
+        const token = (await (await secondStep(recoveryCodes[1])).json()).token;
+        expect((await (await api.request('/api/me/2fa', { token })).json()).recoveryCodesRemaining).toBe(8);
+    });
+
+    it('stops taking the old recovery codes once new ones are made', async () => {
+        const token = (await (await secondStep(recoveryCodes[2])).json()).token;
+        const fresh = (await (await api.request('/api/me/2fa/recovery-codes', { method: 'POST', token })).json()).recoveryCodes;
+
+        expect((await secondStep(recoveryCodes[3])).status).toBe(401);
+        expect((await secondStep(fresh[0])).status).toBe(200);
+    });
+
+    it('refuses a challenge that was not issued by the server', async () => {
+        const response = await api.request('/api/login/2fa', { method: 'POST', json: { challenge: 'forged.challenge', code: recoveryCodes[4] } });
+        expect(response.status).toBe(401);
+    });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { startServer, TestServer, USER_EMAIL } from './server';
+
+let api: TestServer;
+let token: string;
+
+const remove = async (id: string) => {
+    const response = await api.request(`/api/files/${id}`, { method: 'DELETE', token });
+    expect(response.status).toBe(200);
+    return (await response.json()).trashItemId as string;
+};
+
+const restore = (trashItemId: string) => api.request(`/api/trash/${trashItemId}/restore`, { method: 'POST', token });
+
+const children = async (parentId: string) =>
+    (await (await api.request(`/api/files?parentId=${parentId}`, { token })).json()) as any[];
+
+const listTrash = async () => (await (await api.request('/api/trash', { token })).json()).items as any[];
+
+const download = async (id: string) => (await api.request(`/api/download/${id}`, { token })).text();
+
+beforeAll(async () => {
+    api = await startServer();
+    token = await api.login(USER_EMAIL);
+});
+
+afterAll(async () => {
+    await api.stop();
+});
+
+describe('restoring from the trash', () => {
+    it('puts a file back where it was, with its content', async () => {
+        const folder = await api.createFolder(token, 'Letters');
+        const file = await api.upload(token, 'dear.txt', 'dear diary', folder.id);
+
+        const trashItemId = await remove(file.id);
+        expect(await children(folder.id)).toHaveLength(0);
+        expect(await listTrash()).toContainEqual(expect.objectContaining({ id: trashItemId, name: 'dear.txt', originalPath: '/Letters/dear.txt' }));
+
+        const response = await restore(trashItemId);
+        expect(response.status).toBe(200);
+        expect(await response.json()).toMatchObject({ id: file.id, parentId: folder.id, path: '/Letters/dear.txt' });
+        expect(await download(file.id)).toBe('dear diary');
+        expect((await listTrash()).map(item => item.id)).not.toContain(trashItemId);
+    });
+
+    it('puts a folder back with everything in it', async () => {
+        const folder = await api.createFolder(token, 'Album');
+        const inner = await api.createFolder(token, 'Summer', folder.id);
+        const photo = await api.upload(token, 'beach.txt', 'sand', inner.id);
+
+        const response = await restore(await remove(folder.id));
+        expect(response.status).toBe(200);
+        expect((await children(folder.id)).map(node => node.id)).toEqual([inner.id]);
+        expect((await children(inner.id)).map(node => node.id)).toEqual([photo.id]);
+        expect(await download(photo.id)).toBe('sand');
+    });
+
+    it('follows the parent folder when it was renamed after the delete', async () => {
+        const folder = await api.createFolder(token, 'Drafts');
+        const file = await api.upload(token, 'plan.txt', 'step one', folder.id);
+        const trashItemId = await remove(file.id);
+
+        const renamed = await api.request(`/api/files/${folder.id}/rename`, { method: 'PUT', token, json: { name: 'Final' } });
+        expect(renamed.status).toBe(200);
+
+        const response = await restore(trashItemId);
+        expect(await response.json()).toMatchObject({ parentId: folder.id, path: '/Final/plan.txt' });
+        expect((await children(folder.id)).map(node => node.id)).toEqual([file.id]);
+    });
+
+    it('recreates the parent folders that are gone', async () => {
+        const outer = await api.createFolder(token, 'Projects');
+        const inner = await api.createFolder(token, 'Website', outer.id);
+        const file = await api.upload(token, 'index.txt', 'hello', inner.id);
+        const trashItemId = await remove(file.id);
+        await remove(outer.id);
+
+        const response = await restore(trashItemId);
+        expect(response.status).toBe(200);
+        const restored = await response.json();
+        expect(restored.path).toBe('/Projects/Website/index.txt');
+
+        const [projects] = (await children('root')).filter(node => node.name === 'Projects');
+        expect(projects.id).not.toBe(outer.id);
+        const [website] = await children(projects.id);
+        expect(website).toMatchObject({ name: 'Website', id: restored.parentId });
+        expect(await download(file.id)).toBe('hello');
+    });
+
+    it('does not overwrite a node that took the name in the meantime', async () => {
+        const file = await api.upload(token, 'todo.txt', 'old list');
+        const trashItemId = await remove(file.id);
+        const replacement = await api.upload(token, 'todo.txt', 'new list');
+
+        const restored = await (await restore(trashItemId)).json();
+        expect(restored.name).not.toBe('todo.txt');
+        expect(await download(replacement.id)).toBe('new list');
+        expect(await download(file.id)).toBe('old list');
+    });
+
+    it('answers 404 for items that are not in the trash', async () => {
+        expect((await restore('no-such-item')).status).toBe(404);
+    });
+});
+
+describe('purging the trash', () => {
+    it('deletes one item for good', async () => {
+        const file = await api.upload(token, 'secret.txt', 'shred me');
+        const trashItemId = await remove(file.id);
+
+        expect((await api.request(`/api/trash/${trashItemId}`, { method: 'DELETE', token })).status).toBe(200);
+        expect((await listTrash()).map(item => item.id)).not.toContain(trashItemId);
+        expect((await restore(trashItemId)).status).toBe(404);
+        expect((await api.request(`/api/download/${file.id}`, { token })).status).toBe(404);
+    });
+
+    it('empties the whole trash', async () => {
+        await remove((await api.upload(token, 'a.txt', 'a')).id);
+        await remove((await api.createFolder(token, 'Old stuff')).id);
+
+        const response = await api.request('/api/trash', { method: 'DELETE', token });
+        expect(response.status).toBe(200);
+        expect((await response.json()).purged).toBeGreaterThanOrEqual(2);
+        expect(await listTrash()).toEqual([]);
+    });
+});
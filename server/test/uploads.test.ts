@@ -0,0 +1,58 @@
+import fs from 'fs';
+import path from 'path';
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { startServer, TestServer, ADMIN_EMAIL, USER_EMAIL } from './server';
+
+let api: TestServer;
+let alice: string;
+let bob: string;
+
+const sendChunk = async (token: string, uploadId: string, chunkIndex: number, totalChunks: number, content: string) => {
+    const form = new FormData();
+    form.append('uploadId', uploadId);
+    form.append('chunkIndex', String(chunkIndex));
+    form.append('totalChunks', String(totalChunks));
+    form.append('fileName', 'shared-id.txt');
+    form.append('chunk', new Blob([content]), 'blob');
+    return api.request('/api/upload/chunk', { method: 'POST', token, body: form });
+};
+
+const complete = (token: string, uploadId: string, totalChunks: number, size: number) =>
+    api.request('/api/upload/complete', {
+        method: 'POST',
+        token,
+        json: { uploadId, fileName: 'shared-id.txt', totalChunks, size, mimeType: 'text/plain' }
+    });
+
+beforeAll(async () => {
+    api = await startServer();
+    alice = await api.login(ADMIN_EMAIL);
+    bob = await api.login(USER_EMAIL);
+});
+
+afterAll(async () => {
+    await api.stop();
+});
+
+describe('chunked uploads', () => {
+    it('keep chunks apart per user, even under the same upload id', async () => {
+        const { user } = await (await api.request('/api/me', { token: alice })).json();
+        expect((await sendChunk(alice, 'same-id', 0, 2, 'alice-0')).status).toBe(200);
+        expect(fs.existsSync(path.join(api.dir, 'uploads', 'temp', user.id, 'same-id', 'part_0'))).toBe(true);
+
+        // Bob cannot add to or complete Alice's upload
+        expect((await sendChunk(bob, 'same-id', 1, 2, 'bob-1')).status).toBe(200);
+        expect((await complete(bob, 'same-id', 2, 12)).ok).toBe(false);
+
+        expect((await sendChunk(alice, 'same-id', 1, 2, 'alice-1')).status).toBe(200);
+        const completed = await complete(alice, 'same-id', 2, 14);
+        expect(completed.status).toBe(200);
+        const { id } = await completed.json();
+        expect(await (await api.request(`/api/download/${id}`, { token: alice })).text()).toBe('alice-0alice-1');
+    });
+
+    it('refuse upload ids that are not plain ids', async () => {
+        expect((await sendChunk(alice, '../escape', 0, 1, 'x')).status).toBe(400);
+        expect((await complete(alice, '../escape', 1, 1)).status).toBe(400);
+    });
+});
@@ -0,0 +1,15 @@
+import fs from 'fs';
+import { makeThumbnails } from './images';
+
+// Child process forked by thumbnails.ts, so that decoding large images does not hold up requests.
+// Each { id, path } message is answered with { id, width, height, renditions } or { id, error }.
+process.on('message', (message: { id: number; path: string }) => {
+    try {
+        const thumbnails = makeThumbnails(fs.readFileSync(message.path));
+        process.send!({ id: message.id, ...thumbnails });
+    } catch (error: any) {
+        process.send!({ id: message.id, error: error?.message || String(error) });
+    }
+});
+
+process.on('disconnect', () => process.exit(0));
@@ -0,0 +1,223 @@
+import fs from 'fs';
+import path from 'path';
+import { fork, type ChildProcess } from 'child_process';
+import { fileURLToPath } from 'url';
+import { getDb } from './db';
+import { getContentPath } from './blobs';
+import { getThumbnailPath } from './safePath';
+import { THUMBNAIL_MIME_TYPES, THUMBNAIL_SIZES, type ThumbnailSize, type Thumbnails } from './images';
+
+// Image thumbnails in two sizes, cached under uploads/thumbnails. They are made one file at a time
+// in a child process, which is started when there is work and stopped when it has been idle for a
+// while. A thumbnails row records the content they were made from (the blob hash, or size and
+// modification time), so thumbnails of older content are never served but made again on request;
+// uploads, overwrites, restores and the disk watcher queue new ones ahead of time. Images that
+// cannot be decoded get a 'failed' row and are not tried again until their content changes.
+
+const MAX_SOURCE_BYTES = 100 * 1024 * 1024;
+const WORKER_PATH = fileURLToPath(new URL('./thumbnailWorker.ts', import.meta.url));
+const WORKER_TIMEOUT_MS = 60 * 1000;
+const WORKER_IDLE_MS = 30 * 1000;
+const GC_INTERVAL_MS = 60 * 60 * 1000;
+
+export const canHaveThumbnail = (file: any) => file?.type === 'file' && THUMBNAIL_MIME_TYPES.includes(file.mime_type);
+
+// Same as the ETag the content is served with
+const getContentKey = (file: any, stat: fs.Stats) =>
+    file.blob_hash || `${stat.size.toString(16)}-${Math.floor(stat.mtimeMs).toString(16)}`;
+
+let worker: ChildProcess | null = null;
+let idleTimer: NodeJS.Timeout | null = null;
+let nextRequestId = 1;
+
+function runWorker(sourcePath: string): Promise<Thumbnails> {
+    if (!worker) {
+        // Inherits the server's exec arguments, so it runs under the same loader
+        const child = fork(WORKER_PATH, [], { serialization: 'advanced' });
+        child.once('exit', () => {
+            if (worker === child) worker = null;
+        });
+        worker = child;
+    }
+
+    const child = worker;
+    const id = nextRequestId++;
+    return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => child.kill(), WORKER_TIMEOUT_MS);
+        const cleanup = () => {
+            clearTimeout(timer);
+            child.off('message', onMessage);
+            child.off('exit', onExit);
+        };
+        const onMessage = (message: any) => {
+            if (message?.id !== id) return;
+            cleanup();
+            if (message.error) {
+                reject(new Error(message.error));
+            } else {
+                resolve(message);
+            }
+        };
+        const onExit = () => {
+            cleanup();
+            reject(new Error('Thumbnail worker stopped (timed out or out of memory)'));
+        };
+        child.on('message', onMessage);
+        child.once('exit', onExit);
+        child.send({ id, path: sourcePath });
+    });
+}
+
+async function removeThumbnails(db: any, fileId: string) {
+    await db.run('DELETE FROM thumbnails WHERE file_id = ?', fileId);
+    for (const size of Object.keys(THUMBNAIL_SIZES)) {
+        await fs.promises.rm(getThumbnailPath(fileId, size), { force: true });
+    }
+}
+
+// Makes the thumbnails of a file unless they are up to date, and drops them when the file is gone
+// or no longer an image
+async function updateThumbnails(db: any, fileId: string) {
+    const file = await db.get('SELECT * FROM files WHERE id = ?', fileId);
+    const sourcePath = canHaveThumbnail(file) ? getContentPath(file) : null;
+    const stat = sourcePath ? await fs.promises.stat(sourcePath).catch(() => null) : null;
+    if (!sourcePath || !stat) {
+        await removeThumbnails(db, fileId);
+        return;
+    }
+
+    const contentKey = getContentKey(file, stat);
+    const current = await db.get('SELECT content_key FROM thumbnails WHERE file_id = ?', fileId);
+    if (current?.content_key === contentKey) return;
+
+    let thumbnails: Thumbnails | null = null;
+    if (stat.size <= MAX_SOURCE_BYTES) {
+        try {
+            thumbnails = await runWorker(sourcePath);
+        } catch (error: any) {
+            console.warn(`No thumbnail for ${file.name} (${fileId}):`, error.message);
+        }
+    }
+
+    for (const size of Object.keys(THUMBNAIL_SIZES) as ThumbnailSize[]) {
+        const target = getThumbnailPath(fileId, size);
+        if (thumbnails) {
+            // Renamed into place, as the previous thumbnail may be being sent
+            await fs.promises.mkdir(path.dirname(target), { recursive: true });
+            await fs.promises.writeFile(`${target}.tmp`, thumbnails.renditions[size]);
+            await fs.promises.rename(`${target}.tmp`, target);
+        } else {
+            await fs.promises.rm(target, { force: true });
+        }
+    }
+    await db.run(
+        `INSERT INTO thumbnails (file_id, content_key, status, width, height, created_at) VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT(file_id) DO UPDATE SET content_key = excluded.content_key, status = excluded.status,
+           width = excluded.width, height = excluded.height, created_at = excluded.created_at`,
+        fileId, contentKey, thumbnails ? 'ready' : 'failed', thumbnails?.width ?? null, thumbnails?.height ?? null, Date.now()
+    );
+}
+
+interface Job {
+    promise: Promise<void>;
+    done: () => void;
+}
+
+const jobs = new Map<string, Job>();
+const queue: string[] = [];
+let running = false;
+
+async function processQueue() {
+    if (running) return;
+    running = true;
+    if (idleTimer) {
+        clearTimeout(idleTimer);
+        idleTimer = null;
+    }
+
+    while (queue.length) {
+        const fileId = queue.shift()!;
+        const job = jobs.get(fileId)!;
+        // Queuing the file again from here on runs it again, in case it changes meanwhile
+        jobs.delete(fileId);
+        try {
+            await updateThumbnails(await getDb(), fileId);
+        } catch (error) {
+            console.error('Thumbnail error:', error);
+        }
+        job.done();
+    }
+
+    running = false;
+    idleTimer = setTimeout(() => worker?.disconnect(), WORKER_IDLE_MS);
+    idleTimer.unref();
+}
+
+// Queues a file for thumbnails; resolves once they are made or known to be impossible. `urgent`
+// puts it at the head of the queue, for a thumbnail a client is waiting for.
+export function queueThumbnails(fileId: string, urgent = false): Promise<void> {
+    const existing = jobs.get(fileId);
+    if (existing) {
+        const index = queue.indexOf(fileId);
+        if (urgent && index > 0) {
+            queue.splice(index, 1);
+            queue.unshift(fileId);
+        }
+        return existing.promise;
+    }
+
+    let done!: () => void;
+    const promise = new Promise<void>(resolve => { done = resolve; });
+    jobs.set(fileId, { promise, done });
+    if (urgent) {
+        queue.unshift(fileId);
+    } else {
+        queue.push(fileId);
+    }
+    processQueue();
+    return promise;
+}
+
+// For a file whose content or name changed: drops its thumbnails at once and queues new ones
+export async function invalidateThumbnails(db: any, fileId: string) {
+    await removeThumbnails(db, fileId);
+    queueThumbnails(fileId);
+}
+
+// Path of an up to date thumbnail of the file, made first when needed; null when there can be none
+export async function getThumbnail(db: any, file: any, size: ThumbnailSize): Promise<string | null> {
+    const sourcePath = canHaveThumbnail(file) ? getContentPath(file) : null;
+    const stat = sourcePath ? await fs.promises.stat(sourcePath).catch(() => null) : null;
+    if (!stat) return null;
+
+    const contentKey = getContentKey(file, stat);
+    const target = getThumbnailPath(file.id, size);
+    let row = await db.get('SELECT content_key, status FROM thumbnails WHERE file_id = ?', file.id);
+    if (!row || row.content_key !== contentKey || (row.status === 'ready' && !fs.existsSync(target))) {
+        await db.run('DELETE FROM thumbnails WHERE file_id = ?', file.id);
+        await queueThumbnails(file.id, true);
+        row = await db.get('SELECT content_key, status FROM thumbnails WHERE file_id = ?', file.id);
+    }
+    return row?.content_key === contentKey && row.status === 'ready' && fs.existsSync(target) ? target : null;
+}
+
+// Thumbnails of files deleted for good
+export async function collectThumbnailGarbage(db: any) {
+    const orphans = await db.all('SELECT file_id FROM thumbnails WHERE file_id NOT IN (SELECT id FROM files)');
+    for (const { file_id } of orphans) {
+        await removeThumbnails(db, file_id);
+    }
+    return orphans.length;
+}
+
+export function startThumbnailGc() {
+    const run = async () => {
+        try {
+            await collectThumbnailGarbage(await getDb());
+        } catch (error) {
+            console.error('Thumbnail garbage collection error:', error);
+        }
+    };
+    run();
+    setInterval(run, GC_INTERVAL_MS).unref();
+}
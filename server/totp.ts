@@ -0,0 +1,108 @@
+import crypto from 'crypto';
+
+// RFC 6238 TOTP (HMAC-SHA1, 6 digits, 30 second steps) as used by common authenticator apps.
+// Everything is computed locally, no network access needed.
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+// Accept codes from one step before/after to tolerate clock drift
+const DRIFT_STEPS = 1;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export function base32Encode(buffer: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+
+    for (const byte of buffer) {
+        value = (value << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) {
+        output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+    return output;
+}
+
+export function base32Decode(input: string): Buffer {
+    const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+    let bits = 0;
+    let value = 0;
+    const bytes: number[] = [];
+
+    for (const char of cleaned) {
+        const index = BASE32_ALPHABET.indexOf(char);
+        if (index === -1) throw new Error('Invalid base32 character');
+        value = (value << 5) | index;
+        bits += 5;
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 255);
+            bits -= 8;
+        }
+    }
+    return Buffer.from(bytes);
+}
+
+export function generateSecret(): string {
+    return base32Encode(crypto.randomBytes(20));
+}
+
+// RFC 4226 HOTP for a given counter
+export function hotp(secret: string, counter: number): string {
+    const counterBuffer = Buffer.alloc(8);
+    counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+    const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counterBuffer).digest();
+    const offset = hmac[hmac.length - 1] & 0xf;
+    const code = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** DIGITS;
+    return code.toString().padStart(DIGITS, '0');
+}
+
+export function currentStep(time = Date.now()): number {
+    return Math.floor(time / 1000 / STEP_SECONDS);
+}
+
+// Returns the matching time step, or null. Callers store the step to reject replays.
+export function verifyTotp(secret: string, code: string, time = Date.now()): number | null {
+    const normalized = String(code || '').replace(/\s/g, '');
+    if (!/^\d{6}$/.test(normalized)) return null;
+
+    const step = currentStep(time);
+    for (let drift = -DRIFT_STEPS; drift <= DRIFT_STEPS; drift++) {
+        const candidate = Buffer.from(hotp(secret, step + drift));
+        if (crypto.timingSafeEqual(candidate, Buffer.from(normalized))) {
+            return step + drift;
+        }
+    }
+    return null;
+}
+
+export function buildOtpauthUri(secret: string, accountName: string, issuer = 'FluxLocal Storage'): string {
+    const label = encodeURIComponent(`${issuer}:${accountName}`);
+    const params = new URLSearchParams({
+        secret,
+        issuer,
+        algorithm: 'SHA1',
+        digits: String(DIGITS),
+        period: String(STEP_SECONDS)
+    });
+    return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+// Recovery codes look like "abcd-efgh-ijkl"; only their SHA-256 hashes are stored
+export function generateRecoveryCodes(count = 10): string[] {
+    const alphabet = 'abcdefghjkmnpqrstuvwxyz23456789';
+    return Array.from({ length: count }, () => {
+        const chars = Array.from({ length: 12 }, () => alphabet[crypto.randomInt(alphabet.length)]).join('');
+        return `${chars.slice(0, 4)}-${chars.slice(4, 8)}-${chars.slice(8)}`;
+    });
+}
+
+export function hashRecoveryCode(code: string): string {
+    const normalized = String(code || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+    return crypto.createHash('sha256').update(normalized).digest('hex');
+}
@@ -0,0 +1,387 @@
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { getDb, getSetting, setSetting } from './db';
+import { getUserRoot, getTrashItemDir, resolveChildPath, renameWithRetry, UnsafePathError } from './safePath';
+import { deleteFileVersions } from './versions';
+import { releaseBlob, collectBlobGarbage } from './blobs';
+import { availableName } from './conflicts';
+import { removeStars } from './stars';
+import { removeRecent } from './recent';
+import { adjustFolderTotals, nodeTotals, recountSubtree } from './folderStats';
+
+// Deleting a file or folder moves it to the owner's trash instead of removing it. The files rows of
+// the whole subtree (and its shares and tags) are saved in the trash item's manifest and removed from the
+// drive; restoring puts them back under their original ids. Files in the blob store keep their
+// reference while they are in the trash and give it back when the item is purged.
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TrashSettings {
+    // Items older than this are purged automatically; 0 keeps them until the trash is emptied
+    retentionDays: number;
+    countsTowardQuota: boolean;
+}
+
+interface ManifestNode {
+    id: string;
+    parentId: string | null;
+    name: string;
+    type: 'file' | 'folder';
+    size: number;
+    mimeType: string | null;
+    createdAt: number;
+    uploadedBy?: string | null;
+    updatedAt?: number | null;
+    blobHash?: string | null;
+}
+
+interface ManifestShare {
+    id: string;
+    fileId: string;
+    fromUserId: string;
+    toUserId: string;
+    createdAt: number;
+}
+
+interface ManifestTag {
+    fileId: string;
+    tagId: string;
+    createdAt: number;
+}
+
+interface Ancestor {
+    id: string;
+    name: string;
+}
+
+export async function getTrashSettings(): Promise<TrashSettings> {
+    const retention = await getSetting('trash_retention_days');
+    return {
+        retentionDays: retention === null ? DEFAULT_TRASH_RETENTION_DAYS : Number(retention),
+        countsTowardQuota: (await getSetting('trash_counts_toward_quota')) === 'true'
+    };
+}
+
+export async function setTrashSettings(settings: Partial<TrashSettings>) {
+    if (settings.retentionDays !== undefined) {
+        await setSetting('trash_retention_days', String(settings.retentionDays));
+    }
+    if (settings.countsTowardQuota !== undefined) {
+        await setSetting('trash_counts_toward_quota', settings.countsTowardQuota ? 'true' : 'false');
+    }
+}
+
+// Bytes in a user's trash that count against their quota (0 unless the admin setting is on)
+export async function getTrashQuotaUsage(db: any, userId: string) {
+    if (!(await getTrashSettings()).countsTowardQuota) return 0;
+    const row = await db.get('SELECT COALESCE(SUM(size), 0) as total FROM trash_items WHERE user_id = ?', userId);
+    return row.total as number;
+}
+
+// Per-user trash bytes counted against quotas, for the admin user list
+export async function getTrashQuotaUsageByUser(db: any): Promise<Map<string, number>> {
+    if (!(await getTrashSettings()).countsTowardQuota) return new Map();
+    const rows = await db.all('SELECT user_id, SUM(size) as total FROM trash_items GROUP BY user_id');
+    return new Map(rows.map((r: any) => [r.user_id, r.total || 0]));
+}
+
+// Parents before children, so the manifest can be replayed in order
+async function collectSubtree(db: any, root: any): Promise<ManifestNode[]> {
+    const nodes: ManifestNode[] = [];
+    const queue = [root];
+    while (queue.length) {
+        const node = queue.shift();
+        nodes.push({
+            id: node.id,
+            parentId: node.parent_id,
+            name: node.name,
+            type: node.type,
+            size: node.size,
+            mimeType: node.mime_type,
+            createdAt: node.created_at,
+            uploadedBy: node.uploaded_by,
+            updatedAt: node.updated_at,
+            blobHash: node.blob_hash
+        });
+        if (node.type === 'folder') {
+            queue.push(...await db.all('SELECT * FROM files WHERE parent_id = ?', node.id));
+        }
+    }
+    return nodes;
+}
+
+async function collectAncestors(db: any, parentId: string | null): Promise<Ancestor[]> {
+    const ancestors: Ancestor[] = [];
+    const visited = new Set<string>();
+    let current = parentId;
+    while (current && !visited.has(current)) {
+        visited.add(current);
+        const folder = await db.get('SELECT id, name, parent_id FROM files WHERE id = ?', current);
+        if (!folder) break;
+        ancestors.unshift({ id: folder.id, name: folder.name });
+        current = folder.parent_id;
+    }
+    return ancestors;
+}
+
+// Run a statement for a list of ids in batches that stay under SQLite's parameter limit
+async function forEachBatch(ids: string[], run: (placeholders: string, batch: string[]) => Promise<unknown>) {
+    for (let i = 0; i < ids.length; i += 500) {
+        const batch = ids.slice(i, i + 500);
+        await run(batch.map(() => '?').join(','), batch);
+    }
+}
+
+export async function moveToTrash(db: any, userId: string, node: any, deletedBy: string, drivePath: string) {
+    const nodes = await collectSubtree(db, node);
+    const ids = nodes.map(n => n.id);
+    const shares: ManifestShare[] = [];
+    await forEachBatch(ids, async (placeholders, batch) => {
+        const rows = await db.all(`SELECT * FROM shared_files WHERE file_id IN (${placeholders})`, ...batch);
+        shares.push(...rows.map((s: any) => ({
+            id: s.id, fileId: s.file_id, fromUserId: s.from_user_id, toUserId: s.to_user_id, createdAt: s.created_at
+        })));
+    });
+    const tags: ManifestTag[] = [];
+    await forEachBatch(ids, async (placeholders, batch) => {
+        const rows = await db.all(`SELECT * FROM file_tags WHERE file_id IN (${placeholders})`, ...batch);
+        tags.push(...rows.map((t: any) => ({ fileId: t.file_id, tagId: t.tag_id, createdAt: t.created_at })));
+    });
+
+    const itemId = uuidv4();
+    const trashDir = getTrashItemDir(userId, itemId);
+    const trashPath = path.join(trashDir, node.name);
+    fs.mkdirSync(trashDir, { recursive: true });
+
+    const onDisk = !!node.path && fs.existsSync(node.path);
+    if (onDisk) {
+        await renameWithRetry(node.path, trashPath);
+    }
+
+    // A savepoint, so replacing an item inside a larger transaction (move with onConflict=replace) works too
+    try {
+        await db.run('SAVEPOINT move_to_trash');
+        await db.run(
+            `INSERT INTO trash_items
+             (id, user_id, node_id, name, type, size, item_count, original_parent_id, original_path, ancestors, manifest, deleted_at, deleted_by)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            itemId, userId, node.id, node.name, node.type,
+            nodes.reduce((sum, n) => sum + (n.type === 'file' ? n.size : 0), 0),
+            nodes.length,
+            node.parent_id,
+            drivePath,
+            JSON.stringify(await collectAncestors(db, node.parent_id)),
+            JSON.stringify({ nodes, shares, tags }),
+            Date.now(),
+            deletedBy
+        );
+        await forEachBatch(ids, (placeholders, batch) => db.run(`DELETE FROM shared_files WHERE file_id IN (${placeholders})`, ...batch));
+        await forEachBatch(ids, (placeholders, batch) => db.run(`DELETE FROM file_tags WHERE file_id IN (${placeholders})`, ...batch));
+        await forEachBatch(ids, (placeholders, batch) => db.run(`DELETE FROM files WHERE id IN (${placeholders})`, ...batch));
+        await adjustFolderTotals(db, node.parent_id, nodeTotals(node), -1);
+        await db.run('RELEASE move_to_trash');
+    } catch (error) {
+        await db.run('ROLLBACK TO move_to_trash');
+        await db.run('RELEASE move_to_trash');
+        if (onDisk) {
+            await renameWithRetry(trashPath, node.path);
+        }
+        fs.rmSync(trashDir, { recursive: true, force: true });
+        throw error;
+    }
+
+    return itemId;
+}
+
+export async function listTrashItems(userId: string) {
+    const db = await getDb();
+    return db.all('SELECT * FROM trash_items WHERE user_id = ? ORDER BY deleted_at DESC', userId);
+}
+
+// Map a trash_items row to the API shape
+export function mapTrashItem(row: any, retentionDays: number) {
+    return {
+        id: row.id,
+        name: row.name,
+        type: row.type,
+        size: row.size,
+        itemCount: row.item_count,
+        originalPath: row.original_path,
+        deletedAt: row.deleted_at,
+        purgeAt: retentionDays > 0 ? row.deleted_at + retentionDays * DAY_MS : null
+    };
+}
+
+async function createFolderRow(db: any, userId: string, id: string, parentId: string | null, parentDir: string, name: string) {
+    const folderPath = resolveChildPath(userId, parentDir, name);
+    fs.mkdirSync(folderPath, { recursive: true });
+    await db.run(
+        `INSERT INTO files (id, user_id, parent_id, name, type, size, path, mime_type, created_at)
+         VALUES (?, ?, ?, ?, 'folder', 0, ?, NULL, ?)`,
+        id, userId, parentId, name, folderPath, Date.now()
+    );
+    await adjustFolderTotals(db, parentId, { size: 0, files: 0, folders: 1 });
+    return folderPath;
+}
+
+// Folder the item goes back to: the original parent if it still exists, otherwise the original
+// chain of folders is walked from the root, reusing folders that exist and recreating missing ones.
+// `createdFolderId` is the topmost folder recreated on the way, if any.
+async function resolveRestoreParent(db: any, userId: string, item: any): Promise<{ parentId: string | null, parentDir: string, createdFolderId: string | null }> {
+    const ownFolder = (id: string) => db.get('SELECT id, path FROM files WHERE id = ? AND user_id = ? AND type = "folder"', id, userId);
+
+    if (!item.original_parent_id) {
+        return { parentId: null, parentDir: getUserRoot(userId), createdFolderId: null };
+    }
+    const original = await ownFolder(item.original_parent_id);
+    if (original?.path) {
+        return { parentId: original.id, parentDir: original.path, createdFolderId: null };
+    }
+
+    let parentId: string | null = null;
+    let parentDir = getUserRoot(userId);
+    let createdFolderId: string | null = null;
+    for (const ancestor of JSON.parse(item.ancestors) as Ancestor[]) {
+        const existing = await ownFolder(ancestor.id)
+            || await db.get('SELECT id, path FROM files WHERE user_id = ? AND parent_id IS ? AND name = ? AND type = "folder"', userId, parentId, ancestor.name);
+        if (existing?.path) {
+            parentId = existing.id;
+            parentDir = existing.path;
+            continue;
+        }
+        // A fresh id: the original one still belongs to the folder's own trash item, if any.
+        // Later restores from the same folder find the recreated one by name.
+        const id = uuidv4();
+        parentDir = await createFolderRow(db, userId, id, parentId, parentDir, ancestor.name);
+        parentId = id;
+        createdFolderId = createdFolderId || id;
+    }
+    return { parentId, parentDir, createdFolderId };
+}
+
+// Returns the restored top node and the topmost node that is new to the drive (a recreated parent
+// folder, or the node itself), or null if the item does not exist
+export async function restoreFromTrash(db: any, userId: string, itemId: string) {
+    const item = await db.get('SELECT * FROM trash_items WHERE id = ? AND user_id = ?', itemId, userId);
+    if (!item) return null;
+
+    // Items trashed before tags existed have none in their manifest
+    const { nodes, shares, tags = [] } = JSON.parse(item.manifest) as { nodes: ManifestNode[], shares: ManifestShare[], tags?: ManifestTag[] };
+    const trashDir = getTrashItemDir(userId, item.id);
+    const trashPath = path.join(trashDir, item.name);
+    // A single file from the blob store has nothing in the trash directory
+    const onDisk = !nodes.find(n => n.id === item.node_id)?.blobHash;
+    if (onDisk && !fs.existsSync(trashPath)) {
+        throw new UnsafePathError('The deleted files are missing on disk and cannot be restored', 410);
+    }
+
+    await db.run('BEGIN TRANSACTION');
+    let targetPath: string | null = null;
+    let createdId: string = item.node_id;
+    try {
+        const { parentId, parentDir, createdFolderId } = await resolveRestoreParent(db, userId, item);
+        createdId = createdFolderId || item.node_id;
+        const name = await availableName(db, userId, parentId, parentDir, item.name, item.type === 'folder');
+        targetPath = resolveChildPath(userId, parentDir, name);
+
+        const paths = new Map<string, string>();
+        for (const node of nodes) {
+            const isRoot = node.id === item.node_id;
+            const nodePath = isRoot ? targetPath : path.join(paths.get(node.parentId as string) as string, node.name);
+            paths.set(node.id, nodePath);
+            await db.run(
+                `INSERT INTO files (id, user_id, parent_id, name, type, size, path, mime_type, created_at, uploaded_by, updated_at, blob_hash)
+                 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                node.id, userId, isRoot ? parentId : node.parentId, isRoot ? name : node.name,
+                node.type, node.size, node.blobHash ? null : nodePath, node.mimeType, node.createdAt,
+                node.uploadedBy ?? null, node.updatedAt ?? null, node.blobHash ?? null
+            );
+        }
+        for (const share of shares) {
+            await db.run(
+                'INSERT OR IGNORE INTO shared_files (id, file_id, from_user_id, to_user_id, created_at) VALUES (?, ?, ?, ?, ?)',
+                share.id, share.fileId, share.fromUserId, share.toUserId, share.createdAt
+            );
+        }
+        // Tags deleted while the item was in the trash stay deleted
+        for (const tag of tags) {
+            await db.run(
+                'INSERT OR IGNORE INTO file_tags (file_id, tag_id, created_at) SELECT ?, id, ? FROM tags WHERE id = ?',
+                tag.fileId, tag.createdAt, tag.tagId
+            );
+        }
+        await db.run('DELETE FROM trash_items WHERE id = ?', item.id);
+        // The manifest has no folder totals
+        await adjustFolderTotals(db, parentId, await recountSubtree(db, item.node_id));
+
+        if (onDisk) {
+            await renameWithRetry(trashPath, targetPath);
+        }
+        await db.run('COMMIT');
+    } catch (error) {
+        await db.run('ROLLBACK');
+        if (targetPath && fs.existsSync(targetPath) && !fs.existsSync(trashPath)) {
+            await renameWithRetry(targetPath, trashPath);
+        }
+        throw error;
+    }
+
+    fs.rmSync(trashDir, { recursive: true, force: true });
+    const restored = await db.get('SELECT * FROM files WHERE id = ?', item.node_id);
+    return { item, node: restored, createdId };
+}
+
+// Removes what is kept for nodes that are gone for good besides their rows: versions, blob
+// references, stars and recent activity. Blobs they released are left to the caller's collectBlobGarbage.
+export async function releaseRemovedNodes(db: any, userId: string, nodes: { id: string, type: string, blobHash?: string | null }[]) {
+    const ids = nodes.map(n => n.id);
+    await deleteFileVersions(db, userId, nodes.filter(n => n.type === 'file').map(n => n.id));
+    for (const node of nodes) {
+        if (node.blobHash) await releaseBlob(db, node.blobHash);
+    }
+    await removeStars(db, ids);
+    await removeRecent(db, ids);
+}
+
+// Deletes a trash item (and the versions of its files) for good; returns the removed row or null
+export async function purgeTrashItem(db: any, userId: string, itemId: string) {
+    const item = await db.get('SELECT * FROM trash_items WHERE id = ? AND user_id = ?', itemId, userId);
+    if (!item) return null;
+
+    const { nodes } = JSON.parse(item.manifest) as { nodes: ManifestNode[] };
+    await releaseRemovedNodes(db, userId, nodes);
+    fs.rmSync(getTrashItemDir(userId, item.id), { recursive: true, force: true });
+    await db.run('DELETE FROM trash_items WHERE id = ?', item.id);
+    await collectBlobGarbage(db);
+    return item;
+}
+
+// Purges every item older than the retention period; returns the removed rows
+export async function purgeExpiredTrash() {
+    const { retentionDays } = await getTrashSettings();
+    if (retentionDays <= 0) return [];
+
+    const db = await getDb();
+    const expired = await db.all('SELECT * FROM trash_items WHERE deleted_at < ?', Date.now() - retentionDays * DAY_MS);
+    for (const item of expired) {
+        await purgeTrashItem(db, item.user_id, item.id);
+    }
+    return expired;
+}
+
+// Runs the purge once at startup and then hourly; `onPurged` is told about every removed item
+export function startTrashPurge(onPurged: (item: any) => Promise<void> | void) {
+    const run = async () => {
+        try {
+            for (const item of await purgeExpiredTrash()) {
+                await onPurged(item);
+            }
+        } catch (error) {
+            console.error('Trash purge error:', error);
+        }
+    };
+    run();
+    setInterval(run, PURGE_INTERVAL_MS).unref();
+}
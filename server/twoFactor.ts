@@ -0,0 +1,130 @@
+import { v4 as uuidv4 } from 'uuid';
+import { getDb, getSetting, setSetting } from './db';
+import { signPayload, verifySignedPayload } from './auth';
+import { verifyTotp, generateRecoveryCodes, hashRecoveryCode } from './totp';
+
+// The second login step has to be completed within five minutes of the password check
+const LOGIN_CHALLENGE_TTL_MS = 5 * 60 * 1000;
+
+const REQUIRE_ADMIN_2FA_SETTING = 'require_admin_2fa';
+
+// Routes an admin can still use while the policy requires them to enroll first
+const SETUP_ALLOWED_ROUTES = ['GET /api/me', 'POST /api/me/password', 'POST /api/logout'];
+const SETUP_ALLOWED_PREFIX = '/api/me/2fa';
+
+export async function isAdminTwoFactorRequired(): Promise<boolean> {
+    return (await getSetting(REQUIRE_ADMIN_2FA_SETTING)) === '1';
+}
+
+export async function setAdminTwoFactorRequired(required: boolean) {
+    await setSetting(REQUIRE_ADMIN_2FA_SETTING, required ? '1' : '0');
+}
+
+export async function isTwoFactorEnabled(userId: string): Promise<boolean> {
+    const db = await getDb();
+    const row = await db.get('SELECT totp_enabled_at FROM users WHERE id = ?', userId);
+    return !!row?.totp_enabled_at;
+}
+
+// True when the user is an admin without 2FA while the admin policy is on
+export async function isTwoFactorSetupRequired(user: { id: string, role: string }): Promise<boolean> {
+    if (user.role !== 'admin') return false;
+    if (!await isAdminTwoFactorRequired()) return false;
+    return !await isTwoFactorEnabled(user.id);
+}
+
+// Short-lived signed token proving the password step succeeded; exchanged for a session at /api/login/2fa
+export function createLoginChallenge(userId: string) {
+    return signPayload({
+        purpose: '2fa',
+        sub: userId,
+        exp: Date.now() + LOGIN_CHALLENGE_TTL_MS
+    });
+}
+
+export async function verifyLoginChallenge(challenge: string) {
+    const payload = await verifySignedPayload(challenge);
+    if (!payload || payload.purpose !== '2fa' || !payload.sub) return null;
+    return { userId: payload.sub as string };
+}
+
+// Checks an authenticator code or an unused recovery code for a user with 2FA enabled.
+// Accepted TOTP steps are remembered so a code cannot be replayed; recovery codes are single use.
+export async function verifySecondFactor(userId: string, code: string): Promise<'totp' | 'recovery' | null> {
+    const db = await getDb();
+    const user = await db.get('SELECT totp_secret, totp_last_step FROM users WHERE id = ? AND totp_enabled_at IS NOT NULL', userId);
+    if (!user) return null;
+
+    const step = verifyTotp(user.totp_secret, code);
+    if (step !== null) {
+        if (user.totp_last_step !== null && step <= user.totp_last_step) return null;
+        await db.run('UPDATE users SET totp_last_step = ? WHERE id = ?', step, userId);
+        return 'totp';
+    }
+
+    const result = await db.run(
+        'UPDATE recovery_codes SET used_at = ? WHERE user_id = ? AND code_hash = ? AND used_at IS NULL',
+        Date.now(), userId, hashRecoveryCode(code)
+    );
+    return result.changes ? 'recovery' : null;
+}
+
+// Replaces all recovery codes of a user; the plain codes are only returned here
+export async function replaceRecoveryCodes(userId: string): Promise<string[]> {
+    const db = await getDb();
+    const codes = generateRecoveryCodes();
+
+    await db.run('DELETE FROM recovery_codes WHERE user_id = ?', userId);
+    for (const code of codes) {
+        await db.run(
+            'INSERT INTO recovery_codes (id, user_id, code_hash) VALUES (?, ?, ?)',
+            uuidv4(), userId, hashRecoveryCode(code)
+        );
+    }
+    return codes;
+}
+
+export async function disableTwoFactor(userId: string) {
+    const db = await getDb();
+    await db.run(
+        'UPDATE users SET totp_secret = NULL, totp_pending_secret = NULL, totp_enabled_at = NULL, totp_last_step = NULL WHERE id = ?',
+        userId
+    );
+    await db.run('DELETE FROM recovery_codes WHERE user_id = ?', userId);
+}
+
+export async function getTwoFactorStatus(userId: string) {
+    const db = await getDb();
+    const user = await db.get('SELECT role, totp_enabled_at FROM users WHERE id = ?', userId);
+    const remaining = await db.get(
+        'SELECT COUNT(*) as count FROM recovery_codes WHERE user_id = ? AND used_at IS NULL',
+        userId
+    );
+
+    return {
+        enabled: !!user?.totp_enabled_at,
+        enabledAt: user?.totp_enabled_at || null,
+        recoveryCodesRemaining: remaining?.count || 0,
+        required: user?.role === 'admin' && await isAdminTwoFactorRequired()
+    };
+}
+
+// Express middleware (after authenticate): admins who must enroll can only reach the 2FA setup routes
+export async function requireTwoFactorSetup(req: any, res: any, next: any) {
+    if (!req.user) return next();
+
+    const route = `${req.method} ${req.path}`;
+    if (SETUP_ALLOWED_ROUTES.includes(route) || req.path.startsWith(SETUP_ALLOWED_PREFIX)) {
+        return next();
+    }
+
+    try {
+        if (await isTwoFactorSetupRequired(req.user)) {
+            return res.status(403).json({ error: 'Two-factor authentication setup required' });
+        }
+        next();
+    } catch (error) {
+        console.error('2FA policy error:', error);
+        res.status(500).json({ error: 'Authentication failed' });
+    }
+}
@@ -0,0 +1,217 @@
+import fs from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { getVersionPath, getUserRoot, resolveChildPath, renameWithRetry, UnsafePathError } from './safePath';
+import { releaseBlob, collectBlobGarbage, getContentPath } from './blobs';
+import { adjustFolderTotals } from './folderStats';
+
+// Uploading a file under a name that already exists in the folder keeps the files row (and so its
+// id and shares) and moves the previous content to the version store. Each user keeps at most
+// `version_limit` older versions per file, the oldest are removed first. Content in the blob store
+// is not moved: the version simply takes over the file's reference.
+export const DEFAULT_VERSION_LIMIT = 10;
+export const MAX_VERSION_LIMIT = 100;
+
+export interface NewContent {
+    // Either a fully written file on the same disk, which is moved into place, or a blob the caller
+    // holds a reference for, which passes to the file
+    sourcePath?: string;
+    blobHash?: string;
+    size: number;
+    mimeType: string | null;
+    uploadedBy: string;
+}
+
+export async function getVersionLimit(db: any, userId: string): Promise<number> {
+    const user = await db.get('SELECT version_limit FROM users WHERE id = ?', userId);
+    return user?.version_limit ?? DEFAULT_VERSION_LIMIT;
+}
+
+// Saves the file's current content as a version and puts the new content in its place. Runs inside
+// the caller's transaction; when a disk step fails the disk is put back and the error rethrown, so
+// the caller only has to roll back. Returns the new version id, or null if there was nothing to keep.
+export async function replaceFileContent(db: any, file: any, content: NewContent) {
+    const hadContent = !!file.blob_hash || (!!file.path && fs.existsSync(file.path));
+    const versionId = hadContent ? uuidv4() : null;
+    const versionPath = versionId && !file.blob_hash ? getVersionPath(file.user_id, versionId) : null;
+
+    if (versionId) {
+        await db.run(
+            `INSERT INTO file_versions (id, file_id, user_id, size, mime_type, uploaded_by, uploaded_at, archived_at, blob_hash)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            versionId, file.id, file.user_id, file.size, file.mime_type,
+            file.uploaded_by || file.user_id, file.updated_at || file.created_at, Date.now(), file.blob_hash || null
+        );
+    }
+    if (versionPath) {
+        fs.mkdirSync(path.dirname(versionPath), { recursive: true });
+        await renameWithRetry(file.path, versionPath);
+    }
+
+    // A file whose content was in the blob store has no path of its own yet
+    const filePath = content.blobHash ? null : file.path || await getPathInDrive(db, file);
+    let placed = false;
+    try {
+        if (filePath) {
+            await renameWithRetry(content.sourcePath as string, filePath);
+            placed = true;
+        }
+        await db.run(
+            'UPDATE files SET size = ?, mime_type = ?, uploaded_by = ?, updated_at = ?, path = ?, blob_hash = ? WHERE id = ?',
+            content.size, content.mimeType, content.uploadedBy, Date.now(), filePath, content.blobHash || null, file.id
+        );
+        await adjustFolderTotals(db, file.parent_id, { size: content.size - file.size, files: 0, folders: 0 });
+    } catch (error) {
+        if (placed && filePath) {
+            await renameWithRetry(filePath, content.sourcePath as string);
+        }
+        if (versionPath) {
+            await renameWithRetry(versionPath, file.path);
+        }
+        throw error;
+    }
+    return versionId;
+}
+
+// Where a file belongs in the owner's directory, for content that leaves the blob store
+async function getPathInDrive(db: any, file: any) {
+    const parent = file.parent_id ? await db.get('SELECT path FROM files WHERE id = ?', file.parent_id) : null;
+    return resolveChildPath(file.user_id, parent?.path || getUserRoot(file.user_id), file.name);
+}
+
+// Removes the oldest versions of a file beyond the owner's limit
+export async function pruneVersions(db: any, userId: string, fileId: string) {
+    const limit = await getVersionLimit(db, userId);
+    const excess = await db.all(
+        'SELECT id, blob_hash FROM file_versions WHERE file_id = ? AND user_id = ? ORDER BY uploaded_at DESC, archived_at DESC LIMIT -1 OFFSET ?',
+        fileId, userId, limit
+    );
+    for (const version of excess) {
+        await deleteVersion(db, userId, version);
+    }
+    if (excess.some((version: any) => version.blob_hash)) {
+        await collectBlobGarbage(db);
+    }
+}
+
+// After an admin lowers the limit, every file of the user is trimmed right away
+export async function pruneUserVersions(db: any, userId: string) {
+    const files = await db.all('SELECT DISTINCT file_id FROM file_versions WHERE user_id = ?', userId);
+    for (const file of files) {
+        await pruneVersions(db, userId, file.file_id);
+    }
+}
+
+async function deleteVersion(db: any, userId: string, version: { id: string, blob_hash: string | null }) {
+    if (version.blob_hash) {
+        await releaseBlob(db, version.blob_hash);
+    } else {
+        fs.rmSync(getVersionPath(userId, version.id), { force: true });
+    }
+    await db.run('DELETE FROM file_versions WHERE id = ?', version.id);
+}
+
+// Where a version's content is on disk
+export function getVersionContentPath(version: any) {
+    return getContentPath(version) || getVersionPath(version.user_id, version.id);
+}
+
+// Versions of the given files are removed with them (permanent deletes from the trash). Blobs they
+// released are left to the caller's collectBlobGarbage.
+export async function deleteFileVersions(db: any, userId: string, fileIds: string[]) {
+    for (const fileId of fileIds) {
+        const versions = await db.all('SELECT id, blob_hash FROM file_versions WHERE file_id = ? AND user_id = ?', fileId, userId);
+        for (const version of versions) {
+            await deleteVersion(db, userId, version);
+        }
+    }
+}
+
+export async function listVersions(db: any, fileId: string) {
+    return db.all(
+        `SELECT v.*, u.username as uploaded_by_name FROM file_versions v
+         LEFT JOIN users u ON u.id = v.uploaded_by
+         WHERE v.file_id = ? ORDER BY v.uploaded_at DESC, v.archived_at DESC`,
+        fileId
+    );
+}
+
+export async function getVersion(db: any, fileId: string, versionId: string) {
+    return db.get('SELECT * FROM file_versions WHERE id = ? AND file_id = ?', versionId, fileId);
+}
+
+// Map a file_versions row (with uploaded_by_name) to the API shape
+export function mapVersion(row: any) {
+    return {
+        id: row.id,
+        size: row.size,
+        mimeType: row.mime_type,
+        uploadedAt: row.uploaded_at,
+        uploadedBy: row.uploaded_by_name || null
+    };
+}
+
+// Bytes in a user's versions; they count against the storage quota like the files themselves
+export async function getVersionUsage(db: any, userId: string): Promise<number> {
+    const row = await db.get('SELECT COALESCE(SUM(size), 0) as total FROM file_versions WHERE user_id = ?', userId);
+    return row.total;
+}
+
+// Per-user version bytes, for the admin user list
+export async function getVersionUsageByUser(db: any): Promise<Map<string, number>> {
+    const rows = await db.all('SELECT user_id, SUM(size) as total FROM file_versions GROUP BY user_id');
+    return new Map(rows.map((r: any) => [r.user_id, r.total || 0]));
+}
+
+// Bytes that new content for `file` frees: the current content becomes a version and keeps counting,
+// unless the owner keeps none, and the versions pushed beyond the owner's limit are pruned
+export async function getBytesFreedByReplace(db: any, file: { id: string, user_id: string, size: number }) {
+    const limit = await getVersionLimit(db, file.user_id);
+    const pruned = await db.get(
+        `SELECT COALESCE(SUM(size), 0) as total FROM (
+             SELECT size FROM file_versions WHERE file_id = ? AND user_id = ?
+             ORDER BY uploaded_at DESC, archived_at DESC LIMIT -1 OFFSET ?
+         )`,
+        file.id, file.user_id, Math.max(limit - 1, 0)
+    );
+    return (limit === 0 ? file.size : 0) + pruned.total;
+}
+
+// Makes an older version the current content again; the content it replaces becomes a version
+export async function restoreVersion(db: any, file: any, versionId: string, restoredBy: string) {
+    const version = await getVersion(db, file.id, versionId);
+    if (!version) return null;
+
+    const versionPath = getVersionContentPath(version);
+    if (!fs.existsSync(versionPath)) {
+        throw new UnsafePathError('This version is missing on disk and cannot be restored', 410);
+    }
+
+    // Moved aside first: replaceFileContent moves its source into place. A blob stays where it is,
+    // the version's reference passes back to the file.
+    const stagingPath = version.blob_hash ? null : `${versionPath}.restore`;
+    if (stagingPath) {
+        await renameWithRetry(versionPath, stagingPath);
+    }
+
+    await db.run('BEGIN TRANSACTION');
+    try {
+        await db.run('DELETE FROM file_versions WHERE id = ?', version.id);
+        const replacedId = await replaceFileContent(db, file, {
+            sourcePath: stagingPath || undefined,
+            blobHash: version.blob_hash || undefined,
+            size: version.size,
+            mimeType: version.mime_type,
+            uploadedBy: restoredBy
+        });
+        await db.run('COMMIT');
+        await pruneVersions(db, file.user_id, file.id);
+        return { version, replacedId };
+    } catch (error) {
+        await db.run('ROLLBACK');
+        if (stagingPath && fs.existsSync(stagingPath)) {
+            await renameWithRetry(stagingPath, versionPath);
+        }
+        throw error;
+    }
+}
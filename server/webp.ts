@@ -0,0 +1,1561 @@
+import type { RgbaImage } from './images';
+
+// Decodes WebP images to RGBA for thumbnails: lossy (VP8) with or without an alpha channel,
+// lossless (VP8L), and the first frame of animations. Follows RFC 6386 and the WebP container and
+// lossless bitstream specifications, and produces the same pixels as libwebp.
+
+// Probabilities that a coefficient probability is updated in the frame header, by [type][band][context][node]
+const COEFF_UPDATE_PROBA = new Uint8Array([
+    255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+    255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+    255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+    176, 246, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+    223, 241, 252, 255, 255, 255, 255, 255, 255, 255, 255,
+    249, 253, 253, 255, 255, 255, 255, 255, 255, 255, 255,
+    255, 244, 252, 255, 255, 255, 255, 255, 255, 255, 255,
+    234, 254, 254, 255, 255, 255, 255, 255, 255, 255, 255,
+    253, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+    255, 246, 254, 255, 255, 255, 255, 255, 255, 255, 255,
+    239, 253, 254, 255, 255, 255, 255, 255, 255, 255, 255,
+    254, 255, 254, 255, 255, 255, 255, 255, 255, 255, 255,
+    255, 248, 254, 255, 255, 255, 255, 255, 255, 255, 255,
+    251, 255, 254, 255, 255, 255, 255, 255, 255, 255, 255,
+    255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+    255, 253, 254, 255, 255, 255, 255, 255, 255, 255, 255,
+    251, 254, 254, 255, 255, 255, 255, 255, 255, 255, 255,
+    254, 255, 254, 255, 255, 255, 255, 255, 255, 255, 255,
+    255, 254, 253, 255, 254, 255, 255, 255, 255, 255, 255,
+    250, 255, 254, 255, 254, 255, 255, 255, 255, 255, 255,
+    254, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+    255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+    255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+    255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+    217, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+    225, 252, 241, 253, 255, 255, 254, 255, 255, 255, 255,
+    234, 250, 241, 250, 253, 255, 253, 254, 255, 255, 255,
+    255, 254, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+    223, 254, 254, 255, 255, 255, 255, 255, 255, 255, 255,
+    238, 253, 254, 254, 255, 255, 255, 255, 255, 255, 255,
+    255, 248, 254, 255, 255, 255, 255, 255, 255, 255, 255,
+    249, 254, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+    255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+    255, 253, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+    247, 254, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+    255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+    255, 253, 254, 255, 255, 255, 255, 255, 255, 255, 255,
+    252, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+    255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+    255, 254, 254, 255, 255, 255, 255, 255, 255, 255, 255,
+    253, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+    255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+    255, 254, 253, 255, 255, 255, 255, 255, 255, 255, 255,
+    250, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+    254, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+    255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+    255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+    255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+    186, 251, 250, 255, 255, 255, 255, 255, 255, 255, 255,
+    234, 251, 244, 254, 255, 255, 255, 255, 255, 255, 255,
+    251, 251, 243, 253, 254, 255, 254, 255, 255, 255, 255,
+    255, 253, 254, 255, 255, 255, 255, 255, 255, 255, 255,
+    236, 253, 254, 255, 255, 255, 255, 255, 255, 255, 255,
+    251, 253, 253, 254, 254, 255, 255, 255, 255, 255, 255,
+    255, 254, 254, 255, 255, 255, 255, 255, 255, 255, 255,
+    254, 254, 254, 255, 255, 255, 255, 255, 255, 255, 255,
+    255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+    255, 254, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+    254, 254, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+    254, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+    255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+    254, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+    255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+    255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+    255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+    255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+    255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+    255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+    255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+    255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+    255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+    255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+    248, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+    250, 254, 252, 254, 255, 255, 255, 255, 255, 255, 255,
+    248, 254, 249, 253, 255, 255, 255, 255, 255, 255, 255,
+    255, 253, 253, 255, 255, 255, 255, 255, 255, 255, 255,
+    246, 253, 253, 255, 255, 255, 255, 255, 255, 255, 255,
+    252, 254, 251, 254, 254, 255, 255, 255, 255, 255, 255,
+    255, 254, 252, 255, 255, 255, 255, 255, 255, 255, 255,
+    248, 254, 253, 255, 255, 255, 255, 255, 255, 255, 255,
+    253, 255, 254, 254, 255, 255, 255, 255, 255, 255, 255,
+    255, 251, 254, 255, 255, 255, 255, 255, 255, 255, 255,
+    245, 251, 254, 255, 255, 255, 255, 255, 255, 255, 255,
+    253, 253, 254, 255, 255, 255, 255, 255, 255, 255, 255,
+    255, 251, 253, 255, 255, 255, 255, 255, 255, 255, 255,
+    252, 253, 254, 255, 255, 255, 255, 255, 255, 255, 255,
+    255, 254, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+    255, 252, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+    249, 255, 254, 255, 255, 255, 255, 255, 255, 255, 255,
+    255, 255, 254, 255, 255, 255, 255, 255, 255, 255, 255,
+    255, 255, 253, 255, 255, 255, 255, 255, 255, 255, 255,
+    250, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+    255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+    255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+    254, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+    255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255
+]);
+
+// Default coefficient probabilities, same layout
+const COEFF_PROBA_0 = new Uint8Array([
+    128, 128, 128, 128, 128, 128, 128, 128, 128, 128, 128,
+    128, 128, 128, 128, 128, 128, 128, 128, 128, 128, 128,
+    128, 128, 128, 128, 128, 128, 128, 128, 128, 128, 128,
+    253, 136, 254, 255, 228, 219, 128, 128, 128, 128, 128,
+    189, 129, 242, 255, 227, 213, 255, 219, 128, 128, 128,
+    106, 126, 227, 252, 214, 209, 255, 255, 128, 128, 128,
+    1, 98, 248, 255, 236, 226, 255, 255, 128, 128, 128,
+    181, 133, 238, 254, 221, 234, 255, 154, 128, 128, 128,
+    78, 134, 202, 247, 198, 180, 255, 219, 128, 128, 128,
+    1, 185, 249, 255, 243, 255, 128, 128, 128, 128, 128,
+    184, 150, 247, 255, 236, 224, 128, 128, 128, 128, 128,
+    77, 110, 216, 255, 236, 230, 128, 128, 128, 128, 128,
+    1, 101, 251, 255, 241, 255, 128, 128, 128, 128, 128,
+    170, 139, 241, 252, 236, 209, 255, 255, 128, 128, 128,
+    37, 116, 196, 243, 228, 255, 255, 255, 128, 128, 128,
+    1, 204, 254, 255, 245, 255, 128, 128, 128, 128, 128,
+    207, 160, 250, 255, 238, 128, 128, 128, 128, 128, 128,
+    102, 103, 231, 255, 211, 171, 128, 128, 128, 128, 128,
+    1, 152, 252, 255, 240, 255, 128, 128, 128, 128, 128,
+    177, 135, 243, 255, 234, 225, 128, 128, 128, 128, 128,
+    80, 129, 211, 255, 194, 224, 128, 128, 128, 128, 128,
+    1, 1, 255, 128, 128, 128, 128, 128, 128, 128, 128,
+    246, 1, 255, 128, 128, 128, 128, 128, 128, 128, 128,
+    255, 128, 128, 128, 128, 128, 128, 128, 128, 128, 128,
+    198, 35, 237, 223, 193, 187, 162, 160, 145, 155, 62,
+    131, 45, 198, 221, 172, 176, 220, 157, 252, 221, 1,
+    68, 47, 146, 208, 149, 167, 221, 162, 255, 223, 128,
+    1, 149, 241, 255, 221, 224, 255, 255, 128, 128, 128,
+    184, 141, 234, 253, 222, 220, 255, 199, 128, 128, 128,
+    81, 99, 181, 242, 176, 190, 249, 202, 255, 255, 128,
+    1, 129, 232, 253, 214, 197, 242, 196, 255, 255, 128,
+    99, 121, 210, 250, 201, 198, 255, 202, 128, 128, 128,
+    23, 91, 163, 242, 170, 187, 247, 210, 255, 255, 128,
+    1, 200, 246, 255, 234, 255, 128, 128, 128, 128, 128,
+    109, 178, 241, 255, 231, 245, 255, 255, 128, 128, 128,
+    44, 130, 201, 253, 205, 192, 255, 255, 128, 128, 128,
+    1, 132, 239, 251, 219, 209, 255, 165, 128, 128, 128,
+    94, 136, 225, 251, 218, 190, 255, 255, 128, 128, 128,
+    22, 100, 174, 245, 186, 161, 255, 199, 128, 128, 128,
+    1, 182, 249, 255, 232, 235, 128, 128, 128, 128, 128,
+    124, 143, 241, 255, 227, 234, 128, 128, 128, 128, 128,
+    35, 77, 181, 251, 193, 211, 255, 205, 128, 128, 128,
+    1, 157, 247, 255, 236, 231, 255, 255, 128, 128, 128,
+    121, 141, 235, 255, 225, 227, 255, 255, 128, 128, 128,
+    45, 99, 188, 251, 195, 217, 255, 224, 128, 128, 128,
+    1, 1, 251, 255, 213, 255, 128, 128, 128, 128, 128,
+    203, 1, 248, 255, 255, 128, 128, 128, 128, 128, 128,
+    137, 1, 177, 255, 224, 255, 128, 128, 128, 128, 128,
+    253, 9, 248, 251, 207, 208, 255, 192, 128, 128, 128,
+    175, 13, 224, 243, 193, 185, 249, 198, 255, 255, 128,
+    73, 17, 171, 221, 161, 179, 236, 167, 255, 234, 128,
+    1, 95, 247, 253, 212, 183, 255, 255, 128, 128, 128,
+    239, 90, 244, 250, 211, 209, 255, 255, 128, 128, 128,
+    155, 77, 195, 248, 188, 195, 255, 255, 128, 128, 128,
+    1, 24, 239, 251, 218, 219, 255, 205, 128, 128, 128,
+    201, 51, 219, 255, 196, 186, 128, 128, 128, 128, 128,
+    69, 46, 190, 239, 201, 218, 255, 228, 128, 128, 128,
+    1, 191, 251, 255, 255, 128, 128, 128, 128, 128, 128,
+    223, 165, 249, 255, 213, 255, 128, 128, 128, 128, 128,
+    141, 124, 248, 255, 255, 128, 128, 128, 128, 128, 128,
+    1, 16, 248, 255, 255, 128, 128, 128, 128, 128, 128,
+    190, 36, 230, 255, 236, 255, 128, 128, 128, 128, 128,
+    149, 1, 255, 128, 128, 128, 128, 128, 128, 128, 128,
+    1, 226, 255, 128, 128, 128, 128, 128, 128, 128, 128,
+    247, 192, 255, 128, 128, 128, 128, 128, 128, 128, 128,
+    240, 128, 255, 128, 128, 128, 128, 128, 128, 128, 128,
+    1, 134, 252, 255, 255, 128, 128, 128, 128, 128, 128,
+    213, 62, 250, 255, 255, 128, 128, 128, 128, 128, 128,
+    55, 93, 255, 128, 128, 128, 128, 128, 128, 128, 128,
+    128, 128, 128, 128, 128, 128, 128, 128, 128, 128, 128,
+    128, 128, 128, 128, 128, 128, 128, 128, 128, 128, 128,
+    128, 128, 128, 128, 128, 128, 128, 128, 128, 128, 128,
+    202, 24, 213, 235, 186, 191, 220, 160, 240, 175, 255,
+    126, 38, 182, 232, 169, 184, 228, 174, 255, 187, 128,
+    61, 46, 138, 219, 151, 178, 240, 170, 255, 216, 128,
+    1, 112, 230, 250, 199, 191, 247, 159, 255, 255, 128,
+    166, 109, 228, 252, 211, 215, 255, 174, 128, 128, 128,
+    39, 77, 162, 232, 172, 180, 245, 178, 255, 255, 128,
+    1, 52, 220, 246, 198, 199, 249, 220, 255, 255, 128,
+    124, 74, 191, 243, 183, 193, 250, 221, 255, 255, 128,
+    24, 71, 130, 219, 154, 170, 243, 182, 255, 255, 128,
+    1, 182, 225, 249, 219, 240, 255, 224, 128, 128, 128,
+    149, 150, 226, 252, 216, 205, 255, 171, 128, 128, 128,
+    28, 108, 170, 242, 183, 194, 254, 223, 255, 255, 128,
+    1, 81, 230, 252, 204, 203, 255, 192, 128, 128, 128,
+    123, 102, 209, 247, 188, 196, 255, 233, 128, 128, 128,
+    20, 95, 153, 243, 164, 173, 255, 203, 128, 128, 128,
+    1, 222, 248, 255, 216, 213, 128, 128, 128, 128, 128,
+    168, 175, 246, 252, 235, 205, 255, 255, 128, 128, 128,
+    47, 116, 215, 255, 211, 212, 255, 255, 128, 128, 128,
+    1, 121, 236, 253, 212, 214, 255, 255, 128, 128, 128,
+    141, 84, 213, 252, 201, 202, 255, 219, 128, 128, 128,
+    42, 80, 160, 240, 162, 185, 255, 205, 128, 128, 128,
+    1, 1, 255, 128, 128, 128, 128, 128, 128, 128, 128,
+    244, 1, 255, 128, 128, 128, 128, 128, 128, 128, 128,
+    238, 1, 255, 128, 128, 128, 128, 128, 128, 128, 128
+]);
+
+// Probabilities of the 4x4 intra modes, by [mode above][mode on the left][node]
+const BMODES_PROBA = new Uint8Array([
+    231, 120, 48, 89, 115, 113, 120, 152, 112,
+    152, 179, 64, 126, 170, 118, 46, 70, 95,
+    175, 69, 143, 80, 85, 82, 72, 155, 103,
+    56, 58, 10, 171, 218, 189, 17, 13, 152,
+    114, 26, 17, 163, 44, 195, 21, 10, 173,
+    121, 24, 80, 195, 26, 62, 44, 64, 85,
+    144, 71, 10, 38, 171, 213, 144, 34, 26,
+    170, 46, 55, 19, 136, 160, 33, 206, 71,
+    63, 20, 8, 114, 114, 208, 12, 9, 226,
+    81, 40, 11, 96, 182, 84, 29, 16, 36,
+    134, 183, 89, 137, 98, 101, 106, 165, 148,
+    72, 187, 100, 130, 157, 111, 32, 75, 80,
+    66, 102, 167, 99, 74, 62, 40, 234, 128,
+    41, 53, 9, 178, 241, 141, 26, 8, 107,
+    74, 43, 26, 146, 73, 166, 49, 23, 157,
+    65, 38, 105, 160, 51, 52, 31, 115, 128,
+    104, 79, 12, 27, 217, 255, 87, 17, 7,
+    87, 68, 71, 44, 114, 51, 15, 186, 23,
+    47, 41, 14, 110, 182, 183, 21, 17, 194,
+    66, 45, 25, 102, 197, 189, 23, 18, 22,
+    88, 88, 147, 150, 42, 46, 45, 196, 205,
+    43, 97, 183, 117, 85, 38, 35, 179, 61,
+    39, 53, 200, 87, 26, 21, 43, 232, 171,
+    56, 34, 51, 104, 114, 102, 29, 93, 77,
+    39, 28, 85, 171, 58, 165, 90, 98, 64,
+    34, 22, 116, 206, 23, 34, 43, 166, 73,
+    107, 54, 32, 26, 51, 1, 81, 43, 31,
+    68, 25, 106, 22, 64, 171, 36, 225, 114,
+    34, 19, 21, 102, 132, 188, 16, 76, 124,
+    62, 18, 78, 95, 85, 57, 50, 48, 51,
+    193, 101, 35, 159, 215, 111, 89, 46, 111,
+    60, 148, 31, 172, 219, 228, 21, 18, 111,
+    112, 113, 77, 85, 179, 255, 38, 120, 114,
+    40, 42, 1, 196, 245, 209, 10, 25, 109,
+    88, 43, 29, 140, 166, 213, 37, 43, 154,
+    61, 63, 30, 155, 67, 45, 68, 1, 209,
+    100, 80, 8, 43, 154, 1, 51, 26, 71,
+    142, 78, 78, 16, 255, 128, 34, 197, 171,
+    41, 40, 5, 102, 211, 183, 4, 1, 221,
+    51, 50, 17, 168, 209, 192, 23, 25, 82,
+    138, 31, 36, 171, 27, 166, 38, 44, 229,
+    67, 87, 58, 169, 82, 115, 26, 59, 179,
+    63, 59, 90, 180, 59, 166, 93, 73, 154,
+    40, 40, 21, 116, 143, 209, 34, 39, 175,
+    47, 15, 16, 183, 34, 223, 49, 45, 183,
+    46, 17, 33, 183, 6, 98, 15, 32, 183,
+    57, 46, 22, 24, 128, 1, 54, 17, 37,
+    65, 32, 73, 115, 28, 128, 23, 128, 205,
+    40, 3, 9, 115, 51, 192, 18, 6, 223,
+    87, 37, 9, 115, 59, 77, 64, 21, 47,
+    104, 55, 44, 218, 9, 54, 53, 130, 226,
+    64, 90, 70, 205, 40, 41, 23, 26, 57,
+    54, 57, 112, 184, 5, 41, 38, 166, 213,
+    30, 34, 26, 133, 152, 116, 10, 32, 134,
+    39, 19, 53, 221, 26, 114, 32, 73, 255,
+    31, 9, 65, 234, 2, 15, 1, 118, 73,
+    75, 32, 12, 51, 192, 255, 160, 43, 51,
+    88, 31, 35, 67, 102, 85, 55, 186, 85,
+    56, 21, 23, 111, 59, 205, 45, 37, 192,
+    55, 38, 70, 124, 73, 102, 1, 34, 98,
+    125, 98, 42, 88, 104, 85, 117, 175, 82,
+    95, 84, 53, 89, 128, 100, 113, 101, 45,
+    75, 79, 123, 47, 51, 128, 81, 171, 1,
+    57, 17, 5, 71, 102, 57, 53, 41, 49,
+    38, 33, 13, 121, 57, 73, 26, 1, 85,
+    41, 10, 67, 138, 77, 110, 90, 47, 114,
+    115, 21, 2, 10, 102, 255, 166, 23, 6,
+    101, 29, 16, 10, 85, 128, 101, 196, 26,
+    57, 18, 10, 102, 102, 213, 34, 20, 43,
+    117, 20, 15, 36, 163, 128, 68, 1, 26,
+    102, 61, 71, 37, 34, 53, 31, 243, 192,
+    69, 60, 71, 38, 73, 119, 28, 222, 37,
+    68, 45, 128, 34, 1, 47, 11, 245, 171,
+    62, 17, 19, 70, 146, 85, 55, 62, 70,
+    37, 43, 37, 154, 100, 163, 85, 160, 1,
+    63, 9, 92, 136, 28, 64, 32, 201, 85,
+    75, 15, 9, 9, 64, 255, 184, 119, 16,
+    86, 6, 28, 5, 64, 255, 25, 248, 1,
+    56, 8, 17, 132, 137, 255, 55, 116, 128,
+    58, 15, 20, 82, 135, 57, 26, 121, 40,
+    164, 50, 31, 137, 154, 133, 25, 35, 218,
+    51, 103, 44, 131, 131, 123, 31, 6, 158,
+    86, 40, 64, 135, 148, 224, 45, 183, 128,
+    22, 26, 17, 131, 240, 154, 14, 1, 209,
+    45, 16, 21, 91, 64, 222, 7, 1, 197,
+    56, 21, 39, 155, 60, 138, 23, 102, 213,
+    83, 12, 13, 54, 192, 255, 68, 47, 28,
+    85, 26, 85, 85, 128, 128, 32, 146, 171,
+    18, 11, 7, 63, 144, 171, 4, 4, 246,
+    35, 27, 10, 146, 174, 171, 12, 26, 128,
+    190, 80, 35, 99, 180, 80, 126, 54, 45,
+    85, 126, 47, 87, 176, 51, 41, 20, 32,
+    101, 75, 128, 139, 118, 146, 116, 128, 85,
+    56, 41, 15, 176, 236, 85, 37, 9, 62,
+    71, 30, 17, 119, 118, 255, 17, 18, 138,
+    101, 38, 60, 138, 55, 70, 43, 26, 142,
+    146, 36, 19, 30, 171, 255, 97, 27, 20,
+    138, 45, 61, 62, 219, 1, 81, 188, 64,
+    32, 41, 20, 117, 151, 142, 20, 21, 163,
+    112, 19, 12, 61, 195, 128, 48, 4, 24
+]);
+
+// Quantizer index to dequantization factor
+const DC_TABLE = new Uint8Array([
+    4, 5, 6, 7, 8, 9, 10, 10, 11, 12, 13, 14, 15, 16, 17, 17,
+    18, 19, 20, 20, 21, 21, 22, 22, 23, 23, 24, 25, 25, 26, 27, 28,
+    29, 30, 31, 32, 33, 34, 35, 36, 37, 37, 38, 39, 40, 41, 42, 43,
+    44, 45, 46, 46, 47, 48, 49, 50, 51, 52, 53, 54, 55, 56, 57, 58,
+    59, 60, 61, 62, 63, 64, 65, 66, 67, 68, 69, 70, 71, 72, 73, 74,
+    75, 76, 76, 77, 78, 79, 80, 81, 82, 83, 84, 85, 86, 87, 88, 89,
+    91, 93, 95, 96, 98, 100, 101, 102, 104, 106, 108, 110, 112, 114, 116, 118,
+    122, 124, 126, 128, 130, 132, 134, 136, 138, 140, 143, 145, 148, 151, 154, 157
+]);
+
+const AC_TABLE = new Uint16Array([
+    4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18, 19,
+    20, 21, 22, 23, 24, 25, 26, 27, 28, 29, 30, 31, 32, 33, 34, 35,
+    36, 37, 38, 39, 40, 41, 42, 43, 44, 45, 46, 47, 48, 49, 50, 51,
+    52, 53, 54, 55, 56, 57, 58, 60, 62, 64, 66, 68, 70, 72, 74, 76,
+    78, 80, 82, 84, 86, 88, 90, 92, 94, 96, 98, 100, 102, 104, 106, 108,
+    110, 112, 114, 116, 119, 122, 125, 128, 131, 134, 137, 140, 143, 146, 149, 152,
+    155, 158, 161, 164, 167, 170, 173, 177, 181, 185, 189, 193, 197, 201, 205, 209,
+    213, 217, 221, 225, 229, 234, 239, 245, 249, 254, 259, 264, 269, 274, 279, 284
+]);
+
+// Lossless distance codes to (dy << 4) | (8 - dx), for the 120 nearest pixels
+const CODE_TO_PLANE = new Uint8Array([
+    24, 7, 23, 25, 40, 6, 39, 41, 22, 26, 38, 42,
+    56, 5, 55, 57, 21, 27, 54, 58, 37, 43, 72, 4,
+    71, 73, 20, 28, 53, 59, 70, 74, 36, 44, 88, 69,
+    75, 52, 60, 3, 87, 89, 19, 29, 86, 90, 35, 45,
+    68, 76, 85, 91, 51, 61, 104, 2, 103, 105, 18, 30,
+    102, 106, 34, 46, 84, 92, 67, 77, 101, 107, 50, 62,
+    120, 1, 119, 121, 83, 93, 17, 31, 100, 108, 66, 78,
+    118, 122, 33, 47, 117, 123, 49, 63, 99, 109, 82, 94,
+    0, 116, 124, 65, 79, 16, 32, 98, 110, 48, 115, 125,
+    81, 95, 64, 114, 126, 97, 111, 80, 113, 127, 96, 112
+]);
+
+// Tree of the 4x4 intra modes; prediction mode numbers as in libwebp
+const DC_PRED = 0, TM_PRED = 1, V_PRED = 2, H_PRED = 3;
+const YMODES_INTRA4 = [0, 1, -1, 2, -2, 3, 4, 6, -3, 5, -4, -5, -6, 7, -7, 8, -8, -9];
+
+const ZIGZAG = [0, 1, 4, 8, 5, 2, 3, 6, 9, 12, 13, 10, 7, 11, 14, 15];
+const BANDS = [0, 1, 2, 3, 6, 4, 5, 6, 6, 6, 6, 6, 6, 6, 6, 7, 0]; // One more entry, for the position after the last
+const CAT3456 = [
+    [173, 148, 140],
+    [176, 155, 140, 135],
+    [180, 157, 141, 134, 130],
+    [254, 254, 243, 230, 196, 177, 153, 140, 133, 130, 129]
+];
+
+const clip = (v: number, max: number) => v < 0 ? 0 : v > max ? max : v;
+const clip255 = (v: number) => v < 0 ? 0 : v > 255 ? 255 : v;
+
+function assertSize(width: number, height: number, maxPixels: number) {
+    if (!width || !height) throw new Error('Invalid WebP dimensions');
+    if (width * height > maxPixels) throw new Error('WebP image is too large');
+}
+
+// ---- Container ----
+
+interface Chunk {
+    type: string;
+    data: Uint8Array;
+}
+
+// Like libwebp, a chunk that runs past the end of its container means the file was cut short
+function readChunks(buffer: Uint8Array, start: number, end: number) {
+    const chunks: Chunk[] = [];
+    let pos = start;
+    while (pos + 8 <= end) {
+        const type = String.fromCharCode(buffer[pos], buffer[pos + 1], buffer[pos + 2], buffer[pos + 3]);
+        const size = (buffer[pos + 4] | (buffer[pos + 5] << 8) | (buffer[pos + 6] << 16) | (buffer[pos + 7] << 24)) >>> 0;
+        const dataEnd = pos + 8 + size;
+        if (dataEnd > end) throw new Error('Truncated WebP image');
+        chunks.push({ type, data: buffer.subarray(pos + 8, dataEnd) });
+        pos = dataEnd + (size & 1); // Chunks are padded to an even size
+    }
+    return chunks;
+}
+
+function decodeFrame(chunks: Chunk[], maxPixels: number): RgbaImage {
+    let alpha: Uint8Array | null = null;
+    for (const chunk of chunks) {
+        if (chunk.type === 'ALPH') {
+            alpha = chunk.data;
+        } else if (chunk.type === 'VP8 ') {
+            return decodeLossy(chunk.data, alpha, maxPixels);
+        } else if (chunk.type === 'VP8L') {
+            return decodeLossless(chunk.data, maxPixels);
+        } else if (chunk.type === 'ANMF' && chunk.data.length > 16) {
+            // Animations: the first frame, without its offset on the canvas
+            return decodeFrame(readChunks(chunk.data, 16, chunk.data.length), maxPixels);
+        }
+    }
+    throw new Error('WebP image has no frame');
+}
+
+export function isWebp(buffer: Uint8Array) {
+    return buffer.length >= 16 && Buffer.from(buffer.subarray(0, 4)).toString('latin1') === 'RIFF'
+        && Buffer.from(buffer.subarray(8, 12)).toString('latin1') === 'WEBP';
+}
+
+export function decodeWebp(buffer: Uint8Array, maxPixels = Infinity): RgbaImage {
+    if (!isWebp(buffer)) throw new Error('Not a WebP image');
+    const riffSize = (buffer[4] | (buffer[5] << 8) | (buffer[6] << 16) | (buffer[7] << 24)) >>> 0;
+    if (8 + riffSize > buffer.length) throw new Error('Truncated WebP image');
+    return decodeFrame(readChunks(buffer, 12, 8 + riffSize), maxPixels);
+}
+
+// ---- Lossy (VP8) ----
+
+// Boolean entropy decoder of RFC 6386 section 7
+class BoolDecoder {
+    private value: number;
+    private range = 255;
+    private bitCount = 0;
+
+    constructor(private data: Uint8Array, private pos: number, private end: number) {
+        this.value = (this.nextByte() << 8) | this.nextByte();
+    }
+
+    private nextByte() {
+        return this.pos < this.end ? this.data[this.pos++] : 0;
+    }
+
+    readBool(prob: number) {
+        const split = 1 + (((this.range - 1) * prob) >> 8);
+        const bigSplit = split << 8;
+        let bit: number;
+        if (this.value >= bigSplit) {
+            bit = 1;
+            this.range -= split;
+            this.value -= bigSplit;
+        } else {
+            bit = 0;
+            this.range = split;
+        }
+        while (this.range < 128) {
+            this.value <<= 1;
+            this.range <<= 1;
+            if (++this.bitCount === 8) {
+                this.bitCount = 0;
+                this.value |= this.nextByte();
+            }
+        }
+        return bit;
+    }
+
+    readLiteral(bits: number) {
+        let value = 0;
+        while (bits-- > 0) value = (value << 1) | this.readBool(128);
+        return value;
+    }
+
+    readSigned(bits: number) {
+        const value = this.readLiteral(bits);
+        return this.readBool(128) ? -value : value;
+    }
+
+    // A flag, then the value when the flag is set
+    readOptionalSigned(bits: number) {
+        return this.readBool(128) ? this.readSigned(bits) : 0;
+    }
+}
+
+interface FilterStrength {
+    limit: number; // 0 when the macroblock is not filtered
+    innerLevel: number;
+    hevThreshold: number;
+}
+
+// Planes with a one pixel border on the top and on the left, holding what intra prediction sees
+// outside the frame: 127 above, 129 on the left
+interface Plane {
+    data: Uint8Array;
+    stride: number;
+}
+
+function createPlane(width: number, height: number): Plane {
+    const stride = width + 1;
+    const data = new Uint8Array(stride * (height + 1));
+    data.fill(127, 0, stride);
+    for (let y = 1; y <= height; y++) data[y * stride] = 129;
+    return { data, stride };
+}
+
+function decodeLossy(data: Uint8Array, alphaData: Uint8Array | null, maxPixels: number): RgbaImage {
+    const { width, height, y: yPlane, u: uPlane, v: vPlane } = decodeVp8(data, maxPixels);
+    const rgba = new Uint8Array(width * height * 4);
+    const chromaHeight = (height + 1) >> 1;
+    const chromaRow = (plane: Plane, row: number) => plane.data.subarray((row + 1) * plane.stride + 1);
+    const u = new Uint8Array(width), v = new Uint8Array(width);
+    for (let y = 0; y < height; y++) {
+        // Chroma rows nearest to the output row and second nearest, interpolated 3:1
+        const near = y >> 1;
+        const far = y & 1 ? Math.min(near + 1, chromaHeight - 1) : Math.max(near - 1, 0);
+        upsampleRow(chromaRow(uPlane, near), chromaRow(uPlane, far), width, u);
+        upsampleRow(chromaRow(vPlane, near), chromaRow(vPlane, far), width, v);
+        const yRow = (y + 1) * yPlane.stride + 1;
+        for (let x = 0; x < width; x++) {
+            const luma = (yPlane.data[yRow + x] * 19077) >> 8;
+            const out = (y * width + x) * 4;
+            rgba[out] = yuvClip(luma + ((v[x] * 26149) >> 8) - 14234);
+            rgba[out + 1] = yuvClip(luma - ((u[x] * 6419) >> 8) - ((v[x] * 13320) >> 8) + 8708);
+            rgba[out + 2] = yuvClip(luma + ((u[x] * 33050) >> 8) - 17685);
+            rgba[out + 3] = 255;
+        }
+    }
+    if (alphaData) {
+        const alpha = decodeAlpha(alphaData, width, height);
+        for (let i = 0; i < width * height; i++) rgba[i * 4 + 3] = alpha[i];
+    }
+    return { width, height, data: rgba };
+}
+
+// libwebp's "fancy" chroma upsampling: each output pixel mixes the four nearest chroma samples
+// 9:3:3:1, with the same rounding
+function upsampleRow(near: Uint8Array, far: Uint8Array, width: number, out: Uint8Array) {
+    let nearLeft = near[0], farLeft = far[0];
+    out[0] = (3 * nearLeft + farLeft + 2) >> 2;
+    for (let x = 1; x <= (width - 1) >> 1; x++) {
+        const n = near[x], f = far[x];
+        const sum = nearLeft + n + farLeft + f + 8;
+        out[2 * x - 1] = (((sum + 2 * (n + farLeft)) >> 3) + nearLeft) >> 1;
+        out[2 * x] = (((sum + 2 * (nearLeft + f)) >> 3) + n) >> 1;
+        nearLeft = n;
+        farLeft = f;
+    }
+    if (!(width & 1)) out[width - 1] = (3 * nearLeft + farLeft + 2) >> 2;
+}
+
+// YUV to RGB in 14-bit fixed point, as libwebp converts
+const yuvClip = (v: number) => (v & ~16383) === 0 ? v >> 6 : v < 0 ? 0 : 255;
+
+function decodeVp8(data: Uint8Array, maxPixels = Infinity) {
+    if (data.length < 10) throw new Error('Truncated VP8 frame');
+    const tag = data[0] | (data[1] << 8) | (data[2] << 16);
+    const partition0Size = tag >>> 5;
+    if ((tag & 1) !== 0 || data[3] !== 0x9d || data[4] !== 0x01 || data[5] !== 0x2a) {
+        throw new Error('Unsupported VP8 frame');
+    }
+    const width = (data[6] | (data[7] << 8)) & 0x3fff;
+    const height = (data[8] | (data[9] << 8)) & 0x3fff;
+    assertSize(width, height, maxPixels);
+    if (10 + partition0Size > data.length) throw new Error('Truncated VP8 frame');
+
+    const br = new BoolDecoder(data, 10, 10 + partition0Size);
+    br.readLiteral(2); // Color space and clamping type
+
+    // Segments: up to four groups of macroblocks with their own quantizer and filter level
+    let useSegments = false, updateSegmentMap = false, absoluteDeltas = false;
+    const segmentQuant = [0, 0, 0, 0], segmentFilter = [0, 0, 0, 0], segmentProbs = [255, 255, 255];
+    if (br.readLiteral(1)) {
+        useSegments = true;
+        updateSegmentMap = !!br.readLiteral(1);
+        if (br.readLiteral(1)) {
+            absoluteDeltas = !!br.readLiteral(1);
+            for (let s = 0; s < 4; s++) segmentQuant[s] = br.readOptionalSigned(7);
+            for (let s = 0; s < 4; s++) segmentFilter[s] = br.readOptionalSigned(6);
+        }
+        if (updateSegmentMap) {
+            for (let i = 0; i < 3; i++) segmentProbs[i] = br.readLiteral(1) ? br.readLiteral(8) : 255;
+        }
+    }
+
+    const simpleFilter = br.readLiteral(1);
+    const filterLevel = br.readLiteral(6);
+    const sharpness = br.readLiteral(3);
+    const refDeltas = [0, 0, 0, 0], modeDeltas = [0, 0, 0, 0];
+    const useFilterDeltas = br.readLiteral(1);
+    if (useFilterDeltas && br.readLiteral(1)) {
+        for (let i = 0; i < 4; i++) if (br.readLiteral(1)) refDeltas[i] = br.readSigned(6);
+        for (let i = 0; i < 4; i++) if (br.readLiteral(1)) modeDeltas[i] = br.readSigned(6);
+    }
+    const filterType = filterLevel === 0 ? 0 : simpleFilter ? 1 : 2;
+
+    // The coefficients are split over 1, 2, 4 or 8 partitions, by macroblock row
+    const partitionCount = 1 << br.readLiteral(2);
+    const sizesStart = 10 + partition0Size;
+    let partitionStart = sizesStart + 3 * (partitionCount - 1);
+    if (partitionStart > data.length) throw new Error('Truncated VP8 frame');
+    const partitions: BoolDecoder[] = [];
+    for (let p = 0; p < partitionCount; p++) {
+        const size = p < partitionCount - 1
+            ? data[sizesStart + 3 * p] | (data[sizesStart + 3 * p + 1] << 8) | (data[sizesStart + 3 * p + 2] << 16)
+            : data.length - partitionStart;
+        const end = Math.min(partitionStart + size, data.length);
+        partitions.push(new BoolDecoder(data, partitionStart, end));
+        partitionStart = end;
+    }
+
+    // Dequantization factors per segment: [y1 dc, y1 ac, y2 dc, y2 ac, uv dc, uv ac]
+    const baseQ = br.readLiteral(7);
+    const y1Dc = br.readOptionalSigned(4), y2Dc = br.readOptionalSigned(4), y2Ac = br.readOptionalSigned(4);
+    const uvDc = br.readOptionalSigned(4), uvAc = br.readOptionalSigned(4);
+    const quant: number[][] = [];
+    for (let s = 0; s < 4; s++) {
+        const q = useSegments ? segmentQuant[s] + (absoluteDeltas ? 0 : baseQ) : baseQ;
+        const y2AcFactor = (AC_TABLE[clip(q + y2Ac, 127)] * 101581) >> 16;
+        quant.push([
+            DC_TABLE[clip(q + y1Dc, 127)],
+            AC_TABLE[clip(q, 127)],
+            DC_TABLE[clip(q + y2Dc, 127)] * 2,
+            y2AcFactor < 8 ? 8 : y2AcFactor,
+            DC_TABLE[clip(q + uvDc, 117)],
+            AC_TABLE[clip(q + uvAc, 127)]
+        ]);
+    }
+    br.readLiteral(1); // Refresh entropy probabilities: only matters for following frames
+
+    const probas = new Uint8Array(COEFF_PROBA_0.length);
+    for (let i = 0; i < probas.length; i++) {
+        probas[i] = br.readBool(COEFF_UPDATE_PROBA[i]) ? br.readLiteral(8) : COEFF_PROBA_0[i];
+    }
+    const useSkipProba = br.readLiteral(1);
+    const skipProba = useSkipProba ? br.readLiteral(8) : 0;
+
+    // Filter strength per segment, for macroblocks without and with 4x4 prediction
+    const strengths: FilterStrength[][] = [];
+    for (let s = 0; s < 4; s++) {
+        let baseLevel = filterLevel;
+        if (useSegments) baseLevel = segmentFilter[s] + (absoluteDeltas ? 0 : filterLevel);
+        strengths.push([0, 1].map(i4x4 => {
+            let level = baseLevel;
+            if (useFilterDeltas) {
+                level += refDeltas[0];
+                if (i4x4) level += modeDeltas[0];
+            }
+            level = clip(level, 63);
+            if (level === 0) return { limit: 0, innerLevel: 0, hevThreshold: 0 };
+            let innerLevel = level;
+            if (sharpness > 0) {
+                innerLevel >>= sharpness > 4 ? 2 : 1;
+                if (innerLevel > 9 - sharpness) innerLevel = 9 - sharpness;
+            }
+            if (innerLevel < 1) innerLevel = 1;
+            return { limit: 2 * level + innerLevel, innerLevel, hevThreshold: level >= 40 ? 2 : level >= 15 ? 1 : 0 };
+        }));
+    }
+
+    const mbWidth = (width + 15) >> 4, mbHeight = (height + 15) >> 4;
+    const yPlane = createPlane(mbWidth * 16, mbHeight * 16);
+    const uPlane = createPlane(mbWidth * 8, mbHeight * 8);
+    const vPlane = createPlane(mbWidth * 8, mbHeight * 8);
+
+    // Context carried between macroblocks: 4x4 modes and which blocks had coefficients
+    // (per column: 4 Y, 2 U, 2 V, then the Y2 block)
+    const topModes = new Uint8Array(mbWidth * 4);
+    const leftModes = new Uint8Array(4);
+    const topNz = new Uint8Array(mbWidth * 9);
+    const leftNz = new Uint8Array(9);
+    const coeffs = new Int16Array(384);
+    const y2 = new Int16Array(16);
+    const modes = new Uint8Array(16);
+    const filterInfo: { strength: FilterStrength; inner: boolean }[] = [];
+
+    for (let mbY = 0; mbY < mbHeight; mbY++) {
+        const tokens = partitions[mbY & (partitionCount - 1)];
+        leftModes.fill(DC_PRED);
+        leftNz.fill(0);
+        for (let mbX = 0; mbX < mbWidth; mbX++) {
+            // Macroblock header
+            const segment = updateSegmentMap
+                ? (br.readBool(segmentProbs[0]) ? 2 + br.readBool(segmentProbs[2]) : br.readBool(segmentProbs[1]))
+                : 0;
+            const skip = useSkipProba ? br.readBool(skipProba) : 0;
+            const i4x4 = !br.readBool(145);
+            let yMode = DC_PRED;
+            if (!i4x4) {
+                yMode = br.readBool(156) ? (br.readBool(128) ? TM_PRED : H_PRED) : (br.readBool(163) ? V_PRED : DC_PRED);
+                topModes.fill(yMode, mbX * 4, mbX * 4 + 4);
+                leftModes.fill(yMode);
+            } else {
+                for (let y = 0; y < 4; y++) {
+                    let mode = leftModes[y];
+                    for (let x = 0; x < 4; x++) {
+                        const prob = (topModes[mbX * 4 + x] * 10 + mode) * 9;
+                        let i = YMODES_INTRA4[br.readBool(BMODES_PROBA[prob])];
+                        while (i > 0) i = YMODES_INTRA4[2 * i + br.readBool(BMODES_PROBA[prob + i])];
+                        mode = -i;
+                        topModes[mbX * 4 + x] = mode;
+                        modes[y * 4 + x] = mode;
+                    }
+                    leftModes[y] = mode;
+                }
+            }
+            const uvMode = !br.readBool(142) ? DC_PRED : !br.readBool(114) ? V_PRED : br.readBool(183) ? TM_PRED : H_PRED;
+
+            // Residuals
+            coeffs.fill(0);
+            const q = quant[segment];
+            const nz = mbX * 9;
+            let hasCoeffs = false;
+            if (!skip) {
+                let first = 0, yType = 3;
+                if (!i4x4) {
+                    y2.fill(0);
+                    const count = readCoeffs(tokens, probas, 1, topNz[nz + 8] + leftNz[8], q[2], q[3], 0, y2, 0);
+                    topNz[nz + 8] = leftNz[8] = count > 0 ? 1 : 0;
+                    inverseWht(y2, coeffs);
+                    first = 1;
+                    yType = 0;
+                }
+                for (let y = 0; y < 4; y++) {
+                    let left = leftNz[y];
+                    for (let x = 0; x < 4; x++) {
+                        const block = (y * 4 + x) * 16;
+                        const count = readCoeffs(tokens, probas, yType, left + topNz[nz + x], q[0], q[1], first, coeffs, block);
+                        left = topNz[nz + x] = count > first ? 1 : 0;
+                        if (count > 1 || coeffs[block] !== 0) hasCoeffs = true;
+                    }
+                    leftNz[y] = left;
+                }
+                for (let c = 0; c < 2; c++) {
+                    for (let y = 0; y < 2; y++) {
+                        let left = leftNz[4 + c * 2 + y];
+                        for (let x = 0; x < 2; x++) {
+                            const block = 256 + c * 64 + (y * 2 + x) * 16;
+                            const count = readCoeffs(tokens, probas, 2, left + topNz[nz + 4 + c * 2 + x], q[4], q[5], 0, coeffs, block);
+                            left = topNz[nz + 4 + c * 2 + x] = count > 0 ? 1 : 0;
+                            if (count > 1 || coeffs[block] !== 0) hasCoeffs = true;
+                        }
+                        leftNz[4 + c * 2 + y] = left;
+                    }
+                }
+            } else {
+                topNz.fill(0, nz, nz + 8);
+                leftNz.fill(0, 0, 8);
+                if (!i4x4) topNz[nz + 8] = leftNz[8] = 0;
+            }
+            filterInfo.push({ strength: strengths[segment][i4x4 ? 1 : 0], inner: i4x4 || hasCoeffs });
+
+            // Prediction plus residuals
+            if (i4x4) {
+                predictLuma4x4(yPlane, mbX, mbY, mbWidth, modes, coeffs);
+            } else {
+                predictBlock(yPlane, mbX * 16, mbY * 16, 16, yMode, mbX, mbY);
+                for (let b = 0; b < 16; b++) {
+                    addTransform(coeffs, b * 16, yPlane, mbX * 16 + (b & 3) * 4, mbY * 16 + (b >> 2) * 4);
+                }
+            }
+            for (const [plane, offset] of [[uPlane, 256], [vPlane, 320]] as [Plane, number][]) {
+                predictBlock(plane, mbX * 8, mbY * 8, 8, uvMode, mbX, mbY);
+                for (let b = 0; b < 4; b++) {
+                    addTransform(coeffs, offset + b * 16, plane, mbX * 8 + (b & 1) * 4, mbY * 8 + (b >> 1) * 4);
+                }
+            }
+        }
+    }
+
+    // Prediction works on unfiltered pixels, so the loop filter can run once everything is decoded
+    if (filterType > 0) {
+        for (let mbY = 0; mbY < mbHeight; mbY++) {
+            for (let mbX = 0; mbX < mbWidth; mbX++) {
+                const { strength, inner } = filterInfo[mbY * mbWidth + mbX];
+                if (strength.limit) loopFilter(filterType, strength, inner, mbX, mbY, yPlane, uPlane, vPlane);
+            }
+        }
+    }
+
+    return { width, height, y: yPlane, u: uPlane, v: vPlane };
+}
+
+// Reads the tokens of one 4x4 block into out[offset..offset+15], dequantized, from position `n`.
+// Returns the position after the last token that was read (16 when the block runs to the end).
+function readCoeffs(br: BoolDecoder, probas: Uint8Array, type: number, ctx: number, dcFactor: number, acFactor: number,
+    n: number, out: Int16Array, offset: number) {
+    const band = (pos: number) => (type * 8 + BANDS[pos]) * 33;
+    let p = band(n) + ctx * 11;
+    for (; n < 16; n++) {
+        if (!br.readBool(probas[p])) return n; // End of block
+        while (!br.readBool(probas[p + 1])) { // Zero
+            p = band(++n);
+            if (n === 16) return 16;
+        }
+        let value: number;
+        if (!br.readBool(probas[p + 2])) {
+            value = 1;
+            p = band(n + 1) + 11;
+        } else {
+            value = readLargeValue(br, probas, p);
+            p = band(n + 1) + 22;
+        }
+        out[offset + ZIGZAG[n]] = (br.readBool(128) ? -value : value) * (n > 0 ? acFactor : dcFactor);
+    }
+    return 16;
+}
+
+function readLargeValue(br: BoolDecoder, probas: Uint8Array, p: number) {
+    if (!br.readBool(probas[p + 3])) {
+        if (!br.readBool(probas[p + 4])) return 2;
+        return 3 + br.readBool(probas[p + 5]);
+    }
+    if (!br.readBool(probas[p + 6])) {
+        if (!br.readBool(probas[p + 7])) return 5 + br.readBool(159);
+        return 7 + 2 * br.readBool(165) + br.readBool(145);
+    }
+    const bit1 = br.readBool(probas[p + 8]);
+    const bit0 = br.readBool(probas[p + 9 + bit1]);
+    const cat = 2 * bit1 + bit0;
+    let value = 0;
+    for (const prob of CAT3456[cat]) value = value * 2 + br.readBool(prob);
+    return value + 3 + (8 << cat);
+}
+
+// Spreads the Y2 block over the DC coefficients of the 16 luma blocks
+function inverseWht(input: Int16Array, out: Int16Array) {
+    const tmp = new Int32Array(16);
+    for (let i = 0; i < 4; i++) {
+        const a0 = input[i] + input[12 + i], a1 = input[4 + i] + input[8 + i];
+        const a2 = input[4 + i] - input[8 + i], a3 = input[i] - input[12 + i];
+        tmp[i] = a0 + a1;
+        tmp[8 + i] = a0 - a1;
+        tmp[4 + i] = a3 + a2;
+        tmp[12 + i] = a3 - a2;
+    }
+    for (let i = 0; i < 4; i++) {
+        const dc = tmp[i * 4] + 3;
+        const a0 = dc + tmp[i * 4 + 3], a1 = tmp[i * 4 + 1] + tmp[i * 4 + 2];
+        const a2 = tmp[i * 4 + 1] - tmp[i * 4 + 2], a3 = dc - tmp[i * 4 + 3];
+        out[i * 64] = (a0 + a1) >> 3;
+        out[i * 64 + 16] = (a3 + a2) >> 3;
+        out[i * 64 + 32] = (a0 - a1) >> 3;
+        out[i * 64 + 48] = (a3 - a2) >> 3;
+    }
+}
+
+const mul1 = (a: number) => ((a * 20091) >> 16) + a;
+const mul2 = (a: number) => (a * 35468) >> 16;
+
+// Inverse DCT of one block, added to the prediction at (x, y)
+function addTransform(coeffs: Int16Array, offset: number, plane: Plane, x: number, y: number) {
+    let any = false;
+    for (let i = 0; i < 16; i++) {
+        if (coeffs[offset + i]) {
+            any = true;
+            break;
+        }
+    }
+    if (!any) return;
+
+    const tmp = new Int32Array(16);
+    for (let i = 0; i < 4; i++) {
+        const in0 = coeffs[offset + i], in4 = coeffs[offset + 4 + i];
+        const in8 = coeffs[offset + 8 + i], in12 = coeffs[offset + 12 + i];
+        const a = in0 + in8, b = in0 - in8;
+        const c = mul2(in4) - mul1(in12), d = mul1(in4) + mul2(in12);
+        tmp[i * 4] = a + d;
+        tmp[i * 4 + 1] = b + c;
+        tmp[i * 4 + 2] = b - c;
+        tmp[i * 4 + 3] = a - d;
+    }
+    const { data, stride } = plane;
+    for (let i = 0; i < 4; i++) {
+        const dc = tmp[i] + 4;
+        const a = dc + tmp[8 + i], b = dc - tmp[8 + i];
+        const c = mul2(tmp[4 + i]) - mul1(tmp[12 + i]), d = mul1(tmp[4 + i]) + mul2(tmp[12 + i]);
+        const row = (y + i + 1) * stride + x + 1;
+        data[row] = clip255(data[row] + ((a + d) >> 3));
+        data[row + 1] = clip255(data[row + 1] + ((b + c) >> 3));
+        data[row + 2] = clip255(data[row + 2] + ((b - c) >> 3));
+        data[row + 3] = clip255(data[row + 3] + ((a - d) >> 3));
+    }
+}
+
+// 16x16 luma or 8x8 chroma prediction of a whole macroblock at (x, y)
+function predictBlock(plane: Plane, x: number, y: number, size: number, mode: number, mbX: number, mbY: number) {
+    const { data, stride } = plane;
+    const origin = (y + 1) * stride + x + 1;
+    const top = origin - stride;
+    const shift = size === 16 ? 4 : 3;
+    let dc = 0;
+    if (mode === DC_PRED) {
+        // Edges of the frame do not count in the average
+        let sum = 0;
+        if (mbY > 0) for (let i = 0; i < size; i++) sum += data[top + i];
+        if (mbX > 0) for (let i = 0; i < size; i++) sum += data[origin + i * stride - 1];
+        if (mbX > 0 && mbY > 0) dc = (sum + size) >> (shift + 1);
+        else if (mbX > 0 || mbY > 0) dc = (sum + (size >> 1)) >> shift;
+        else dc = 128;
+    }
+    for (let j = 0; j < size; j++) {
+        const row = origin + j * stride;
+        const left = data[row - 1];
+        for (let i = 0; i < size; i++) {
+            switch (mode) {
+                case DC_PRED: data[row + i] = dc; break;
+                case V_PRED: data[row + i] = data[top + i]; break;
+                case H_PRED: data[row + i] = left; break;
+                default: data[row + i] = clip255(left + data[top + i] - data[top - 1]); break;
+            }
+        }
+    }
+}
+
+const avg2 = (a: number, b: number) => (a + b + 1) >> 1;
+const avg3 = (a: number, b: number, c: number) => (a + 2 * b + c + 2) >> 2;
+
+// Macroblock with a mode per 4x4 block; each block is predicted from the ones decoded before it
+function predictLuma4x4(plane: Plane, mbX: number, mbY: number, mbWidth: number, modes: Uint8Array, coeffs: Int16Array) {
+    const { data, stride } = plane;
+    const mbTop = mbY * 16 * stride + mbX * 16 + 1; // Row above the macroblock, first column
+    // Pixels above and to the right of the macroblock, used by all blocks of its last column
+    const topRight = [0, 1, 2, 3].map(i => mbY === 0 ? 127
+        : mbX === mbWidth - 1 ? data[mbTop + 15] : data[mbTop + 16 + i]);
+    const edge = new Int32Array(13); // Top-left, 8 above, 4 on the left
+    const pred = new Uint8Array(16);
+
+    for (let b = 0; b < 16; b++) {
+        const bx = (b & 3) * 4, by = (b >> 2) * 4;
+        const origin = mbTop + (by + 1) * stride + bx;
+        const top = origin - stride;
+        edge[0] = data[top - 1];
+        for (let i = 0; i < 4; i++) edge[1 + i] = data[top + i];
+        for (let i = 0; i < 4; i++) edge[5 + i] = bx === 12 ? topRight[i] : data[top + 4 + i];
+        for (let i = 0; i < 4; i++) edge[9 + i] = data[origin + i * stride - 1];
+        predict4x4(modes[b], edge, pred);
+        for (let j = 0; j < 4; j++) {
+            for (let i = 0; i < 4; i++) data[origin + j * stride + i] = pred[j * 4 + i];
+        }
+        addTransform(coeffs, b * 16, plane, mbX * 16 + bx, mbY * 16 + by);
+    }
+}
+
+function predict4x4(mode: number, edge: Int32Array, pred: Uint8Array) {
+    const X = edge[0], A = edge[1], B = edge[2], C = edge[3], D = edge[4];
+    const E = edge[5], F = edge[6], G = edge[7], H = edge[8];
+    const I = edge[9], J = edge[10], K = edge[11], L = edge[12];
+    const set = (x: number, y: number, v: number) => { pred[y * 4 + x] = v; };
+    switch (mode) {
+        case 0: { // DC
+            const dc = (A + B + C + D + I + J + K + L + 4) >> 3;
+            pred.fill(dc);
+            break;
+        }
+        case 1: { // TM
+            const top = [A, B, C, D], left = [I, J, K, L];
+            for (let y = 0; y < 4; y++) for (let x = 0; x < 4; x++) set(x, y, clip255(left[y] + top[x] - X));
+            break;
+        }
+        case 2: { // Vertical, smoothed
+            const row = [avg3(X, A, B), avg3(A, B, C), avg3(B, C, D), avg3(C, D, E)];
+            for (let y = 0; y < 4; y++) for (let x = 0; x < 4; x++) set(x, y, row[x]);
+            break;
+        }
+        case 3: { // Horizontal, smoothed
+            const column = [avg3(X, I, J), avg3(I, J, K), avg3(J, K, L), avg3(K, L, L)];
+            for (let y = 0; y < 4; y++) for (let x = 0; x < 4; x++) set(x, y, column[y]);
+            break;
+        }
+        case 4: // Down-right
+            set(0, 3, avg3(J, K, L));
+            set(1, 3, avg3(I, J, K)); set(0, 2, avg3(I, J, K));
+            set(2, 3, avg3(X, I, J)); set(1, 2, avg3(X, I, J)); set(0, 1, avg3(X, I, J));
+            set(3, 3, avg3(A, X, I)); set(2, 2, avg3(A, X, I)); set(1, 1, avg3(A, X, I)); set(0, 0, avg3(A, X, I));
+            set(3, 2, avg3(B, A, X)); set(2, 1, avg3(B, A, X)); set(1, 0, avg3(B, A, X));
+            set(3, 1, avg3(C, B, A)); set(2, 0, avg3(C, B, A));
+            set(3, 0, avg3(D, C, B));
+            break;
+        case 5: // Vertical-right
+            set(0, 0, avg2(X, A)); set(1, 2, avg2(X, A));
+            set(1, 0, avg2(A, B)); set(2, 2, avg2(A, B));
+            set(2, 0, avg2(B, C)); set(3, 2, avg2(B, C));
+            set(3, 0, avg2(C, D));
+            set(0, 3, avg3(K, J, I));
+            set(0, 2, avg3(J, I, X));
+            set(0, 1, avg3(I, X, A)); set(1, 3, avg3(I, X, A));
+            set(1, 1, avg3(X, A, B)); set(2, 3, avg3(X, A, B));
+            set(2, 1, avg3(A, B, C)); set(3, 3, avg3(A, B, C));
+            set(3, 1, avg3(B, C, D));
+            break;
+        case 6: // Down-left
+            set(0, 0, avg3(A, B, C));
+            set(1, 0, avg3(B, C, D)); set(0, 1, avg3(B, C, D));
+            set(2, 0, avg3(C, D, E)); set(1, 1, avg3(C, D, E)); set(0, 2, avg3(C, D, E));
+            set(3, 0, avg3(D, E, F)); set(2, 1, avg3(D, E, F)); set(1, 2, avg3(D, E, F)); set(0, 3, avg3(D, E, F));
+            set(3, 1, avg3(E, F, G)); set(2, 2, avg3(E, F, G)); set(1, 3, avg3(E, F, G));
+            set(3, 2, avg3(F, G, H)); set(2, 3, avg3(F, G, H));
+            set(3, 3, avg3(G, H, H));
+            break;
+        case 7: // Vertical-left
+            set(0, 0, avg2(A, B));
+            set(1, 0, avg2(B, C)); set(0, 2, avg2(B, C));
+            set(2, 0, avg2(C, D)); set(1, 2, avg2(C, D));
+            set(3, 0, avg2(D, E)); set(2, 2, avg2(D, E));
+            set(0, 1, avg3(A, B, C));
+            set(1, 1, avg3(B, C, D)); set(0, 3, avg3(B, C, D));
+            set(2, 1, avg3(C, D, E)); set(1, 3, avg3(C, D, E));
+            set(3, 1, avg3(D, E, F)); set(2, 3, avg3(D, E, F));
+            set(3, 2, avg3(E, F, G));
+            set(3, 3, avg3(F, G, H));
+            break;
+        case 8: // Horizontal-down
+            set(0, 0, avg2(I, X)); set(2, 1, avg2(I, X));
+            set(0, 1, avg2(J, I)); set(2, 2, avg2(J, I));
+            set(0, 2, avg2(K, J)); set(2, 3, avg2(K, J));
+            set(0, 3, avg2(L, K));
+            set(3, 0, avg3(A, B, C));
+            set(2, 0, avg3(X, A, B));
+            set(1, 0, avg3(I, X, A)); set(3, 1, avg3(I, X, A));
+            set(1, 1, avg3(J, I, X)); set(3, 2, avg3(J, I, X));
+            set(1, 2, avg3(K, J, I)); set(3, 3, avg3(K, J, I));
+            set(1, 3, avg3(L, K, J));
+            break;
+        default: // Horizontal-up
+            set(0, 0, avg2(I, J));
+            set(2, 0, avg2(J, K)); set(0, 1, avg2(J, K));
+            set(2, 1, avg2(K, L)); set(0, 2, avg2(K, L));
+            set(1, 0, avg3(I, J, K));
+            set(3, 0, avg3(J, K, L)); set(1, 1, avg3(J, K, L));
+            set(3, 1, avg3(K, L, L)); set(1, 2, avg3(K, L, L));
+            set(3, 2, L); set(2, 2, L); set(0, 3, L); set(1, 3, L); set(2, 3, L); set(3, 3, L);
+            break;
+    }
+}
+
+// ---- Loop filter (RFC 6386 section 15) ----
+
+const sclip1 = (v: number) => v < -128 ? -128 : v > 127 ? 127 : v;
+const sclip2 = (v: number) => v < -16 ? -16 : v > 15 ? 15 : v;
+
+function filter2(p: Uint8Array, pos: number, step: number) {
+    const p1 = p[pos - 2 * step], p0 = p[pos - step], q0 = p[pos], q1 = p[pos + step];
+    const a = 3 * (q0 - p0) + sclip1(p1 - q1);
+    const a1 = sclip2((a + 4) >> 3), a2 = sclip2((a + 3) >> 3);
+    p[pos - step] = clip255(p0 + a2);
+    p[pos] = clip255(q0 - a1);
+}
+
+function filter4(p: Uint8Array, pos: number, step: number) {
+    const p1 = p[pos - 2 * step], p0 = p[pos - step], q0 = p[pos], q1 = p[pos + step];
+    const a = 3 * (q0 - p0);
+    const a1 = sclip2((a + 4) >> 3), a2 = sclip2((a + 3) >> 3);
+    const a3 = (a1 + 1) >> 1;
+    p[pos - 2 * step] = clip255(p1 + a3);
+    p[pos - step] = clip255(p0 + a2);
+    p[pos] = clip255(q0 - a1);
+    p[pos + step] = clip255(q1 - a3);
+}
+
+function filter6(p: Uint8Array, pos: number, step: number) {
+    const p2 = p[pos - 3 * step], p1 = p[pos - 2 * step], p0 = p[pos - step];
+    const q0 = p[pos], q1 = p[pos + step], q2 = p[pos + 2 * step];
+    const a = sclip1(3 * (q0 - p0) + sclip1(p1 - q1));
+    const a1 = (27 * a + 63) >> 7, a2 = (18 * a + 63) >> 7, a3 = (9 * a + 63) >> 7;
+    p[pos - 3 * step] = clip255(p2 + a3);
+    p[pos - 2 * step] = clip255(p1 + a2);
+    p[pos - step] = clip255(p0 + a1);
+    p[pos] = clip255(q0 - a1);
+    p[pos + step] = clip255(q1 - a2);
+    p[pos + 2 * step] = clip255(q2 - a3);
+}
+
+const hev = (p: Uint8Array, pos: number, step: number, threshold: number) =>
+    Math.abs(p[pos - 2 * step] - p[pos - step]) > threshold || Math.abs(p[pos + step] - p[pos]) > threshold;
+
+const needsFilter = (p: Uint8Array, pos: number, step: number, threshold: number) =>
+    4 * Math.abs(p[pos - step] - p[pos]) + Math.abs(p[pos - 2 * step] - p[pos + step]) <= threshold;
+
+function needsFilter2(p: Uint8Array, pos: number, step: number, threshold: number, inner: number) {
+    const p3 = p[pos - 4 * step], p2 = p[pos - 3 * step], p1 = p[pos - 2 * step], p0 = p[pos - step];
+    const q0 = p[pos], q1 = p[pos + step], q2 = p[pos + 2 * step], q3 = p[pos + 3 * step];
+    if (4 * Math.abs(p0 - q0) + Math.abs(p1 - q1) > threshold) return false;
+    return Math.abs(p3 - p2) <= inner && Math.abs(p2 - p1) <= inner && Math.abs(p1 - p0) <= inner
+        && Math.abs(q3 - q2) <= inner && Math.abs(q2 - q1) <= inner && Math.abs(q1 - q0) <= inner;
+}
+
+// Filters `size` pixels along an edge: `step` crosses the edge, `along` follows it
+function filterEdge(p: Uint8Array, pos: number, step: number, along: number, size: number, limit: number,
+    strength: FilterStrength, macroblockEdge: boolean) {
+    const threshold = 2 * limit + 1;
+    for (let i = 0; i < size; i++, pos += along) {
+        if (!needsFilter2(p, pos, step, threshold, strength.innerLevel)) continue;
+        if (hev(p, pos, step, strength.hevThreshold)) filter2(p, pos, step);
+        else if (macroblockEdge) filter6(p, pos, step);
+        else filter4(p, pos, step);
+    }
+}
+
+function simpleFilterEdge(p: Uint8Array, pos: number, step: number, along: number, limit: number) {
+    const threshold = 2 * limit + 1;
+    for (let i = 0; i < 16; i++, pos += along) {
+        if (needsFilter(p, pos, step, threshold)) filter2(p, pos, step);
+    }
+}
+
+function loopFilter(filterType: number, strength: FilterStrength, inner: boolean, mbX: number, mbY: number,
+    yPlane: Plane, uPlane: Plane, vPlane: Plane) {
+    const limit = strength.limit;
+    const ys = yPlane.stride;
+    const y = (mbY * 16 + 1) * ys + mbX * 16 + 1;
+    if (filterType === 1) {
+        const p = yPlane.data;
+        if (mbX > 0) simpleFilterEdge(p, y, 1, ys, limit + 4);
+        if (inner) for (let i = 4; i < 16; i += 4) simpleFilterEdge(p, y + i, 1, ys, limit);
+        if (mbY > 0) simpleFilterEdge(p, y, ys, 1, limit + 4);
+        if (inner) for (let i = 4; i < 16; i += 4) simpleFilterEdge(p, y + i * ys, ys, 1, limit);
+        return;
+    }
+
+    const uvs = uPlane.stride;
+    const uv = (mbY * 8 + 1) * uvs + mbX * 8 + 1;
+    const chroma = [uPlane.data, vPlane.data];
+    if (mbX > 0) {
+        filterEdge(yPlane.data, y, 1, ys, 16, limit + 4, strength, true);
+        for (const p of chroma) filterEdge(p, uv, 1, uvs, 8, limit + 4, strength, true);
+    }
+    if (inner) {
+        for (let i = 4; i < 16; i += 4) filterEdge(yPlane.data, y + i, 1, ys, 16, limit, strength, false);
+        for (const p of chroma) filterEdge(p, uv + 4, 1, uvs, 8, limit, strength, false);
+    }
+    if (mbY > 0) {
+        filterEdge(yPlane.data, y, ys, 1, 16, limit + 4, strength, true);
+        for (const p of chroma) filterEdge(p, uv, uvs, 1, 8, limit + 4, strength, true);
+    }
+    if (inner) {
+        for (let i = 4; i < 16; i += 4) filterEdge(yPlane.data, y + i * ys, ys, 1, 16, limit, strength, false);
+        for (const p of chroma) filterEdge(p, uv + 4 * uvs, uvs, 1, 8, limit, strength, false);
+    }
+}
+
+// ---- Alpha ----
+
+function decodeAlpha(data: Uint8Array, width: number, height: number) {
+    const compression = data[0] & 3;
+    const filtering = (data[0] >> 2) & 3;
+    let alpha: Uint8Array;
+    if (compression === 0) {
+        alpha = new Uint8Array(width * height);
+        alpha.set(data.subarray(1, 1 + width * height));
+    } else if (compression === 1) {
+        // A lossless stream without header; the levels are in the green channel
+        const argb = decodeImageStream(new BitReader(data, 1), width, height, true);
+        alpha = new Uint8Array(width * height);
+        for (let i = 0; i < alpha.length; i++) alpha[i] = (argb[i] >> 8) & 0xff;
+    } else {
+        throw new Error('Unsupported WebP alpha compression');
+    }
+
+    // Undo the prediction: from the left, from above, or from both (gradient). The first row is
+    // always predicted from the left and the first column from above.
+    if (filtering) {
+        for (let y = 0; y < height; y++) {
+            const row = y * width, prev = row - width;
+            for (let x = 0; x < width; x++) {
+                let pred: number;
+                if (y === 0) pred = x === 0 ? 0 : alpha[row + x - 1];
+                else if (x === 0) pred = alpha[prev];
+                else if (filtering === 1) pred = alpha[row + x - 1];
+                else if (filtering === 2) pred = alpha[prev + x];
+                else pred = clip255(alpha[row + x - 1] + alpha[prev + x] - alpha[prev + x - 1]);
+                alpha[row + x] = (alpha[row + x] + pred) & 0xff;
+            }
+        }
+    }
+    return alpha;
+}
+
+// ---- Lossless (VP8L) ----
+
+// Reads bits least significant first
+class BitReader {
+    private value = 0;
+    private bits = 0;
+
+    constructor(private data: Uint8Array, private pos: number) {}
+
+    private fill() {
+        while (this.bits <= 24) {
+            if (this.pos >= this.data.length + 4) throw new Error('Truncated WebP image');
+            this.value |= (this.pos < this.data.length ? this.data[this.pos] : 0) << this.bits;
+            this.pos++;
+            this.bits += 8;
+        }
+    }
+
+    peek(count: number) {
+        this.fill();
+        return this.value & ((1 << count) - 1);
+    }
+
+    skip(count: number) {
+        this.value >>>= count;
+        this.bits -= count;
+    }
+
+    read(count: number) {
+        const value = this.peek(count);
+        this.skip(count);
+        return value;
+    }
+}
+
+const LOOKUP_BITS = 8;
+
+// Canonical prefix code, with a lookup table for the short codes
+interface PrefixCode {
+    single: number; // The only symbol, read with no bits; -1 otherwise
+    counts: Uint16Array; // Codes per length
+    symbols: Uint16Array; // By length, then by value
+    table: Int32Array; // Next LOOKUP_BITS bits to (length << 16) | symbol; 0 for longer codes
+}
+
+function buildPrefixCode(lengths: Uint8Array): PrefixCode {
+    const counts = new Uint16Array(16);
+    const used: number[] = [];
+    lengths.forEach((length, symbol) => {
+        if (length) {
+            counts[length]++;
+            used.push(symbol);
+        }
+    });
+    if (used.length <= 1) {
+        return { single: used.length ? used[0] : 0, counts, symbols: new Uint16Array(0), table: new Int32Array(0) };
+    }
+
+    const offsets = new Uint16Array(16);
+    for (let length = 1; length < 15; length++) offsets[length + 1] = offsets[length] + counts[length];
+    const symbols = new Uint16Array(used.length);
+    for (const symbol of used) symbols[offsets[lengths[symbol]]++] = symbol;
+
+    const table = new Int32Array(1 << LOOKUP_BITS);
+    let code = 0, index = 0;
+    for (let length = 1; length <= 15; length++) {
+        for (let i = 0; i < counts[length]; i++, code++, index++) {
+            if (length > LOOKUP_BITS) continue;
+            // Codes are read most significant bit first, so they are reversed in the table
+            let reversed = 0;
+            for (let b = 0; b < length; b++) reversed |= ((code >> b) & 1) << (length - 1 - b);
+            for (let fill = reversed; fill < table.length; fill += 1 << length) {
+                table[fill] = (length << 16) | symbols[index];
+            }
+        }
+        code <<= 1;
+    }
+    return { single: -1, counts, symbols, table };
+}
+
+function readSymbol(code: PrefixCode, br: BitReader) {
+    if (code.single >= 0) return code.single;
+    const entry = code.table[br.peek(LOOKUP_BITS)];
+    if (entry) {
+        br.skip(entry >>> 16);
+        return entry & 0xffff;
+    }
+    let value = 0, first = 0, index = 0;
+    for (let length = 1; length <= 15; length++) {
+        value |= br.read(1);
+        const count = code.counts[length];
+        if (value - count < first) return code.symbols[index + value - first];
+        index += count;
+        first = (first + count) << 1;
+        value <<= 1;
+    }
+    throw new Error('Invalid WebP prefix code');
+}
+
+const CODE_LENGTH_ORDER = [17, 18, 0, 1, 2, 3, 4, 5, 16, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15];
+
+function readPrefixCode(br: BitReader, alphabetSize: number) {
+    const lengths = new Uint8Array(alphabetSize);
+    if (br.read(1)) {
+        // Simple code: one or two symbols
+        const count = br.read(1) + 1;
+        const first = br.read(br.read(1) ? 8 : 1);
+        if (first >= alphabetSize) throw new Error('Invalid WebP prefix code');
+        lengths[first] = 1;
+        if (count === 2) {
+            const second = br.read(8);
+            if (second >= alphabetSize) throw new Error('Invalid WebP prefix code');
+            lengths[second] = 1;
+        }
+        return buildPrefixCode(lengths);
+    }
+
+    const lengthLengths = new Uint8Array(19);
+    const codeCount = br.read(4) + 4;
+    for (let i = 0; i < codeCount; i++) lengthLengths[CODE_LENGTH_ORDER[i]] = br.read(3);
+    const lengthCode = buildPrefixCode(lengthLengths);
+
+    let maxSymbol = alphabetSize;
+    if (br.read(1)) {
+        maxSymbol = 2 + br.read(2 + 2 * br.read(3));
+        if (maxSymbol > alphabetSize) throw new Error('Invalid WebP prefix code');
+    }
+    let previous = 8;
+    for (let symbol = 0; symbol < alphabetSize && maxSymbol-- > 0;) {
+        const length = readSymbol(lengthCode, br);
+        if (length < 16) {
+            lengths[symbol++] = length;
+            if (length) previous = length;
+            continue;
+        }
+        const repeat = br.read([2, 3, 7][length - 16]) + [3, 3, 11][length - 16];
+        if (symbol + repeat > alphabetSize) throw new Error('Invalid WebP prefix code');
+        lengths.fill(length === 16 ? previous : 0, symbol, symbol + repeat);
+        symbol += repeat;
+    }
+    return buildPrefixCode(lengths);
+}
+
+const subSampleSize = (size: number, bits: number) => (size + (1 << bits) - 1) >> bits;
+
+// Per-channel sum of two ARGB pixels, modulo 256
+const addPixels = (a: number, b: number) =>
+    ((((a & 0xff00ff00) + (b & 0xff00ff00)) & 0xff00ff00) | (((a & 0x00ff00ff) + (b & 0x00ff00ff)) & 0x00ff00ff)) >>> 0;
+
+const average2 = (a: number, b: number) => ((((a ^ b) & 0xfefefefe) >>> 1) + (a & b)) >>> 0;
+
+function mapChannels(a: number, b: number, c: number, fn: (a: number, b: number, c: number) => number) {
+    let out = 0;
+    for (let shift = 0; shift < 32; shift += 8) {
+        out |= fn((a >>> shift) & 0xff, (b >>> shift) & 0xff, (c >>> shift) & 0xff) << shift;
+    }
+    return out >>> 0;
+}
+
+function select(top: number, left: number, topLeft: number) {
+    let distance = 0;
+    for (let shift = 0; shift < 32; shift += 8) {
+        const t = (top >>> shift) & 0xff, l = (left >>> shift) & 0xff, tl = (topLeft >>> shift) & 0xff;
+        distance += Math.abs(l - tl) - Math.abs(t - tl);
+    }
+    return distance <= 0 ? top : left;
+}
+
+function predict(mode: number, left: number, top: number, topRight: number, topLeft: number) {
+    switch (mode) {
+        case 1: return left;
+        case 2: return top;
+        case 3: return topRight;
+        case 4: return topLeft;
+        case 5: return average2(average2(left, topRight), top);
+        case 6: return average2(left, topLeft);
+        case 7: return average2(left, top);
+        case 8: return average2(topLeft, top);
+        case 9: return average2(top, topRight);
+        case 10: return average2(average2(left, topLeft), average2(top, topRight));
+        case 11: return select(top, left, topLeft);
+        case 12: return mapChannels(left, top, topLeft, (l, t, tl) => clip255(l + t - tl));
+        case 13: return mapChannels(average2(left, top), topLeft, 0, (a, b) => clip255(a + Math.trunc((a - b) / 2)));
+        default: return 0xff000000;
+    }
+}
+
+const PREDICTOR_TRANSFORM = 0, CROSS_COLOR_TRANSFORM = 1, SUBTRACT_GREEN_TRANSFORM = 2, COLOR_INDEXING_TRANSFORM = 3;
+
+interface Transform {
+    type: number;
+    bits: number;
+    width: number; // Of the image the transform produces
+    data: Uint32Array | null;
+}
+
+function copyDistance(symbol: number, br: BitReader) {
+    if (symbol < 4) return symbol + 1;
+    const extraBits = (symbol - 2) >> 1;
+    const offset = (2 + (symbol & 1)) << extraBits;
+    return offset + br.read(extraBits) + 1;
+}
+
+function planeCodeToDistance(width: number, code: number) {
+    if (code > 120) return code - 120;
+    const distanceCode = CODE_TO_PLANE[code - 1];
+    const distance = (distanceCode >> 4) * width + (8 - (distanceCode & 0xf));
+    return distance >= 1 ? distance : 1;
+}
+
+// An ARGB image of the lossless format; only the main image (level 0) has transforms and an entropy image
+function decodeImageStream(br: BitReader, width: number, height: number, isLevel0: boolean): Uint32Array {
+    const transforms: Transform[] = [];
+    let codedWidth = width;
+    if (isLevel0) {
+        while (br.read(1)) {
+            const type = br.read(2);
+            if (transforms.some(t => t.type === type)) throw new Error('Invalid WebP transform');
+            if (type === PREDICTOR_TRANSFORM || type === CROSS_COLOR_TRANSFORM) {
+                const bits = br.read(3) + 2;
+                const data = decodeImageStream(br, subSampleSize(codedWidth, bits), subSampleSize(height, bits), false);
+                transforms.push({ type, bits, width: codedWidth, data });
+            } else if (type === COLOR_INDEXING_TRANSFORM) {
+                const colorCount = br.read(8) + 1;
+                const bits = colorCount > 16 ? 0 : colorCount > 4 ? 1 : colorCount > 2 ? 2 : 3;
+                const deltas = decodeImageStream(br, colorCount, 1, false);
+                const palette = new Uint32Array(256); // Indexes past the palette are transparent black
+                palette[0] = deltas[0];
+                for (let i = 1; i < colorCount; i++) palette[i] = addPixels(deltas[i], palette[i - 1]);
+                transforms.push({ type, bits, width: codedWidth, data: palette });
+                codedWidth = subSampleSize(codedWidth, bits);
+            } else {
+                transforms.push({ type, bits: 0, width: codedWidth, data: null });
+            }
+        }
+    }
+
+    let cacheBits = 0;
+    if (br.read(1)) {
+        cacheBits = br.read(4);
+        if (cacheBits < 1 || cacheBits > 11) throw new Error('Invalid WebP color cache');
+    }
+
+    // Groups of five prefix codes (green and lengths, red, blue, alpha, distance); an entropy image
+    // picks the group for each tile
+    let entropyBits = 0;
+    let entropyImage: Uint32Array | null = null;
+    let groupCount = 1;
+    if (isLevel0 && br.read(1)) {
+        entropyBits = br.read(3) + 2;
+        entropyImage = decodeImageStream(br, subSampleSize(codedWidth, entropyBits), subSampleSize(height, entropyBits), false);
+        for (let i = 0; i < entropyImage.length; i++) {
+            entropyImage[i] = (entropyImage[i] >> 8) & 0xffff;
+            groupCount = Math.max(groupCount, entropyImage[i] + 1);
+        }
+    }
+    const alphabetSizes = [256 + 24 + (cacheBits ? 1 << cacheBits : 0), 256, 256, 256, 40];
+    const groups: PrefixCode[][] = [];
+    for (let g = 0; g < groupCount; g++) {
+        groups.push(alphabetSizes.map(size => readPrefixCode(br, size)));
+    }
+
+    const pixels = decodePixels(br, codedWidth, height, groups, entropyImage, entropyBits, cacheBits);
+
+    let image = pixels;
+    for (let i = transforms.length - 1; i >= 0; i--) {
+        image = inverseTransform(transforms[i], image, height);
+    }
+    return image;
+}
+
+function decodePixels(br: BitReader, width: number, height: number, groups: PrefixCode[][],
+    entropyImage: Uint32Array | null, entropyBits: number, cacheBits: number) {
+    const total = width * height;
+    const pixels = new Uint32Array(total);
+    const cache = cacheBits ? new Uint32Array(1 << cacheBits) : null;
+    const cacheShift = 32 - cacheBits;
+    const tilesPerRow = subSampleSize(width, entropyBits);
+    const groupAt = (x: number, y: number) =>
+        entropyImage ? groups[entropyImage[(y >> entropyBits) * tilesPerRow + (x >> entropyBits)]] : groups[0];
+
+    let pos = 0, x = 0, y = 0;
+    while (pos < total) {
+        const group = groupAt(x, y);
+        const code = readSymbol(group[0], br);
+        let count = 1;
+        if (code < 256) {
+            const red = readSymbol(group[1], br), blue = readSymbol(group[2], br), alpha = readSymbol(group[3], br);
+            pixels[pos] = ((alpha << 24) | (red << 16) | (code << 8) | blue) >>> 0;
+        } else if (code < 256 + 24) {
+            count = copyDistance(code - 256, br);
+            const distance = planeCodeToDistance(width, copyDistance(readSymbol(group[4], br), br));
+            if (distance > pos || pos + count > total) throw new Error('Invalid WebP backward reference');
+            for (let i = 0; i < count; i++) pixels[pos + i] = pixels[pos + i - distance];
+        } else {
+            if (!cache || code - 280 >= cache.length) throw new Error('Invalid WebP color cache index');
+            pixels[pos] = cache[code - 280];
+        }
+        if (cache) {
+            for (let i = pos; i < pos + count; i++) cache[Math.imul(pixels[i], 0x1e35a7bd) >>> cacheShift] = pixels[i];
+        }
+        pos += count;
+        x += count;
+        while (x >= width) {
+            x -= width;
+            y++;
+        }
+    }
+    return pixels;
+}
+
+function inverseTransform(transform: Transform, pixels: Uint32Array, height: number): Uint32Array {
+    const { width, bits, data } = transform;
+    switch (transform.type) {
+        case SUBTRACT_GREEN_TRANSFORM:
+            for (let i = 0; i < pixels.length; i++) {
+                const green = (pixels[i] >> 8) & 0xff;
+                pixels[i] = addPixels(pixels[i], (green << 16) | green);
+            }
+            return pixels;
+
+        case PREDICTOR_TRANSFORM: {
+            const tilesPerRow = subSampleSize(width, bits);
+            for (let y = 0; y < height; y++) {
+                for (let x = 0; x < width; x++) {
+                    const i = y * width + x;
+                    let pred: number;
+                    if (y === 0) pred = x === 0 ? 0xff000000 : pixels[i - 1];
+                    else if (x === 0) pred = pixels[i - width];
+                    else {
+                        const mode = (data![(y >> bits) * tilesPerRow + (x >> bits)] >> 8) & 0xf;
+                        // On the last column the pixel "above right" is the first of the current row
+                        pred = predict(mode, pixels[i - 1], pixels[i - width], pixels[i - width + 1], pixels[i - width - 1]);
+                    }
+                    pixels[i] = addPixels(pixels[i], pred);
+                }
+            }
+            return pixels;
+        }
+
+        case CROSS_COLOR_TRANSFORM: {
+            const tilesPerRow = subSampleSize(width, bits);
+            const delta = (pred: number, color: number) => (((pred << 24) >> 24) * ((color << 24) >> 24)) >> 5;
+            for (let y = 0; y < height; y++) {
+                for (let x = 0; x < width; x++) {
+                    const i = y * width + x;
+                    const m = data![(y >> bits) * tilesPerRow + (x >> bits)];
+                    const argb = pixels[i];
+                    const green = (argb >> 8) & 0xff;
+                    const red = (((argb >> 16) & 0xff) + delta(m & 0xff, green)) & 0xff;
+                    const blue = ((argb & 0xff) + delta((m >> 8) & 0xff, green) + delta((m >> 16) & 0xff, red)) & 0xff;
+                    pixels[i] = ((argb & 0xff00ff00) | (red << 16) | blue) >>> 0;
+                }
+            }
+            return pixels;
+        }
+
+        default: {
+            // Color indexing: indexes into the palette, several to a pixel for small palettes
+            const packedWidth = subSampleSize(width, bits);
+            const perPixel = 1 << bits, bitsPerIndex = 8 >> bits, mask = (1 << bitsPerIndex) - 1;
+            const out = new Uint32Array(width * height);
+            for (let y = 0; y < height; y++) {
+                for (let x = 0; x < width; x++) {
+                    const packed = (pixels[y * packedWidth + (x >> bits)] >> 8) & 0xff;
+                    out[y * width + x] = data![(packed >> ((x & (perPixel - 1)) * bitsPerIndex)) & mask];
+                }
+            }
+            return out;
+        }
+    }
+}
+
+function decodeLossless(data: Uint8Array, maxPixels: number): RgbaImage {
+    if (data[0] !== 0x2f) throw new Error('Invalid VP8L signature');
+    const br = new BitReader(data, 1);
+    const width = br.read(14) + 1;
+    const height = br.read(14) + 1;
+    br.read(1); // Alpha hint
+    if (br.read(3) !== 0) throw new Error('Unsupported VP8L version');
+    assertSize(width, height, maxPixels);
+
+    const argb = decodeImageStream(br, width, height, true);
+    const rgba = new Uint8Array(width * height * 4);
+    for (let i = 0; i < argb.length; i++) {
+        const pixel = argb[i];
+        rgba[i * 4] = (pixel >> 16) & 0xff;
+        rgba[i * 4 + 1] = (pixel >> 8) & 0xff;
+        rgba[i * 4 + 2] = pixel & 0xff;
+        rgba[i * 4 + 3] = pixel >>> 24;
+    }
+    return { width, height, data: rgba };
+}
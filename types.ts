@@ -11,6 +11,12 @@ export interface User {
   role: UserRole;
   storageLimitBytes: number;
   usedStorageBytes?: number;
+  mustChangePassword?: boolean; // The password predates the strength rules; only the password change works until it is replaced
+  twoFactorEnabled?: boolean; // Only in the admin user list
+  lockedUntil?: number | null; // Only in the admin user list: sign-in lockout end time
+  twoFactorSetupRequired?: boolean; // Admin policy requires 2FA but it is not set up yet
+  authProvider?: string; // 'local' for password accounts, otherwise the directory that signs the user in (e.g. 'ldap')
+  versionLimit?: number; // Only in the admin user list: earlier versions kept per file
 }
 
 export interface FileNode {
@@ -19,10 +25,76 @@ export interface FileNode {
   ownerId: string;
   name: string;
   type: 'file' | 'folder';
-  size: number;
+  size: number; // Folders: all files below them, at any depth
+  fileCount?: number; // Folders only, at any depth like size
+  folderCount?: number;
   content?: string; // For text files or base64 data (mock storage)
   mimeType?: string;
   createdAt: number;
+  tags?: string[]; // Ids of the owner's tags on this node
+  starred?: boolean; // Starred by the current user
+}
+
+// Orders of the drive listings, which the server sorts
+export type ListingSort = 'name' | 'size' | 'createdAt' | 'type';
+
+export interface ListingSortState {
+  key: ListingSort;
+  direction: 'asc' | 'desc';
+}
+
+// A folder on the way to the current one, for breadcrumbs
+export interface FolderPathEntry {
+  id: string;
+  name: string;
+  parentId: string | null;
+}
+
+// Signed, short-lived URLs for the browser to open one node directly
+export interface DownloadLink {
+  url: string; // Download (a ZIP for folders)
+  streamUrl?: string; // Files only: shown in place, for players and previews
+  expiresAt: number;
+}
+
+// A change pushed by the server over /api/events
+export type DriveChangeType = 'created' | 'updated' | 'renamed' | 'moved' | 'deleted' | 'changed' | 'shared' | 'unshared';
+
+export interface DriveChange {
+  type: DriveChangeType;
+  nodeId: string | null;
+  folderId: string | null; // Where the node is now; the folder itself for 'changed'
+  fromFolderId?: string | null; // 'moved' only
+  node?: FileNode; // Not sent for deletions
+  folders: { id: string; size: number; fileCount: number; folderCount: number }[]; // New totals of the folders above
+}
+
+export type RecentAction = 'open' | 'upload' | 'edit';
+
+// An entry of the Starred or Recent view; those mix own nodes with nodes shared with us
+export interface QuickAccessItem extends FileNode {
+  sharedBy: { id: string; username: string } | null; // The owner, for nodes of other users
+  starredAt?: number; // Starred view
+  lastAction?: RecentAction; // Recent view
+  lastActionAt?: number;
+}
+
+export type TagColor = 'gray' | 'red' | 'orange' | 'yellow' | 'green' | 'teal' | 'blue' | 'indigo' | 'purple' | 'pink';
+
+export interface Tag {
+  id: string;
+  name: string;
+  color: TagColor;
+  itemCount?: number; // Nodes carrying the tag, in the tag list
+  createdAt: number;
+}
+
+export interface FileVersion {
+  id: string;
+  size: number;
+  mimeType: string | null;
+  uploadedAt: number;
+  uploadedBy: string | null;
 }
 
 export interface SharedItem extends FileNode {
@@ -34,6 +106,96 @@ export interface SharedItem extends FileNode {
   sharedAt: number;
 }
 
+export type ApiTokenScope = 'read' | 'upload' | 'full';
+
+export interface ApiToken {
+  id: string;
+  name: string;
+  scope: ApiTokenScope;
+  createdAt: number;
+  lastUsedAt: number | null;
+  token?: string; // Plain value, only present right after creation
+}
+
+export interface UserSession {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: number;
+  lastSeenAt: number;
+  expiresAt: number;
+  current: boolean;
+}
+
+export interface AuditEvent {
+  id: string;
+  createdAt: number;
+  actorId: string | null;
+  actorEmail: string | null;
+  action: string;
+  targetType: string | null;
+  targetId: string | null;
+  targetName: string | null;
+  oldPath: string | null;
+  newPath: string | null;
+  ipAddress: string | null;
+  details: Record<string, any> | null;
+}
+
+export interface TrashItem {
+  id: string;
+  name: string;
+  type: 'file' | 'folder';
+  size: number;
+  itemCount: number; // Files and folders in the deleted subtree, including the item itself
+  originalPath: string;
+  deletedAt: number;
+  purgeAt: number | null; // null when automatic purging is disabled
+}
+
+// 'blobs' stores each distinct file content once and makes copies metadata-only
+export type StorageMode = 'files' | 'blobs';
+
+export interface BlobStoreStats {
+  blobCount: number;
+  storedBytes: number; // On disk in the blob store
+  logicalBytes: number; // Sum of the sizes of all files pointing at it
+}
+
+// How an upload, copy, move or save resolves a name that is already taken in the target folder
+export type ConflictPolicy = 'replace' | 'keep-both' | 'skip' | 'merge';
+
+export interface NameConflict {
+  name: string;
+  type: 'file' | 'folder';
+  existingId: string;
+  existingType: 'file' | 'folder';
+}
+
+export interface SearchFilters {
+  type?: 'file' | 'folder';
+  mime?: string; // "image" for the family or "image/png" exactly
+  minSize?: number;
+  maxSize?: number;
+  from?: number; // Last modified, ms
+  to?: number;
+  owner?: string; // 'me' or the id of a user who shared with us
+  sharedWithMe?: boolean;
+}
+
+export interface SearchResult extends FileNode {
+  modifiedAt: number;
+  path: string; // "/Docs/notes.md"; for shared items starting at the shared folder
+  folderId: string | null; // Folder to open for the result; null is the drive root or the shared list
+  // Matched words are wrapped in \u0002 ... \u0003
+  highlights: {
+    name: string;
+    path: string;
+    snippet: string | null; // Text around a match in the file content
+  };
+  sharedBy: { id: string; username: string } | null;
+}
+
 export interface AuthState {
   user: User | null;
   isAuthenticated: boolean;
@@ -63,4 +225,5 @@ export interface TransferItem {
   parentId?: string;
   startTime?: number;
   speed?: number; // bytes per second
+  onConflict?: ConflictPolicy; // Chosen before the upload started; the server default otherwise
 }
\ No newline at end of file
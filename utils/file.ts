@@ -1,3 +1,4 @@
+import { FileNode, ListingSortState } from '../types';
 
 // Helper to recursively scan DataTransferItem
 // Returns a flat list of files with their relative paths
@@ -63,3 +64,23 @@ export const scanDroppedItems = async (items: DataTransferItemList): Promise<Fil
     await Promise.all(promises);
     return entries;
 };
+
+// The order of the drive listings, as the server sorts them (names compare case-insensitively, and
+// the id settles ties), for lists sorted here and for nodes put into a loaded page
+export const compareNodes = (a: FileNode, b: FileNode, sort: ListingSortState) => {
+    const byText = (x: string, y: string) => x < y ? -1 : x > y ? 1 : 0;
+    const byName = () => byText(a.name.toLowerCase(), b.name.toLowerCase());
+    const compare = () => {
+        switch (sort.key) {
+            case 'size': return a.size - b.size || byName();
+            case 'createdAt': return a.createdAt - b.createdAt;
+            case 'type': return (a.type === b.type ? 0 : a.type === 'folder' ? -1 : 1) || byName();
+            default: return byName();
+        }
+    };
+    const result = compare() || byText(a.id, b.id);
+    return sort.direction === 'asc' ? result : -result;
+};
+
+export const sortNodes = <T extends FileNode>(list: T[], sort: ListingSortState) =>
+    [...list].sort((a, b) => compareNodes(a, b, sort));
@@ -10,6 +10,15 @@ export const formatBytes = (bytes: number, decimals = 2) => {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(dm)) + ' ' + sizes[i];
 };
 
+// "3 files, 1 folder" for what a folder holds
+export const formatItemCount = (fileCount: number, folderCount: number) => {
+  if (fileCount === 0 && folderCount === 0) return 'Empty';
+  const parts = [];
+  if (fileCount > 0) parts.push(`${fileCount} ${fileCount === 1 ? 'file' : 'files'}`);
+  if (folderCount > 0) parts.push(`${folderCount} ${folderCount === 1 ? 'folder' : 'folders'}`);
+  return parts.join(', ');
+};
+
 export const formatDate = (timestamp: number) => {
   return new Date(timestamp).toLocaleDateString('en-US', {
     year: 'numeric',
@@ -17,3 +26,37 @@ export const formatDate = (timestamp: number) => {
     day: 'numeric',
   });
 };
+
+export const formatDateTime = (timestamp: number) => {
+  return new Date(timestamp).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+// Short "Browser on OS" label for a user-agent string
+export const formatUserAgent = (userAgent: string | null) => {
+  if (!userAgent) return 'Unknown device';
+
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge' :
+    /OPR\//.test(userAgent) ? 'Opera' :
+    /Firefox\//.test(userAgent) ? 'Firefox' :
+    /Chrome\//.test(userAgent) ? 'Chrome' :
+    /Safari\//.test(userAgent) ? 'Safari' :
+    /curl\//.test(userAgent) ? 'curl' :
+    'Unknown browser';
+
+  const os =
+    /Windows/.test(userAgent) ? 'Windows' :
+    /Android/.test(userAgent) ? 'Android' :
+    /iPhone|iPad/.test(userAgent) ? 'iOS' :
+    /Mac OS X/.test(userAgent) ? 'macOS' :
+    /Linux/.test(userAgent) ? 'Linux' :
+    null;
+
+  return os ? `${browser} on ${os}` : browser;
+};
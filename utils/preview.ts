@@ -0,0 +1,83 @@
+import { FileNode } from '../types';
+
+// How the preview panel shows a file
+export type PreviewKind = 'image' | 'pdf' | 'audio' | 'video' | 'markdown' | 'code' | 'text' | 'none';
+
+// Text files are shown up to this size; the rest is cut off with a note
+export const MAX_TEXT_PREVIEW_BYTES = 1024 * 1024;
+
+// highlight.js languages by file extension. Browsers send odd types for many of these
+// (.ts as video/mp2t, most others as application/octet-stream), so the name wins over the type.
+const CODE_EXTENSIONS: Record<string, string> = {
+    ts: 'typescript', tsx: 'typescript', mts: 'typescript', cts: 'typescript',
+    js: 'javascript', jsx: 'javascript', mjs: 'javascript', cjs: 'javascript',
+    json: 'json', html: 'xml', htm: 'xml', xml: 'xml',
+    css: 'css', scss: 'scss', less: 'less',
+    py: 'python', rb: 'ruby', php: 'php', java: 'java', kt: 'kotlin', kts: 'kotlin', swift: 'swift',
+    go: 'go', rs: 'rust', c: 'c', h: 'c', cpp: 'cpp', cc: 'cpp', hpp: 'cpp', cs: 'csharp', m: 'objectivec',
+    lua: 'lua', pl: 'perl', r: 'r', vb: 'vbnet', sql: 'sql', graphql: 'graphql', gql: 'graphql',
+    sh: 'bash', bash: 'bash', zsh: 'bash', ps1: 'shell',
+    yml: 'yaml', yaml: 'yaml', ini: 'ini', toml: 'ini', conf: 'ini', env: 'ini',
+    diff: 'diff', patch: 'diff', wat: 'wasm'
+};
+
+const CODE_FILE_NAMES: Record<string, string> = { makefile: 'makefile', dockerfile: 'bash' };
+
+const MARKDOWN_EXTENSIONS = ['md', 'markdown', 'mdown', 'mkd'];
+
+// Plain text by extension, for files uploaded without a text type
+const TEXT_EXTENSIONS = ['txt', 'log', 'csv', 'tsv', 'text'];
+
+// Text types outside text/*, with their language where there is one
+const TEXT_TYPES: Record<string, string | null> = {
+    'application/json': 'json',
+    'application/ld+json': 'json',
+    'application/javascript': 'javascript',
+    'application/typescript': 'typescript',
+    'application/xml': 'xml',
+    'application/x-sh': 'bash',
+    'application/sql': 'sql',
+    'application/yaml': 'yaml',
+    'application/x-yaml': 'yaml',
+    'application/x-ndjson': null
+};
+
+const TEXT_SUBTYPE_LANGUAGES: Record<string, string> = {
+    html: 'xml', xml: 'xml', css: 'css', javascript: 'javascript', 'x-python': 'python',
+    'x-c': 'c', 'x-java-source': 'java', yaml: 'yaml', 'x-sh': 'bash'
+};
+
+const getExtension = (name: string) => {
+    const dot = name.lastIndexOf('.');
+    return dot > 0 ? name.slice(dot + 1).toLowerCase() : '';
+};
+
+// The highlight.js language for a code file, or null for other files
+export const getCodeLanguage = (node: FileNode): string | null => {
+    const extension = getExtension(node.name);
+    if (Object.hasOwn(CODE_EXTENSIONS, extension)) return CODE_EXTENSIONS[extension];
+    if (Object.hasOwn(CODE_FILE_NAMES, node.name.toLowerCase())) return CODE_FILE_NAMES[node.name.toLowerCase()];
+
+    const mimeType = (node.mimeType || '').split(';')[0].trim().toLowerCase();
+    if (Object.hasOwn(TEXT_TYPES, mimeType)) return TEXT_TYPES[mimeType];
+    if (mimeType.startsWith('text/')) {
+        const subtype = mimeType.slice(5);
+        return Object.hasOwn(TEXT_SUBTYPE_LANGUAGES, subtype) ? TEXT_SUBTYPE_LANGUAGES[subtype] : null;
+    }
+    return null;
+};
+
+export const getPreviewKind = (node: FileNode): PreviewKind => {
+    if (node.type !== 'file') return 'none';
+    const extension = getExtension(node.name);
+    const mimeType = (node.mimeType || '').split(';')[0].trim().toLowerCase();
+
+    if (MARKDOWN_EXTENSIONS.includes(extension) || mimeType === 'text/markdown' || mimeType === 'text/x-markdown') return 'markdown';
+    if (getCodeLanguage(node)) return 'code';
+    if (mimeType.startsWith('image/')) return 'image';
+    if (mimeType === 'application/pdf') return 'pdf';
+    if (mimeType.startsWith('audio/')) return 'audio';
+    if (mimeType.startsWith('video/')) return 'video';
+    if (mimeType.startsWith('text/') || Object.hasOwn(TEXT_TYPES, mimeType) || TEXT_EXTENSIONS.includes(extension)) return 'text';
+    return 'none';
+};
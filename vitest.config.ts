@@ -0,0 +1,13 @@
+import { defineConfig } from 'vitest/config';
+
+// Each test file runs in a process of its own: the server tests change the working directory, where
+// the API keeps its database and uploads
+export default defineConfig({
+    test: {
+        include: ['server/test/**/*.test.ts'],
+        pool: 'forks',
+        fileParallelism: false,
+        testTimeout: 30000,
+        hookTimeout: 60000
+    }
+});